@@ -12,6 +12,11 @@
  *   POST /api/upload      - Upload video files
  *   POST /api/execute     - Queue FFmpeg job (returns immediately)
  *   POST /api/execute-plan - Queue ExecutionPlan job
+ *   POST /api/analysis/align-words - Word timings for VideoAnalysis transcripts
+ *   POST /api/analysis/signals - VideoAnalysis from scene cuts, silence and loudness
+ *   POST /api/analysis/reframe - Subject position per shot for aspect ratio reframing
+ *   GET  /api/music/tracks - Music library tracks with cached beat analysis
+ *   POST /api/music/analyze - Tempo, beats, downbeats and energy sections of a track
  *   GET  /api/jobs/:id    - Check job status
  */
 
@@ -53,6 +58,11 @@ import { JobQueueManager } from './job-queue.js';
 import { compileRenderPlan } from './render-plan.js';
 import { detectEngineCapabilities, getRecommendedEncoders } from './engine-utils.js';
 import { decideExecution } from './decision-layer.js';
+import { alignSegmentWords } from './word-aligner.js';
+import { analyzeVideoSignals } from './video-analyzer.js';
+import { analyzeSubject } from './reframe-analyzer.js';
+import { MUSIC_DIR, listTracks, analyzeTrack } from './music-library.js';
+import { analyzeMusic } from './music-analyzer.js';
 
 // UGC Decision-First Architecture Imports
 import { normalizeError, errorResponse } from './ugc/error-normalizer.js';
@@ -532,6 +542,7 @@ app.post('/api/upload', (req, res) => {
 
 // Serve uploads statically to ensure access if Nginx config is tricky
 app.use('/uploads', express.static(UPLOAD_DIR));
+app.use('/music', express.static(MUSIC_DIR, { dotfiles: 'ignore' }));
 
 
 // ============================================
@@ -655,6 +666,30 @@ async function downloadRemoteFile(url, jobId) {
   }
 }
 
+/**
+ * Run fn(localPath) on a local copy of the source. A sourcePath is used in
+ * place; a sourceUrl is downloaded to TEMP_DIR and removed once fn settles.
+ * Throws INVALID_PATH when sourcePath is outside the allowed dirs or missing.
+ */
+async function withLocalSource({ sourcePath, sourceUrl, tempPrefix }, fn) {
+  if (sourcePath) {
+    const localPath = sanitizePath(sourcePath);
+    if (!localPath || !fs.existsSync(localPath)) {
+      const err = new Error('Invalid or inaccessible source path');
+      err.code = 'INVALID_PATH';
+      throw err;
+    }
+    return fn(localPath);
+  }
+
+  const localPath = await downloadRemoteFile(sourceUrl, `${tempPrefix}_${generateFileId()}`);
+  try {
+    return await fn(localPath);
+  } finally {
+    fs.promises.unlink(localPath).catch(() => { });
+  }
+}
+
 // ============================================
 // JOB PROCESSOR
 // ============================================
@@ -2517,6 +2552,179 @@ async function handleExecutePlan(req, res) {
 // POST /api/execute-plan
 app.post('/api/execute-plan', handleExecutePlan);
 
+// ============================================
+// WORD ALIGNMENT (Offline, runs on this server)
+// ============================================
+
+// POST /api/analysis/align-words
+app.post('/api/analysis/align-words', async (req, res) => {
+  if (!FFMPEG_AVAILABLE) {
+    return jsonError(res, 503, 'FFMPEG_UNAVAILABLE', 'FFmpeg binary not available on server');
+  }
+
+  const { analysis, sourceVideoUrl, sourcePath } = req.body;
+
+  if (!analysis || !Array.isArray(analysis.segments)) {
+    return jsonError(res, 400, 'MISSING_PARAMS', 'analysis with segments is required');
+  }
+
+  if (!sourceVideoUrl && !sourcePath) {
+    return jsonError(res, 400, 'MISSING_SOURCE', 'Either sourceVideoUrl or sourcePath is required');
+  }
+
+  try {
+    const { words, stats } = await withLocalSource(
+      { sourcePath, sourceUrl: sourceVideoUrl, tempPrefix: 'align' },
+      localPath => alignSegmentWords(localPath, analysis.segments)
+    );
+    console.log(`[Align] ${analysis.id || 'analysis'}: ${words.length} words, ${stats.segments_aligned} segments`);
+
+    res.json({ ok: true, analysisId: analysis.id || null, words, stats });
+  } catch (err) {
+    if (err.code === 'INVALID_PATH') {
+      return jsonError(res, 400, err.code, err.message);
+    }
+    console.error('[Align] Failed:', err);
+    return jsonError(res, 500, 'ALIGNMENT_FAILED', err.message);
+  }
+});
+
+// ============================================
+// SIGNAL ANALYSIS (Offline, runs on this server)
+// ============================================
+
+// POST /api/analysis/signals
+app.post('/api/analysis/signals', async (req, res) => {
+  if (!FFMPEG_AVAILABLE) {
+    return jsonError(res, 503, 'FFMPEG_UNAVAILABLE', 'FFmpeg binary not available on server');
+  }
+
+  const { sourceVideoUrl, sourcePath, videoId, language, analysisId } = req.body;
+
+  if (!videoId) {
+    return jsonError(res, 400, 'MISSING_PARAMS', 'videoId is required');
+  }
+
+  if (!sourceVideoUrl && !sourcePath) {
+    return jsonError(res, 400, 'MISSING_SOURCE', 'Either sourceVideoUrl or sourcePath is required');
+  }
+
+  try {
+    const { analysis, signals } = await withLocalSource(
+      { sourcePath, sourceUrl: sourceVideoUrl, tempPrefix: 'signals' },
+      localPath => analyzeVideoSignals(localPath, {
+        sourceVideoId: videoId,
+        language,
+        analysisId
+      })
+    );
+    console.log(`[Signals] ${videoId}: ${analysis.segments.length} segments, ${signals.scene_cuts_ms.length} cuts`);
+
+    res.json({ ok: true, analysis, signals });
+  } catch (err) {
+    if (err.code === 'INVALID_PATH') {
+      return jsonError(res, 400, err.code, err.message);
+    }
+    console.error('[Signals] Failed:', err);
+    return jsonError(res, 500, 'ANALYSIS_FAILED', err.message);
+  }
+});
+
+// ============================================
+// REFRAME ANALYSIS (Subject tracking for multi-ratio export)
+// ============================================
+
+// POST /api/analysis/reframe
+app.post('/api/analysis/reframe', async (req, res) => {
+  if (!FFMPEG_AVAILABLE) {
+    return jsonError(res, 503, 'FFMPEG_UNAVAILABLE', 'FFmpeg binary not available on server');
+  }
+
+  const { sourceVideoUrl, sourcePath, videoId } = req.body;
+
+  if (!videoId) {
+    return jsonError(res, 400, 'MISSING_PARAMS', 'videoId is required');
+  }
+
+  if (!sourceVideoUrl && !sourcePath) {
+    return jsonError(res, 400, 'MISSING_SOURCE', 'Either sourceVideoUrl or sourcePath is required');
+  }
+
+  try {
+    const track = await withLocalSource(
+      { sourcePath, sourceUrl: sourceVideoUrl, tempPrefix: 'reframe' },
+      localPath => analyzeSubject(localPath, { videoId })
+    );
+    console.log(`[Reframe] ${videoId}: ${track.shots.length} shots, ${track.samples.length} samples`);
+
+    res.json({ ok: true, track });
+  } catch (err) {
+    if (err.code === 'INVALID_PATH') {
+      return jsonError(res, 400, err.code, err.message);
+    }
+    console.error('[Reframe] Failed:', err);
+    return jsonError(res, 500, 'ANALYSIS_FAILED', err.message);
+  }
+});
+
+// ============================================
+// MUSIC LIBRARY (Beat analysis for cut sync)
+// ============================================
+
+// GET /api/music/tracks
+app.get('/api/music/tracks', (req, res) => {
+  try {
+    res.json({ ok: true, tracks: listTracks() });
+  } catch (err) {
+    console.error('[Music] List failed:', err);
+    return jsonError(res, 500, 'MUSIC_LIST_FAILED', err.message);
+  }
+});
+
+// POST /api/music/analyze
+app.post('/api/music/analyze', async (req, res) => {
+  if (!FFMPEG_AVAILABLE) {
+    return jsonError(res, 503, 'FFMPEG_UNAVAILABLE', 'FFmpeg binary not available on server');
+  }
+
+  const { trackId, sourcePath, sourceUrl, force } = req.body;
+
+  if (!trackId && !sourcePath && !sourceUrl) {
+    return jsonError(res, 400, 'MISSING_SOURCE', 'One of trackId, sourcePath or sourceUrl is required');
+  }
+
+  // Library tracks: cached next to the file
+  if (trackId) {
+    try {
+      const track = await analyzeTrack(trackId, { force: Boolean(force) });
+      if (!track) {
+        return jsonError(res, 404, 'TRACK_NOT_FOUND', `Music track not found: ${trackId}`);
+      }
+      console.log(`[Music] ${trackId}: ${track.analysis.bpm} BPM, ${track.analysis.beats_ms.length} beats`);
+      return res.json({ ok: true, track, analysis: track.analysis });
+    } catch (err) {
+      console.error('[Music] Failed:', err);
+      return jsonError(res, 500, 'ANALYSIS_FAILED', err.message);
+    }
+  }
+
+  try {
+    const analysis = await withLocalSource(
+      { sourcePath, sourceUrl, tempPrefix: 'music' },
+      localPath => analyzeMusic(localPath, { trackId: path.basename((sourcePath || sourceUrl).split('?')[0]) })
+    );
+    console.log(`[Music] ${analysis.track_id}: ${analysis.bpm} BPM, ${analysis.beats_ms.length} beats`);
+
+    res.json({ ok: true, analysis });
+  } catch (err) {
+    if (err.code === 'INVALID_PATH') {
+      return jsonError(res, 400, err.code, err.message);
+    }
+    console.error('[Music] Failed:', err);
+    return jsonError(res, 500, 'ANALYSIS_FAILED', err.message);
+  }
+});
+
 // ============================================
 // SHARED RENDER/JOBS CONTRACT (Frontend Support)
 // Handles both /api/jobs and /render/jobs
@@ -41,6 +41,35 @@ export function parseFFmpegError(stderr) {
         };
     }
 
+    // Network errors reading remote inputs (checked before format errors:
+    // a dropped download often ends in "invalid data" as well)
+    if (stderrLower.includes('connection refused')) {
+        return {
+            category: 'NETWORK_ERROR',
+            code: 'NETWORK_CONNECTION_REFUSED',
+            message: 'Connection refused by remote server',
+            details: extractLastError(stderr)
+        };
+    }
+
+    if (stderrLower.includes('connection timed out') || stderrLower.includes('operation timed out')) {
+        return {
+            category: 'NETWORK_ERROR',
+            code: 'NETWORK_TIMEOUT',
+            message: 'Network request timed out',
+            details: extractLastError(stderr)
+        };
+    }
+
+    if (stderrLower.includes('connection reset') || /server returned 5\d\d/.test(stderrLower)) {
+        return {
+            category: 'NETWORK_ERROR',
+            code: 'NETWORK_DOWNLOAD_FAILED',
+            message: 'Failed to download remote asset',
+            details: extractLastError(stderr)
+        };
+    }
+
     // Format errors
     if (stderrLower.includes('invalid data') || stderrLower.includes('invalid file') || stderrLower.includes('moov atom not found')) {
         return {
@@ -0,0 +1,447 @@
+import { spawn } from 'child_process';
+
+/**
+ * MUSIC ANALYZER
+ * Tempo, beats, downbeats, onsets and energy sections of a local audio file.
+ *
+ * - ffmpeg decodes to mono 22.05 kHz float PCM
+ * - Onset envelope: log-magnitude spectral flux (1024 window, 512 hop),
+ *   minus its local mean. A second, low-band (<150 Hz) flux is kept as the
+ *   kick/bass accent used for downbeats.
+ * - Tempo: envelope autocorrelation weighted towards 120 BPM
+ * - Beats: dynamic programming beat tracker (Ellis 2007)
+ * - Downbeats: 4/4 assumed; the bar phase with the strongest low-band accent
+ * - Energy sections: per-bar RMS split into low / medium / high runs
+ */
+
+const MUSIC_DEFAULTS = {
+    sampleRate: 22050,
+    windowSize: 1024,
+    hopSize: 512,
+    minBpm: 60,
+    maxBpm: 200,
+    preferredBpm: 120,
+    tempoPriorOctaves: 1,   // Width of the log-Gaussian tempo prior
+    tightness: 100,         // Beat tracker penalty for tempo deviation
+    beatsPerBar: 4,
+    onsetThreshold: 0.1,    // Over the local mean, envelope normalized to 0-1
+    minOnsetGapMs: 60,
+    lowBandHz: 150,
+    mediumEnergy: 0.45,     // Bar RMS relative to the loudest bar
+    highEnergy: 0.75,
+    minSectionBars: 2
+};
+
+const round3 = (value) => Number(value.toFixed(3));
+
+// Frames are timed at their window centre
+const frameToMs = (frame, options) =>
+    Math.round(((frame * options.hopSize + options.windowSize / 2) / options.sampleRate) * 1000);
+
+// ============================================
+// DECODE
+// ============================================
+
+/**
+ * @returns {Promise<Float32Array>} Mono samples at options.sampleRate
+ */
+export function decodeAudio(mediaPath, sampleRate = MUSIC_DEFAULTS.sampleRate) {
+    return new Promise((resolve, reject) => {
+        const child = spawn('ffmpeg', [
+            '-v', 'error',
+            '-i', mediaPath,
+            '-vn', '-ac', '1', '-ar', String(sampleRate),
+            '-f', 'f32le', 'pipe:1'
+        ]);
+        const chunks = [];
+        let stderr = '';
+        child.stdout.on('data', data => chunks.push(data));
+        child.stderr.on('data', data => { stderr += data.toString(); });
+        child.on('error', reject);
+        child.on('close', code => {
+            if (code !== 0) {
+                return reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-500)}`));
+            }
+            const buffer = Buffer.concat(chunks);
+            // Copy into an aligned buffer: Buffer.concat may return an offset slice
+            const samples = new Float32Array(Math.floor(buffer.length / 4));
+            for (let i = 0; i < samples.length; i++) samples[i] = buffer.readFloatLE(i * 4);
+            resolve(samples);
+        });
+    });
+}
+
+// ============================================
+// SPECTRAL FEATURES
+// ============================================
+
+/**
+ * In-place iterative radix-2 FFT. re/im length must be a power of two.
+ */
+function fft(re, im) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+}
+
+function movingAverage(values, radius) {
+    const out = new Float32Array(values.length);
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < values.length + radius; i++) {
+        if (i < values.length) { sum += values[i]; count++; }
+        if (i - 2 * radius - 1 >= 0) { sum -= values[i - 2 * radius - 1]; count--; }
+        const center = i - radius;
+        if (center >= 0 && center < values.length) out[center] = sum / count;
+    }
+    return out;
+}
+
+function normalizeMax(values) {
+    let max = 0;
+    for (const v of values) if (v > max) max = v;
+    if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max;
+    return values;
+}
+
+/**
+ * Per-frame onset strength, low-band accent and RMS.
+ * @param {Float32Array} samples
+ * @returns {{ onset: Float32Array, accent: Float32Array, rms: Float32Array, frameRate: number }}
+ */
+export function spectralFeatures(samples, options = MUSIC_DEFAULTS) {
+    const { sampleRate, windowSize, hopSize } = options;
+    const frames = Math.max(0, Math.floor((samples.length - windowSize) / hopSize) + 1);
+    const bins = windowSize / 2;
+    const lowBins = Math.max(1, Math.round((options.lowBandHz / sampleRate) * windowSize));
+    const window = new Float32Array(windowSize).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / windowSize));
+
+    const flux = new Float32Array(frames);
+    const lowFlux = new Float32Array(frames);
+    const rms = new Float32Array(frames);
+    let previous = new Float32Array(bins);
+    const re = new Float64Array(windowSize);
+    const im = new Float64Array(windowSize);
+
+    for (let f = 0; f < frames; f++) {
+        const offset = f * hopSize;
+        let energy = 0;
+        for (let i = 0; i < windowSize; i++) {
+            const s = samples[offset + i];
+            energy += s * s;
+            re[i] = s * window[i];
+            im[i] = 0;
+        }
+        rms[f] = Math.sqrt(energy / windowSize);
+        fft(re, im);
+
+        const magnitude = new Float32Array(bins);
+        let total = 0;
+        let low = 0;
+        for (let k = 0; k < bins; k++) {
+            magnitude[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+            const rise = magnitude[k] - previous[k];
+            if (rise > 0) {
+                total += rise;
+                if (k <= lowBins) low += rise;
+            }
+        }
+        flux[f] = f === 0 ? 0 : total;
+        lowFlux[f] = f === 0 ? 0 : low;
+        previous = magnitude;
+    }
+
+    // Remove the slowly varying part (~0.5s) so only attacks remain
+    const frameRate = sampleRate / hopSize;
+    const radius = Math.round(frameRate / 4);
+    const localMean = movingAverage(flux, radius);
+    const onset = flux.map((v, i) => Math.max(0, v - localMean[i]));
+
+    return { onset: normalizeMax(onset), accent: normalizeMax(lowFlux), rms, frameRate };
+}
+
+// ============================================
+// TEMPO & BEATS
+// ============================================
+
+/**
+ * @returns {{ bpm: number, periodFrames: number, confidence: number }}
+ */
+export function estimateTempo(onset, frameRate, options = MUSIC_DEFAULTS) {
+    const minLag = Math.floor((60 * frameRate) / options.maxBpm);
+    const maxLag = Math.min(onset.length - 1, Math.ceil((60 * frameRate) / options.minBpm));
+    if (maxLag <= minLag) return { bpm: 0, periodFrames: 0, confidence: 0 };
+
+    let zeroLag = 0;
+    for (const v of onset) zeroLag += v * v;
+    if (zeroLag === 0) return { bpm: 0, periodFrames: 0, confidence: 0 };
+
+    const acf = new Float32Array(maxLag + 2);
+    for (let lag = Math.max(1, minLag - 1); lag <= maxLag + 1 && lag < onset.length; lag++) {
+        let sum = 0;
+        for (let i = lag; i < onset.length; i++) sum += onset[i] * onset[i - lag];
+        acf[lag] = sum / zeroLag;
+    }
+
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = (60 * frameRate) / lag;
+        const octaves = Math.log2(bpm / options.preferredBpm) / options.tempoPriorOctaves;
+        const score = acf[lag] * Math.exp(-0.5 * octaves * octaves);
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    const [a, b, c] = [acf[bestLag - 1], acf[bestLag], acf[bestLag + 1]];
+    const denominator = a - 2 * b + c;
+    const shift = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+    const periodFrames = bestLag + shift;
+
+    return {
+        bpm: round3((60 * frameRate) / periodFrames),
+        periodFrames,
+        confidence: round3(Math.max(0, Math.min(1, b)))
+    };
+}
+
+/**
+ * Dynamic programming beat tracker.
+ * @returns {number[]} Beat frame indices
+ */
+export function trackBeats(onset, periodFrames, options = MUSIC_DEFAULTS) {
+    const n = onset.length;
+    if (!periodFrames || n === 0) return [];
+
+    const score = new Float32Array(n);
+    const backlink = new Int32Array(n).fill(-1);
+    const minBack = Math.max(1, Math.round(periodFrames / 2));
+    const maxBack = Math.round(periodFrames * 2);
+
+    for (let t = 0; t < n; t++) {
+        let best = 0;
+        let bestFrom = -1;
+        for (let back = minBack; back <= maxBack && t - back >= 0; back++) {
+            const deviation = Math.log(back / periodFrames);
+            const candidate = score[t - back] - options.tightness * deviation * deviation;
+            if (bestFrom === -1 || candidate > best) {
+                best = candidate;
+                bestFrom = t - back;
+            }
+        }
+        score[t] = onset[t] + (bestFrom === -1 ? 0 : Math.max(0, best));
+        if (bestFrom !== -1 && best > 0) backlink[t] = bestFrom;
+    }
+
+    // Start from the best-scoring frame in the last period
+    let last = Math.max(0, n - Math.round(periodFrames));
+    for (let t = last; t < n; t++) if (score[t] > score[last]) last = t;
+
+    const beats = [];
+    for (let t = last; t >= 0; t = backlink[t]) {
+        beats.push(t);
+        if (backlink[t] === -1) break;
+    }
+    return beats.reverse();
+}
+
+/**
+ * Bar phase whose beats carry the most low-band accent.
+ * @returns {number[]} Downbeat frame indices (a subset of beats)
+ */
+export function detectDownbeats(beats, accent, options = MUSIC_DEFAULTS) {
+    const perBar = options.beatsPerBar;
+    if (beats.length < perBar) return beats.slice(0, 1);
+
+    let bestPhase = 0;
+    let bestStrength = -1;
+    for (let phase = 0; phase < perBar; phase++) {
+        let sum = 0;
+        let count = 0;
+        for (let i = phase; i < beats.length; i += perBar) {
+            // Tracked beats can sit a frame or two off the attack
+            let peak = 0;
+            for (let f = Math.max(0, beats[i] - 2); f <= Math.min(accent.length - 1, beats[i] + 2); f++) {
+                peak = Math.max(peak, accent[f]);
+            }
+            sum += peak;
+            count++;
+        }
+        const strength = count > 0 ? sum / count : 0;
+        if (strength > bestStrength) {
+            bestStrength = strength;
+            bestPhase = phase;
+        }
+    }
+    return beats.filter((_, i) => i % perBar === bestPhase);
+}
+
+/**
+ * Local maxima of the onset envelope over the local mean.
+ * @returns {number[]} Onset frame indices
+ */
+export function pickOnsets(onset, frameRate, options = MUSIC_DEFAULTS) {
+    const radius = Math.max(1, Math.round(frameRate * 0.07));
+    const minGap = Math.max(1, Math.round((options.minOnsetGapMs / 1000) * frameRate));
+    const localMean = movingAverage(onset, Math.round(frameRate * 0.25));
+    const onsets = [];
+
+    for (let i = 0; i < onset.length; i++) {
+        if (onset[i] < localMean[i] + options.onsetThreshold) continue;
+        let isPeak = true;
+        for (let j = Math.max(0, i - radius); j <= Math.min(onset.length - 1, i + radius); j++) {
+            if (onset[j] > onset[i]) { isPeak = false; break; }
+        }
+        if (!isPeak) continue;
+        if (onsets.length > 0 && i - onsets[onsets.length - 1] < minGap) continue;
+        onsets.push(i);
+    }
+    return onsets;
+}
+
+// ============================================
+// ENERGY SECTIONS
+// ============================================
+
+/**
+ * Per-bar RMS, relative to the loudest bar, split into low / medium / high
+ * runs of at least minSectionBars bars.
+ * @returns {Array<{ start_ms, end_ms, energy, level }>}
+ */
+export function energySections(rms, downbeats, durationMs, options = MUSIC_DEFAULTS) {
+    const edges = downbeats.length >= 2
+        ? [0, ...downbeats.slice(1), rms.length]
+        : [0, rms.length];
+
+    const bars = [];
+    for (let i = 0; i < edges.length - 1; i++) {
+        const [from, to] = [edges[i], Math.max(edges[i] + 1, edges[i + 1])];
+        let sum = 0;
+        for (let f = from; f < to && f < rms.length; f++) sum += rms[f] * rms[f];
+        bars.push({ from, to, energy: Math.sqrt(sum / Math.max(1, to - from)) });
+    }
+    if (bars.length === 0) return [];
+
+    const peak = Math.max(...bars.map(b => b.energy)) || 1;
+    const levelOf = (energy) => {
+        const relative = energy / peak;
+        return relative >= options.highEnergy ? 'high' : relative >= options.mediumEnergy ? 'medium' : 'low';
+    };
+
+    // Runs of equal level; runs shorter than minSectionBars join the previous
+    // section, and neighbours that end up with the same level are merged
+    const sections = [];
+    for (const bar of bars) {
+        const level = levelOf(bar.energy);
+        const current = sections[sections.length - 1];
+        if (current && current.level === level) {
+            current.bars.push(bar);
+        } else {
+            sections.push({ level, bars: [bar] });
+        }
+    }
+    for (let i = 1; i < sections.length; i++) {
+        if (sections[i].bars.length >= options.minSectionBars) continue;
+        sections[i - 1].bars.push(...sections[i].bars);
+        sections.splice(i, 1);
+        if (sections[i] && sections[i].level === sections[i - 1].level) {
+            sections[i - 1].bars.push(...sections[i].bars);
+            sections.splice(i, 1);
+        }
+        i--;
+    }
+
+    return sections.map(({ bars: sectionBars }, i) => {
+        const energy = sectionBars.reduce((sum, b) => sum + b.energy, 0) / sectionBars.length;
+        return {
+            start_ms: i === 0 ? 0 : frameToMs(sectionBars[0].from, options),
+            end_ms: i === sections.length - 1 ? durationMs : frameToMs(sectionBars[sectionBars.length - 1].to, options),
+            energy: round3(energy / peak),
+            level: levelOf(energy)
+        };
+    });
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+/**
+ * Analyze decoded samples. Pure: no ffmpeg involved.
+ * @param {Float32Array} samples - Mono PCM at options.sampleRate
+ * @param {string} trackId
+ * @returns {object} MusicAnalysis (src/lib/music/types.ts)
+ */
+export function analyzeSamples(samples, trackId, overrides = {}) {
+    const options = { ...MUSIC_DEFAULTS, ...overrides };
+    const durationMs = Math.round((samples.length / options.sampleRate) * 1000);
+    const { onset, accent, rms, frameRate } = spectralFeatures(samples, options);
+    const toMs = (frame) => frameToMs(frame, options);
+
+    // Onset peaks are one frame wide; spread them a little so periods that
+    // fall between two integer lags still correlate
+    const smoothed = movingAverage(onset, 1);
+    const tempo = estimateTempo(smoothed, frameRate, options);
+    const beats = trackBeats(smoothed, tempo.periodFrames, options);
+    const downbeats = detectDownbeats(beats, accent, options);
+    const onsets = pickOnsets(onset, frameRate, options);
+
+    return {
+        track_id: trackId,
+        duration_ms: durationMs,
+        bpm: tempo.bpm,
+        tempo_confidence: tempo.confidence,
+        beats_per_bar: options.beatsPerBar,
+        beats_ms: beats.map(toMs),
+        downbeats_ms: downbeats.map(toMs),
+        onsets_ms: onsets.map(toMs),
+        sections: energySections(rms, downbeats, durationMs, options),
+        analyzed_at: new Date().toISOString()
+    };
+}
+
+/**
+ * Decode and analyze a local audio (or video) file.
+ * @param {string} mediaPath
+ * @param {{ trackId: string }} context
+ */
+export async function analyzeMusic(mediaPath, { trackId }, overrides = {}) {
+    const options = { ...MUSIC_DEFAULTS, ...overrides };
+    const samples = await decodeAudio(mediaPath, options.sampleRate);
+    if (samples.length < options.windowSize) {
+        throw new Error('Audio track is too short to analyze');
+    }
+    return analyzeSamples(samples, trackId, options);
+}
@@ -0,0 +1,97 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { analyzeMusic } from './music-analyzer.js';
+
+/**
+ * MUSIC LIBRARY
+ * Audio files dropped into MUSIC_DIR, served at /music/<file>.
+ * Analyses are cached in MUSIC_DIR/.analysis/<file>.json and reused until
+ * the file's size or mtime changes.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data');
+export const MUSIC_DIR = process.env.MUSIC_DIR || path.join(DATA_DIR, 'music');
+const CACHE_DIR = path.join(MUSIC_DIR, '.analysis');
+
+const AUDIO_EXTENSIONS = new Set(['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.flac']);
+
+if (!fs.existsSync(MUSIC_DIR)) fs.mkdirSync(MUSIC_DIR, { recursive: true });
+
+const isTrackFile = (name) => AUDIO_EXTENSIONS.has(path.extname(name).toLowerCase());
+
+/**
+ * Absolute path of a track, or null if the id is not a file in the library.
+ * Ids are bare file names; anything with a directory part is rejected.
+ */
+export function resolveTrackPath(trackId) {
+    if (!trackId || path.basename(trackId) !== trackId || !isTrackFile(trackId)) return null;
+    const trackPath = path.join(MUSIC_DIR, trackId);
+    return fs.existsSync(trackPath) ? trackPath : null;
+}
+
+function cachePath(trackId) {
+    return path.join(CACHE_DIR, `${trackId}.json`);
+}
+
+function readCachedAnalysis(trackId, stat) {
+    try {
+        const cached = JSON.parse(fs.readFileSync(cachePath(trackId), 'utf8'));
+        if (cached.source?.size === stat.size && cached.source?.mtime_ms === stat.mtimeMs) {
+            return cached.analysis;
+        }
+    } catch {
+        // Missing or unreadable cache: analyze again
+    }
+    return null;
+}
+
+function toTrack(trackId, stat, analysis) {
+    return {
+        id: trackId,
+        title: path.parse(trackId).name.replace(/[_-]+/g, ' '),
+        url: `/music/${encodeURIComponent(trackId)}`,
+        size_bytes: stat.size,
+        analysis
+    };
+}
+
+/**
+ * All tracks in the library with their cached analysis (null if stale or
+ * never analyzed).
+ */
+export function listTracks() {
+    return fs.readdirSync(MUSIC_DIR)
+        .filter(isTrackFile)
+        .sort()
+        .map(trackId => {
+            const stat = fs.statSync(path.join(MUSIC_DIR, trackId));
+            return toTrack(trackId, stat, readCachedAnalysis(trackId, stat));
+        });
+}
+
+/**
+ * Analyze a library track, using the cache unless force is set.
+ * @returns {Promise<object|null>} MusicTrack, or null if the track does not exist
+ */
+export async function analyzeTrack(trackId, { force = false } = {}) {
+    const trackPath = resolveTrackPath(trackId);
+    if (!trackPath) return null;
+
+    const stat = fs.statSync(trackPath);
+    let analysis = force ? null : readCachedAnalysis(trackId, stat);
+
+    if (!analysis) {
+        analysis = await analyzeMusic(trackPath, { trackId });
+        fs.mkdirSync(CACHE_DIR, { recursive: true });
+        fs.writeFileSync(cachePath(trackId), JSON.stringify({
+            source: { size: stat.size, mtime_ms: stat.mtimeMs },
+            analysis
+        }));
+    }
+
+    return toTrack(trackId, stat, analysis);
+}
@@ -0,0 +1,222 @@
+import { spawn } from 'child_process';
+import { probeMedia, sceneScores, detectCuts } from './video-analyzer.js';
+
+/**
+ * REFRAME ANALYZER
+ * Where the subject is, per sampled frame, so exports to another aspect
+ * ratio can crop around it instead of the centre.
+ *
+ * - Shots: scene cuts from video-analyzer.js
+ * - Frames: 5 fps, 96px wide, YUV 4:4:4, streamed from ffmpeg
+ * - Saliency per pixel, all CPU:
+ *     face   skin-tone chroma (YCbCr box), the usual face/hands proxy
+ *     motion luma difference to the previous frame of the same shot
+ *     detail gradient magnitude (products, packaging, text)
+ *   weighted, with a mild centre prior
+ * - Subject point: centroid of the most salient 20% of the frame; its mean
+ *   saliency is the sample weight
+ *
+ * Smoothing into a crop path happens on the client (src/lib/reframe), so the
+ * same track serves every target aspect ratio and safe area.
+ */
+
+const REFRAME_DEFAULTS = {
+    sampleFps: 5,
+    analysisWidth: 96,
+    // YCbCr skin box (Chai & Ngan)
+    skinCbMin: 77,
+    skinCbMax: 127,
+    skinCrMin: 133,
+    skinCrMax: 173,
+    skinMinLuma: 40,
+    motionFullScale: 0.15,   // Luma difference (0-1) counted as full motion
+    detailFullScale: 0.5,    // Gradient magnitude (0-1) counted as full detail
+    faceWeight: 0.5,
+    motionWeight: 0.3,
+    detailWeight: 0.2,
+    centerBias: 0.3,         // 0 = no prior, 1 = only the centre counts
+    centerSigma: 0.3,
+    topFraction: 0.2         // Share of the frame used for the centroid
+};
+
+const round3 = (value) => Number(value.toFixed(3));
+
+// ============================================
+// FRAMES
+// ============================================
+
+/**
+ * Stream downscaled YUV444 frames through onFrame(frame, index).
+ * Frames are processed as they arrive; nothing is buffered beyond one frame.
+ */
+function streamFrames(mediaPath, width, height, fps, onFrame) {
+    const frameSize = width * height * 3;
+    return new Promise((resolve, reject) => {
+        const child = spawn('ffmpeg', [
+            '-v', 'error',
+            '-i', mediaPath,
+            '-an',
+            '-vf', `fps=${fps},scale=${width}:${height},format=yuv444p`,
+            '-f', 'rawvideo', 'pipe:1'
+        ]);
+        let pending = Buffer.alloc(0);
+        let index = 0;
+        let stderr = '';
+        child.stdout.on('data', data => {
+            pending = pending.length > 0 ? Buffer.concat([pending, data]) : data;
+            while (pending.length >= frameSize) {
+                onFrame(new Uint8Array(pending.subarray(0, frameSize)), index++);
+                pending = pending.subarray(frameSize);
+            }
+        });
+        child.stderr.on('data', data => { stderr += data.toString(); });
+        child.on('error', reject);
+        child.on('close', code => {
+            if (code !== 0) {
+                return reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-500)}`));
+            }
+            resolve(index);
+        });
+    });
+}
+
+// ============================================
+// SALIENCY
+// ============================================
+
+/**
+ * Subject point of one YUV444 frame.
+ * @param {Uint8Array} frame - Y, U and V planes, width*height each
+ * @param {Uint8Array|null} prevLuma - Previous frame of the same shot
+ * @returns {{ x: number, y: number, weight: number }} x/y normalized 0-1
+ */
+export function frameSubject(frame, prevLuma, width, height, options = REFRAME_DEFAULTS) {
+    const n = width * height;
+    const saliency = new Float32Array(n);
+    const histogram = new Uint32Array(256);
+
+    for (let row = 0; row < height; row++) {
+        const dy = row / Math.max(1, height - 1) - 0.5;
+        for (let col = 0; col < width; col++) {
+            const i = row * width + col;
+            const luma = frame[i];
+            const cb = frame[n + i];
+            const cr = frame[2 * n + i];
+
+            const face = cb >= options.skinCbMin && cb <= options.skinCbMax &&
+                cr >= options.skinCrMin && cr <= options.skinCrMax &&
+                luma >= options.skinMinLuma ? 1 : 0;
+
+            const motion = prevLuma
+                ? Math.min(1, Math.abs(luma - prevLuma[i]) / 255 / options.motionFullScale)
+                : 0;
+
+            const gx = frame[row * width + Math.min(width - 1, col + 1)] - frame[row * width + Math.max(0, col - 1)];
+            const gy = frame[Math.min(height - 1, row + 1) * width + col] - frame[Math.max(0, row - 1) * width + col];
+            const detail = Math.min(1, (Math.abs(gx) + Math.abs(gy)) / 510 / options.detailFullScale);
+
+            const dx = col / Math.max(1, width - 1) - 0.5;
+            const center = Math.exp(-(dx * dx + dy * dy) / (2 * options.centerSigma ** 2));
+
+            const value = (options.faceWeight * face + options.motionWeight * motion + options.detailWeight * detail) *
+                (1 - options.centerBias + options.centerBias * center);
+            saliency[i] = value;
+            histogram[Math.min(255, Math.floor(value * 256))]++;
+        }
+    }
+
+    // Saliency level that keeps the top fraction of pixels
+    let bin = 255;
+    for (let kept = 0; bin > 0; bin--) {
+        kept += histogram[bin];
+        if (kept >= n * options.topFraction) break;
+    }
+    const threshold = bin / 256;
+
+    let sum = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    for (let i = 0; i < n; i++) {
+        const value = saliency[i];
+        if (value < threshold || value === 0) continue;
+        sum += value;
+        sumX += value * (i % width);
+        sumY += value * Math.floor(i / width);
+        count++;
+    }
+    if (sum === 0) return { x: 0.5, y: 0.5, weight: 0 };
+
+    return {
+        x: (sumX / sum + 0.5) / width,
+        y: (sumY / sum + 0.5) / height,
+        weight: Math.min(1, sum / count)
+    };
+}
+
+// ============================================
+// SHOTS
+// ============================================
+
+/**
+ * Shots from cut times.
+ * @returns {Array<{ start_ms, end_ms }>}
+ */
+export function shotsFromCuts(cuts, durationMs) {
+    const bounds = [0, ...cuts.filter(c => c > 0 && c < durationMs), durationMs];
+    const shots = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        shots.push({ start_ms: bounds[i], end_ms: bounds[i + 1] });
+    }
+    return shots;
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+/**
+ * SubjectTrack (src/lib/reframe/types.ts) of a local video.
+ * @param {string} mediaPath
+ * @param {{ videoId: string }} context
+ */
+export async function analyzeSubject(mediaPath, { videoId }, overrides = {}) {
+    const options = { ...REFRAME_DEFAULTS, ...overrides };
+    const probe = await probeMedia(mediaPath);
+    if (probe.duration_ms <= 0) throw new Error('Could not determine video duration');
+
+    const cuts = detectCuts(await sceneScores(mediaPath));
+    const shots = shotsFromCuts(cuts, probe.duration_ms);
+
+    const width = options.analysisWidth;
+    const height = Math.max(2, Math.round((width * probe.height) / probe.width / 2) * 2);
+    const pixels = width * height;
+
+    const samples = [];
+    let prevLuma = null;
+    let shotIndex = 0;
+    await streamFrames(mediaPath, width, height, options.sampleFps, (frame, index) => {
+        const tMs = Math.round((index * 1000) / options.sampleFps);
+
+        // Motion is only meaningful inside a shot
+        while (shotIndex < shots.length - 1 && tMs >= shots[shotIndex].end_ms) {
+            shotIndex++;
+            prevLuma = null;
+        }
+
+        const subject = frameSubject(frame, prevLuma, width, height, options);
+        samples.push({ t_ms: tMs, x: round3(subject.x), y: round3(subject.y), weight: round3(subject.weight) });
+        prevLuma = frame.subarray(0, pixels);
+    });
+
+    return {
+        video_id: videoId,
+        width: probe.width,
+        height: probe.height,
+        duration_ms: probe.duration_ms,
+        sample_fps: options.sampleFps,
+        shots,
+        samples,
+        analyzed_at: new Date().toISOString()
+    };
+}
@@ -29,17 +29,80 @@ db.exec(`
   );
 `);
 
+// Lifecycle columns (priority, stage/progress, retries, cancellation, output
+// metadata), added on startup to databases that predate them
+const LIFECYCLE_COLUMNS = {
+    priority: 'INTEGER NOT NULL DEFAULT 0',
+    state: "TEXT NOT NULL DEFAULT 'queued'",
+    progress_pct: 'REAL NOT NULL DEFAULT 0',
+    attempts: 'INTEGER NOT NULL DEFAULT 0',
+    max_attempts: 'INTEGER NOT NULL DEFAULT 1',
+    next_attempt_at: 'INTEGER NOT NULL DEFAULT 0',
+    cancel_requested: 'INTEGER NOT NULL DEFAULT 0',
+    error_code: 'TEXT',
+    output_meta: 'TEXT' // JSON, e.g. measured loudness of the render
+};
+
+const existingColumns = new Set(db.prepare('PRAGMA table_info(jobs)').all().map(col => col.name));
+for (const [column, definition] of Object.entries(LIFECYCLE_COLUMNS)) {
+    if (!existingColumns.has(column)) {
+        db.exec(`ALTER TABLE jobs ADD COLUMN ${column} ${definition}`);
+    }
+}
+if (!existingColumns.has('state')) {
+    db.exec(`
+      UPDATE jobs SET
+        state = CASE status WHEN 'pending' THEN 'queued' ELSE status END,
+        progress_pct = CASE status WHEN 'done' THEN 100 ELSE 0 END
+    `);
+}
+
+db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs (status, priority, created_at)');
+
+// Outbound webhook deliveries: one row per event sent to a job's webhook_url
+// (replays get their own row). The payload is stored so every retry sends
+// the same body.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    url TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL DEFAULT 0,
+    last_status_code INTEGER,
+    last_error TEXT,
+    replay_of TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_job ON webhook_deliveries (job_id, created_at);
+`);
+
+// Job status in the queue. `state` (RenderFlowJobState) is the finer-grained
+// stage reported to clients while a job is processing.
+const TERMINAL_STATUSES = ['done', 'failed', 'cancelled'];
+
 // Prepared statements for performance
-const insertJobStmt = db.prepare('INSERT INTO jobs (id, status, data, created_at) VALUES (?, ?, ?, ?)');
+const insertJobStmt = db.prepare(
+    "INSERT INTO jobs (id, status, state, data, created_at, priority, max_attempts) VALUES (?, 'pending', 'queued', ?, ?, ?, ?)"
+);
 const getJobStmt = db.prepare('SELECT * FROM jobs WHERE id = ?');
 
 /**
  * Add a new job to the queue.
  * @param {string} id - UUID of the job
  * @param {object} data - Validated job payload
+ * @param {object} [options]
+ * @param {number} [options.priority] - Higher runs first, default 0
+ * @param {number} [options.maxAttempts] - Total attempts including retries, default 1
  */
-function addJob(id, data) {
-    const info = insertJobStmt.run(id, 'pending', JSON.stringify(data), Date.now());
+function addJob(id, data, { priority = 0, maxAttempts = 1 } = {}) {
+    const info = insertJobStmt.run(id, JSON.stringify(data), Date.now(), priority, Math.max(1, maxAttempts));
     return info.changes > 0;
 }
 
@@ -56,25 +119,35 @@ function getJob(id) {
         } catch (e) {
             job.data = {};
         }
+        try {
+            job.output_meta = job.output_meta ? JSON.parse(job.output_meta) : null;
+        } catch (e) {
+            job.output_meta = null;
+        }
     }
     return job;
 }
 
 /**
- * Atomically claim the next pending job.
+ * Atomically claim the next pending job: highest priority first, then oldest.
+ * Jobs waiting out a retry backoff are skipped until next_attempt_at.
  * Race-safe implementation using a transaction and verify-update pattern.
  * @returns {object|null} The claimed job object or null if queue is empty.
  */
 const claimJob = db.transaction(() => {
-    // 1. Find the oldest pending job
-    const candidate = db.prepare("SELECT id FROM jobs WHERE status='pending' ORDER BY created_at ASC LIMIT 1").get();
+    const now = Date.now();
+
+    // 1. Find the next runnable pending job
+    const candidate = db.prepare(
+        "SELECT id FROM jobs WHERE status='pending' AND next_attempt_at<=? ORDER BY priority DESC, created_at ASC LIMIT 1"
+    ).get(now);
 
     if (!candidate) return null;
 
     // 2. Atomically attempt to lock it
-    const now = Date.now();
     const result = db.prepare(
-        "UPDATE jobs SET status='processing', started_at=? WHERE id=? AND status='pending'"
+        "UPDATE jobs SET status='processing', state='preparing', progress_pct=0, attempts=attempts+1, started_at=? " +
+        "WHERE id=? AND status='pending'"
     ).run(now, candidate.id);
 
     // 3. If no rows were updated, another worker claimed it or it's no longer pending
@@ -88,29 +161,198 @@ const claimJob = db.transaction(() => {
  * Mark a job as successful.
  * @param {string} id 
  * @param {string} outputPath 
+ * @param {object|null} [outputMeta] - Stored as JSON (loudness report)
  */
-function completeJob(id, outputPath) {
-    const info = db.prepare("UPDATE jobs SET status='done', completed_at=?, output_path=? WHERE id=?")
-        .run(Date.now(), outputPath, id);
+function completeJob(id, outputPath, outputMeta = null) {
+    const info = db.prepare(
+        "UPDATE jobs SET status='done', state='done', progress_pct=100, completed_at=?, output_path=?, output_meta=? WHERE id=?"
+    ).run(Date.now(), outputPath, outputMeta ? JSON.stringify(outputMeta) : null, id);
     return info.changes > 0;
 }
 
 /**
- * Mark a job as failed.
+ * Mark a job as failed for good.
  * @param {string} id 
  * @param {string} errorMessage 
+ * @param {string} [errorCode] - Code from server/error-definitions.js
+ */
+function failJob(id, errorMessage, errorCode = null) {
+    const info = db.prepare(
+        "UPDATE jobs SET status='failed', state='failed', completed_at=?, error=?, error_code=? WHERE id=?"
+    ).run(Date.now(), errorMessage, errorCode, id);
+    return info.changes > 0;
+}
+
+/**
+ * Put a failed attempt back in the queue, runnable again at nextAttemptAt.
+ * The error of the last attempt stays visible while the job waits.
+ * @param {string} id
+ * @param {string} errorMessage
+ * @param {string} errorCode
+ * @param {number} nextAttemptAt - Epoch ms
+ */
+function retryJob(id, errorMessage, errorCode, nextAttemptAt) {
+    const info = db.prepare(
+        "UPDATE jobs SET status='pending', state='queued', progress_pct=0, error=?, error_code=?, next_attempt_at=? " +
+        "WHERE id=? AND status='processing'"
+    ).run(errorMessage, errorCode, nextAttemptAt, id);
+    return info.changes > 0;
+}
+
+/**
+ * Record the current stage and overall progress of a processing job.
+ * @param {string} id
+ * @param {string} state - RenderFlowJobState
+ * @param {number} progressPct - 0-100
+ */
+function updateProgress(id, state, progressPct) {
+    const info = db.prepare("UPDATE jobs SET state=?, progress_pct=? WHERE id=? AND status='processing'")
+        .run(state, progressPct, id);
+    return info.changes > 0;
+}
+
+/**
+ * Cancel a job. Pending jobs are cancelled right away; processing jobs are
+ * flagged and the worker stops them.
+ * @param {string} id
+ * @returns {'cancelled'|'cancelling'|'finished'|null} Outcome, null if the job does not exist
+ */
+const cancelJob = db.transaction((id) => {
+    const job = getJobStmt.get(id);
+    if (!job) return null;
+    if (TERMINAL_STATUSES.includes(job.status)) return 'finished';
+
+    if (job.status === 'pending') {
+        db.prepare("UPDATE jobs SET status='cancelled', state='cancelled', completed_at=? WHERE id=?")
+            .run(Date.now(), id);
+        return 'cancelled';
+    }
+
+    db.prepare('UPDATE jobs SET cancel_requested=1 WHERE id=?').run(id);
+    return 'cancelling';
+});
+
+/**
+ * Mark a processing job as cancelled once the worker has stopped it.
+ * @param {string} id
+ */
+function markCancelled(id) {
+    const info = db.prepare(
+        "UPDATE jobs SET status='cancelled', state='cancelled', completed_at=? WHERE id=? AND status='processing'"
+    ).run(Date.now(), id);
+    return info.changes > 0;
+}
+
+/**
+ * @param {string} id
+ * @returns {boolean}
+ */
+function isCancelRequested(id) {
+    const row = db.prepare('SELECT cancel_requested FROM jobs WHERE id=?').get(id);
+    return !!row && row.cancel_requested === 1;
+}
+
+/**
+ * Return jobs left in 'processing' by a previous process to the queue
+ * (or finish their cancellation). The interrupted attempt is not counted.
+ * Only safe at startup: the worker runs in this process, so nothing else
+ * can own them.
+ * @returns {number} Number of requeued jobs
+ */
+const requeueInterrupted = db.transaction(() => {
+    db.prepare(
+        "UPDATE jobs SET status='cancelled', state='cancelled', completed_at=? WHERE status='processing' AND cancel_requested=1"
+    ).run(Date.now());
+    const info = db.prepare(
+        "UPDATE jobs SET status='pending', state='queued', progress_pct=0, attempts=MAX(attempts-1, 0) WHERE status='processing'"
+    ).run();
+    return info.changes;
+});
+
+/**
+ * Queue counts by status.
+ * @returns {Record<string, number>}
  */
-function failJob(id, errorMessage) {
-    const info = db.prepare("UPDATE jobs SET status='failed', completed_at=?, error=? WHERE id=?")
-        .run(Date.now(), errorMessage, id);
+function countByStatus() {
+    const rows = db.prepare('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status').all();
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+}
+
+/**
+ * Queue a webhook delivery.
+ * @param {object} delivery
+ * @param {string} delivery.id
+ * @param {string} delivery.jobId
+ * @param {string} delivery.event - e.g. 'render.completed'
+ * @param {string} delivery.url
+ * @param {string} delivery.payload - Serialized body, sent as-is on every attempt
+ * @param {number} delivery.maxAttempts
+ * @param {string} [delivery.replayOf] - Delivery id this one replays
+ */
+function addWebhookDelivery({ id, jobId, event, url, payload, maxAttempts, replayOf = null }) {
+    const info = db.prepare(
+        "INSERT INTO webhook_deliveries (id, job_id, event, url, payload, status, max_attempts, replay_of, created_at) " +
+        "VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)"
+    ).run(id, jobId, event, url, payload, maxAttempts, replayOf, Date.now());
     return info.changes > 0;
 }
 
+/**
+ * Pending deliveries whose next attempt is due, oldest first.
+ * @param {number} limit
+ */
+function getDueWebhookDeliveries(limit) {
+    return db.prepare(
+        "SELECT * FROM webhook_deliveries WHERE status='pending' AND next_attempt_at<=? ORDER BY created_at ASC LIMIT ?"
+    ).all(Date.now(), limit);
+}
+
+/**
+ * Record the outcome of one delivery attempt.
+ * @param {string} id
+ * @param {object} outcome
+ * @param {'pending'|'delivered'|'failed'} outcome.status - pending = retry at nextAttemptAt
+ * @param {number|null} outcome.statusCode - HTTP status, null when the request never completed
+ * @param {string|null} outcome.error
+ * @param {number} [outcome.nextAttemptAt]
+ */
+function recordWebhookAttempt(id, { status, statusCode, error, nextAttemptAt = 0 }) {
+    const info = db.prepare(
+        "UPDATE webhook_deliveries SET status=?, attempts=attempts+1, last_status_code=?, last_error=?, next_attempt_at=?, " +
+        "delivered_at=CASE WHEN ?='delivered' THEN ? ELSE delivered_at END WHERE id=?"
+    ).run(status, statusCode, error, nextAttemptAt, status, Date.now(), id);
+    return info.changes > 0;
+}
+
+/**
+ * Delivery log of a job, oldest first.
+ * @param {string} jobId
+ */
+function listWebhookDeliveries(jobId) {
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE job_id=? ORDER BY created_at ASC').all(jobId);
+}
+
+function getWebhookDelivery(id) {
+    return db.prepare('SELECT * FROM webhook_deliveries WHERE id=?').get(id);
+}
+
 module.exports = {
     db, // Export raw db if needed
     addJob,
     getJob,
     claimJob,
     completeJob,
-    failJob
+    failJob,
+    retryJob,
+    updateProgress,
+    cancelJob,
+    markCancelled,
+    isCancelRequested,
+    requeueInterrupted,
+    countByStatus,
+    addWebhookDelivery,
+    getDueWebhookDeliveries,
+    recordWebhookAttempt,
+    listWebhookDeliveries,
+    getWebhookDelivery
 };
@@ -8,6 +8,10 @@ module.exports = {
             env: {
                 NODE_ENV: "production",
                 // PORT: 3001
+                // RENDERFLOW_CONCURRENCY: 1,  // ffmpeg processes at once
+                // RENDERFLOW_MAX_ATTEMPTS: 3  // attempts per job for retryable errors
+                // RENDERFLOW_PUBLIC_URL: "https://flowscale.cloud",  // base of webhook video_url
+                // RENDERFLOW_WEBHOOK_SECRET: "",  // HMAC key for x-renderflow-signature
             }
         }
     ]
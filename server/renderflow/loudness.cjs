@@ -0,0 +1,102 @@
+/**
+ * EBU R128 loudness: measurement and two-pass normalization (ffmpeg loudnorm).
+ *
+ *   pass 1  measure the rendered mix (input_i, input_tp, input_lra, input_thresh)
+ *   pass 2  re-encode the audio with the measured values, video copied, so
+ *           loudnorm can apply a linear gain instead of dynamic compression
+ *
+ * loudnorm prints its stats as a JSON block at the end of stderr
+ * (print_format=json). Pass 2's output_* values are the delivered loudness.
+ * The loudnorm filters come from the shared plan builder (see plan.cjs).
+ */
+
+/**
+ * Pass 1: decode the first audio stream, discard the output.
+ * @param {string} inputPath
+ * @param {string} filter - Measuring loudnorm filter (buildLoudnormFilter(target))
+ */
+function measureArgs(inputPath, filter) {
+    return ['-y', '-i', inputPath, '-map', '0:a:0', '-af', filter, '-f', 'null', '-'];
+}
+
+/**
+ * Pass 2: normalized copy of the render. loudnorm resamples internally, so
+ * the rate is pinned back to 48 kHz.
+ * @param {string} inputPath - Render from the plan pass
+ * @param {string} outputPath
+ * @param {string} filter - Linear loudnorm filter (buildLoudnormFilter(target, measured))
+ * @param {object} outputFormat - plan.output_format
+ */
+function normalizeArgs(inputPath, outputPath, filter, outputFormat) {
+    const args = [
+        '-y', '-i', inputPath,
+        '-map', '0:v:0', '-map', '0:a:0',
+        '-c:v', 'copy',
+        '-af', filter,
+        '-ar', '48000',
+        '-c:a', outputFormat.container === 'webm' ? 'libopus' : 'aac',
+        '-b:a', `${outputFormat.audio_bitrate_kbps}k`
+    ];
+    if (outputFormat.container !== 'webm') args.push('-movflags', '+faststart');
+    args.push(outputPath);
+    return args;
+}
+
+/**
+ * Last loudnorm JSON block in ffmpeg's stderr.
+ * Numeric fields stay strings ("-inf" for digital silence), as loudnorm
+ * expects them back in pass 2.
+ * @param {string} stderr
+ * @returns {object|null}
+ */
+function parseLoudnormStats(stderr) {
+    const start = stderr.lastIndexOf('[Parsed_loudnorm');
+    if (start === -1) return null;
+    const open = stderr.indexOf('{', start);
+    const close = stderr.indexOf('}', open);
+    if (open === -1 || close === -1) return null;
+    try {
+        return JSON.parse(stderr.slice(open, close + 1));
+    } catch {
+        return null;
+    }
+}
+
+const toNumber = (value) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? Math.round(number * 100) / 100 : null;
+};
+
+/**
+ * Whether pass 1 found anything to normalize (silence measures -inf).
+ */
+function isMeasurable(stats) {
+    return !!stats && toNumber(stats.input_i) !== null && toNumber(stats.input_tp) !== null;
+}
+
+/**
+ * Loudness report stored with the job output.
+ * @param {object} stats - parseLoudnormStats()
+ * @param {object|null} target - LoudnessTarget when normalized
+ * @param {boolean} normalized - Whether stats come from pass 2
+ */
+function toLoudnessReport(stats, target, normalized) {
+    const key = normalized ? 'output' : 'input';
+    return {
+        integrated_lufs: toNumber(stats[`${key}_i`]),
+        true_peak_dbtp: toNumber(stats[`${key}_tp`]),
+        loudness_range_lu: toNumber(stats[`${key}_lra`]),
+        normalization: normalized ? stats.normalization_type || 'dynamic' : 'none',
+        source_integrated_lufs: toNumber(stats.input_i),
+        source_true_peak_dbtp: toNumber(stats.input_tp),
+        target: target || undefined
+    };
+}
+
+module.exports = {
+    measureArgs,
+    normalizeArgs,
+    parseLoudnormStats,
+    isMeasurable,
+    toLoudnessReport
+};
@@ -0,0 +1,46 @@
+const fs = require('fs');
+const path = require('path');
+const { pathToFileURL } = require('url');
+
+/**
+ * ExecutionPlan → FFmpeg: RenderFlow renders with the same builder as the
+ * app and the edge functions (supabase/functions/_shared/ffmpeg-plan-builder.ts).
+ * Node runs the copy compiled by `npm run build:renderflow`; it is an ES
+ * module, so it is imported once and cached.
+ *
+ * Loudness normalization (plan.audio_mix.loudness) runs as separate passes
+ * over the result, see loudness.cjs.
+ */
+
+const BUILDER_PATH = path.join(__dirname, 'build/ffmpeg-plan-builder.js');
+
+let builder = null;
+
+/**
+ * @returns {Promise<object>} The shared builder module
+ */
+function loadPlanBuilder() {
+    if (!builder) {
+        if (!fs.existsSync(BUILDER_PATH)) {
+            throw new Error('ExecutionPlan builder is not compiled, run `npm run build:renderflow`');
+        }
+        builder = import(pathToFileURL(BUILDER_PATH).href);
+    }
+    return builder;
+}
+
+/**
+ * Output file name for a plan job: the container decides the extension.
+ */
+function planOutputFilename(jobId, plan) {
+    return `${jobId}.${plan.output_format.container}`;
+}
+
+/**
+ * Temp file path holding the content of a text overlay.
+ */
+function textFilePath(tempDir, jobId, index) {
+    return path.join(tempDir, `${jobId}_text_${index}.txt`);
+}
+
+module.exports = { loadPlanBuilder, planOutputFilename, textFilePath };
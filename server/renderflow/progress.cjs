@@ -0,0 +1,127 @@
+/**
+ * FFmpeg `-progress` parsing → RenderFlowJobState + overall progress.
+ *
+ * Each state owns a slice of the overall 0-100 range, so the percentage only
+ * moves forward as a job walks through its stages:
+ *   preparing    inputs and filtergraph arguments are being built
+ *   downloading  ffmpeg is opening (fetching/probing) its inputs
+ *   processing   filtergraph configured, no frame encoded yet
+ *   encoding     out_time advancing towards the output duration
+ *   muxing       every frame encoded, trailer / faststart being written
+ *   finalizing   ffmpeg exited cleanly, output is being verified
+ */
+
+const STATE_RANGES = {
+    queued: [0, 0],
+    preparing: [0, 5],
+    downloading: [5, 10],
+    processing: [10, 15],
+    encoding: [15, 90],
+    muxing: [90, 97],
+    finalizing: [97, 100],
+    done: [100, 100]
+};
+
+/**
+ * Overall progress for a state and the fraction completed within it.
+ * @param {string} state - RenderFlowJobState
+ * @param {number} [fraction] - 0-1
+ * @returns {number} 0-100, one decimal
+ */
+function overallProgress(state, fraction = 0) {
+    const range = STATE_RANGES[state];
+    if (!range) return 0;
+    const clamped = Math.min(1, Math.max(0, fraction));
+    return Math.round((range[0] + (range[1] - range[0]) * clamped) * 10) / 10;
+}
+
+/**
+ * "Duration: 00:01:02.50," from ffmpeg's input banner, in ms.
+ * Used when the output duration is not known up front (scale jobs).
+ * @param {string} text - stderr
+ * @returns {number|null}
+ */
+function parseBannerDuration(text) {
+    const match = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(text);
+    if (!match) return null;
+    const [, h, m, s] = match;
+    return Math.round((Number(h) * 3600 + Number(m) * 60 + Number(s)) * 1000);
+}
+
+/**
+ * Incremental parser for `-progress pipe:1` output. ffmpeg writes key=value
+ * lines and closes every block with `progress=continue` or `progress=end`.
+ *
+ * @param {object} options
+ * @param {number|null} [options.durationMs] - Expected output duration
+ * @param {(state: string, pct: number) => void} options.onProgress - Called on every stage or whole-percent change
+ */
+function createProgressTracker({ durationMs = null, onProgress }) {
+    let expectedMs = durationMs;
+    let stdoutBuffer = '';
+    let bannerBuffer = '';
+    let block = {};
+    let lastState = null;
+    let lastPct = -1;
+
+    const report = (state, fraction) => {
+        const pct = overallProgress(state, fraction);
+        if (state === lastState && Math.floor(pct) === Math.floor(lastPct)) return;
+        lastState = state;
+        lastPct = pct;
+        onProgress(state, pct);
+    };
+
+    const handleBlock = (values) => {
+        // out_time_us is the documented key; out_time_ms is also microseconds
+        const outTimeUs = Number(values.out_time_us ?? values.out_time_ms);
+        const outTimeMs = Number.isFinite(outTimeUs) && outTimeUs > 0 ? outTimeUs / 1000 : 0;
+
+        if (values.progress === 'end') {
+            report('muxing', 1);
+        } else if (outTimeMs === 0) {
+            report('processing', 0);
+        } else if (expectedMs && outTimeMs >= expectedMs) {
+            report('muxing', 0);
+        } else {
+            report('encoding', expectedMs ? outTimeMs / expectedMs : 0);
+        }
+    };
+
+    return {
+        /** Stages before ffmpeg reports anything */
+        setState(state, fraction = 0) {
+            report(state, fraction);
+        },
+
+        /** Output duration known before ffmpeg starts (plan jobs) */
+        setDuration(ms) {
+            if (ms > 0) expectedMs = ms;
+        },
+
+        onStdout(chunk) {
+            stdoutBuffer += chunk.toString();
+            const lines = stdoutBuffer.split('\n');
+            stdoutBuffer = lines.pop();
+            for (const line of lines) {
+                const eq = line.indexOf('=');
+                if (eq === -1) continue;
+                const key = line.slice(0, eq).trim();
+                block[key] = line.slice(eq + 1).trim();
+                if (key === 'progress') {
+                    handleBlock(block);
+                    block = {};
+                }
+            }
+        },
+
+        onStderr(chunk) {
+            if (expectedMs) return;
+            // Keep enough of the banner to find the first input's Duration line
+            bannerBuffer = (bannerBuffer + chunk.toString()).slice(-8192);
+            expectedMs = parseBannerDuration(bannerBuffer);
+        }
+    };
+}
+
+module.exports = { STATE_RANGES, overallProgress, parseBannerDuration, createProgressTracker };
@@ -0,0 +1,73 @@
+/**
+ * Failure classification and retry policy for render attempts.
+ *
+ * FFmpeg stderr is classified by server/ffmpeg-error-parser.js and the
+ * recovery policy (recovery_action, max_retries, retry_delay_ms) comes from
+ * server/error-definitions.js, so RenderFlow retries exactly what the rest of
+ * the backend considers retryable. Both are ES modules, loaded on first use.
+ */
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+let catalogPromise = null;
+
+function loadCatalog() {
+    if (!catalogPromise) {
+        catalogPromise = Promise.all([
+            import('../ffmpeg-error-parser.js'),
+            import('../error-definitions.js')
+        ]).then(([parser, definitions]) => ({
+            parseFFmpegError: parser.parseFFmpegError,
+            getErrorDefinition: definitions.getErrorDefinition
+        }));
+    }
+    return catalogPromise;
+}
+
+/**
+ * Delay before the next attempt: the definition's schedule when it has one,
+ * otherwise exponential from BASE_DELAY_MS.
+ * @param {object} definition - Entry from ERROR_DEFINITIONS
+ * @param {number} attempt - 1-based number of the attempt that just failed
+ */
+function backoffDelay(definition, attempt) {
+    const schedule = definition.retry_delay_ms;
+    const delay = schedule && schedule.length > 0
+        ? schedule[Math.min(attempt, schedule.length) - 1] * 2 ** Math.max(0, attempt - schedule.length)
+        : BASE_DELAY_MS * 2 ** (attempt - 1);
+    return Math.min(delay, MAX_DELAY_MS);
+}
+
+/**
+ * Decide what happens to a failed attempt.
+ * @param {Error & { stderr?: string, code?: string }} err - Rejection from runFfmpeg (or a setup error)
+ * @param {object} job - Job row: attempts (including this one) and max_attempts
+ * @returns {Promise<{ code: string, message: string, retry: boolean, delayMs: number }>}
+ */
+async function classifyFailure(err, job) {
+    // Setup errors (bad resolution, plan without video segments, ...) fail the same way every time
+    if (err.code === 'ENOENT') {
+        return { code: 'FFMPEG_NOT_FOUND', message: 'FFmpeg binary not available on server', retry: false, delayMs: 0 };
+    }
+    if (err.stderr === undefined) {
+        return { code: 'JOB_INVALID', message: err.message, retry: false, delayMs: 0 };
+    }
+
+    const { parseFFmpegError, getErrorDefinition } = await loadCatalog();
+    const parsed = parseFFmpegError(err.stderr);
+    const definition = getErrorDefinition(parsed.code);
+    const message = `${parsed.message}${parsed.details ? ': ' + parsed.details : ''}`;
+
+    const allowedAttempts = Math.min(job.max_attempts, 1 + (definition.max_retries || 0));
+    const retry = definition.recovery_action === 'RETRY' && job.attempts < allowedAttempts;
+
+    return {
+        code: parsed.code,
+        message,
+        retry,
+        delayMs: retry ? backoffDelay(definition, job.attempts) : 0
+    };
+}
+
+module.exports = { classifyFailure, backoffDelay };
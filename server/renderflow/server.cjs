@@ -4,10 +4,17 @@ const { v4: uuidv4 } = require('uuid');
 const cors = require('cors');
 
 const db = require('./db.cjs');
-const { startWorker } = require('./worker.cjs');
+const { startWorker, cancelActiveJob, getWorkerStats, OUTPUT_DIR } = require('./worker.cjs');
+const { replayJobWebhook, startWebhookDispatcher } = require('./webhooks.cjs');
 
 // Configuration
 const PORT = process.env.PORT || 3001;
+const CONCURRENCY = Number(process.env.RENDERFLOW_CONCURRENCY) || 1;
+// Total attempts per job; retries only happen for errors the catalog marks retryable
+const MAX_ATTEMPTS = Number(process.env.RENDERFLOW_MAX_ATTEMPTS) || 3;
+
+// Higher runs first; equal priorities run oldest first
+const PrioritySchema = z.number().int().min(-10).max(10);
 
 // --- Strict Schema Definition (Matching job.schema.json) ---
 // FAIL-FAST: No defaults allowed. All fields required.
@@ -17,37 +24,192 @@ const JobSchema = z.object({
         errorMap: () => ({ message: "Invalid or missing output_format. Must be 'mp4', 'webm', or 'gif'." })
     }),
     resolution: z.string().regex(/^\d+x\d+$/, { message: "Invalid resolution format. Expected WxH (e.g. 1920x1080)." }),
+    priority: PrioritySchema.optional(),
     webhook_url: z.string().url().optional(),
     metadata: z.record(z.any()).optional()
 }).strict(); // Reject unknown keys
 
+// --- ExecutionPlan Job (Matching compiler-types.ts) ---
+const TimelineSegmentSchema = z.object({
+    segment_id: z.string(),
+    source_video_id: z.string(),
+    source_segment_id: z.string(),
+    asset_url: z.string().url().nullable(),
+    trim_start_ms: z.number().nonnegative(),
+    trim_end_ms: z.number().nonnegative(),
+    source_duration_ms: z.number().nonnegative(),
+    timeline_start_ms: z.number().nonnegative(),
+    timeline_end_ms: z.number().nonnegative(),
+    output_duration_ms: z.number().nonnegative(),
+    speed_multiplier: z.number().positive(),
+    transition_in: z.object({
+        type: z.enum(['cut', 'fade', 'dissolve', 'wipe-left', 'wipe-right', 'zoom', 'slide-left', 'slide-right']),
+        duration_ms: z.number().nonnegative()
+    }).optional(),
+    crop: z.object({
+        width: z.number().positive().max(1),
+        height: z.number().positive().max(1),
+        keyframes: z.array(z.object({
+            t_ms: z.number().nonnegative(),
+            x: z.number().min(0).max(1),
+            y: z.number().min(0).max(1)
+        })).min(1)
+    }).optional(),
+    still: z.boolean().optional(),
+    track: z.enum(['video', 'overlay']),
+    layer: z.number().int()
+}).refine(seg => seg.trim_end_ms > seg.trim_start_ms, { message: "trim_end_ms must be greater than trim_start_ms" });
+
+const AudioSegmentSchema = z.object({
+    audio_id: z.string(),
+    source_video_id: z.string(),
+    asset_url: z.string().url().nullable(),
+    trim_start_ms: z.number().nonnegative(),
+    trim_end_ms: z.number().nonnegative(),
+    timeline_start_ms: z.number().nonnegative(),
+    timeline_end_ms: z.number().nonnegative(),
+    volume: z.number().min(0),
+    fade_in_ms: z.number().nonnegative(),
+    fade_out_ms: z.number().nonnegative(),
+    track: z.enum(['voiceover', 'music', 'sfx'])
+});
+
+// Fonts installed in the RenderFlow image (Dockerfile.backend); drawtext
+// only ever reads one of these
+const BUNDLED_FONTS = [
+    '/usr/share/fonts/noto/NotoSans-Regular.ttf',
+    '/usr/share/fonts/noto/NotoSans-Bold.ttf',
+    '/usr/share/fonts/noto/NotoSansArabic-Regular.ttf',
+    '/usr/share/fonts/noto/NotoSansArabic-Bold.ttf',
+];
+
+const TextOverlaySchema = z.object({
+    text_id: z.string(),
+    content: z.string().min(1),
+    timeline_start_ms: z.number().nonnegative(),
+    timeline_end_ms: z.number().nonnegative(),
+    font_size: z.number().positive(),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: "color must be a #RRGGBB hex value" }),
+    x: z.string(),
+    y: z.string(),
+    box: z.boolean().optional(),
+    box_color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+    font_file: z.enum(BUNDLED_FONTS, {
+        errorMap: () => ({ message: `font_file must be one of: ${BUNDLED_FONTS.join(', ')}` })
+    }).optional()
+});
+
+// loudnorm accepts I -70..-5, TP -9..0, LRA 1..20 (LRA up to 50 on newer ffmpeg)
+const AudioMixSchema = z.object({
+    platform: z.string().optional(),
+    loudness: z.object({
+        integrated_lufs: z.number().min(-70).max(-5),
+        true_peak_dbtp: z.number().min(-9).max(0),
+        loudness_range_lu: z.number().min(1).max(20)
+    }).nullable(),
+    ducking: z.object({
+        threshold: z.number().min(0.001).max(1),
+        ratio: z.number().min(1).max(20),
+        attack_ms: z.number().min(0.01).max(2000),
+        release_ms: z.number().min(0.01).max(9000)
+    }).nullable()
+});
+
+const ExecutionPlanSchema = z.object({
+    plan_id: z.string(),
+    status: z.literal('compilable', {
+        errorMap: () => ({ message: "Only 'compilable' plans can be rendered." })
+    }),
+    output_format: z.object({
+        container: z.enum(['mp4', 'webm', 'mov']),
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+        fps: z.number().positive(),
+        bitrate_kbps: z.number().positive(),
+        audio_bitrate_kbps: z.number().positive(),
+        codec_hint: z.enum(['h264', 'h265', 'vp9', 'av1'])
+    }),
+    timeline: z.array(TimelineSegmentSchema).min(1, { message: "Plan timeline is empty" }),
+    audio_tracks: z.array(AudioSegmentSchema),
+    text_overlays: z.array(TextOverlaySchema).optional(),
+    audio_mix: AudioMixSchema.optional()
+}).passthrough(); // Keep ids, validation and other plan metadata as-is
+
+const PlanJobSchema = z.object({
+    source_url: z.string().url({ message: "Invalid source_url" }),
+    plan: ExecutionPlanSchema,
+    priority: PrioritySchema.optional(),
+    webhook_url: z.string().url().optional(),
+    metadata: z.record(z.any()).optional()
+}).strict();
+
+// Maps the internal queue status onto the RenderFlowJobState contract (src/renderflow/api.ts)
+// for rows that predate the `state` column
+const STATE_BY_STATUS = {
+    pending: 'queued',
+    processing: 'processing',
+    done: 'done',
+    failed: 'failed',
+    cancelled: 'cancelled'
+};
+
+/**
+ * Job row → RenderFlowJob contract (plus the raw queue fields).
+ */
+function toJobResponse(job, req) {
+    return {
+        id: job.id,
+        status: job.status,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        completed_at: job.completed_at,
+        output_path: job.output_path, // Filename or relative path
+        // RenderFlowJob contract fields
+        state: job.state || STATE_BY_STATUS[job.status] || 'failed',
+        progress_pct: job.status === 'done' ? 100 : job.progress_pct || 0,
+        priority: job.priority,
+        attempts: job.attempts,
+        max_attempts: job.max_attempts,
+        next_attempt_at: job.status === 'pending' && job.next_attempt_at > Date.now() ? job.next_attempt_at : undefined,
+        cancel_requested: job.cancel_requested === 1,
+        error: job.error ? { code: job.error_code || 'FFMPEG_ERROR_UNKNOWN', message: job.error } : undefined,
+        output: job.status === 'done' && job.output_path ? {
+            output_url: `${req.protocol}://${req.get('host')}/render/outputs/${job.output_path}`,
+            loudness: job.output_meta ? job.output_meta.loudness : undefined
+        } : undefined
+    };
+}
+
 const app = express();
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' }));
+app.use('/render/outputs', express.static(OUTPUT_DIR));
 
 // --- Routes ---
 
 /**
  * POST /jobs
- * Submit a new render job.
+ * Submit a new render job: either a scale pass or an ExecutionPlan (body has `plan`).
  * Strict validation: 400 if invalid.
  */
 app.post('/render/jobs', (req, res) => {
     try {
         // 1. Validate Payload
-        const validatedData = JobSchema.parse(req.body);
+        const schema = req.body && req.body.plan !== undefined ? PlanJobSchema : JobSchema;
+        const validatedData = schema.parse(req.body);
 
         // 2. Generate ID
         const jobId = uuidv4();
 
         // 3. Persist to DB
-        db.addJob(jobId, validatedData);
+        db.addJob(jobId, validatedData, { priority: validatedData.priority, maxAttempts: MAX_ATTEMPTS });
 
         // 4. Return Success
         res.status(200).json({
             id: jobId,
             status: 'pending',
+            priority: validatedData.priority || 0,
             message: 'Job accepted'
         });
     } catch (err) {
@@ -77,18 +239,100 @@ app.get('/render/jobs/:id', (req, res) => {
         return res.status(404).json({ error: 'Job not found' });
     }
 
-    // Construct response
-    const response = {
-        id: job.id,
-        status: job.status,
-        created_at: job.created_at,
-        started_at: job.started_at,
-        completed_at: job.completed_at,
-        output_path: job.output_path, // Filename or relative path
-        error: job.error
+    res.json(toJobResponse(job, req));
+});
+
+/**
+ * POST /jobs/:id/cancel
+ * Pending jobs are cancelled immediately (202 otherwise, while the worker
+ * stops ffmpeg). 409 if the job already finished.
+ */
+app.post('/render/jobs/:id/cancel', (req, res) => {
+    const outcome = db.cancelJob(req.params.id);
+
+    if (!outcome) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+    if (outcome === 'finished') {
+        return res.status(409).json({ error: 'Job already finished', job: toJobResponse(db.getJob(req.params.id), req) });
+    }
+    if (outcome === 'cancelling') {
+        cancelActiveJob(req.params.id);
+    }
+
+    res.status(outcome === 'cancelled' ? 200 : 202).json(toJobResponse(db.getJob(req.params.id), req));
+});
+
+/**
+ * Delivery row → API shape (the stored payload is returned parsed).
+ */
+function toDeliveryResponse(delivery) {
+    return {
+        id: delivery.id,
+        job_id: delivery.job_id,
+        event: delivery.event,
+        url: delivery.url,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        max_attempts: delivery.max_attempts,
+        next_attempt_at: delivery.status === 'pending' ? delivery.next_attempt_at : undefined,
+        last_status_code: delivery.last_status_code,
+        last_error: delivery.last_error,
+        replay_of: delivery.replay_of,
+        created_at: delivery.created_at,
+        delivered_at: delivery.delivered_at,
+        payload: JSON.parse(delivery.payload)
     };
+}
 
-    res.json(response);
+/**
+ * GET /jobs/:id/webhooks
+ * Webhook delivery log of a job.
+ */
+app.get('/render/jobs/:id/webhooks', (req, res) => {
+    if (!db.getJob(req.params.id)) {
+        return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ deliveries: db.listWebhookDeliveries(req.params.id).map(toDeliveryResponse) });
+});
+
+// replayJobWebhook error → HTTP response
+const REPLAY_ERRORS = {
+    JOB_NOT_FOUND: [404, 'Job not found'],
+    DELIVERY_NOT_FOUND: [404, 'Delivery not found for this job'],
+    NO_WEBHOOK_URL: [409, 'Job has no webhook_url'],
+    JOB_NOT_FINISHED: [409, 'Job has not finished']
+};
+
+/**
+ * POST /jobs/:id/webhooks/replay
+ * Re-send a job's webhook as a new delivery. Body: { delivery_id? } (default: latest delivery).
+ */
+app.post('/render/jobs/:id/webhooks/replay', (req, res) => {
+    const deliveryId = req.body && typeof req.body.delivery_id === 'string' ? req.body.delivery_id : undefined;
+    const result = replayJobWebhook(req.params.id, deliveryId);
+
+    if (result.error) {
+        const [status, message] = REPLAY_ERRORS[result.error];
+        return res.status(status).json({ error: message, code: result.error });
+    }
+    res.status(202).json(toDeliveryResponse(db.getWebhookDelivery(result.id)));
+});
+
+/**
+ * GET /queue
+ * Worker concurrency and queue depth.
+ */
+app.get('/render/queue', (req, res) => {
+    const counts = db.countByStatus();
+    res.json({
+        ...getWorkerStats(),
+        pending: counts.pending || 0,
+        processing: counts.processing || 0,
+        done: counts.done || 0,
+        failed: counts.failed || 0,
+        cancelled: counts.cancelled || 0
+    });
 });
 
 // Health Check
@@ -102,5 +346,6 @@ const server = app.listen(PORT, () => {
     console.log(`RenderFlow v2 listening on port ${PORT}`);
 
     // Start the internal worker loop (Single Process Model)
-    startWorker(2000);
+    startWorker({ intervalMs: 2000, concurrency: CONCURRENCY });
+    startWebhookDispatcher(2000);
 });
@@ -0,0 +1,224 @@
+const crypto = require('crypto');
+const db = require('./db.cjs');
+
+/**
+ * Outbound job webhooks.
+ *
+ * When a job with a `webhook_url` finishes (done or failed for good), a
+ * delivery is queued and POSTed by the dispatcher loop. The body uses the
+ * same envelope as the engine callbacks consumed by
+ * supabase/functions/ai-engine-webhook (engine, job_id, status, video_url,
+ * error_message, metadata), so the same automation can react to renders.
+ *
+ * Every attempt is signed:
+ *   x-renderflow-signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+ * Failed attempts (network errors, timeouts, 408/429/5xx) are retried with
+ * exponential backoff; other 4xx responses fail the delivery right away.
+ */
+
+const SECRET = process.env.RENDERFLOW_WEBHOOK_SECRET || '';
+const PUBLIC_URL = (process.env.RENDERFLOW_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+const MAX_ATTEMPTS = Number(process.env.RENDERFLOW_WEBHOOK_MAX_ATTEMPTS) || 6;
+const BASE_DELAY_MS = 10 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 10;
+
+const EVENT_BY_STATUS = {
+    done: 'render.completed',
+    failed: 'render.failed'
+};
+
+/**
+ * Envelope for a finished job.
+ * @param {object} job - Job row (status done or failed)
+ */
+function buildEnvelope(job) {
+    const completed = job.status === 'done';
+    const { metadata = {}, plan } = job.data;
+    return {
+        event: EVENT_BY_STATUS[job.status],
+        engine: 'renderflow',
+        job_id: job.id,
+        status: completed ? 'completed' : 'failed',
+        video_url: completed && job.output_path ? `${PUBLIC_URL}/render/outputs/${job.output_path}` : undefined,
+        error_message: completed ? undefined : job.error || 'Render failed',
+        error_code: completed ? undefined : job.error_code || undefined,
+        metadata: {
+            ...metadata,
+            plan_id: plan ? plan.plan_id : undefined,
+            loudness: completed && job.output_meta ? job.output_meta.loudness : undefined,
+            attempts: job.attempts,
+            started_at: job.started_at ? new Date(job.started_at).toISOString() : undefined,
+            completed_at: job.completed_at ? new Date(job.completed_at).toISOString() : undefined
+        }
+    };
+}
+
+/**
+ * Signature header value for a body.
+ * @param {string} body
+ * @param {string} secret
+ * @param {number} [timestamp] - Unix seconds
+ */
+function signPayload(body, secret, timestamp = Math.floor(Date.now() / 1000)) {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * @param {number} attempt - 1-based number of the attempt that just failed
+ */
+function backoffDelay(attempt) {
+    return Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+}
+
+const isRetryableStatus = (code) => code === 408 || code === 429 || code >= 500;
+
+/**
+ * Queue the webhook for a finished job. No-op without webhook_url or for
+ * states that do not notify (cancelled).
+ * @param {string} jobId
+ * @returns {string|null} Delivery id
+ */
+function enqueueJobWebhook(jobId) {
+    const job = db.getJob(jobId);
+    if (!job || !job.data.webhook_url || !EVENT_BY_STATUS[job.status]) return null;
+
+    const envelope = buildEnvelope(job);
+    const id = crypto.randomUUID();
+    db.addWebhookDelivery({
+        id,
+        jobId,
+        event: envelope.event,
+        url: job.data.webhook_url,
+        payload: JSON.stringify(envelope),
+        maxAttempts: MAX_ATTEMPTS
+    });
+    return id;
+}
+
+/**
+ * Send a job's webhook again as a new delivery. Replays the given delivery
+ * (or the latest one) with its original body; jobs that never had a delivery
+ * get a fresh one.
+ * @param {string} jobId
+ * @param {string} [deliveryId]
+ * @returns {{ id: string } | { error: string }}
+ */
+function replayJobWebhook(jobId, deliveryId) {
+    const job = db.getJob(jobId);
+    if (!job) return { error: 'JOB_NOT_FOUND' };
+
+    const deliveries = db.listWebhookDeliveries(jobId);
+    const source = deliveryId
+        ? deliveries.find(d => d.id === deliveryId)
+        : deliveries[deliveries.length - 1];
+
+    if (deliveryId && !source) return { error: 'DELIVERY_NOT_FOUND' };
+    if (!source) {
+        if (!job.data.webhook_url) return { error: 'NO_WEBHOOK_URL' };
+        if (!EVENT_BY_STATUS[job.status]) return { error: 'JOB_NOT_FINISHED' };
+        return { id: enqueueJobWebhook(jobId) };
+    }
+
+    const id = crypto.randomUUID();
+    db.addWebhookDelivery({
+        id,
+        jobId,
+        event: source.event,
+        url: source.url,
+        payload: source.payload,
+        maxAttempts: MAX_ATTEMPTS,
+        replayOf: source.id
+    });
+    return { id };
+}
+
+/**
+ * One POST of a delivery.
+ * @returns {Promise<{ statusCode: number|null, error: string|null }>}
+ */
+async function sendDelivery(delivery) {
+    const headers = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'RenderFlow-Webhooks/1',
+        'x-renderflow-event': delivery.event,
+        'x-renderflow-delivery': delivery.id,
+        'x-renderflow-attempt': String(delivery.attempts + 1)
+    };
+    if (SECRET) headers['x-renderflow-signature'] = signPayload(delivery.payload, SECRET);
+
+    try {
+        const res = await fetch(delivery.url, {
+            method: 'POST',
+            headers,
+            body: delivery.payload,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+        return { statusCode: res.status, error: res.ok ? null : `HTTP ${res.status}` };
+    } catch (err) {
+        return { statusCode: null, error: err.name === 'TimeoutError' ? 'Request timed out' : err.message };
+    }
+}
+
+async function deliver(delivery) {
+    const { statusCode, error } = await sendDelivery(delivery);
+    const attempt = delivery.attempts + 1;
+
+    if (!error) {
+        db.recordWebhookAttempt(delivery.id, { status: 'delivered', statusCode, error: null });
+        return;
+    }
+
+    const retry = (statusCode === null || isRetryableStatus(statusCode)) && attempt < delivery.max_attempts;
+    db.recordWebhookAttempt(delivery.id, {
+        status: retry ? 'pending' : 'failed',
+        statusCode,
+        error,
+        nextAttemptAt: retry ? Date.now() + backoffDelay(attempt) : 0
+    });
+    console.warn(`Webhooks: Delivery ${delivery.id} (job ${delivery.job_id}) attempt ${attempt} failed: ${error}` +
+        (retry ? `, retrying in ${backoffDelay(attempt)}ms` : ''));
+}
+
+let dispatching = false;
+
+/**
+ * Single iteration of the dispatcher loop. Deliveries are sent one at a time
+ * so a slow endpoint cannot pile up requests.
+ */
+async function dispatchTick() {
+    if (dispatching) return;
+    dispatching = true;
+    try {
+        for (const delivery of db.getDueWebhookDeliveries(BATCH_SIZE)) {
+            await deliver(delivery);
+        }
+    } catch (err) {
+        // Like the worker loop, the dispatcher must never crash
+        console.error('Webhook Dispatcher Error:', err);
+    } finally {
+        dispatching = false;
+    }
+}
+
+let intervalId = null;
+
+function startWebhookDispatcher(intervalMs = 2000) {
+    if (intervalId) return;
+    if (!SECRET) {
+        console.warn('Webhooks: RENDERFLOW_WEBHOOK_SECRET not set, deliveries are sent unsigned');
+    }
+    console.log(`Starting RenderFlow Webhook Dispatcher (poll interval: ${intervalMs}ms)`);
+    dispatchTick();
+    intervalId = setInterval(dispatchTick, intervalMs);
+}
+
+module.exports = {
+    buildEnvelope,
+    signPayload,
+    enqueueJobWebhook,
+    replayJobWebhook,
+    startWebhookDispatcher
+};
@@ -2,94 +2,274 @@ const fs = require('fs');
 const path = require('path');
 const { spawn } = require('child_process');
 const db = require('./db.cjs');
+const { loadPlanBuilder, planOutputFilename, textFilePath } = require('./plan.cjs');
+const { createProgressTracker } = require('./progress.cjs');
+const { classifyFailure } = require('./retry.cjs');
+const { enqueueJobWebhook } = require('./webhooks.cjs');
+const loudness = require('./loudness.cjs');
 
 const TEMP_DIR = path.join(__dirname, 'temp');
 const OUTPUT_DIR = path.join(__dirname, 'output');
 
+// Keep the tail of stderr for error classification
+const STDERR_TAIL_BYTES = 64 * 1024;
+
 // Ensure directories exist
 if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR, { recursive: true });
 if (!fs.existsSync(OUTPUT_DIR)) fs.mkdirSync(OUTPUT_DIR, { recursive: true });
 
-async function processJob(job) {
-    const logFile = path.join(TEMP_DIR, `${job.id}_ffmpeg.log`);
-    const logStream = fs.createWriteStream(logFile, { flags: 'a' });
+class JobCancelledError extends Error {
+    constructor(jobId) {
+        super(`Job ${jobId} was cancelled`);
+        this.name = 'JobCancelledError';
+    }
+}
+
+// jobId → { child, cancelled } for every job this worker is running
+const activeJobs = new Map();
+
+/**
+ * Spawn ffmpeg and stream its output into the job log.
+ * Progress blocks (`-progress pipe:1`) go to the tracker instead of the log.
+ * @param {string[]} args
+ * @param {fs.WriteStream} logStream
+ * @param {object} job - Claimed job row
+ * @param {ReturnType<typeof createProgressTracker>} tracker
+ * @returns {Promise<string>} Tail of stderr
+ */
+function runFfmpeg(args, logStream, job, tracker) {
+    const fullArgs = ['-progress', 'pipe:1', '-nostats', ...args];
+    logStream.write(`Executing: ffmpeg ${fullArgs.join(' ')}\n`);
+
+    return new Promise((resolve, reject) => {
+        const active = activeJobs.get(job.id);
+        if (active.cancelled) return reject(new JobCancelledError(job.id));
+
+        const ffmpeg = spawn('ffmpeg', fullArgs);
+        active.child = ffmpeg;
+        tracker.setState('downloading');
+
+        let stderrTail = '';
+
+        ffmpeg.stdout.on('data', (data) => {
+            tracker.onStdout(data);
+        });
+
+        ffmpeg.stderr.on('data', (data) => {
+            logStream.write(data);
+            tracker.onStderr(data);
+            stderrTail = (stderrTail + data.toString()).slice(-STDERR_TAIL_BYTES);
+        });
+
+        ffmpeg.on('close', (code, signal) => {
+            active.child = null;
+            logStream.write(`[${new Date().toISOString()}] FFmpeg exited with code ${code}${signal ? ` (${signal})` : ''}\n`);
+            if (active.cancelled) {
+                reject(new JobCancelledError(job.id));
+            } else if (code === 0) {
+                resolve(stderrTail);
+            } else {
+                const err = new Error(`FFmpeg exited with code ${code}`);
+                err.stderr = stderrTail;
+                reject(err);
+            }
+        });
 
-    logStream.write(`[${new Date().toISOString()}] Job ${job.id} started.\n`);
+        ffmpeg.on('error', (err) => {
+            active.child = null;
+            logStream.write(`[${new Date().toISOString()}] Spawn error: ${err.message}\n`);
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Scale pass: single source re-encoded to the requested resolution.
+ */
+async function processScaleJob(job, logStream, tracker) {
     logStream.write(`Source: ${job.data.source_url}\n`);
     logStream.write(`Target: ${job.data.output_format} (${job.data.resolution})\n`);
 
+    // Assuming output format is strict (mp4, webm, gif)
+    const outputFilename = `${job.id}.${job.data.output_format}`;
+    const outputPath = path.join(OUTPUT_DIR, outputFilename);
+
+    const [width, height] = job.data.resolution.split('x');
+    if (!width || !height) throw new Error(`Invalid resolution format: ${job.data.resolution}`);
+
+    const args = [
+        '-y', // Overwrite output
+        '-i', job.data.source_url, // Input
+        '-vf', `scale=${width}:${height}`, // Scale filter
+        '-c:a', 'copy', // Copy audio if possible
+        outputPath
+    ];
+
+    await runFfmpeg(args, logStream, job, tracker);
+    return { outputFilename, outputMeta: null };
+}
+
+/**
+ * Loudness passes over a finished render: always measured, normalized to
+ * the plan's target when it has one. Both run at the end of the muxing stage.
+ * @param {string} renderPath - Output of the plan pass
+ * @param {string} outputPath - Final file (same as renderPath when only measuring)
+ * @param {object|null} target - plan.audio_mix.loudness
+ * @returns {Promise<object|null>} Loudness report, null for silent renders
+ */
+async function processLoudness(job, logStream, tracker, { renderPath, outputPath, target, outputFormat }) {
+    // Per-pass progress would restart the encoding range
+    const quiet = createProgressTracker({ onProgress: () => { } });
+    tracker.setState('muxing', 1);
+
+    const { buildLoudnormFilter, EBU_R128_TARGET } = await loadPlanBuilder();
+    const measureFilter = buildLoudnormFilter(target || EBU_R128_TARGET);
+    const measured = loudness.parseLoudnormStats(
+        await runFfmpeg(loudness.measureArgs(renderPath, measureFilter), logStream, job, quiet)
+    );
+
+    if (!loudness.isMeasurable(measured)) {
+        logStream.write('Loudness: no measurable audio, normalization skipped\n');
+        if (renderPath !== outputPath) fs.renameSync(renderPath, outputPath);
+        return null;
+    }
+    if (!target) return loudness.toLoudnessReport(measured, null, false);
+
+    const normalized = loudness.parseLoudnormStats(await runFfmpeg(
+        loudness.normalizeArgs(renderPath, outputPath, buildLoudnormFilter(target, measured), outputFormat),
+        logStream, job, quiet
+    ));
+    if (!normalized) throw new Error('Loudness normalization finished without loudnorm stats');
+
+    const report = loudness.toLoudnessReport(normalized, target, true);
+    logStream.write(`Loudness: ${report.source_integrated_lufs} → ${report.integrated_lufs} LUFS, ` +
+        `true peak ${report.true_peak_dbtp} dBTP (${report.normalization})\n`);
+    return report;
+}
+
+/**
+ * Plan pass: render a Creative Scale ExecutionPlan timeline.
+ */
+async function processPlanJob(job, logStream, tracker) {
+    const { plan, source_url: sourceUrl } = job.data;
+    const { width, height, container } = plan.output_format;
+
+    logStream.write(`Source: ${sourceUrl}\n`);
+    logStream.write(`Plan: ${plan.plan_id} (${plan.timeline.length} segments, ` +
+        `${(plan.audio_tracks || []).length} audio, ${(plan.text_overlays || []).length} text)\n`);
+    logStream.write(`Target: ${container} (${width}x${height})\n`);
+
+    const outputFilename = planOutputFilename(job.id, plan);
+    const outputPath = path.join(OUTPUT_DIR, outputFilename);
+
+    const textFiles = (plan.text_overlays || []).map((overlay, i) => {
+        const file = textFilePath(TEMP_DIR, job.id, i);
+        fs.writeFileSync(file, overlay.content, 'utf8');
+        return file;
+    });
+
+    // With a loudness target the plan pass renders to temp, pass 2 writes the output
+    const target = (plan.audio_mix && plan.audio_mix.loudness) || null;
+    const renderPath = target ? path.join(TEMP_DIR, `${job.id}_mix.${container}`) : outputPath;
+
     try {
-        // 1. Determine Output Path
-        // Assuming output format is strict (mp4, webm, gif)
-        const outputFilename = `${job.id}.${job.data.output_format}`;
-        const outputPath = path.join(OUTPUT_DIR, outputFilename);
-
-        // 2. Build FFmpeg Arguments
-        const [width, height] = job.data.resolution.split('x');
-        if (!width || !height) throw new Error(`Invalid resolution format: ${job.data.resolution}`);
-
-        const args = [
-            '-y', // Overwrite output
-            '-i', job.data.source_url, // Input
-            '-vf', `scale=${width}:${height}`, // Scale filter
-            '-c:a', 'copy', // Copy audio if possible
-            outputPath
-        ];
-
-        logStream.write(`Executing: ffmpeg ${args.join(' ')}\n`);
-
-        // 3. Spawn FFmpeg
-        await new Promise((resolve, reject) => {
-            const ffmpeg = spawn('ffmpeg', args);
-
-            ffmpeg.stdout.on('data', (data) => {
-                logStream.write(data);
-            });
-
-            ffmpeg.stderr.on('data', (data) => {
-                logStream.write(data);
-            });
-
-            ffmpeg.on('close', (code) => {
-                logStream.write(`[${new Date().toISOString()}] FFmpeg exited with code ${code}\n`);
-                if (code === 0) {
-                    resolve();
-                } else {
-                    reject(new Error(`FFmpeg exited with code ${code}`));
-                }
-            });
-
-            ffmpeg.on('error', (err) => {
-                logStream.write(`[${new Date().toISOString()}] Spawn error: ${err.message}\n`);
-                reject(err);
-            });
+        const { buildFFmpegCommand } = await loadPlanBuilder();
+        const { args, durationMs, audioLabel } = buildFFmpegCommand(plan, { sourceUrl, outputPath: renderPath, textFiles });
+        tracker.setDuration(durationMs);
+        await runFfmpeg(args, logStream, job, tracker);
+
+        if (audioLabel === null) {
+            if (renderPath !== outputPath) fs.renameSync(renderPath, outputPath);
+            return { outputFilename, outputMeta: null };
+        }
+
+        const report = await processLoudness(job, logStream, tracker, {
+            renderPath, outputPath, target, outputFormat: plan.output_format
         });
+        return { outputFilename, outputMeta: report ? { loudness: report } : null };
+    } finally {
+        textFiles.forEach(file => fs.rmSync(file, { force: true }));
+        if (renderPath !== outputPath) fs.rmSync(renderPath, { force: true });
+    }
+}
+
+async function processJob(job) {
+    const logFile = path.join(TEMP_DIR, `${job.id}_ffmpeg.log`);
+    const logStream = fs.createWriteStream(logFile, { flags: 'a' });
+    const tracker = createProgressTracker({
+        onProgress: (state, pct) => db.updateProgress(job.id, state, pct)
+    });
+
+    logStream.write(`[${new Date().toISOString()}] Job ${job.id} started (attempt ${job.attempts}/${job.max_attempts}).\n`);
+    tracker.setState('preparing');
+
+    try {
+        const { outputFilename, outputMeta } = job.data.plan
+            ? await processPlanJob(job, logStream, tracker)
+            : await processScaleJob(job, logStream, tracker);
 
-        // 4. Success- Mark as done
-        db.completeJob(job.id, outputFilename);
+        tracker.setState('finalizing');
+        if (!fs.existsSync(path.join(OUTPUT_DIR, outputFilename))) {
+            throw new Error(`FFmpeg finished but ${outputFilename} was not written`);
+        }
+
+        // Success - Mark as done
+        db.completeJob(job.id, outputFilename, outputMeta);
+        enqueueJobWebhook(job.id);
 
         logStream.write(`[${new Date().toISOString()}] Job completed successfully.\n`);
 
     } catch (err) {
+        if (err instanceof JobCancelledError || db.isCancelRequested(job.id)) {
+            logStream.write(`[${new Date().toISOString()}] Job cancelled.\n`);
+            removeOutput(job);
+            db.markCancelled(job.id);
+            return;
+        }
+
         console.error(`Job ${job.id} failed:`, err);
         logStream.write(`[${new Date().toISOString()}] Job Failed: ${err.message}\n`);
         logStream.write(`Stack: ${err.stack}\n`);
 
-        db.failJob(job.id, err.message);
+        const failure = await classifyFailure(err, job);
+        if (failure.retry) {
+            logStream.write(`[${new Date().toISOString()}] ${failure.code}: retrying in ${failure.delayMs}ms.\n`);
+            db.retryJob(job.id, failure.message, failure.code, Date.now() + failure.delayMs);
+        } else {
+            db.failJob(job.id, failure.message, failure.code);
+            enqueueJobWebhook(job.id);
+        }
     } finally {
         logStream.end();
     }
 }
 
 /**
- * Single iteration of the worker loop.
+ * Partial output of a cancelled job
+ */
+function removeOutput(job) {
+    const filename = job.data.plan
+        ? planOutputFilename(job.id, job.data.plan)
+        : `${job.id}.${job.data.output_format}`;
+    fs.rmSync(path.join(OUTPUT_DIR, filename), { force: true });
+}
+
+let concurrency = 1;
+
+/**
+ * Single iteration of the worker loop: fill every free slot.
  */
-async function workerTick() {
+function workerTick() {
     try {
-        const job = db.claimJob();
-        if (job) {
-            console.log(`Worker: Claimed job ${job.id}`);
-            await processJob(job);
+        while (activeJobs.size < concurrency) {
+            const job = db.claimJob();
+            if (!job) break;
+
+            console.log(`Worker: Claimed job ${job.id} (priority ${job.priority}, attempt ${job.attempts})`);
+            activeJobs.set(job.id, { child: null, cancelled: job.cancel_requested === 1 });
+            processJob(job)
+                .catch(err => console.error(`Worker: Job ${job.id} crashed:`, err))
+                .finally(() => activeJobs.delete(job.id));
         }
     } catch (err) {
         // CRITICAL: Worker loop must never crash
@@ -97,11 +277,37 @@ async function workerTick() {
     }
 }
 
+/**
+ * Stop a job this worker is running. Kills only the ffmpeg child it spawned.
+ * @param {string} jobId
+ * @returns {boolean} Whether the job was running here
+ */
+function cancelActiveJob(jobId) {
+    const active = activeJobs.get(jobId);
+    if (!active) return false;
+    active.cancelled = true;
+    if (active.child) active.child.kill('SIGTERM');
+    return true;
+}
+
+function getWorkerStats() {
+    return { concurrency, active: activeJobs.size, active_job_ids: [...activeJobs.keys()] };
+}
+
 let intervalId = null;
 
-function startWorker(intervalMs = 2000) {
+/**
+ * @param {object} [options]
+ * @param {number} [options.intervalMs] - Poll interval
+ * @param {number} [options.concurrency] - Jobs rendered at the same time
+ */
+function startWorker({ intervalMs = 2000, concurrency: slots = 1 } = {}) {
     if (intervalId) return;
-    console.log(`Starting RenderFlow Worker (poll interval: ${intervalMs}ms)`);
+    concurrency = Math.max(1, Math.floor(slots));
+    console.log(`Starting RenderFlow Worker (poll interval: ${intervalMs}ms, concurrency: ${concurrency})`);
+
+    const requeued = db.requeueInterrupted();
+    if (requeued > 0) console.log(`Worker: Requeued ${requeued} interrupted job(s)`);
 
     // Initial tick
     workerTick();
@@ -109,4 +315,4 @@ function startWorker(intervalMs = 2000) {
     intervalId = setInterval(workerTick, intervalMs);
 }
 
-module.exports = { startWorker };
+module.exports = { startWorker, cancelActiveJob, getWorkerStats, OUTPUT_DIR };
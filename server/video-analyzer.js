@@ -0,0 +1,390 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+
+/**
+ * SIGNAL VIDEO ANALYZER
+ * Builds a schema-valid VideoAnalysis from the media itself, without an LLM.
+ *
+ * - ffprobe: duration, resolution, fps, aspect ratio
+ * - Video pass (10 fps, 160px wide): per-frame scene score. Peaks are cuts,
+ *   the curve is the motion energy.
+ * - Audio pass: silencedetect + ebur128 momentary loudness (100ms).
+ *
+ * Segment boundaries come from scene cuts first, then speech pauses; overlong
+ * segments are split at their quietest point. Segment types are positional
+ * placeholders (hook / benefit / cta): the LLM only labels them afterwards
+ * and never changes a timing.
+ */
+
+const ANALYZER_DEFAULTS = {
+    sceneThreshold: 0.3,     // Scene score above this is a cut
+    minCutGapMs: 500,        // Flashes and fades count once
+    silenceNoiseDb: -35,
+    minSilenceMs: 300,
+    minPauseBoundaryMs: 400, // Shorter pauses do not start a new segment
+    minSegmentMs: 1000,
+    maxSegmentMs: 7000,
+    motionFullScale: 0.12,   // Mean scene score treated as "full motion"
+    loudnessFloorLufs: -40,  // Momentary loudness mapped to 0..1 between these
+    loudnessCeilLufs: -14
+};
+
+const ASPECT_RATIOS = [
+    { label: '9:16', value: 9 / 16 },
+    { label: '4:5', value: 4 / 5 },
+    { label: '1:1', value: 1 },
+    { label: '16:9', value: 16 / 9 }
+];
+
+const clamp01 = (value) => Math.min(1, Math.max(0, value));
+const round3 = (value) => Number(value.toFixed(3));
+
+// ============================================
+// PROCESS HELPERS
+// ============================================
+
+function run(command, args) {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args);
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', data => { stdout += data.toString(); });
+        child.stderr.on('data', data => { stderr += data.toString(); });
+        child.on('error', reject);
+        child.on('close', code => {
+            if (code !== 0) {
+                return reject(new Error(`${command} exited with code ${code}: ${stderr.slice(-500)}`));
+            }
+            resolve({ stdout, stderr });
+        });
+    });
+}
+
+function parseRate(rate) {
+    const [num, den] = String(rate || '').split('/').map(Number);
+    if (!num) return 0;
+    return den ? num / den : num;
+}
+
+// ============================================
+// PROBE
+// ============================================
+
+/**
+ * @returns {Promise<{ duration_ms, width, height, fps, has_audio }>}
+ */
+export async function probeMedia(mediaPath) {
+    const { stdout } = await run('ffprobe', [
+        '-v', 'error',
+        '-print_format', 'json',
+        '-show_format', '-show_streams',
+        mediaPath
+    ]);
+    const probe = JSON.parse(stdout);
+    const video = (probe.streams || []).find(s => s.codec_type === 'video');
+    if (!video) throw new Error('No video stream found');
+
+    // Phone footage is often stored landscape with a rotation flag
+    const rotation = Math.abs(Number(
+        video.tags?.rotate ?? video.side_data_list?.find(d => d.rotation !== undefined)?.rotation ?? 0
+    ));
+    const swap = rotation === 90 || rotation === 270;
+
+    const duration = Number(probe.format?.duration || video.duration || 0);
+    return {
+        duration_ms: Math.round(duration * 1000),
+        width: swap ? video.height : video.width,
+        height: swap ? video.width : video.height,
+        fps: Math.round(parseRate(video.avg_frame_rate) || parseRate(video.r_frame_rate) || 30),
+        has_audio: (probe.streams || []).some(s => s.codec_type === 'audio')
+    };
+}
+
+export function nearestAspectRatio(width, height) {
+    const ratio = width / Math.max(1, height);
+    return ASPECT_RATIOS.reduce((best, candidate) =>
+        Math.abs(Math.log(candidate.value / ratio)) < Math.abs(Math.log(best.value / ratio)) ? candidate : best
+    ).label;
+}
+
+// ============================================
+// VIDEO SIGNALS
+// ============================================
+
+/**
+ * Scene score per sampled frame.
+ * @returns {Promise<Array<{ t_ms, score }>>}
+ */
+export async function sceneScores(mediaPath) {
+    const { stdout } = await run('ffmpeg', [
+        '-v', 'error', '-nostats',
+        '-i', mediaPath,
+        '-an',
+        '-vf', 'fps=10,scale=160:-2,select=gte(scene\\,0),metadata=print:key=lavfi.scene_score:file=-',
+        '-f', 'null', '-'
+    ]);
+
+    const frames = [];
+    let time = null;
+    for (const line of stdout.split('\n')) {
+        const pts = line.match(/pts_time:([\d.]+)/);
+        if (pts) {
+            time = Math.round(Number(pts[1]) * 1000);
+            continue;
+        }
+        const score = line.match(/lavfi\.scene_score=([\d.]+)/);
+        if (score && time !== null) {
+            frames.push({ t_ms: time, score: Number(score[1]) });
+            time = null;
+        }
+    }
+    return frames;
+}
+
+/**
+ * Local maxima above the threshold, at least minCutGapMs apart.
+ */
+export function detectCuts(frames, options = ANALYZER_DEFAULTS) {
+    const cuts = [];
+    for (let i = 0; i < frames.length; i++) {
+        const { t_ms, score } = frames[i];
+        if (score < options.sceneThreshold) continue;
+        if (score < (frames[i - 1]?.score ?? 0) || score < (frames[i + 1]?.score ?? 0)) continue;
+
+        const last = cuts[cuts.length - 1];
+        if (last && t_ms - last.t_ms < options.minCutGapMs) {
+            if (score > last.score) cuts[cuts.length - 1] = { t_ms, score };
+            continue;
+        }
+        cuts.push({ t_ms, score });
+    }
+    return cuts.map(c => c.t_ms).filter(t => t > 0);
+}
+
+// ============================================
+// AUDIO SIGNALS
+// ============================================
+
+/**
+ * @returns {Promise<{ silences: Array<{start_ms, end_ms}>, loudness: Array<{t_ms, lufs}> }>}
+ */
+export async function audioSignals(mediaPath, durationMs, options = ANALYZER_DEFAULTS) {
+    const { stderr } = await run('ffmpeg', [
+        '-v', 'info', '-nostats',
+        '-i', mediaPath,
+        '-vn',
+        '-af', `silencedetect=noise=${options.silenceNoiseDb}dB:d=${options.minSilenceMs / 1000},ebur128=framelog=info`,
+        '-f', 'null', '-'
+    ]);
+
+    const silences = [];
+    const loudness = [];
+    let openSilence = null;
+    for (const line of stderr.split('\n')) {
+        const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (start) {
+            openSilence = Math.max(0, Math.round(Number(start[1]) * 1000));
+            continue;
+        }
+        const end = line.match(/silence_end:\s*([\d.]+)/);
+        if (end && openSilence !== null) {
+            silences.push({ start_ms: openSilence, end_ms: Math.round(Number(end[1]) * 1000) });
+            openSilence = null;
+            continue;
+        }
+        const frame = line.match(/t:\s*([\d.]+)\s+.*?M:\s*(-?[\d.]+|-inf)/);
+        if (frame) {
+            const lufs = frame[2] === '-inf' ? -70 : Math.max(-70, Number(frame[2]));
+            loudness.push({ t_ms: Math.round(Number(frame[1]) * 1000), lufs });
+        }
+    }
+    // Silence running to the end of the file is never closed
+    if (openSilence !== null) silences.push({ start_ms: openSilence, end_ms: durationMs });
+
+    return { silences, loudness };
+}
+
+function overlapMs(a0, a1, b0, b1) {
+    return Math.max(0, Math.min(a1, b1) - Math.max(a0, b0));
+}
+
+function meanIn(series, key, start, end, fallback) {
+    const values = series.filter(p => p.t_ms >= start && p.t_ms < end).map(p => p[key]);
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : fallback;
+}
+
+function stdDev(values) {
+    if (values.length === 0) return 0;
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+}
+
+// ============================================
+// SEGMENTATION
+// ============================================
+
+/**
+ * Boundaries from cuts, then pauses, keeping every segment at least
+ * minSegmentMs long; overlong segments split at the quietest moment.
+ * @returns {number[]} Sorted boundaries including 0 and durationMs
+ */
+export function segmentBoundaries(durationMs, cuts, silences, loudness, options = ANALYZER_DEFAULTS) {
+    const kept = [0, durationMs];
+    const fits = (t) => kept.every(b => Math.abs(b - t) >= options.minSegmentMs);
+
+    for (const cut of cuts) {
+        if (fits(cut)) kept.push(cut);
+    }
+    const pauses = silences
+        .filter(s => s.start_ms > 0 && s.end_ms < durationMs && s.end_ms - s.start_ms >= options.minPauseBoundaryMs)
+        .sort((a, b) => (b.end_ms - b.start_ms) - (a.end_ms - a.start_ms)); // Longest pauses first
+    for (const pause of pauses) {
+        const mid = Math.round((pause.start_ms + pause.end_ms) / 2);
+        if (fits(mid)) kept.push(mid);
+    }
+    kept.sort((a, b) => a - b);
+
+    const boundaries = [0];
+    for (let i = 1; i < kept.length; i++) {
+        const start = kept[i - 1];
+        const end = kept[i];
+        const pieces = Math.ceil((end - start) / options.maxSegmentMs);
+        for (let p = 1; p < pieces; p++) {
+            const target = start + ((end - start) * p) / pieces;
+            const window = loudness.filter(l =>
+                Math.abs(l.t_ms - target) <= options.minSegmentMs / 2 &&
+                l.t_ms - boundaries[boundaries.length - 1] >= options.minSegmentMs &&
+                end - l.t_ms >= options.minSegmentMs
+            );
+            const quietest = window.reduce((best, l) => (best === null || l.lufs < best.lufs ? l : best), null);
+            boundaries.push(quietest ? quietest.t_ms : Math.round(target));
+        }
+        boundaries.push(end);
+    }
+    return boundaries;
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+function placeholderType(index, count) {
+    if (index === 0) return 'hook';
+    if (index === count - 1) return 'cta';
+    return 'benefit';
+}
+
+/**
+ * Analyze a local media file.
+ * @param {string} mediaPath
+ * @param {{ sourceVideoId: string, language?: string, analysisId?: string }} context
+ * @returns {Promise<{ analysis: object, signals: object }>}
+ */
+export async function analyzeVideoSignals(mediaPath, context, overrides = {}) {
+    const options = { ...ANALYZER_DEFAULTS, ...overrides };
+    const probe = await probeMedia(mediaPath);
+    if (probe.duration_ms <= 0) throw new Error('Could not determine video duration');
+
+    const frames = await sceneScores(mediaPath);
+    const cuts = detectCuts(frames, options);
+    const { silences, loudness } = probe.has_audio
+        ? await audioSignals(mediaPath, probe.duration_ms, options)
+        : { silences: [{ start_ms: 0, end_ms: probe.duration_ms }], loudness: [] };
+
+    const boundaries = segmentBoundaries(probe.duration_ms, cuts, silences, loudness, options);
+    const loudnessScale = (lufs) =>
+        clamp01((lufs - options.loudnessFloorLufs) / (options.loudnessCeilLufs - options.loudnessFloorLufs));
+
+    const segmentSignals = [];
+    const segments = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const start = boundaries[i];
+        const end = boundaries[i + 1];
+        const length = end - start;
+
+        const cutCount = cuts.filter(c => c > start && c < end).length;
+        const motion = meanIn(frames, 'score', start, end, 0);
+        const meanLufs = meanIn(loudness, 'lufs', start, end, -70);
+        const silent = silences.reduce((sum, s) => sum + overlapMs(start, end, s.start_ms, s.end_ms), 0);
+        const silenceRatio = clamp01(silent / length);
+
+        const cutRate = clamp01((cutCount + 1) / (length / 1000) / 1.5); // 1.5 shots/s is as fast as it gets
+        const motionLevel = clamp01(motion / options.motionFullScale);
+        const loudLevel = loudnessScale(meanLufs);
+
+        segmentSignals.push({
+            id: `seg_${i}`,
+            cut_count: cutCount,
+            motion: round3(motion),
+            loudness_lufs: Number(meanLufs.toFixed(1)),
+            silence_ratio: round3(silenceRatio)
+        });
+        segments.push({
+            id: `seg_${i}`,
+            type: placeholderType(i, boundaries.length - 1),
+            start_ms: start,
+            end_ms: end,
+            transcript: null,
+            visual_tags: [],
+            pacing_score: round3(0.5 * cutRate + 0.5 * motionLevel),
+            clarity_score: round3(clamp01(0.3 + 0.5 * (1 - silenceRatio) + 0.2 * loudLevel)),
+            attention_score: round3(clamp01(0.4 * motionLevel + 0.3 * loudLevel + 0.3 * (1 - silenceRatio)))
+        });
+    }
+
+    // Audio
+    const totalSilence = silences.reduce((sum, s) => sum + overlapMs(0, probe.duration_ms, s.start_ms, s.end_ms), 0);
+    const silenceRatio = clamp01(totalSilence / probe.duration_ms);
+    const audible = loudness.filter(l => l.lufs > options.silenceNoiseDb);
+    const audibleLufs = audible.map(l => l.lufs);
+    const loudnessSpread = stdDev(audibleLufs);
+    const meanAudible = audibleLufs.length ? audibleLufs.reduce((a, b) => a + b, 0) / audibleLufs.length : -70;
+    // Speech rises and falls word by word; a music bed stays level and fills the pauses
+    const hasVoiceover = probe.has_audio && silenceRatio < 0.7 && loudnessSpread >= 3;
+    const hasMusic = probe.has_audio && silenceRatio < 0.05 && audible.length > 0 && loudnessSpread < 6;
+
+    // Overall
+    const pacingScores = segments.map(s => s.pacing_score);
+    const weightedClarity = segments.reduce((sum, s) => sum + s.clarity_score * (s.end_ms - s.start_ms), 0) / probe.duration_ms;
+    const cutsPerMinute = cuts.length / (probe.duration_ms / 60000);
+    const aspectRatio = nearestAspectRatio(probe.width, probe.height);
+
+    const analysis = {
+        id: context.analysisId || `analysis_${crypto.randomUUID()}`,
+        source_video_id: context.sourceVideoId,
+        analyzed_at: new Date().toISOString(),
+        metadata: {
+            duration_ms: probe.duration_ms,
+            aspect_ratio: aspectRatio,
+            resolution: `${probe.width}x${probe.height}`,
+            fps: Math.min(120, Math.max(1, probe.fps))
+        },
+        segments,
+        audio: {
+            has_voiceover: hasVoiceover,
+            has_music: hasMusic,
+            music_energy: hasMusic ? (meanAudible > -16 ? 'high' : meanAudible > -24 ? 'medium' : 'low') : null,
+            voice_tone: null,
+            silence_ratio: round3(silenceRatio)
+        },
+        overall_scores: {
+            hook_strength: segments[0].attention_score,
+            message_clarity: round3(clamp01(weightedClarity)),
+            pacing_consistency: round3(clamp01(1 - stdDev(pacingScores) / 0.35)),
+            cta_effectiveness: 0.5 // Needs the words: left neutral until labeled
+        },
+        detected_style: cutsPerMinute >= 20 ? 'professional' : cutsPerMinute < 8 && aspectRatio === '9:16' ? 'ugc' : 'mixed',
+        detected_language: context.language || 'en'
+    };
+
+    return {
+        analysis,
+        signals: {
+            scene_cuts_ms: cuts,
+            silences,
+            segments: segmentSignals,
+            cuts_per_minute: Number(cutsPerMinute.toFixed(1)),
+            loudness_spread_lu: Number(loudnessSpread.toFixed(1))
+        }
+    };
+}
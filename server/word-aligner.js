@@ -0,0 +1,295 @@
+import { spawn } from 'child_process';
+
+/**
+ * WORD ALIGNER
+ * Offline forced alignment of segment transcripts against the source audio.
+ *
+ * No model and no network: the audio is decoded to 16 kHz mono PCM, a
+ * frame-energy voice activity detector finds the speech inside each
+ * VideoSegment, and the transcript words are laid over that speech
+ * (weighted by length) with every word boundary snapped to the nearest
+ * energy valley. Good enough for word-by-word captions; not phonetic.
+ */
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 10;
+const SAMPLES_PER_FRAME = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+const ALIGNER_DEFAULTS = {
+    speechMarginDb: 8,     // Above the noise floor counts as speech
+    minSpeechDb: -55,      // Never call anything quieter than this speech
+    minDynamicRangeDb: 6,  // Flatter audio is treated as all speech
+    hangoverFrames: 15,    // Pauses shorter than 150ms stay inside a region
+    minRegionFrames: 5,    // Speech bursts shorter than 50ms are noise
+    snapFrames: 8          // Boundaries move at most 80ms to find a valley
+};
+
+// ============================================
+// AUDIO DECODING
+// ============================================
+
+/**
+ * Decode a time range of the media file to mono 16-bit PCM.
+ * @returns {Promise<Int16Array>}
+ */
+export function decodePcm(mediaPath, startMs, durationMs) {
+    return new Promise((resolve, reject) => {
+        const args = [
+            '-v', 'error',
+            '-ss', (startMs / 1000).toFixed(3),
+            '-t', (durationMs / 1000).toFixed(3),
+            '-i', mediaPath,
+            '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE),
+            '-f', 's16le', '-'
+        ];
+        const ffmpeg = spawn('ffmpeg', args);
+        const chunks = [];
+        let stderr = '';
+
+        ffmpeg.stdout.on('data', chunk => chunks.push(chunk));
+        ffmpeg.stderr.on('data', data => { stderr += data.toString(); });
+        ffmpeg.on('error', reject);
+        ffmpeg.on('close', code => {
+            if (code !== 0) {
+                return reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-500)}`));
+            }
+            const buffer = Buffer.concat(chunks);
+            const samples = new Int16Array(buffer.buffer, buffer.byteOffset, Math.floor(buffer.length / 2));
+            resolve(samples);
+        });
+    });
+}
+
+// ============================================
+// VOICE ACTIVITY DETECTION
+// ============================================
+
+/**
+ * RMS energy (dBFS) of each 10ms frame.
+ */
+export function frameEnergies(samples) {
+    const frameCount = Math.floor(samples.length / SAMPLES_PER_FRAME);
+    const energies = new Float64Array(frameCount);
+    for (let f = 0; f < frameCount; f++) {
+        let sum = 0;
+        for (let i = f * SAMPLES_PER_FRAME; i < (f + 1) * SAMPLES_PER_FRAME; i++) {
+            sum += samples[i] * samples[i];
+        }
+        const rms = Math.sqrt(sum / SAMPLES_PER_FRAME) / 32768;
+        energies[f] = 20 * Math.log10(rms + 1e-10);
+    }
+    return energies;
+}
+
+function percentile(values, p) {
+    const sorted = Array.from(values).sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+/**
+ * Speech regions as [start, end) frame ranges, using an adaptive threshold
+ * over the segment's own noise floor.
+ */
+export function detectSpeech(energies, options = ALIGNER_DEFAULTS) {
+    if (energies.length === 0) return { regions: [], threshold: 0 };
+
+    const floor = percentile(energies, 0.1);
+    const peak = percentile(energies, 0.95);
+    if (peak - floor < options.minDynamicRangeDb) {
+        // No usable contrast (constant music bed, silence): one region
+        return { regions: peak > options.minSpeechDb ? [[0, energies.length]] : [], threshold: peak };
+    }
+
+    const threshold = Math.max(floor + options.speechMarginDb, options.minSpeechDb);
+    const raw = [];
+    let start = -1;
+    for (let f = 0; f < energies.length; f++) {
+        if (energies[f] >= threshold) {
+            if (start < 0) start = f;
+        } else if (start >= 0) {
+            raw.push([start, f]);
+            start = -1;
+        }
+    }
+    if (start >= 0) raw.push([start, energies.length]);
+
+    // Bridge short pauses, then drop clicks
+    const merged = [];
+    for (const region of raw) {
+        const last = merged[merged.length - 1];
+        if (last && region[0] - last[1] <= options.hangoverFrames) {
+            last[1] = region[1];
+        } else {
+            merged.push([region[0], region[1]]);
+        }
+    }
+
+    return {
+        regions: merged.filter(([s, e]) => e - s >= options.minRegionFrames),
+        threshold
+    };
+}
+
+// ============================================
+// ALIGNMENT
+// ============================================
+
+const wordWeight = (token) => Math.max(1, token.replace(/[^\p{L}\p{N}]/gu, '').length) + 1;
+
+/**
+ * Map a position measured in speech frames back to a real frame.
+ * A position that falls on a region edge belongs to the next region when
+ * it starts a word and to the previous one when it ends a word.
+ */
+function speechToFrame(regions, position, edge) {
+    let consumed = 0;
+    for (let i = 0; i < regions.length; i++) {
+        const [start, end] = regions[i];
+        const length = end - start;
+        const inside = edge === 'start' ? position < consumed + length : position <= consumed + length;
+        if (inside) return start + (position - consumed);
+        consumed += length;
+    }
+    return regions[regions.length - 1][1];
+}
+
+function lowestEnergyFrame(energies, from, to) {
+    let best = from;
+    for (let f = from + 1; f <= to; f++) {
+        if (energies[f] < energies[best]) best = f;
+    }
+    return best;
+}
+
+/**
+ * Align transcript tokens to one segment's energies.
+ * @returns {Array<{text, start_frame, end_frame, confidence}>}
+ */
+export function alignTokens(tokens, energies, options = ALIGNER_DEFAULTS) {
+    if (tokens.length === 0 || energies.length === 0) return [];
+
+    const { regions, threshold } = detectSpeech(energies, options);
+    const weights = tokens.map(wordWeight);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    // No speech detected: spread evenly, flag as a guess
+    if (regions.length === 0) {
+        let cursor = 0;
+        return tokens.map((text, i) => {
+            const length = (weights[i] / totalWeight) * energies.length;
+            const word = { text, start_frame: Math.round(cursor), end_frame: Math.round(cursor + length), confidence: 0.1 };
+            cursor += length;
+            return word;
+        });
+    }
+
+    const speechFrames = regions.reduce((sum, [s, e]) => sum + (e - s), 0);
+    const regionIndex = (frame) => regions.findIndex(([s, e]) => frame >= s && frame <= e);
+
+    // Region edges in speech-frame positions: pauses are the strongest cue
+    const edges = [];
+    regions.slice(0, -1).reduce((consumed, [s, e]) => {
+        edges.push(consumed + e - s);
+        return consumed + e - s;
+    }, 0);
+    const toPause = (position) => {
+        const nearest = edges.reduce(
+            (best, edge) => Math.abs(edge - position) < Math.abs(best - position) ? edge : best,
+            Infinity
+        );
+        return Math.abs(nearest - position) <= options.snapFrames * 2 ? nearest : position;
+    };
+
+    const boundaries = [0];
+    let cumulative = 0;
+    weights.forEach((weight, i) => {
+        cumulative += weight;
+        const position = Math.round((cumulative / totalWeight) * speechFrames);
+        boundaries.push(i === weights.length - 1
+            ? speechFrames
+            : Math.max(boundaries[i] + 1, toPause(position)));
+    });
+
+    const words = tokens.map((text, i) => ({
+        text,
+        start_frame: speechToFrame(regions, Math.min(boundaries[i], speechFrames - 1), 'start'),
+        end_frame: speechToFrame(regions, Math.min(boundaries[i + 1], speechFrames), 'end'),
+        snapped: [false, false]
+    }));
+
+    // Snap shared boundaries (same region) to the quietest nearby frame
+    for (let i = 1; i < words.length; i++) {
+        const prev = words[i - 1];
+        const next = words[i];
+        if (prev.end_frame !== next.start_frame) {
+            // Boundary already sits in a pause between regions
+            prev.snapped[1] = true;
+            next.snapped[0] = true;
+            continue;
+        }
+        const region = regions[regionIndex(next.start_frame)];
+        if (!region) continue;
+        const lo = Math.max(region[0], prev.start_frame + 1, next.start_frame - options.snapFrames);
+        const hi = Math.min(region[1] - 1, next.end_frame - 1, next.start_frame + options.snapFrames);
+        if (lo > hi) continue;
+        const valley = lowestEnergyFrame(energies, lo, hi);
+        prev.end_frame = valley;
+        next.start_frame = valley;
+        const clear = energies[valley] < threshold;
+        prev.snapped[1] = clear;
+        next.snapped[0] = clear;
+    }
+
+    words[0].snapped[0] = true;
+    words[words.length - 1].snapped[1] = true;
+
+    return words.map(({ text, start_frame, end_frame, snapped }) => ({
+        text,
+        start_frame,
+        end_frame: Math.max(end_frame, start_frame + 1),
+        // Words bounded by real pauses are trustworthy; interpolated ones less so
+        confidence: Number((0.4 + 0.25 * snapped.filter(Boolean).length).toFixed(2))
+    }));
+}
+
+/**
+ * Align every transcribed segment of a VideoAnalysis against the media file.
+ * @param {string} mediaPath - Local source file
+ * @param {Array<{id, start_ms, end_ms, transcript}>} segments
+ * @returns {Promise<{ words: object[], stats: object }>}
+ */
+export async function alignSegmentWords(mediaPath, segments, overrides = {}) {
+    const options = { ...ALIGNER_DEFAULTS, ...overrides };
+    const words = [];
+    const stats = { segments_aligned: 0, segments_skipped: 0, speech_ratio: 0 };
+    let speechFrames = 0;
+    let totalFrames = 0;
+
+    for (const segment of segments) {
+        const tokens = (segment.transcript || '').split(/\s+/).filter(Boolean);
+        const durationMs = segment.end_ms - segment.start_ms;
+        if (tokens.length === 0 || durationMs <= 0) {
+            stats.segments_skipped++;
+            continue;
+        }
+
+        const energies = frameEnergies(await decodePcm(mediaPath, segment.start_ms, durationMs));
+        const { regions } = detectSpeech(energies, options);
+        speechFrames += regions.reduce((sum, [s, e]) => sum + (e - s), 0);
+        totalFrames += energies.length;
+
+        for (const word of alignTokens(tokens, energies, options)) {
+            words.push({
+                segment_id: segment.id,
+                text: word.text,
+                start_ms: Math.min(segment.end_ms, segment.start_ms + word.start_frame * FRAME_MS),
+                end_ms: Math.min(segment.end_ms, segment.start_ms + word.end_frame * FRAME_MS),
+                confidence: word.confidence
+            });
+        }
+        stats.segments_aligned++;
+    }
+
+    stats.speech_ratio = totalFrames > 0 ? Number((speechFrames / totalFrames).toFixed(3)) : 0;
+    return { words, stats };
+}
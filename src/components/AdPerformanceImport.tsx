@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SectionCard } from "@/components/ui/section-card";
+import { Upload, Loader2, FileSpreadsheet, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { importAdPerformance, type AdImportResult } from "@/lib/ad-performance";
+
+const ALL_PROJECTS = "all";
+
+interface AdPerformanceImportProps {
+  userId: string;
+  onImported?: (result: AdImportResult) => void;
+}
+
+/**
+ * Upload a Meta / TikTok / Snapchat Ads Manager export and match its
+ * rows back to video variations.
+ */
+export default function AdPerformanceImport({ userId, onImported }: AdPerformanceImportProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [projectId, setProjectId] = useState(ALL_PROJECTS);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<AdImportResult | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from("projects")
+      .select("id, name")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .then(({ data }) => setProjects(data || []));
+  }, [userId]);
+
+  const handleFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const importResult = await importAdPerformance({
+        csvText: await file.text(),
+        userId,
+        projectId: projectId === ALL_PROJECTS ? null : projectId,
+      });
+      setResult(importResult);
+      onImported?.(importResult);
+      toast.success(`Imported ${importResult.events_written} ${importResult.platform} results`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <SectionCard
+      title="Import Ad Performance"
+      description="Meta, TikTok or Snapchat Ads Manager CSV export"
+      icon={FileSpreadsheet}
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2 min-w-[200px]">
+            <Label>Match variations in</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                {projects.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={importing}>
+            {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Upload CSV
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Ads are matched by the variation id in the ad name, or by the naming convention
+          <code className="mx-1">FS_&lt;project&gt;_V&lt;number&gt;_&lt;id&gt;</code>.
+        </p>
+
+        {result && (
+          <div className="space-y-3 rounded-lg border border-border p-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{result.platform}</Badge>
+              <Badge variant="outline">{result.rows_parsed} rows</Badge>
+              <Badge variant="outline">{result.rows_matched} matched</Badge>
+              <Badge variant="outline">{result.events_written} events written</Badge>
+            </div>
+            {result.unmatched.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm text-yellow-500">
+                  <AlertTriangle className="w-4 h-4" />
+                  {result.unmatched.length} rows not matched
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-0.5 max-h-40 overflow-y-auto">
+                  {result.unmatched.slice(0, 50).map(issue => (
+                    <li key={issue.line}>
+                      Line {issue.line}: {issue.ad_name || "(no ad name)"} - {issue.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
@@ -8,6 +8,7 @@ import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calculator, DollarSign, Clock, Video, Zap, TrendingUp } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { getPricePerSecond, priceUsage } from "@/lib/pricing";
 
 interface Engine {
   id: string;
@@ -26,29 +27,9 @@ interface CostEstimate {
   isFree: boolean;
 }
 
-// Estimated costs per second for each engine (in USD)
-const ENGINE_COSTS: Record<string, number> = {
-  "Runway Gen-3": 0.05,
-  "Pika Labs": 0.02,
-  "Hailuo AI": 0.01,
-  "Kling AI": 0.04,
-  "Vidu": 0.03,
-  "LTX Studio": 0.04,
-  "HeyGen": 0.08,
-  "Elai.io": 0.06,
-  "Arcads": 0.10,
-  "Creatify": 0.07,
-  "Leonardo AI": 0.02,
-  "Fal AI": 0.03,
-  "ElevenLabs": 0.01,
-  "Creatomate": 0.02,
-  "Shotstack": 0.02,
-  "InVideo": 0.03,
-  "Pictory": 0.04,
-  "Fliki": 0.02,
-  "NanoBanana": 0,
-  "Hugging Face": 0,
-};
+// Cost of one video from the pricing catalog; engines it does not know get the fallback for their type
+const estimateVideoCost = (engine: Engine, durationSec: number) =>
+  priceUsage(engine.name, { operation_type: engine.type, duration_sec: durationSec }).cost_usd;
 
 export default function CostEstimator() {
   const [engines, setEngines] = useState<Engine[]>([]);
@@ -90,9 +71,8 @@ export default function CostEstimator() {
       const engine = engines.find(e => e.id === engineId);
       if (!engine) return null;
 
-      const costPerSecond = ENGINE_COSTS[engine.name] || 0.03;
-      const isFree = engine.supports_free_tier && costPerSecond === 0;
-      const costPerVideo = isFree ? 0 : costPerSecond * videoDuration;
+      const costPerVideo = estimateVideoCost(engine, videoDuration);
+      const isFree = costPerVideo === 0;
       const totalCost = costPerVideo * videoCount;
 
       return {
@@ -211,7 +191,8 @@ export default function CostEstimator() {
                 <h4 className="text-sm font-medium text-muted-foreground">{category}</h4>
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
                   {categoryEngines.map((engine) => {
-                    const cost = ENGINE_COSTS[engine.name] || 0.03;
+                    const costPerSecond = getPricePerSecond(engine.name);
+                    const cost = costPerSecond || estimateVideoCost(engine, videoDuration);
                     const isSelected = selectedEngines.includes(engine.id);
                     return (
                       <div
@@ -231,7 +212,7 @@ export default function CostEstimator() {
                           {cost === 0 ? (
                             <Badge className="text-xs bg-green-500/20 text-green-400">Free</Badge>
                           ) : (
-                            <span className="text-xs text-muted-foreground">${cost.toFixed(2)}/sec</span>
+                            <span className="text-xs text-muted-foreground">${cost.toFixed(2)}/{costPerSecond ? "sec" : "video"}</span>
                           )}
                         </div>
                       </div>
@@ -1,13 +1,26 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Progress } from '@/components/ui/progress';
-import { DollarSign, TrendingUp, Cpu, Clock } from 'lucide-react';
+import { DollarSign, TrendingUp, Cpu, Clock, ShieldAlert, SlidersHorizontal } from 'lucide-react';
 import { useRealTimeCost } from '@/hooks/useRealTimeCost';
+import {
+  BUDGET_SCOPE_LABELS,
+  deleteBudget,
+  getBudgetLevel,
+  saveBudget,
+  type BudgetScope,
+  type BudgetStatus,
+} from '@/lib/budget';
 
 interface RealTimeCostTrackerProps {
   projectId?: string;
-  budget?: number;
+  budget?: number; // Shown when the project has no budget of its own
 }
 
 const STAGE_LABELS: Record<string, string> = {
@@ -34,8 +47,101 @@ const ENGINE_COLORS: Record<string, string> = {
   ffmpeg: 'bg-slate-500',
 };
 
+type LimitDraft = Record<BudgetScope, { soft: string; hard: string }>;
+
+const toDraft = (budgets: BudgetStatus[]): LimitDraft => {
+  const limits = (scope: BudgetScope) => {
+    const b = budgets.find(x => x.scope === scope);
+    return { soft: b?.soft_limit_usd?.toString() ?? '', hard: b?.hard_limit_usd?.toString() ?? '' };
+  };
+  return { project: limits('project'), monthly: limits('monthly') };
+};
+
+const parseLimit = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) throw new Error(`"${value}" is not a valid amount`);
+  return amount;
+};
+
+function BudgetLimitsEditor({ projectId, budgets, onSaved }: {
+  projectId?: string;
+  budgets: BudgetStatus[];
+  onSaved: () => Promise<void>;
+}) {
+  const scopes: BudgetScope[] = projectId ? ['project', 'monthly'] : ['monthly'];
+  const [draft, setDraft] = useState<LimitDraft>(() => toDraft(budgets));
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const scope of scopes) {
+        const soft = parseLimit(draft[scope].soft);
+        const hard = parseLimit(draft[scope].hard);
+        const existing = budgets.find(b => b.scope === scope);
+        if (soft === null && hard === null) {
+          if (existing) await deleteBudget(existing.id);
+        } else {
+          await saveBudget({ soft_limit_usd: soft, hard_limit_usd: hard }, scope === 'project' ? projectId : undefined);
+        }
+      }
+      await onSaved();
+      toast.success('Budgets saved');
+      setOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save budgets');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={next => { setOpen(next); if (next) setDraft(toDraft(budgets)); }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto" title="Budget limits">
+          <SlidersHorizontal className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        {scopes.map(scope => (
+          <div key={scope} className="space-y-1">
+            <p className="text-xs font-medium">{BUDGET_SCOPE_LABELS[scope]}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(['soft', 'hard'] as const).map(kind => (
+                <div key={kind} className="space-y-1">
+                  <Label className="text-[10px] text-muted-foreground">
+                    {kind === 'soft' ? 'Warn at ($)' : 'Stop at ($)'}
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    inputMode="decimal"
+                    className="h-7 text-xs"
+                    placeholder="No limit"
+                    value={draft[scope][kind]}
+                    onChange={e => setDraft(prev => ({ ...prev, [scope]: { ...prev[scope], [kind]: e.target.value } }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <p className="text-[10px] text-muted-foreground">
+          Operations that would go past a stop limit are refused before they run.
+        </p>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save limits'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function RealTimeCostTracker({ projectId, budget = 10 }: RealTimeCostTrackerProps) {
-  const { costs, isLoading, projectCost, estimatedTotal } = useRealTimeCost(projectId);
+  const { costs, isLoading, projectCost, estimatedTotal, budgets, refreshBudgets } = useRealTimeCost(projectId);
 
   if (isLoading) {
     return (
@@ -50,8 +156,10 @@ export function RealTimeCostTracker({ projectId, budget = 10 }: RealTimeCostTrac
     );
   }
 
-  const budgetUsed = (projectCost / budget) * 100;
-  const isOverBudget = projectCost > budget;
+  const projectBudget = budgets.find(b => b.scope === 'project');
+  const limit = projectBudget?.hard_limit_usd ?? projectBudget?.soft_limit_usd ?? budget;
+  const budgetUsed = limit > 0 ? (projectCost / limit) * 100 : 0;
+  const isOverBudget = projectBudget ? getBudgetLevel(projectBudget) === 'exceeded' : projectCost > budget;
 
   return (
     <Card className="bg-card/50 backdrop-blur border-border/50">
@@ -59,6 +167,7 @@ export function RealTimeCostTracker({ projectId, budget = 10 }: RealTimeCostTrac
         <CardTitle className="flex items-center gap-2 text-sm font-medium">
           <DollarSign className="h-4 w-4 text-primary" />
           Real-Time Cost Tracker
+          <BudgetLimitsEditor projectId={projectId} budgets={budgets} onSaved={refreshBudgets} />
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -68,7 +177,7 @@ export function RealTimeCostTracker({ projectId, budget = 10 }: RealTimeCostTrac
             <p className="text-2xl font-bold">
               ${projectCost.toFixed(2)}
               <span className="text-sm text-muted-foreground font-normal ml-1">
-                / ${budget.toFixed(2)}
+                / ${limit.toFixed(2)}
               </span>
             </p>
             <p className="text-xs text-muted-foreground flex items-center gap-1">
@@ -87,6 +196,33 @@ export function RealTimeCostTracker({ projectId, budget = 10 }: RealTimeCostTrac
           className={`h-2 ${isOverBudget ? '[&>div]:bg-destructive' : ''}`}
         />
 
+        {/* Budgets */}
+        {budgets.length > 0 && (
+          <div className="space-y-1">
+            {budgets.map((b) => {
+              const level = getBudgetLevel(b);
+              const cap = b.hard_limit_usd ?? b.soft_limit_usd;
+              return (
+                <div key={b.id} className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground flex items-center gap-1">
+                    {level !== 'ok' && (
+                      <ShieldAlert className={`h-3 w-3 ${level === 'exceeded' ? 'text-destructive' : 'text-amber-500'}`} />
+                    )}
+                    {BUDGET_SCOPE_LABELS[b.scope]}
+                    {level === 'exceeded' && <Badge variant="destructive" className="text-[10px] px-1 py-0">Stopped</Badge>}
+                    {level === 'warning' && <Badge variant="outline" className="text-[10px] px-1 py-0 border-amber-500 text-amber-500">Near limit</Badge>}
+                  </span>
+                  <span className="font-mono">
+                    ${b.spent_usd.toFixed(2)}
+                    {b.reserved_usd > 0 && <span className="text-muted-foreground"> +${b.reserved_usd.toFixed(2)}</span>}
+                    {cap !== null && <span className="text-muted-foreground"> / ${cap.toFixed(2)}</span>}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Cost by Stage */}
         {Object.keys(costs.byStage).length > 0 && (
           <div className="space-y-2">
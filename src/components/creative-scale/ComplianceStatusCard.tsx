@@ -15,6 +15,7 @@ import {
   XCircle,
   Info,
   Sparkles,
+  FileText,
 } from 'lucide-react';
 import type { ComplianceResult, PolicyViolation, RiskLevel } from '@/lib/creative-scale/compliance-types';
 
@@ -99,13 +100,13 @@ function ViolationItem({ violation }: { violation: PolicyViolation }) {
           
           <p className="text-sm text-muted-foreground mt-1">
             <span className="font-medium text-foreground">Found:</span>{' '}
-            <span className="text-red-400 line-through">"{violation.originalText}"</span>
+            <bdi className="text-red-400 line-through">"{violation.originalText}"</bdi>
           </p>
           
           {violation.rewrittenText && (
             <p className="text-sm text-muted-foreground mt-1">
               <span className="font-medium text-foreground">Replaced with:</span>{' '}
-              <span className="text-green-400">"{violation.rewrittenText}"</span>
+              <bdi className="text-green-400">"{violation.rewrittenText}"</bdi>
             </p>
           )}
         </div>
@@ -153,6 +154,12 @@ export function ComplianceStatusCard({ result, className }: ComplianceStatusCard
           <div className="flex items-center gap-2">
             {getRiskIcon(result.overallRisk)}
             <CardTitle className="text-base">Policy Compliance</CardTitle>
+            {result.language && result.language !== 'en' && (
+              <Badge variant="outline" className="text-xs uppercase">{result.language}</Badge>
+            )}
+            {result.category && result.category !== 'general' && (
+              <Badge variant="outline" className="text-xs capitalize">{result.category}</Badge>
+            )}
           </div>
           <Badge variant={getRiskBadgeVariant(result.overallRisk)}>
             {getRiskLabel(result.overallRisk)}
@@ -216,6 +223,27 @@ export function ComplianceStatusCard({ result, className }: ComplianceStatusCard
           )}
         </div>
         
+        {/* Required Disclaimers */}
+        {result.requiredDisclaimers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-1.5">
+              <FileText className="h-4 w-4 text-blue-500" />
+              Required disclaimers
+            </p>
+            {result.requiredDisclaimers.map((disclaimer) => (
+              <div key={disclaimer.id} className="border border-border rounded-lg p-3 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">
+                    {disclaimer.placement === 'persistent' ? 'On screen throughout' : 'End card'}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{disclaimer.reason}</span>
+                </div>
+                <p className="text-sm"><bdi>{disclaimer.text}</bdi></p>
+              </div>
+            ))}
+          </div>
+        )}
+        
         {/* Violations Details */}
         {hasViolations && (
           <Collapsible open={showDetails} onOpenChange={setShowDetails}>
@@ -0,0 +1,421 @@
+/**
+ * Plan Preview Player
+ * Plays the source video through a compiled ExecutionPlan in the browser:
+ * seeks per timeline segment, speeds segments up with playbackRate, crops
+ * reframed segments, draws text overlays on a canvas and mixes the plan's
+ * audio tracks with WebAudio. No render needed.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, RotateCcw, VolumeX } from 'lucide-react';
+import {
+  audioCues,
+  audioGainAt,
+  buildPreviewClips,
+  diffPlanAgainstSource,
+  evaluatePosition,
+  frameAt,
+  overlaysAt,
+  previewDuration,
+  type PlanDiff,
+  type PreviewFrame,
+} from '@/lib/creative-scale/plan-preview';
+import type { ExecutionPlan, TextOverlay } from '@/lib/creative-scale/compiler-types';
+import type { VideoAnalysis } from '@/lib/creative-scale/types';
+
+interface PlanPreviewPlayerProps {
+  plan: ExecutionPlan;
+  analysis: VideoAnalysis;
+  sourceVideoUrl: string;
+  className?: string;
+}
+
+type AudioStatus = 'idle' | 'loading' | 'ready' | 'source' | 'unavailable';
+
+const RESYNC_SEC = 0.3;      // Drift tolerated while playing
+const UI_UPDATE_MS = 100;    // Scrubber refresh
+
+function formatTime(ms: number): string {
+  const seconds = Math.max(0, ms) / 1000;
+  return `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}.${Math.floor((seconds % 1) * 10)}`;
+}
+
+function getSegmentColor(type: string | null): string {
+  const colors: Record<string, string> = {
+    hook: 'hsl(var(--primary) / 0.7)',
+    problem: 'hsl(0, 60%, 50%, 0.7)',
+    solution: 'hsl(120, 60%, 40%, 0.7)',
+    benefit: 'hsl(200, 60%, 50%, 0.7)',
+    proof: 'hsl(280, 60%, 50%, 0.7)',
+    cta: 'hsl(45, 90%, 50%, 0.7)',
+    filler: 'hsl(0, 0%, 50%, 0.5)',
+  };
+  return type ? colors[type] || 'hsl(0, 0%, 50%, 0.5)' : 'hsl(30, 90%, 55%, 0.7)';
+}
+
+// ============================================
+// CANVAS
+// ============================================
+
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement | undefined,
+  frame: PreviewFrame | null,
+  overlays: TextOverlay[]
+) {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (video && frame && video.readyState >= 2 && video.videoWidth > 0) {
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    const sx = frame.crop ? frame.crop.x * vw : 0;
+    const sy = frame.crop ? frame.crop.y * vh : 0;
+    const sw = frame.crop ? frame.crop.width * vw : vw;
+    const sh = frame.crop ? frame.crop.height * vh : vh;
+
+    // Same as the renderer: scale down to fit, pad the rest
+    const scale = Math.min(width / sw, height / sh);
+    const dw = sw * scale;
+    const dh = sh * scale;
+    ctx.drawImage(video, sx, sy, sw, sh, (width - dw) / 2, (height - dh) / 2, dw, dh);
+  }
+
+  for (const overlay of overlays) {
+    const lines = overlay.content.split('\n');
+    ctx.font = `${overlay.font_size}px sans-serif`;
+    ctx.textBaseline = 'top';
+    const lineHeight = overlay.font_size * 1.2;
+    const textW = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const textH = lineHeight * lines.length;
+    const vars = { w: width, h: height, W: width, H: height, text_w: textW, text_h: textH, tw: textW, th: textH };
+    const x = evaluatePosition(overlay.x, vars);
+    const y = evaluatePosition(overlay.y, vars);
+
+    if (overlay.box) {
+      ctx.globalAlpha = 0.5;
+      ctx.fillStyle = overlay.box_color || '#000000';
+      ctx.fillRect(x - 12, y - 12, textW + 24, textH + 24);
+      ctx.globalAlpha = 1;
+    }
+    ctx.fillStyle = overlay.color || '#FFFFFF';
+    lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  }
+}
+
+// ============================================
+// DIFF BAR
+// ============================================
+
+export function PlanDiffBar({ diff, currentMs }: { diff: PlanDiff; currentMs?: number }) {
+  const scaleMs = Math.max(diff.original_duration_ms, diff.plan_duration_ms, 1);
+  const pct = (ms: number) => `${(ms / scaleMs) * 100}%`;
+  const delta = diff.plan_duration_ms - diff.original_duration_ms;
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span>Original {formatTime(diff.original_duration_ms)}</span>
+        <span>
+          Plan {formatTime(diff.plan_duration_ms)} ({delta <= 0 ? '−' : '+'}{(Math.abs(delta) / 1000).toFixed(1)}s)
+        </span>
+      </div>
+
+      {/* Original: cut segments faded */}
+      <div className="relative h-4 rounded bg-muted overflow-hidden">
+        {diff.original.map(block => (
+          <div
+            key={block.id}
+            className={`absolute top-0 h-full border-r border-background ${block.kept ? '' : 'opacity-25'}`}
+            style={{ left: pct(block.start_ms), width: pct(block.end_ms - block.start_ms), background: getSegmentColor(block.segment_type) }}
+            title={`${block.segment_type} · ${block.kept ? `used ${block.uses}×` : 'cut'}`}
+          />
+        ))}
+      </div>
+
+      {/* Plan: output order, speed changes and replacements marked */}
+      <div className="relative h-4 rounded bg-muted overflow-hidden">
+        {diff.plan.map(block => (
+          <div
+            key={block.id}
+            className="absolute top-0 h-full border-r border-background flex items-center justify-center text-[9px] font-medium text-white"
+            style={{ left: pct(block.start_ms), width: pct(block.end_ms - block.start_ms), background: getSegmentColor(block.segment_type) }}
+            title={`${block.replaced ? 'replacement' : block.segment_type} · ${block.speed}x`}
+          >
+            {block.speed !== 1 && `${block.speed}x`}
+          </div>
+        ))}
+        {currentMs !== undefined && (
+          <div className="absolute top-0 h-full w-0.5 bg-foreground" style={{ left: pct(currentMs) }} />
+        )}
+      </div>
+
+      {diff.removed_ms > 0 && (
+        <p className="text-muted-foreground">
+          {diff.original.filter(b => !b.kept).length} segment(s) cut, {(diff.removed_ms / 1000).toFixed(1)}s of source unused
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// PLAYER
+// ============================================
+
+export function PlanPreviewPlayer({ plan, analysis, sourceVideoUrl, className }: PlanPreviewPlayerProps) {
+  const clips = useMemo(() => buildPreviewClips(plan), [plan]);
+  const cues = useMemo(() => audioCues(plan), [plan]);
+  const diff = useMemo(() => diffPlanAgainstSource(plan, analysis), [plan, analysis]);
+  const durationMs = previewDuration(plan);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videosRef = useRef(new Map<string, HTMLVideoElement>());
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const clockRef = useRef({ playing: false, startedAt: 0, startMs: 0, pausedMs: 0 });
+  const lastUiRef = useRef(0);
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [audioStatus, setAudioStatus] = useState<AudioStatus>(cues.length > 0 ? 'idle' : 'source');
+
+  // Source segments play from the session's source URL (plan URLs may be stale blobs)
+  const urlFor = useCallback(
+    (sourceVideoId: string, assetUrl: string | null) =>
+      sourceVideoId === analysis.source_video_id ? sourceVideoUrl : assetUrl || sourceVideoUrl,
+    [analysis.source_video_id, sourceVideoUrl]
+  );
+
+  // One hidden video element per distinct URL
+  useEffect(() => {
+    const videos = videosRef.current;
+    for (const clip of clips) {
+      const url = urlFor(clip.segment.source_video_id, clip.asset_url);
+      if (videos.has(url)) continue;
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.preload = 'auto';
+      video.playsInline = true;
+      video.muted = true;
+      video.src = url;
+      videos.set(url, video);
+    }
+    return () => {
+      videos.forEach(video => {
+        video.pause();
+        video.removeAttribute('src');
+        video.load();
+      });
+      videos.clear();
+    };
+  }, [clips, urlFor]);
+
+  const stopAudio = useCallback(() => {
+    sourcesRef.current.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    sourcesRef.current = [];
+  }, []);
+
+  useEffect(() => () => {
+    stopAudio();
+    audioCtxRef.current?.close();
+  }, [stopAudio]);
+
+  /**
+   * Decode every audio track's file once. Cross-origin files without CORS
+   * fall back to the source video's own sound.
+   */
+  const loadAudio = useCallback(async (ctx: AudioContext) => {
+    setAudioStatus('loading');
+    try {
+      const urls = [...new Set(cues.map(cue => urlFor(cue.audio.source_video_id, cue.audio.asset_url)))];
+      for (const url of urls) {
+        if (buffersRef.current.has(url)) continue;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        buffersRef.current.set(url, await ctx.decodeAudioData(await response.arrayBuffer()));
+      }
+      setAudioStatus('ready');
+      return true;
+    } catch (err) {
+      console.warn('[PlanPreview] Audio tracks unavailable, using source audio:', err);
+      setAudioStatus('unavailable');
+      return false;
+    }
+  }, [cues, urlFor]);
+
+  const scheduleAudio = useCallback((ctx: AudioContext, fromMs: number) => {
+    stopAudio();
+    for (const cue of cues) {
+      const buffer = buffersRef.current.get(urlFor(cue.audio.source_video_id, cue.audio.asset_url));
+      if (!buffer || cue.start_ms + cue.duration_ms <= fromMs) continue;
+
+      const elapsed = Math.max(0, fromMs - cue.start_ms);
+      const when = ctx.currentTime + Math.max(0, cue.start_ms - fromMs) / 1000;
+      const source = ctx.createBufferSource();
+      const gain = ctx.createGain();
+      source.buffer = buffer;
+      source.connect(gain).connect(ctx.destination);
+
+      // Gain curve with the renderer's fades
+      const points = [elapsed, cue.audio.fade_in_ms, cue.duration_ms - cue.audio.fade_out_ms, cue.duration_ms]
+        .filter(ms => ms >= elapsed && ms <= cue.duration_ms)
+        .sort((a, b) => a - b);
+      gain.gain.setValueAtTime(audioGainAt(cue, elapsed), when);
+      for (const ms of points.slice(1)) {
+        gain.gain.linearRampToValueAtTime(audioGainAt(cue, ms), when + (ms - elapsed) / 1000);
+      }
+
+      source.start(when, (cue.offset_ms + elapsed) / 1000, (cue.duration_ms - elapsed) / 1000);
+      sourcesRef.current.push(source);
+    }
+  }, [cues, stopAudio, urlFor]);
+
+  const nowMs = useCallback(() => {
+    const clock = clockRef.current;
+    return clock.playing ? clock.startMs + (performance.now() - clock.startedAt) : clock.pausedMs;
+  }, []);
+
+  const pause = useCallback(() => {
+    const clock = clockRef.current;
+    clock.pausedMs = Math.min(nowMs(), durationMs);
+    clock.playing = false;
+    stopAudio();
+    setIsPlaying(false);
+  }, [durationMs, nowMs, stopAudio]);
+
+  const play = useCallback(async () => {
+    const clock = clockRef.current;
+    const fromMs = clock.pausedMs >= durationMs ? 0 : clock.pausedMs;
+
+    let useSourceAudio = cues.length === 0;
+    if (!useSourceAudio) {
+      const ctx = audioCtxRef.current ?? new AudioContext();
+      audioCtxRef.current = ctx;
+      await ctx.resume();
+      const ready = audioStatus === 'ready' || (audioStatus !== 'unavailable' && await loadAudio(ctx));
+      if (ready) scheduleAudio(ctx, fromMs);
+      else useSourceAudio = true;
+    }
+    videosRef.current.forEach(video => { video.muted = !useSourceAudio; });
+
+    clock.startMs = fromMs;
+    clock.startedAt = performance.now();
+    clock.playing = true;
+    setIsPlaying(true);
+  }, [audioStatus, cues.length, durationMs, loadAudio, scheduleAudio]);
+
+  const seek = useCallback((ms: number) => {
+    const clock = clockRef.current;
+    const wasPlaying = clock.playing;
+    clock.playing = false;
+    clock.pausedMs = Math.max(0, Math.min(ms, durationMs));
+    setCurrentMs(clock.pausedMs);
+    stopAudio();
+    if (wasPlaying) void play();
+  }, [durationMs, play, stopAudio]);
+
+  // Render loop: keep the right video at the right source time and draw
+  useEffect(() => {
+    let raf = 0;
+    const tick = () => {
+      const clock = clockRef.current;
+      let t = nowMs();
+      if (clock.playing && t >= durationMs) {
+        pause();
+        t = durationMs;
+      }
+
+      const frame = frameAt(clips, t);
+      const url = frame ? urlFor(frame.clip.segment.source_video_id, frame.clip.asset_url) : null;
+      const video = url ? videosRef.current.get(url) : undefined;
+      videosRef.current.forEach(v => {
+        if (v !== video && !v.paused) v.pause();
+      });
+
+      if (video && frame) {
+        const target = frame.source_ms / 1000;
+        if (clock.playing) {
+          video.playbackRate = frame.clip.rate;
+          if (video.paused) video.play().catch(() => undefined);
+          if (Math.abs(video.currentTime - target) > RESYNC_SEC) video.currentTime = target;
+        } else {
+          if (!video.paused) video.pause();
+          if (!video.seeking && Math.abs(video.currentTime - target) > 0.04) video.currentTime = target;
+        }
+      }
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) drawFrame(ctx, video, frame, overlaysAt(plan, t));
+
+      if (performance.now() - lastUiRef.current > UI_UPDATE_MS) {
+        lastUiRef.current = performance.now();
+        setCurrentMs(t);
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [clips, durationMs, nowMs, pause, plan, urlFor]);
+
+  return (
+    <div className={`space-y-3 ${className || ''}`}>
+      <div className="bg-black rounded-lg overflow-hidden flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          width={plan.output_format.width}
+          height={plan.output_format.height}
+          className="max-h-[60vh] max-w-full"
+          style={{ aspectRatio: `${plan.output_format.width} / ${plan.output_format.height}` }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button size="icon" variant="outline" onClick={() => (isPlaying ? pause() : void play())}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button size="icon" variant="ghost" onClick={() => seek(0)}>
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Slider
+          value={[currentMs]}
+          min={0}
+          max={Math.max(1, durationMs)}
+          step={40}
+          onValueChange={([value]) => seek(value)}
+          className="flex-1"
+        />
+        <span className="text-xs tabular-nums text-muted-foreground w-24 text-right">
+          {formatTime(currentMs)} / {formatTime(durationMs)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Badge variant="outline">{clips.length} segments</Badge>
+        <Badge variant="outline">{plan.text_overlays?.length || 0} overlays</Badge>
+        <Badge variant="outline">{cues.length} audio tracks</Badge>
+        {audioStatus === 'loading' && <span className="text-muted-foreground">Loading audio…</span>}
+        {audioStatus === 'unavailable' && (
+          <span className="flex items-center gap-1 text-amber-600">
+            <VolumeX className="w-3 h-3" />
+            Audio tracks could not be loaded; playing source audio
+          </span>
+        )}
+        <span className="ml-auto text-muted-foreground">Preview only · final render may differ slightly</span>
+      </div>
+
+      <PlanDiffBar diff={diff} currentMs={currentMs} />
+    </div>
+  );
+}
@@ -47,6 +47,7 @@ interface ResultsGridProps {
   onDownloadPlan: (item: ResultItem) => void;
   onDuplicate?: (item: ResultItem) => void;
   onRetry?: (item: ResultItem) => void;
+  onPreviewPlan?: (item: ResultItem) => void;
 }
 
 // Engine configuration for badges - server-only engines
@@ -276,7 +277,8 @@ export function ResultsGrid({
   onDownloadVideo,
   onDownloadPlan,
   onDuplicate,
-  onRetry
+  onRetry,
+  onPreviewPlan
 }: ResultsGridProps) {
   const [playingVideo, setPlayingVideo] = useState<{
     url: string;
@@ -436,6 +438,18 @@ export function ResultsGrid({
                     </Button>
                   )}
 
+                  {/* Preview Plan - plays the plan client-side, no render */}
+                  {onPreviewPlan && item.plan.status === 'compilable' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onPreviewPlan(item)}
+                      title="Preview plan"
+                    >
+                      <Monitor className="w-3 h-3" />
+                    </Button>
+                  )}
+
                   {/* Download Plan - ALWAYS available */}
                   <Button
                     size="sm"
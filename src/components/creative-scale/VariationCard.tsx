@@ -17,7 +17,8 @@ import {
   AlertTriangle,
   Target,
   Zap,
-  Clock
+  Clock,
+  Monitor
 } from 'lucide-react';
 import type { VariationIdea } from '@/lib/creative-scale/types';
 
@@ -31,6 +32,8 @@ interface VariationCardProps {
   selected?: boolean;
   /** Original video duration in ms - used to estimate final duration */
   originalDurationMs?: number;
+  /** Opens the in-browser preview of the compiled plan */
+  onPreview?: () => void;
 }
 
 // Estimate duration change based on action type
@@ -74,7 +77,8 @@ export function VariationCard({
   aiReasoning,
   onClick,
   selected,
-  originalDurationMs = 20000 // Default to 20s if not provided
+  originalDurationMs = 20000, // Default to 20s if not provided
+  onPreview
 }: VariationCardProps) {
   const riskColors = {
     low: 'bg-green-500/10 text-green-600 border-green-500/20',
@@ -118,21 +122,37 @@ export function VariationCard({
           </Badge>
         </div>
         
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="h-6 w-6">
-                <HelpCircle className="w-4 h-4 text-muted-foreground" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent side="left" className="max-w-xs">
-              <p className="text-sm font-medium mb-1">🧠 Why this variation?</p>
-              <p className="text-xs text-muted-foreground">
-                {aiReasoning || variation.reasoning || 'AI analysis suggests this optimization will improve engagement.'}
-              </p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        <div className="flex items-center gap-1">
+          {onPreview && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Preview plan"
+              onClick={(e) => {
+                e.stopPropagation();
+                onPreview();
+              }}
+            >
+              <Monitor className="w-4 h-4 text-muted-foreground" />
+            </Button>
+          )}
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6">
+                  <HelpCircle className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="left" className="max-w-xs">
+                <p className="text-sm font-medium mb-1">🧠 Why this variation?</p>
+                <p className="text-xs text-muted-foreground">
+                  {aiReasoning || variation.reasoning || 'AI analysis suggests this optimization will improve engagement.'}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
       </div>
 
       {/* Intent */}
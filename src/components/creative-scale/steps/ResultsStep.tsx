@@ -4,9 +4,11 @@
  * Updated for capability-based routing
  */
 
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   Download, 
   RefreshCw,
@@ -16,24 +18,34 @@ import {
   FileCode
 } from 'lucide-react';
 import { ResultsGrid } from '@/components/creative-scale/ResultsGrid';
+import { PlanPreviewPlayer } from '@/components/creative-scale/PlanPreviewPlayer';
 import type { ExecutionPlan } from '@/lib/creative-scale/compiler-types';
+import type { VideoAnalysis } from '@/lib/creative-scale/types';
 import type { ExecutionResult } from '@/lib/creative-scale/execution-engine';
 
 interface ResultsStepProps {
   plans: ExecutionPlan[];
   results: Map<string, ExecutionResult>;
+  analysis?: VideoAnalysis | null;
+  sourceVideoUrl?: string; // Enables the in-browser plan preview
   onDownloadPlan: (plan: ExecutionPlan) => void;
   onDownloadAll: () => void;
+  onDownloadVideo?: (plan: ExecutionPlan) => void;
   onReset: () => void;
 }
 
 export function ResultsStep({ 
   plans,
   results,
+  analysis,
+  sourceVideoUrl,
   onDownloadPlan,
   onDownloadAll,
+  onDownloadVideo,
   onReset
 }: ResultsStepProps) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const canPreview = !!analysis && !!sourceVideoUrl;
   const successCount = Array.from(results.values()).filter(r => r.status === 'success').length;
   const planOnlyCount = Array.from(results.values()).filter(r => r.status === 'partial').length;
   const failCount = Array.from(results.values()).filter(r => r.status === 'failed').length;
@@ -90,16 +102,30 @@ export function ResultsStep({
               };
             })}
             onDownloadPlan={(item) => onDownloadPlan(item.plan)}
+            onPreviewPlan={canPreview ? (item) => setPreviewIndex(item.variationIndex) : undefined}
             onDownloadVideo={(item) => {
               const result = results.get(item.plan.plan_id);
               if (result?.output_video_url) {
                 window.open(result.output_video_url, '_blank');
+                onDownloadVideo?.(item.plan);
               }
             }}
           />
         </ScrollArea>
       </div>
 
+      {/* Plan Preview */}
+      <Dialog open={previewIndex !== null} onOpenChange={(open) => !open && setPreviewIndex(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Variation {(previewIndex ?? 0) + 1} · Plan Preview</DialogTitle>
+          </DialogHeader>
+          {previewIndex !== null && plans[previewIndex] && analysis && sourceVideoUrl && (
+            <PlanPreviewPlayer plan={plans[previewIndex]} analysis={analysis} sourceVideoUrl={sourceVideoUrl} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Actions */}
       <div className="pt-6 border-t border-border mt-auto">
         <Button 
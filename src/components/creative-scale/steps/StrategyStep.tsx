@@ -37,6 +37,8 @@ import {
 } from '@/components/creative-scale/BrainV2Display';
 import { BrainV2DecisionCard } from '@/components/creative-scale/BrainV2DecisionCard';
 import { VariationCard } from '@/components/creative-scale/VariationCard';
+import { PlanPreviewPlayer } from '@/components/creative-scale/PlanPreviewPlayer';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AdDirectorPanel } from '@/components/creative-scale/AdDirectorPanel';
 import { PredictiveMetrics } from '@/components/creative-scale/PredictiveMetrics';
 import { FrameworkComparisonView } from '@/components/creative-scale/FrameworkComparisonView';
@@ -46,8 +48,9 @@ import { AutoFrameworkCard } from '@/components/creative-scale/AutoFrameworkCard
 import { StrategyComparisonView } from '@/components/creative-scale/StrategyComparisonView';
 import { generateAdDirectorReview } from '@/lib/creative-scale/ad-director';
 import { scanVideoAnalysis, scanBlueprint, generateComplianceResult } from '@/lib/creative-scale/compliance-engine';
+import { resolveComplianceLanguage } from '@/lib/creative-scale/compliance-packs';
 import { selectFrameworkAutomatically } from '@/lib/creative-scale/auto-framework-selector';
-import type { AdPlatform, FunnelStage } from '@/lib/creative-scale/compliance-types';
+import type { AdPlatform, ComplianceCategory, FunnelStage } from '@/lib/creative-scale/compliance-types';
 import type { VideoAnalysis, CreativeBlueprint } from '@/lib/creative-scale/types';
 import type { OptimizationGoal, RiskTolerance, CreativeBlueprintV2, DetectedProblem, ExtractedSignals, HormoziValueScore } from '@/lib/creative-scale/brain-v2-types';
 import type { ExecutionPlan } from '@/lib/creative-scale/compiler-types';
@@ -104,6 +107,9 @@ interface StrategyStepProps {
   };
   variationCount: number;
   isGenerating: boolean;
+  // Resolved by the page so the render gate checks the same category
+  complianceCategory?: ComplianceCategory;
+  sourceVideoUrl?: string; // Enables the in-browser plan preview
   // SSE Progress props
   streamProgress?: StrategyProgress | null;
   variationProgress?: VariationProgress | null;
@@ -123,6 +129,8 @@ export function StrategyStep({
   brainV2State,
   variationCount,
   isGenerating,
+  complianceCategory = 'general',
+  sourceVideoUrl,
   streamProgress,
   variationProgress,
   onSetGoal,
@@ -138,6 +146,7 @@ export function StrategyStep({
   // Track previous blueprint for comparison
   const [previousBlueprint, setPreviousBlueprint] = useState<CreativeBlueprint | null>(null);
   const [showComparison, setShowComparison] = useState(false);
+  const [previewPlan, setPreviewPlan] = useState<{ plan: ExecutionPlan; index: number } | null>(null);
   const prevBlueprintRef = useRef<CreativeBlueprint | null>(null);
 
   // Update previous blueprint when a new one is generated
@@ -205,10 +214,14 @@ export function StrategyStep({
   const complianceResult = useMemo(() => {
     if (!analysis) return null;
     const adPlatform = mapToAdPlatform(brainV2State.platform);
-    const analysisViolations = scanVideoAnalysis(analysis, adPlatform);
-    const blueprintViolations = blueprint ? scanBlueprint(blueprint, adPlatform) : [];
-    return generateComplianceResult(adPlatform, analysisViolations, blueprintViolations);
-  }, [analysis, blueprint, brainV2State.platform]);
+    const language = resolveComplianceLanguage(analysis.detected_language);
+    const analysisViolations = scanVideoAnalysis(analysis, adPlatform, language, complianceCategory);
+    const blueprintViolations = blueprint ? scanBlueprint(blueprint, adPlatform, language, complianceCategory) : [];
+    return generateComplianceResult(adPlatform, analysisViolations, blueprintViolations, language, {
+      category: complianceCategory,
+      funnelStage: brainV2State.funnelStage as FunnelStage,
+    });
+  }, [analysis, blueprint, complianceCategory, brainV2State.platform, brainV2State.funnelStage]);
 
   // Auto framework selection
   const autoFrameworkResult = useMemo(() => {
@@ -638,17 +651,21 @@ export function StrategyStep({
                   <div>
                     <h4 className="text-sm font-medium mb-3">Planned Variations ({blueprint.variation_ideas.length})</h4>
                     <div className="grid grid-cols-2 gap-3">
-                      {blueprint.variation_ideas.map((variation, idx) => (
-                        <VariationCard
-                          key={variation.id || `var-${idx}`}
-                          variation={variation}
-                          index={idx}
-                          framework={blueprint.framework}
-                          expectedLiftPct={10 + idx * 5}
-                          aiReasoning={variation.reasoning}
-                          originalDurationMs={analysis.metadata?.duration_ms}
-                        />
-                      ))}
+                      {blueprint.variation_ideas.map((variation, idx) => {
+                        const plan = plans.find(p => p.variation_id === variation.id && p.status === 'compilable');
+                        return (
+                          <VariationCard
+                            key={variation.id || `var-${idx}`}
+                            variation={variation}
+                            index={idx}
+                            framework={blueprint.framework}
+                            expectedLiftPct={10 + idx * 5}
+                            aiReasoning={variation.reasoning}
+                            originalDurationMs={analysis.metadata?.duration_ms}
+                            onPreview={plan && sourceVideoUrl ? () => setPreviewPlan({ plan, index: idx }) : undefined}
+                          />
+                        );
+                      })}
                     </div>
                   </div>
                 )}
@@ -659,6 +676,18 @@ export function StrategyStep({
 
       </div>
 
+      {/* Plan Preview */}
+      <Dialog open={!!previewPlan} onOpenChange={(open) => !open && setPreviewPlan(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Variation {(previewPlan?.index ?? 0) + 1} · Plan Preview</DialogTitle>
+          </DialogHeader>
+          {previewPlan && sourceVideoUrl && (
+            <PlanPreviewPlayer plan={previewPlan.plan} analysis={analysis} sourceVideoUrl={sourceVideoUrl} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Continue CTA */}
       {hasStrategy && (
         <div className="pt-6 border-t border-border mt-auto">
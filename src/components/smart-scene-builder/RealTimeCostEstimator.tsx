@@ -19,7 +19,8 @@ import {
   ChevronUp,
 } from 'lucide-react';
 import { SmartScenePlan, VideoConfig, BudgetPreference } from '@/lib/smart-scene-builder/types';
-import { COST_ESTIMATES, formatCost } from '@/lib/costTracker';
+import { formatCost } from '@/lib/costTracker';
+import { priceUsage } from '@/lib/pricing';
 import { cn } from '@/lib/utils';
 
 interface RealTimeCostEstimatorProps {
@@ -40,9 +41,7 @@ const BUDGET_MULTIPLIERS: Record<BudgetPreference, { min: number; max: number; l
 // Get cost for a scene based on its engine
 function getSceneCost(scene: SmartScenePlan): number {
   const engineId = scene.selectedEngine?.engineId || 'default';
-  const baseCost = COST_ESTIMATES[engineId] || COST_ESTIMATES['default'] || 0.30;
-  const durationMultiplier = scene.duration / 5; // 5s is baseline
-  return baseCost * durationMultiplier;
+  return priceUsage(engineId, { operation_type: 'video', duration_sec: scene.duration }).cost_usd;
 }
 
 // Animated number component
@@ -32,7 +32,10 @@ import {
   Settings2,
   ExternalLink,
   ClipboardCopy,
-  Upload
+  Upload,
+  ShoppingBag,
+  Plus,
+  Trash2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { usePromptProfiles, PromptProfile } from '@/hooks/usePromptProfiles';
@@ -43,6 +46,27 @@ import { ExecutionModeSelector } from '@/components/ExecutionModeSelector';
 import { executeUnified, ExecutionMode } from '@/lib/unified-generation/executor';
 import { UnifiedInput, UnifiedOutput } from '@/lib/unified-generation/types';
 import { UNIFIED_LANDING_PAGE_PROMPT } from '@/lib/unified-generation/prompts';
+import {
+  DEFAULT_ORDER_FORM,
+  LANDING_PAGE_THEMES,
+  ORDER_FORM_COUNTRIES,
+  buildLandingPageBundle,
+  countLandingPageLeads,
+  exportLandingPageLeadsCsv,
+  getLeadsEndpoint,
+  getProjectLandingPage,
+  renderLandingPage,
+  saveLandingPageOrderForm,
+  type LandingPageOffer,
+  type LandingPageOrderForm,
+  type LandingPageRenderOptions,
+  type LandingPageThemeId,
+} from '@/lib/landing-page';
+import type { LandingPageSections } from '@/lib/unified-generation/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Collapsible,
   CollapsibleContent,
@@ -66,6 +90,8 @@ interface LandingPageCompilerProps {
   onGenerated?: (html: string) => void;
 }
 
+const IMAGE_URL = /\.(jpe?g|png|webp|gif|avif)(\?|#|$)/i;
+
 export const LandingPageCompiler = ({
   projectId,
   productInfo,
@@ -85,6 +111,16 @@ export const LandingPageCompiler = ({
   const [promptProfile, setPromptProfile] = useState<PromptProfile | null>(null);
   const [showPromptModal, setShowPromptModal] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [theme, setTheme] = useState<LandingPageThemeId>('modern');
+  const [isBundling, setIsBundling] = useState(false);
+
+  // COD order form state
+  const [orderForm, setOrderForm] = useState<LandingPageOrderForm>(DEFAULT_ORDER_FORM);
+  const [landingPageId, setLandingPageId] = useState<string | null>(null);
+  const [leadCount, setLeadCount] = useState<number | null>(null);
+  const [showOrderForm, setShowOrderForm] = useState(false);
+  const [isSavingOrderForm, setIsSavingOrderForm] = useState(false);
+  const [isExportingLeads, setIsExportingLeads] = useState(false);
 
   // Execution mode state
   const [executionMode, setExecutionMode] = useState<ExecutionMode>('agent');
@@ -99,6 +135,32 @@ export const LandingPageCompiler = ({
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importHtml, setImportHtml] = useState('');
 
+  // Product images: the first leads the hero, the rest form the gallery
+  const productImages = (productInfo.mediaLinks || []).filter(url => IMAGE_URL.test(url));
+
+  const renderSections = (
+    sections: LandingPageSections,
+    themeId: LandingPageThemeId,
+    form: LandingPageOrderForm = orderForm,
+    pageId: string | null = landingPageId
+  ) => {
+    const withHero = {
+      ...sections,
+      hero: { ...sections.hero, imageUrl: sections.hero?.imageUrl || productImages[0] },
+    };
+    const options: Partial<LandingPageRenderOptions> = {
+      theme: themeId,
+      locale: audienceTargeting.language || 'ar',
+      title: productInfo.name,
+      gallery: productImages.filter(url => url !== withHero.hero.imageUrl),
+      // Orders need a landing_pages row to be stored against
+      order_form: form.enabled && pageId
+        ? { ...form, endpoint: getLeadsEndpoint(), landing_page_id: pageId }
+        : undefined,
+    };
+    return { sections: withHero, options, html: renderLandingPage(withHero, options) };
+  };
+
   useEffect(() => {
     loadData();
   }, [projectId]);
@@ -119,6 +181,16 @@ export const LandingPageCompiler = ({
 
     // Load prompt
     await loadPromptProfile();
+
+    // Load the order form and how many orders it has taken
+    try {
+      const page = await getProjectLandingPage(projectId);
+      setLandingPageId(page?.id ?? null);
+      setOrderForm(page?.order_form ? { ...DEFAULT_ORDER_FORM, ...page.order_form } : DEFAULT_ORDER_FORM);
+      setLeadCount(page ? await countLandingPageLeads(page.id) : null);
+    } catch (error) {
+      console.error('[LandingPageCompiler] Order form load error:', error);
+    }
   };
 
   const loadPromptProfile = async () => {
@@ -188,20 +260,23 @@ export const LandingPageCompiler = ({
       const output = result.data;
       setLastResult(output);
 
-      if (!output.html) {
-        throw new Error('No HTML output received from AI');
+      // Render from the structured sections; the model's own HTML is only a fallback
+      const hasSections = !!output.sections?.hero?.headline;
+      const html = hasSections ? renderSections(output.sections, theme).html : output.html;
+      if (!html) {
+        throw new Error('No landing page content received from AI');
       }
 
       // Save to database
-      await saveLandingPageHtmlOutput(projectId, output.html, {
+      await saveLandingPageHtmlOutput(projectId, html, {
         prompt_id: input.promptId,
         prompt_hash: output.meta.promptVersion.toString()
       });
 
-      setHtmlOutput(output.html);
-      setSectionsOutput(output.sections);
+      setHtmlOutput(html);
+      setSectionsOutput(hasSections ? output.sections : null);
       setViewMode('preview');
-      onGenerated?.(output.html);
+      onGenerated?.(html);
 
       toast({
         title: "Landing Page Generated",
@@ -224,16 +299,147 @@ export const LandingPageCompiler = ({
     toast({ title: "Copied", description: "HTML copied to clipboard" });
   };
 
-  const downloadHtml = () => {
-    const blob = new Blob([htmlOutput], { type: 'text/html' });
+  const saveFile = (html: string, filename: string) => {
+    const blob = new Blob([html], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'landing-page.html';
+    a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const changeTheme = async (themeId: LandingPageThemeId) => {
+    setTheme(themeId);
+    if (!sectionsOutput) return;
+
+    const { html } = renderSections(sectionsOutput, themeId);
+    setHtmlOutput(html);
+    onGenerated?.(html);
+    try {
+      await saveLandingPageHtmlOutput(projectId, html);
+    } catch (error) {
+      toast({
+        title: "Save Error",
+        description: error instanceof Error ? error.message : "Failed to save the restyled page",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadHtml = async () => {
+    if (!sectionsOutput) {
+      saveFile(htmlOutput, 'landing-page.html');
+      return;
+    }
+
+    // Self-contained export: CSS is already inline, images are inlined here
+    setIsBundling(true);
+    try {
+      const { sections, options } = renderSections(sectionsOutput, theme);
+      const bundle = await buildLandingPageBundle(sections, options);
+      saveFile(bundle.html, bundle.filename);
+
+      const linked = bundle.assets.filter(a => !a.inlined);
+      if (linked.length > 0) {
+        toast({
+          title: "Some images stay linked",
+          description: `${linked.length} image(s) could not be embedded and will load from their original URL`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to build the page bundle",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  const updateOffer = (index: number, changes: Partial<LandingPageOffer>) => {
+    setOrderForm(prev => ({
+      ...prev,
+      offers: prev.offers.map((offer, i) => (i === index ? { ...offer, ...changes } : offer)),
+    }));
+  };
+
+  const addOffer = () => {
+    setOrderForm(prev => {
+      const last = prev.offers[prev.offers.length - 1];
+      const offer = { id: crypto.randomUUID().slice(0, 8), label: '', quantity: (last?.quantity ?? 0) + 1, price: last?.price ?? 0 };
+      return { ...prev, offers: [...prev.offers, offer] };
+    });
+  };
+
+  const saveOrderForm = async () => {
+    setIsSavingOrderForm(true);
+    try {
+      const form: LandingPageOrderForm = {
+        ...orderForm,
+        offers: orderForm.offers.filter(o => o.quantity > 0 && o.price >= 0),
+        cities: (orderForm.cities || []).map(c => c.trim()).filter(Boolean),
+      };
+      const pageId = await saveLandingPageOrderForm(projectId, {
+        title: productInfo.name,
+        language: audienceTargeting.language.split('-')[0] || 'ar',
+        market: audienceTargeting.targetMarket,
+      }, form);
+      setOrderForm(form);
+      setLandingPageId(pageId);
+      setLeadCount(prev => prev ?? 0);
+
+      if (!sectionsOutput) {
+        toast({
+          title: "Order Form Saved",
+          description: "Generate the page to embed the form",
+        });
+        return;
+      }
+
+      const { html } = renderSections(sectionsOutput, theme, form, pageId);
+      setHtmlOutput(html);
+      onGenerated?.(html);
+      await saveLandingPageHtmlOutput(projectId, html);
+      toast({
+        title: "Order Form Saved",
+        description: form.enabled ? "The page now takes cash-on-delivery orders" : "The order form was removed from the page",
+      });
+    } catch (error) {
+      toast({
+        title: "Order Form Error",
+        description: error instanceof Error ? error.message : "Failed to save the order form",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingOrderForm(false);
+    }
+  };
+
+  const exportLeads = async () => {
+    if (!landingPageId) return;
+    setIsExportingLeads(true);
+    try {
+      const csv = await exportLandingPageLeadsCsv(landingPageId);
+      const url = URL.createObjectURL(csv);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `leads-${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+      setLeadCount(await countLandingPageLeads(landingPageId));
+    } catch (error) {
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to export leads",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingLeads(false);
+    }
+  };
+
   const copyPromptForAIStudio = () => {
     const prompt = `You are a senior Arabic eCommerce landing page expert. Generate a complete, production-ready HTML landing page for the following product.
 
@@ -295,6 +501,7 @@ Generate the complete HTML code now:`;
       await saveLandingPageHtmlOutput(projectId, importHtml);
 
       setHtmlOutput(importHtml);
+      setSectionsOutput(null);
       setViewMode('preview');
       setShowImportDialog(false);
       setImportHtml('');
@@ -414,6 +621,147 @@ Generate the complete HTML code now:`;
         </CollapsibleContent>
       </Collapsible>
 
+      {/* COD Order Form */}
+      <Collapsible open={showOrderForm} onOpenChange={setShowOrderForm}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="w-full justify-between">
+            <span className="flex items-center gap-2">
+              <ShoppingBag className="w-4 h-4" />
+              Order Form (Cash on Delivery)
+            </span>
+            <Badge variant="secondary" className="text-xs">
+              {orderForm.enabled ? `${leadCount ?? 0} leads` : 'Off'}
+            </Badge>
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-3">
+          <div className="p-4 rounded-lg bg-muted/30 border border-border space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="order-form-enabled" className="text-sm">Embed order form</Label>
+                <p className="text-xs text-muted-foreground">Replaces the final call to action with a name, phone and city form</p>
+              </div>
+              <Switch
+                id="order-form-enabled"
+                checked={orderForm.enabled}
+                onCheckedChange={(enabled) => setOrderForm(prev => ({ ...prev, enabled }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Country (phone format)</Label>
+                <Select
+                  value={orderForm.country}
+                  onValueChange={(country) => setOrderForm(prev => ({
+                    ...prev,
+                    country,
+                    currency: ORDER_FORM_COUNTRIES[country]?.currency ?? prev.currency,
+                  }))}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(ORDER_FORM_COUNTRIES).map(c => (
+                      <SelectItem key={c.country} value={c.country} className="text-xs">
+                        {c.name} (+{c.dial_code})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Currency</Label>
+                <Input
+                  value={orderForm.currency}
+                  onChange={(e) => setOrderForm(prev => ({ ...prev, currency: e.target.value.toUpperCase().slice(0, 3) }))}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Offers</Label>
+              {orderForm.offers.map((offer, index) => (
+                <div key={offer.id} className="grid grid-cols-[1fr_70px_90px_90px_auto] gap-2 items-center">
+                  <Input
+                    value={offer.label}
+                    placeholder={`${offer.quantity} piece(s)`}
+                    onChange={(e) => updateOffer(index, { label: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    value={offer.quantity}
+                    title="Quantity"
+                    onChange={(e) => updateOffer(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                    className="h-8 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={offer.price}
+                    title="Price"
+                    onChange={(e) => updateOffer(index, { price: Number(e.target.value) || 0 })}
+                    className="h-8 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={offer.compare_at_price ?? ''}
+                    placeholder="Was"
+                    title="Price before discount"
+                    onChange={(e) => updateOffer(index, { compare_at_price: e.target.value ? Number(e.target.value) : undefined })}
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={orderForm.offers.length <= 1}
+                    onClick={() => setOrderForm(prev => ({ ...prev, offers: prev.offers.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" className="gap-1 text-xs" onClick={addOffer}>
+                <Plus className="w-3 h-3" />
+                Add Bundle
+              </Button>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">Cities (one per line; leave empty for free text)</Label>
+              <Textarea
+                value={(orderForm.cities || []).join('\n')}
+                onChange={(e) => setOrderForm(prev => ({ ...prev, cities: e.target.value.split('\n') }))}
+                className="min-h-[80px] text-xs"
+              />
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button size="sm" className="gap-1" onClick={saveOrderForm} disabled={isSavingOrderForm}>
+                {isSavingOrderForm ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCircle2 className="w-3 h-3" />}
+                Save Order Form
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={exportLeads}
+                disabled={!landingPageId || isExportingLeads}
+              >
+                {isExportingLeads ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                Export Leads (CSV)
+              </Button>
+            </div>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+
       {/* Enhanced Debug Panel */}
       {debugMode && lastResult && (
         <Collapsible open={showDebugPanel} onOpenChange={setShowDebugPanel}>
@@ -610,8 +958,8 @@ Generate the complete HTML code now:`;
                 <Copy className="w-3 h-3" />
                 Copy
               </Button>
-              <Button variant="ghost" size="sm" onClick={downloadHtml} title="Download as .html file" className="gap-1">
-                <Download className="w-3 h-3" />
+              <Button variant="ghost" size="sm" onClick={downloadHtml} disabled={isBundling} title="Download as a self-contained .html file" className="gap-1">
+                {isBundling ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
                 Download
               </Button>
               <Button
@@ -648,27 +996,46 @@ Generate the complete HTML code now:`;
 
       {/* View Mode Toggle */}
       {htmlOutput && (
-        <div className="flex items-center bg-muted/30 rounded-lg p-1 border border-border w-fit">
-          <button
-            onClick={() => setViewMode('code')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'code'
-              ? 'bg-primary text-primary-foreground'
-              : 'text-muted-foreground hover:text-foreground'
-              }`}
-          >
-            <Code className="w-4 h-4" />
-            Code
-          </button>
-          <button
-            onClick={() => setViewMode('preview')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'preview'
-              ? 'bg-primary text-primary-foreground'
-              : 'text-muted-foreground hover:text-foreground'
-              }`}
-          >
-            <Eye className="w-4 h-4" />
-            Preview
-          </button>
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="flex items-center bg-muted/30 rounded-lg p-1 border border-border w-fit">
+            <button
+              onClick={() => setViewMode('code')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'code'
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              <Code className="w-4 h-4" />
+              Code
+            </button>
+            <button
+              onClick={() => setViewMode('preview')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${viewMode === 'preview'
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              <Eye className="w-4 h-4" />
+              Preview
+            </button>
+          </div>
+
+          {/* Theme (pages rendered from sections only) */}
+          {sectionsOutput && (
+            <Select value={theme} onValueChange={(value) => changeTheme(value as LandingPageThemeId)}>
+              <SelectTrigger className="w-48 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(LANDING_PAGE_THEMES).map(t => (
+                  <SelectItem key={t.id} value={t.id} className="text-xs">
+                    <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ background: t.colors.primary }} />
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       )}
 
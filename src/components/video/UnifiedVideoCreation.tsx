@@ -31,6 +31,7 @@ import {
 } from '@/lib/video-generation/types';
 import { selectEngine, estimateCost } from '@/lib/video-generation/engine-selector';
 import { executeVideoGeneration } from '@/lib/video-generation/executor';
+import { isBudgetExceededError } from '@/lib/budget';
 import { useProject } from '@/contexts/ProjectContext';
 
 interface UnifiedVideoCreationProps {
@@ -112,6 +113,10 @@ export const UnifiedVideoCreation: React.FC<UnifiedVideoCreationProps> = ({
       }
     } catch (error) {
       console.error('Generation error:', error);
+      if (isBudgetExceededError(error)) {
+        toast.error('Budget limit reached', { description: error.message });
+        return;
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to generate video');
     } finally {
       setIsGenerating(false);
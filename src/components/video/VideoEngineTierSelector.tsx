@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Zap, DollarSign, Crown, Sparkles } from 'lucide-react';
+import { getPricePerSecond } from '@/lib/pricing';
 
 export interface VideoEngine {
   id: string;
@@ -17,33 +18,33 @@ export interface VideoEngine {
   apiProvider?: string;
 }
 
-// Tier-based video engines - only video-capable models
+// Tier-based video engines - only video-capable models, priced from the pricing catalog
 export const VIDEO_ENGINES: VideoEngine[] = [
   // FREE TIER
   { id: 'nano-banana', name: 'NanoBanana', tier: 'free', description: 'Free image-to-video via Gemini', maxDuration: 10 },
   { id: 'stability-free', name: 'Stability Video (Free)', tier: 'free', description: 'Open source video diffusion', maxDuration: 4 },
   
   // LOW COST
-  { id: 'wan-2.5', name: 'Wan 2.5', tier: 'low', description: 'Fast affordable video generation', maxDuration: 10, costPerSecond: 0.02 },
-  { id: 'kling-2.5', name: 'Kling 2.5 Pro', tier: 'low', description: 'Advanced motion & physics', maxDuration: 10, costPerSecond: 0.03 },
-  { id: 'minimax', name: 'MiniMax Video', tier: 'low', description: 'Quick video clips', maxDuration: 6, costPerSecond: 0.02 },
-  { id: 'ovi', name: 'Ovi', tier: 'low', description: 'Budget video generation', maxDuration: 8, costPerSecond: 0.01 },
-  { id: 'haiper', name: 'HaiperAI', tier: 'low', description: 'Ultra-fast social clips', maxDuration: 4, costPerSecond: 0.02 },
-  { id: 'flux-video', name: 'Flux Video', tier: 'low', description: 'Flux-based video generation', maxDuration: 6, costPerSecond: 0.02 },
+  { id: 'wan-2.5', name: 'Wan 2.5', tier: 'low', description: 'Fast affordable video generation', maxDuration: 10, costPerSecond: getPricePerSecond('wan-2.5') },
+  { id: 'kling-2.5', name: 'Kling 2.5 Pro', tier: 'low', description: 'Advanced motion & physics', maxDuration: 10, costPerSecond: getPricePerSecond('kling-2.5') },
+  { id: 'minimax', name: 'MiniMax Video', tier: 'low', description: 'Quick video clips', maxDuration: 6, costPerSecond: getPricePerSecond('minimax') },
+  { id: 'ovi', name: 'Ovi', tier: 'low', description: 'Budget video generation', maxDuration: 8, costPerSecond: getPricePerSecond('ovi') },
+  { id: 'haiper', name: 'HaiperAI', tier: 'low', description: 'Ultra-fast social clips', maxDuration: 4, costPerSecond: getPricePerSecond('haiper') },
+  { id: 'flux-video', name: 'Flux Video', tier: 'low', description: 'Flux-based video generation', maxDuration: 6, costPerSecond: getPricePerSecond('flux-video') },
   
   // MEDIUM COST
-  { id: 'veo-3.1', name: 'Google Veo 3.1', tier: 'medium', description: 'Cinematic product shots', maxDuration: 10, costPerSecond: 0.08 },
-  { id: 'runway-gen3', name: 'Runway Gen-3', tier: 'medium', description: 'Professional video creation', maxDuration: 10, costPerSecond: 0.10 },
-  { id: 'luma', name: 'Luma Dream Machine', tier: 'medium', description: 'Smooth cinematic motion', maxDuration: 5, costPerSecond: 0.04 },
-  { id: 'pika-2.1', name: 'Pika 2.1', tier: 'medium', description: 'Fast social content', maxDuration: 16, costPerSecond: 0.05 },
-  { id: 'kling-2.6', name: 'Kling 2.6', tier: 'medium', description: 'Premium physics simulation', maxDuration: 10, costPerSecond: 0.06 },
-  { id: 'stable-video', name: 'Stable Video Pro', tier: 'medium', description: 'High-quality open model', maxDuration: 8, costPerSecond: 0.04 },
+  { id: 'veo-3.1', name: 'Google Veo 3.1', tier: 'medium', description: 'Cinematic product shots', maxDuration: 10, costPerSecond: getPricePerSecond('veo-3.1') },
+  { id: 'runway-gen3', name: 'Runway Gen-3', tier: 'medium', description: 'Professional video creation', maxDuration: 10, costPerSecond: getPricePerSecond('runway-gen3') },
+  { id: 'luma', name: 'Luma Dream Machine', tier: 'medium', description: 'Smooth cinematic motion', maxDuration: 5, costPerSecond: getPricePerSecond('luma') },
+  { id: 'pika-2.1', name: 'Pika 2.1', tier: 'medium', description: 'Fast social content', maxDuration: 16, costPerSecond: getPricePerSecond('pika-2.1') },
+  { id: 'kling-2.6', name: 'Kling 2.6', tier: 'medium', description: 'Premium physics simulation', maxDuration: 10, costPerSecond: getPricePerSecond('kling-2.6') },
+  { id: 'stable-video', name: 'Stable Video Pro', tier: 'medium', description: 'High-quality open model', maxDuration: 8, costPerSecond: getPricePerSecond('stable-video') },
   
   // PREMIUM / EXPENSIVE
-  { id: 'sora-2', name: 'Sora 2', tier: 'premium', description: 'OpenAI cinematic storytelling', maxDuration: 20, costPerSecond: 0.20 },
-  { id: 'sora-2-pro', name: 'Sora 2 Pro', tier: 'premium', description: 'Highest quality cinematic', maxDuration: 60, costPerSecond: 0.35 },
-  { id: 'omnihuman', name: 'OmniHuman Actors', tier: 'premium', description: 'Ultra-realistic human actors', maxDuration: 30, costPerSecond: 0.25 },
-  { id: 'heygen-premium', name: 'HeyGen Premium', tier: 'premium', description: 'Premium avatar generation', maxDuration: 60, costPerSecond: 0.15, apiProvider: 'heygen' },
+  { id: 'sora-2', name: 'Sora 2', tier: 'premium', description: 'OpenAI cinematic storytelling', maxDuration: 20, costPerSecond: getPricePerSecond('sora-2') },
+  { id: 'sora-2-pro', name: 'Sora 2 Pro', tier: 'premium', description: 'Highest quality cinematic', maxDuration: 60, costPerSecond: getPricePerSecond('sora-2-pro') },
+  { id: 'omnihuman', name: 'OmniHuman Actors', tier: 'premium', description: 'Ultra-realistic human actors', maxDuration: 30, costPerSecond: getPricePerSecond('omnihuman') },
+  { id: 'heygen-premium', name: 'HeyGen Premium', tier: 'premium', description: 'Premium avatar generation', maxDuration: 60, costPerSecond: getPricePerSecond('heygen-premium'), apiProvider: 'heygen' },
 ];
 
 const TIER_CONFIG = {
@@ -0,0 +1,66 @@
+/**
+ * Hook for A/B tests backed by ab_tests / ab_test_variants / ab_test_metrics
+ * Winners are declared by the statistics engine when metrics are recorded
+ */
+import { useState, useCallback, useEffect } from 'react';
+import {
+  listTests,
+  createTest as createTestFn,
+  setTestStatus,
+  ingestMetrics,
+  evaluateAndStore,
+  type ABTest,
+  type CreateTestInput,
+  type MetricIngestRow,
+  type TestDecision,
+} from '@/lib/ab-testing';
+
+export function useABTests(userId: string | undefined) {
+  const [tests, setTests] = useState<ABTest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      setTests(await listTests(userId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load A/B tests');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createTest = useCallback(async (input: Omit<CreateTestInput, 'userId'>): Promise<ABTest> => {
+    if (!userId) throw new Error('Sign in to create A/B tests');
+    const test = await createTestFn({ ...input, userId });
+    setTests(prev => [test, ...prev]);
+    return test;
+  }, [userId]);
+
+  const startTest = useCallback(async (test: ABTest) => {
+    await setTestStatus(test, 'running');
+    // Metrics may already be in from before a pause
+    await evaluateAndStore(test.id);
+    await refresh();
+  }, [refresh]);
+
+  const pauseTest = useCallback(async (test: ABTest) => {
+    await setTestStatus(test, 'paused');
+    await refresh();
+  }, [refresh]);
+
+  const recordMetrics = useCallback(async (testId: string, rows: MetricIngestRow[]): Promise<TestDecision | null> => {
+    const decision = await ingestMetrics(testId, rows);
+    await refresh();
+    return decision;
+  }, [refresh]);
+
+  return { tests, loading, error, refresh, createTest, startTest, pauseTest, recordMetrics };
+}
@@ -4,7 +4,7 @@
  * WITH: Timeouts, schema validation, error handling, explainability
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import type {
@@ -13,7 +13,8 @@ import type {
   PhaseAOutput,
   MarketingFramework
 } from '@/lib/creative-scale/types';
-import type { ExecutionPlan } from '@/lib/creative-scale/compiler-types';
+import type { ExecutionPlan, ReplacementAsset } from '@/lib/creative-scale/compiler-types';
+import { compile, compileAll } from '@/lib/creative-scale/compiler';
 import type {
   RouterResult,
   EngineEntry,
@@ -29,6 +30,7 @@ import type {
   DetectedProblem,
   OptimizationGoal,
   RiskTolerance,
+  StrategyOutcome,
   VideoAnalysisSignals,
   FrameworkType,
   OptimizationFocus,
@@ -50,6 +52,12 @@ import {
   runBrainV2,
   convertToSignals
 } from '@/lib/creative-scale/brain-v2-engine';
+import {
+  recordBlueprintOutcome,
+  withLearnedModel,
+  type LearningScope
+} from '@/lib/creative-scale/brain-v2-learning-store';
+import { analyzeVideoSignals } from '@/lib/vps-render-service';
 
 // ============================================
 // SESSION STORAGE PERSISTENCE
@@ -226,6 +234,15 @@ function generateFallbackStrategy(
   } as BrainOutput;
 }
 
+// ============================================
+// LEARNING SCOPE
+// ============================================
+
+async function getLearningScope(projectId?: string | null): Promise<LearningScope | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user ? { userId: user.id, projectId: projectId ?? null } : null;
+}
+
 // ============================================
 // FETCH WITH TIMEOUT
 // ============================================
@@ -348,6 +365,15 @@ interface UseCreativeScaleReturn {
     variationCount?: number;
   }) => Promise<BrainOutput>;
 
+  // Brain V2 decision from the local engine with the user's learned model
+  planBrainV2Strategy: (analysis: VideoAnalysis, options?: {
+    variationCount?: number;
+    projectId?: string | null;
+  }) => Promise<BrainOutput>;
+
+  // Feed what happened to the current decision back to the learner
+  recordBrainV2Outcome: (event: 'downloaded' | 'regenerated', projectId?: string | null) => Promise<void>;
+
   runFullPhaseA: (videoUrl: string, videoId: string, options?: {
     language?: string;
     market?: string;
@@ -360,13 +386,15 @@ interface UseCreativeScaleReturn {
     analysis: VideoAnalysis,
     blueprint: CreativeBlueprint,
     variationIndex: number,
-    assetBaseUrl?: string
+    assetBaseUrl?: string,
+    replacementAssets?: ReplacementAsset[]
   ) => Promise<ExecutionPlan | null>;
 
   compileAllVariations: (
     analysis: VideoAnalysis,
     blueprint: CreativeBlueprint,
-    assetBaseUrl?: string
+    assetBaseUrl?: string,
+    replacementAssets?: ReplacementAsset[]
   ) => Promise<ExecutionPlan[]>;
 
   // Phase B: Router Actions
@@ -390,6 +418,7 @@ interface UseCreativeScaleReturn {
     targetFramework?: MarketingFramework;
     variationCount?: number;
     assetBaseUrl?: string;
+    replacementAssets?: ReplacementAsset[];
   }) => Promise<FullPipelineOutput | null>;
 
   reset: () => void;
@@ -418,6 +447,9 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     funnelStage: 'cold'
   });
 
+  // Variation ids of Brain V2 decisions the user downloaded from
+  const downloadedBlueprintIds = useRef(new Set<string>());
+
   // ============================================
   // BRAIN V2 OPTIONS
   // ============================================
@@ -468,21 +500,34 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     setError(null);
 
     try {
+      // Measured segmentation from the VPS, so the AI only labels segments
+      const signalAnalysis = await analyzeVideoSignals(videoUrl, { videoId, language: options?.language })
+        .then(result => result.analysis)
+        .catch(err => {
+          console.warn('[CreativeScale] Signal analysis unavailable, AI will segment:', err);
+          return null;
+        });
+
       const { data, error: fnError } = await invokeWithTimeout<{ analysis: unknown }>(
         'creative-scale-analyze',
         {
           video_url: videoUrl,
           video_id: videoId,
           language: options?.language,
-          market: options?.market
+          market: options?.market,
+          signal_analysis: signalAnalysis
         }
       );
 
-      if (fnError) throw fnError;
-      if (!data?.analysis) throw new Error('No analysis returned from AI');
+      // Unlabeled measured segments beat no analysis at all
+      const rawAnalysis = data?.analysis ?? (fnError ? signalAnalysis : null);
+      if (!rawAnalysis) {
+        if (fnError) throw fnError;
+        throw new Error('No analysis returned from AI');
+      }
 
       // Schema validation
-      const validation = validateVideoAnalysis(data.analysis);
+      const validation = validateVideoAnalysis(rawAnalysis);
       if (!validation.success) {
         throw new Error(validation.error || 'Invalid analysis format');
       }
@@ -785,6 +830,66 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     }
   }, [brainV2State.optimizationGoal, brainV2State.riskTolerance, brainV2State.platform, brainV2State.funnelStage]);
 
+  // ============================================
+  // BRAIN V2: LEARNED DECISION (local engine)
+  // ============================================
+
+  const planBrainV2Strategy = useCallback(async (
+    analysis: VideoAnalysis,
+    options?: { variationCount?: number; projectId?: string | null }
+  ): Promise<BrainOutput> => {
+    const input: BrainInput = {
+      video_analysis: convertToSignals(analysis),
+      optimization_goal: brainV2State.optimizationGoal
+    };
+
+    // Without a learned model the engine runs on its static weights
+    const scope = await getLearningScope(options?.projectId);
+    const learnedInput = scope
+      ? await withLearnedModel(input, scope).catch(err => {
+          console.warn('[CreativeScale] Learned model unavailable:', err);
+          return input;
+        })
+      : input;
+
+    const output = runBrainV2(learnedInput, clampVariationCount(options?.variationCount ?? 3));
+
+    setBrainV2State(prev => ({
+      ...prev,
+      brainOutput: output,
+      blueprintsV2: output.success ? output.blueprints : [],
+      detectedProblems: output.success ? output.blueprints[0]?.detected_problems || [] : []
+    }));
+
+    return output;
+  }, [brainV2State.optimizationGoal]);
+
+  const recordBrainV2Outcome = useCallback(async (
+    event: 'downloaded' | 'regenerated',
+    projectId?: string | null
+  ): Promise<void> => {
+    // The primary blueprint is the decision shown to the user
+    const blueprint = brainV2State.blueprintsV2[0];
+    if (!blueprint) return;
+
+    const downloaded = downloadedBlueprintIds.current;
+    if (event === 'downloaded') {
+      if (downloaded.has(blueprint.variation_id)) return;
+      downloaded.add(blueprint.variation_id);
+    }
+    const result: Pick<StrategyOutcome, 'was_downloaded' | 'was_regenerated'> = {
+      was_downloaded: downloaded.has(blueprint.variation_id),
+      was_regenerated: event === 'regenerated'
+    };
+
+    try {
+      const scope = await getLearningScope(projectId);
+      if (scope) await recordBlueprintOutcome(scope, blueprint, result);
+    } catch (err) {
+      console.warn('[CreativeScale] Failed to record Brain V2 outcome:', err);
+    }
+  }, [brainV2State.blueprintsV2]);
+
   // ============================================
   // PHASE A: FULL RUN
   // ============================================
@@ -830,26 +935,25 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     analysis: VideoAnalysis,
     blueprint: CreativeBlueprint,
     variationIndex: number,
-    assetBaseUrl?: string
+    assetBaseUrl?: string,
+    replacementAssets?: ReplacementAsset[]
   ): Promise<ExecutionPlan | null> => {
     setIsCompiling(true);
     setError(null);
 
     try {
-      const { data, error: fnError } = await supabase.functions.invoke('creative-scale-compile', {
-        body: {
-          analysis,
-          blueprint,
-          variation_index: variationIndex,
-          compile_all: false,
-          asset_base_url: assetBaseUrl
-        }
+      // Compiled here: replace_segment resolves against the project's asset pool
+      const result = compile({
+        analysis,
+        blueprint,
+        variation_index: variationIndex,
+        asset_base_url: assetBaseUrl,
+        replacement_assets: replacementAssets
       });
 
-      if (fnError) throw new Error(fnError.message);
-      if (!data?.plans || data.plans.length === 0) throw new Error('No execution plan returned');
+      if (!result.success || !result.plan) throw new Error(result.error || 'No execution plan returned');
 
-      const plan = data.plans[0] as ExecutionPlan;
+      const plan = result.plan;
       setCurrentPlans(prev => [...prev, plan]);
       return plan;
     } catch (err) {
@@ -868,7 +972,8 @@ export function useCreativeScale(): UseCreativeScaleReturn {
   const compileAllVariations = useCallback(async (
     analysis: VideoAnalysis,
     blueprint: CreativeBlueprint,
-    sourceVideoUrl?: string
+    sourceVideoUrl?: string,
+    replacementAssets: ReplacementAsset[] = []
   ): Promise<ExecutionPlan[]> => {
     setIsCompiling(true);
     setError(null);
@@ -879,20 +984,10 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     try {
       console.log('[useCreativeScale] Compiling with source video URL:', sourceVideoUrl ? 'provided' : 'missing');
       console.log('[useCreativeScale] Blueprint has', blueprint.variation_ideas?.length || 0, 'variations');
+      console.log('[useCreativeScale] Replacement pool:', replacementAssets.length, 'assets');
 
-      const { data, error: fnError } = await supabase.functions.invoke('creative-scale-compile', {
-        body: {
-          analysis,
-          blueprint,
-          compile_all: true,
-          source_video_url: sourceVideoUrl
-        }
-      });
-
-      if (fnError) throw new Error(fnError.message);
-      if (!data?.plans) throw new Error('No execution plans returned');
-
-      const plans = data.plans as ExecutionPlan[];
+      const plans = compileAll(analysis, blueprint, sourceVideoUrl, replacementAssets);
+      if (plans.length === 0) throw new Error('No execution plans returned');
 
       console.log('[useCreativeScale] Compiled', plans.length, 'plans');
 
@@ -925,6 +1020,7 @@ export function useCreativeScale(): UseCreativeScaleReturn {
       targetFramework?: MarketingFramework;
       variationCount?: number;
       assetBaseUrl?: string;
+      replacementAssets?: ReplacementAsset[];
     }
   ): Promise<FullPipelineOutput | null> => {
     const startTime = Date.now();
@@ -943,7 +1039,8 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     const plans = await compileAllVariations(
       phaseAResult.analysis,
       phaseAResult.blueprint,
-      options?.assetBaseUrl
+      options?.assetBaseUrl,
+      options?.replacementAssets
     );
 
     return {
@@ -1034,6 +1131,7 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     setIsGeneratingBlueprint(false);
     setIsCompiling(false);
     setIsRouting(false);
+    downloadedBlueprintIds.current.clear();
     setBrainV2State({
       detectedProblems: [],
       blueprintsV2: [],
@@ -1062,6 +1160,8 @@ export function useCreativeScale(): UseCreativeScaleReturn {
     analyzeVideo,
     generateBlueprint,
     generateBrainV2Strategy,
+    planBrainV2Strategy,
+    recordBrainV2Outcome,
     runFullPhaseA,
     compileVariation,
     compileAllVariations,
@@ -8,6 +8,8 @@ import {
   extendedAIModelsRegistry
 } from '@/data/extendedAIModels';
 import { useToast } from '@/hooks/use-toast';
+import { isBudgetExceededError, releaseReservation, reserveBudget, settleReservation } from '@/lib/budget';
+import { findPrice, priceUsage } from '@/lib/pricing';
 import { ExecutionState, ExecutionTiming } from '@/components/ai-tools/ExecutionStatusTracker';
 import { ExecutionHistoryItem } from '@/components/ai-tools/ExecutionHistoryPanel';
 import { ImageOutputSettings, VideoOutputSettings } from '@/components/ai-tools/OutputControlsPanel';
@@ -23,6 +25,7 @@ interface ToolExecutionConfig {
   additionalParams?: Record<string, any>;
   imageSettings?: ImageOutputSettings;
   videoSettings?: VideoOutputSettings;
+  projectId?: string; // Budget to charge
 }
 
 export interface ToolExecutionDebug {
@@ -106,7 +109,7 @@ export const useExtendedAITools = () => {
     return 'image';
   };
 
-  // Estimate cost based on settings
+  // Estimate cost from the pricing catalog, the same price the tool functions record
   const estimateCost = useCallback((
     toolId: string,
     imageSettings?: ImageOutputSettings,
@@ -115,27 +118,13 @@ export const useExtendedAITools = () => {
     const tool = getModelById(toolId);
     if (!tool) return 0;
 
-    let baseCost = 0.02;
-
-    if (tool.pricingTier === 'premium') baseCost = 0.10;
-    else if (tool.pricingTier === 'standard') baseCost = 0.05;
-    else if (tool.pricingTier === 'budget') baseCost = 0.02;
-
-    if (imageSettings) {
-      if (imageSettings.quality === 'high') baseCost *= 2;
-      else if (imageSettings.quality === 'draft') baseCost *= 0.5;
-      baseCost *= imageSettings.numOutputs;
-      if (imageSettings.resolution === '2048') baseCost *= 1.5;
-    }
-
-    if (videoSettings) {
-      if (videoSettings.qualityTier === 'premium') baseCost *= 2.5;
-      else if (videoSettings.qualityTier === 'budget') baseCost *= 0.6;
-      baseCost *= (videoSettings.duration / 5); // Per 5 seconds
-      if (videoSettings.fps === '60') baseCost *= 1.3;
-    }
-
-    return Math.round(baseCost * 100) / 100;
+    // Per-image prices bill every requested output; per-second prices bill the clip length
+    const perImage = findPrice(toolId)?.unit === 'image';
+    return priceUsage(toolId, {
+      category: tool.category === 'image' || tool.category === 'tool' ? tool.category : 'video',
+      duration_sec: videoSettings?.duration,
+      units: perImage ? imageSettings?.numOutputs : undefined,
+    }).cost_usd;
   }, []);
 
   // Add to history
@@ -200,6 +189,8 @@ export const useExtendedAITools = () => {
       setExecutionTiming(prev => ({ ...prev, state: 'processing' }));
     }, 500);
 
+    let reservationId: string | null = null;
+
     try {
       // VPS-ONLY: Use centralized auth
       const token = getAuthToken();
@@ -207,6 +198,15 @@ export const useExtendedAITools = () => {
         throw new Error('Not authenticated');
       }
 
+      // Hold the estimate first; a hard budget stop throws BudgetExceededError
+      const reservation = await reserveBudget({
+        engine: model.id,
+        operation_type: config.toolId,
+        estimated_cost_usd: estimateCost(config.toolId, config.imageSettings, config.videoSettings),
+        project_id: config.projectId,
+      });
+      reservationId = reservation.id;
+
       // Update debug to executing
       setCurrentDebug(prev => prev ? { ...prev, status: 'executing' } : null);
 
@@ -264,6 +264,13 @@ export const useExtendedAITools = () => {
       }
 
       const responseData = response.data;
+
+      // ai-tools records the cost transaction itself; only close the hold
+      await settleReservation(reservationId, { actual_cost_usd: responseData?.cost }).catch(err =>
+        console.warn('[AITools] Failed to settle budget reservation:', err)
+      );
+      reservationId = null;
+
       const outputType = getOutputTypeFromTool(model);
 
       // Extract output URL with comprehensive fallbacks - NEVER leave empty on success
@@ -371,6 +378,12 @@ export const useExtendedAITools = () => {
     } catch (error: any) {
       console.error('[AITools] Execution error:', error);
 
+      if (reservationId) {
+        await releaseReservation(reservationId).catch(err =>
+          console.warn('[AITools] Failed to release budget reservation:', err)
+        );
+      }
+
       // Clear progress interval
       if (progressIntervalRef.current) {
         clearInterval(progressIntervalRef.current);
@@ -420,7 +433,7 @@ export const useExtendedAITools = () => {
       setLastResults(prev => ({ ...prev, [config.toolId]: result }));
 
       toast({
-        title: "Execution Failed",
+        title: isBudgetExceededError(error) ? "Budget Limit Reached" : "Execution Failed",
         description: error.message || "Failed to execute tool",
         variant: "destructive",
       });
@@ -435,7 +448,7 @@ export const useExtendedAITools = () => {
         });
       }, 2000);
     }
-  }, [toast, addToHistory]);
+  }, [toast, addToHistory, estimateCost]);
 
   // Get tool by ID
   const getTool = useCallback((toolId: string) => getModelById(toolId), []);
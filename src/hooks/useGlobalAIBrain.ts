@@ -3,13 +3,18 @@
  * 
  * React hook for accessing the centralized AI Brain system.
  * Provides cost optimization and decision scoring across all tools.
+ * Imported ad results are loaded once per brain so batches are split by
+ * what has worked for the user.
  */
 
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { loadArmObservations } from '@/lib/ad-performance/outcomes';
 import { useSecureApiKeys } from './useSecureApiKeys';
 import { 
   GlobalAIBrain, 
   getGlobalAIBrain,
+  allocationStatsFromObservations,
   DecisionContext,
   FullDecision,
   BrainResponse,
@@ -27,6 +32,19 @@ export function useGlobalAIBrain() {
   const brain = useMemo(() => {
     return getGlobalAIBrain(availableApiKeys);
   }, [availableApiKeys]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const observations = await loadArmObservations(user.id);
+      if (!cancelled) brain.setAllocationStats(allocationStatsFromObservations(observations));
+    })().catch(err => console.warn('[AI Brain] Failed to load ad results:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [brain]);
   
   // Process a full request
   const processRequest = useCallback((
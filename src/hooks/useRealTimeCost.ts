@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client'; // Database only
 import { getUser, getUserId } from '@/utils/auth';
+import { getBudgetStatus, type BudgetStatus } from '@/lib/budget';
 
 interface CostTransaction {
   id: string;
@@ -25,6 +26,8 @@ interface UseRealTimeCostReturn {
   isLoading: boolean;
   projectCost: number;
   estimatedTotal: number;
+  budgets: BudgetStatus[];  // Monthly and project budgets that apply
+  refreshBudgets: () => Promise<void>;
   recordCost: (transaction: Omit<CostTransaction, 'id' | 'created_at'>) => Promise<void>;
 }
 
@@ -37,6 +40,7 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [estimatedTotal, setEstimatedTotal] = useState(0);
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
 
   const calculateSummary = useCallback((transactions: CostTransaction[]): CostSummary => {
     const byStage: Record<string, number> = {};
@@ -52,6 +56,14 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
     return { total, byStage, byEngine, transactions };
   }, []);
 
+  const refreshBudgets = useCallback(async () => {
+    try {
+      setBudgets(await getBudgetStatus(projectId));
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+    }
+  }, [projectId]);
+
   const fetchCosts = useCallback(async () => {
     if (!projectId) {
       setIsLoading(false);
@@ -101,6 +113,7 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
     if (!projectId) return;
 
     fetchCosts();
+    refreshBudgets();
 
     const channel = supabase
       .channel(`cost-transactions-${projectId}`)
@@ -118,6 +131,7 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
             const transactions = [newTx, ...prev.transactions];
             return calculateSummary(transactions);
           });
+          refreshBudgets();
         }
       )
       .subscribe();
@@ -125,7 +139,7 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [projectId, fetchCosts, calculateSummary]);
+  }, [projectId, fetchCosts, calculateSummary, refreshBudgets]);
 
   // Estimate remaining costs based on pipeline stages
   useEffect(() => {
@@ -157,6 +171,8 @@ export function useRealTimeCost(projectId?: string): UseRealTimeCostReturn {
     isLoading,
     projectCost: costs.total,
     estimatedTotal,
+    budgets,
+    refreshBudgets,
     recordCost,
   };
 }
@@ -9,10 +9,14 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { getAuthToken } from '@/utils/auth';
+import { supabase } from '@/integrations/supabase/client';
+import { loadArmObservations } from '@/lib/ad-performance/outcomes';
 import type { VideoAnalysis, CreativeBlueprint } from '@/lib/creative-scale/types';
 import {
   makeBrainV2DeterministicDecision,
   generateBrainV2Variations,
+  allocationFromObservations,
+  type BrainV2BatchInput,
   type BrainV2StrategyObject,
   type PlatformType
 } from '@/lib/creative-scale/brain-v2-deterministic';
@@ -143,14 +147,26 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
 
     abortControllerRef.current = new AbortController();
 
+    // Imported ad results split the fallback batch; without them it rotates
+    const loadAllocation = async (): Promise<BrainV2BatchInput['allocation']> => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        return user ? allocationFromObservations(await loadArmObservations(user.id)) : undefined;
+      } catch (err) {
+        console.warn('[Brain V2] Failed to load ad results:', err);
+        return undefined;
+      }
+    };
+
     // Helper to create deterministic fallback result
-    const createFallbackResult = (): StreamingStrategyResult => {
+    const createFallbackResult = async (): Promise<StreamingStrategyResult> => {
       console.log('[Brain V2] Using deterministic fallback strategy');
 
       const strategies = generateBrainV2Variations({
         platform: options.platform as PlatformType,
         funnel_stage: options.funnelStage as 'cold' | 'warm' | 'retargeting',
-        variation_count: options.variationCount
+        variation_count: options.variationCount,
+        allocation: await loadAllocation()
       });
 
       const blueprint = createFallbackBlueprint(
@@ -206,7 +222,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
       if (!response.ok) {
         // SSE failed - use deterministic fallback (NO ERROR TO USER)
         console.warn(`[SSE] HTTP ${response.status} - falling back to deterministic engine`);
-        const fallbackResult = createFallbackResult();
+        const fallbackResult = await createFallbackResult();
         setResult(fallbackResult);
         setIsStreaming(false);
         return fallbackResult;
@@ -216,7 +232,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
       if (!reader) {
         // No response body - use deterministic fallback
         console.warn('[SSE] No response body - falling back to deterministic engine');
-        const fallbackResult = createFallbackResult();
+        const fallbackResult = await createFallbackResult();
         setResult(fallbackResult);
         setIsStreaming(false);
         return fallbackResult;
@@ -263,7 +279,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
                 case 'error':
                   // SSE error event - use deterministic fallback (NO ERROR TO USER)
                   console.warn('[SSE] Error event received - falling back to deterministic engine:', parsed);
-                  const fallbackOnError = createFallbackResult();
+                  const fallbackOnError = await createFallbackResult();
                   setResult(fallbackOnError);
                   setIsStreaming(false);
                   return fallbackOnError;
@@ -280,7 +296,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
       // If no result from SSE, use deterministic fallback
       if (!finalResult || !finalResult.blueprint) {
         console.warn('[SSE] No complete event received - falling back to deterministic engine');
-        const fallbackResult = createFallbackResult();
+        const fallbackResult = await createFallbackResult();
         setResult(fallbackResult);
         return fallbackResult;
       }
@@ -290,7 +306,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
         console.log('[SSE] Request cancelled - using deterministic fallback');
-        const fallbackResult = createFallbackResult();
+        const fallbackResult = await createFallbackResult();
         setResult(fallbackResult);
         setIsStreaming(false);
         return fallbackResult;
@@ -298,7 +314,7 @@ export function useStreamingStrategy(): UseStreamingStrategyReturn {
 
       // ANY error - use deterministic fallback (NEVER FAIL)
       console.warn('[SSE] Stream error - falling back to deterministic engine:', err);
-      const fallbackResult = createFallbackResult();
+      const fallbackResult = await createFallbackResult();
       setResult(fallbackResult);
       setIsStreaming(false);
       return fallbackResult;
@@ -14,6 +14,178 @@ export type Database = {
   }
   public: {
     Tables: {
+      ab_test_metrics: {
+        Row: {
+          clicks: number
+          conversions: number
+          created_at: string
+          id: string
+          impressions: number
+          metric_date: string
+          source: string
+          spend: number
+          test_id: string
+          variant_id: string
+        }
+        Insert: {
+          clicks?: number
+          conversions?: number
+          created_at?: string
+          id?: string
+          impressions?: number
+          metric_date?: string
+          source?: string
+          spend?: number
+          test_id: string
+          variant_id: string
+        }
+        Update: {
+          clicks?: number
+          conversions?: number
+          created_at?: string
+          id?: string
+          impressions?: number
+          metric_date?: string
+          source?: string
+          spend?: number
+          test_id?: string
+          variant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ab_test_metrics_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "ab_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ab_test_metrics_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "ab_test_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ab_test_variants: {
+        Row: {
+          created_at: string
+          id: string
+          is_control: boolean
+          name: string
+          test_id: string
+          variation_id: string | null
+          video_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_control?: boolean
+          name: string
+          test_id: string
+          variation_id?: string | null
+          video_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_control?: boolean
+          name?: string
+          test_id?: string
+          variation_id?: string | null
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ab_test_variants_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "ab_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ab_test_variants_variation_id_fkey"
+            columns: ["variation_id"]
+            isOneToOne: false
+            referencedRelation: "video_variations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ab_tests: {
+        Row: {
+          completed_at: string | null
+          control_variant_id: string | null
+          created_at: string
+          decision: Json | null
+          id: string
+          name: string
+          primary_metric: string
+          project_id: string | null
+          started_at: string | null
+          status: string
+          stopping_rule: Json
+          updated_at: string
+          user_id: string
+          winner_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          control_variant_id?: string | null
+          created_at?: string
+          decision?: Json | null
+          id?: string
+          name: string
+          primary_metric?: string
+          project_id?: string | null
+          started_at?: string | null
+          status?: string
+          stopping_rule?: Json
+          updated_at?: string
+          user_id: string
+          winner_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          control_variant_id?: string | null
+          created_at?: string
+          decision?: Json | null
+          id?: string
+          name?: string
+          primary_metric?: string
+          project_id?: string | null
+          started_at?: string | null
+          status?: string
+          stopping_rule?: Json
+          updated_at?: string
+          user_id?: string
+          winner_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ab_tests_control_variant_fkey"
+            columns: ["control_variant_id"]
+            isOneToOne: false
+            referencedRelation: "ab_test_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ab_tests_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ab_tests_winner_fkey"
+            columns: ["winner_id"]
+            isOneToOne: false
+            referencedRelation: "ab_test_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_costs: {
         Row: {
           cost_usd: number | null
@@ -418,6 +590,62 @@ export type Database = {
         }
         Relationships: []
       }
+      budget_reservations: {
+        Row: {
+          actual_cost_usd: number | null
+          created_at: string
+          engine_name: string
+          estimated_cost_usd: number
+          expires_at: string
+          id: string
+          operation_type: string
+          pricing_version: string | null
+          project_id: string | null
+          settled_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actual_cost_usd?: number | null
+          created_at?: string
+          engine_name: string
+          estimated_cost_usd: number
+          expires_at?: string
+          id?: string
+          operation_type: string
+          pricing_version?: string | null
+          project_id?: string | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actual_cost_usd?: number | null
+          created_at?: string
+          engine_name?: string
+          estimated_cost_usd?: number
+          expires_at?: string
+          id?: string
+          operation_type?: string
+          pricing_version?: string | null
+          project_id?: string | null
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_reservations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cleanup_history: {
         Row: {
           bytes_freed: number | null
@@ -463,6 +691,97 @@ export type Database = {
         }
         Relationships: []
       }
+      compliance_audits: {
+        Row: {
+          checked_at: string
+          created_at: string
+          decision: string
+          id: string
+          overall_risk: string
+          plan_id: string
+          platform: string
+          project_id: string | null
+          record: Json
+          user_id: string
+          variation_id: string
+        }
+        Insert: {
+          checked_at?: string
+          created_at?: string
+          decision: string
+          id?: string
+          overall_risk: string
+          plan_id: string
+          platform: string
+          project_id?: string | null
+          record: Json
+          user_id: string
+          variation_id: string
+        }
+        Update: {
+          checked_at?: string
+          created_at?: string
+          decision?: string
+          id?: string
+          overall_risk?: string
+          plan_id?: string
+          platform?: string
+          project_id?: string | null
+          record?: Json
+          user_id?: string
+          variation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_audits_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_budgets: {
+        Row: {
+          created_at: string
+          hard_limit_usd: number | null
+          id: string
+          project_id: string | null
+          scope: string
+          soft_limit_usd: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hard_limit_usd?: number | null
+          id?: string
+          project_id?: string | null
+          scope: string
+          soft_limit_usd?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hard_limit_usd?: number | null
+          id?: string
+          project_id?: string | null
+          scope?: string
+          soft_limit_usd?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_budgets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cost_transactions: {
         Row: {
           cost_usd: number
@@ -473,6 +792,7 @@ export type Database = {
           metadata: Json | null
           operation_type: string
           pipeline_stage: string
+          pricing_version: string | null
           project_id: string | null
           tokens_used: number | null
           user_id: string | null
@@ -486,6 +806,7 @@ export type Database = {
           metadata?: Json | null
           operation_type: string
           pipeline_stage: string
+          pricing_version?: string | null
           project_id?: string | null
           tokens_used?: number | null
           user_id?: string | null
@@ -499,6 +820,7 @@ export type Database = {
           metadata?: Json | null
           operation_type?: string
           pipeline_stage?: string
+          pricing_version?: string | null
           project_id?: string | null
           tokens_used?: number | null
           user_id?: string | null
@@ -783,6 +1105,94 @@ export type Database = {
           },
         ]
       }
+      landing_page_leads: {
+        Row: {
+          city: string | null
+          client_ip_hash: string | null
+          country: string
+          created_at: string
+          currency: string | null
+          duplicate_of: string | null
+          id: string
+          landing_page_id: string
+          name: string
+          offer_id: string | null
+          page_url: string | null
+          phone: string
+          project_id: string | null
+          quantity: number
+          status: string
+          total_price: number | null
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          city?: string | null
+          client_ip_hash?: string | null
+          country: string
+          created_at?: string
+          currency?: string | null
+          duplicate_of?: string | null
+          id?: string
+          landing_page_id: string
+          name: string
+          offer_id?: string | null
+          page_url?: string | null
+          phone: string
+          project_id?: string | null
+          quantity?: number
+          status?: string
+          total_price?: number | null
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          city?: string | null
+          client_ip_hash?: string | null
+          country?: string
+          created_at?: string
+          currency?: string | null
+          duplicate_of?: string | null
+          id?: string
+          landing_page_id?: string
+          name?: string
+          offer_id?: string | null
+          page_url?: string | null
+          phone?: string
+          project_id?: string | null
+          quantity?: number
+          status?: string
+          total_price?: number | null
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "landing_page_leads_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "landing_page_leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "landing_page_leads_landing_page_id_fkey"
+            columns: ["landing_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "landing_page_leads_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       landing_pages: {
         Row: {
           created_at: string | null
@@ -795,6 +1205,7 @@ export type Database = {
           id: string
           language: string | null
           market: string | null
+          order_form: Json | null
           project_id: string | null
           social_proof: Json | null
           status: string | null
@@ -813,6 +1224,7 @@ export type Database = {
           id?: string
           language?: string | null
           market?: string | null
+          order_form?: Json | null
           project_id?: string | null
           social_proof?: Json | null
           status?: string | null
@@ -831,6 +1243,7 @@ export type Database = {
           id?: string
           language?: string | null
           market?: string | null
+          order_form?: Json | null
           project_id?: string | null
           social_proof?: Json | null
           status?: string | null
@@ -1583,6 +1996,57 @@ export type Database = {
           },
         ]
       }
+      ugc_batch_variants: {
+        Row: {
+          batch_id: string
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          output_url: string | null
+          plan: Json | null
+          render_job_id: string | null
+          spec: Json
+          status: string
+          updated_at: string
+          user_id: string
+          variant_id: string
+          variant_number: number
+        }
+        Insert: {
+          batch_id: string
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          output_url?: string | null
+          plan?: Json | null
+          render_job_id?: string | null
+          spec: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+          variant_id: string
+          variant_number: number
+        }
+        Update: {
+          batch_id?: string
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          output_url?: string | null
+          plan?: Json | null
+          render_job_id?: string | null
+          spec?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+          variant_id?: string
+          variant_number?: number
+        }
+        Relationships: []
+      }
       uploads: {
         Row: {
           created_at: string | null
@@ -1824,6 +2288,19 @@ export type Database = {
           version: number
         }[]
       }
+      get_budget_status: {
+        Args: { p_project_id?: string }
+        Returns: {
+          budget_id: string
+          hard_limit_usd: number
+          period_start: string
+          project_id: string
+          reserved_usd: number
+          scope: string
+          soft_limit_usd: number
+          spent_usd: number
+        }[]
+      }
       get_my_api_key_providers: {
         Args: never
         Returns: {
@@ -1838,6 +2315,33 @@ export type Database = {
         Args: { p_provider: string; p_user_id: string }
         Returns: string
       }
+      release_budget_reservation: {
+        Args: { p_reservation_id: string }
+        Returns: boolean
+      }
+      replace_ad_performance_events: {
+        Args: { p_events: Json }
+        Returns: number
+      }
+      reserve_budget: {
+        Args: {
+          p_engine_name: string
+          p_estimated_cost: number
+          p_operation_type: string
+          p_pricing_version?: string
+          p_project_id?: string
+        }
+        Returns: Json
+      }
+      settle_budget_reservation: {
+        Args: {
+          p_actual_cost?: number
+          p_metadata?: Json
+          p_pipeline_stage?: string
+          p_reservation_id: string
+        }
+        Returns: boolean
+      }
       toggle_api_key_active: {
         Args: { p_is_active: boolean; p_provider: string }
         Returns: boolean
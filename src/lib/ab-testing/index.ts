@@ -0,0 +1,6 @@
+// A/B Testing
+// Persistence, metric ingestion and the statistics engine
+
+export * from './types';
+export * from './statistics';
+export * from './service';
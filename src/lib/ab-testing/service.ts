@@ -0,0 +1,231 @@
+/**
+ * A/B Testing Service
+ * Persistence for tests, variants and metrics, plus automatic winner
+ * declaration after every metric ingestion.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { evaluateTest } from './statistics';
+import type {
+  ABTest,
+  ABTestStatus,
+  ABVariant,
+  MetricIngestRow,
+  PrimaryMetric,
+  StoppingRule,
+  TestDecision,
+  VariantMetrics,
+} from './types';
+import { DEFAULT_STOPPING_RULE } from './types';
+
+type TestRow = Tables<'ab_tests'> & {
+  ab_test_variants: Tables<'ab_test_variants'>[];
+  ab_test_metrics: Tables<'ab_test_metrics'>[];
+};
+
+const TEST_SELECT = '*, ab_test_variants!ab_test_variants_test_id_fkey(*), ab_test_metrics(*)';
+
+const EMPTY_METRICS: VariantMetrics = { impressions: 0, clicks: 0, conversions: 0, spend: 0 };
+
+// ============================================
+// MAPPING
+// ============================================
+
+function toTest(row: TestRow): ABTest {
+  const totals = new Map<string, VariantMetrics>();
+  for (const metric of row.ab_test_metrics || []) {
+    const current = totals.get(metric.variant_id) || { ...EMPTY_METRICS };
+    totals.set(metric.variant_id, {
+      impressions: current.impressions + metric.impressions,
+      clicks: current.clicks + metric.clicks,
+      conversions: current.conversions + metric.conversions,
+      spend: current.spend + Number(metric.spend),
+    });
+  }
+
+  const variants: ABVariant[] = (row.ab_test_variants || [])
+    .sort((a, b) => Number(b.is_control) - Number(a.is_control) || a.created_at.localeCompare(b.created_at))
+    .map(variant => ({
+      id: variant.id,
+      test_id: variant.test_id,
+      variation_id: variant.variation_id,
+      name: variant.name,
+      video_url: variant.video_url,
+      is_control: variant.is_control,
+      metrics: totals.get(variant.id) || { ...EMPTY_METRICS },
+    }));
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    project_id: row.project_id,
+    name: row.name,
+    status: row.status as ABTestStatus,
+    primary_metric: row.primary_metric as PrimaryMetric,
+    stopping_rule: { ...DEFAULT_STOPPING_RULE, ...(row.stopping_rule as Partial<StoppingRule>) },
+    control_variant_id: row.control_variant_id,
+    winner_id: row.winner_id,
+    decision: row.decision as unknown as TestDecision | null,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    created_at: row.created_at,
+    variants,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+export async function listTests(userId: string): Promise<ABTest[]> {
+  const { data, error } = await supabase
+    .from('ab_tests')
+    .select(TEST_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load A/B tests: ${error.message}`);
+  return (data as unknown as TestRow[]).map(toTest);
+}
+
+export async function getTest(testId: string): Promise<ABTest | null> {
+  const { data, error } = await supabase
+    .from('ab_tests')
+    .select(TEST_SELECT)
+    .eq('id', testId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load A/B test: ${error.message}`);
+  return data ? toTest(data as unknown as TestRow) : null;
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+export interface CreateTestInput {
+  userId: string;
+  name: string;
+  projectId?: string | null;
+  primaryMetric?: PrimaryMetric;
+  stoppingRule?: Partial<StoppingRule>;
+  // The first variant is the control
+  variants: Array<{ name: string; variation_id?: string | null; video_url?: string | null }>;
+}
+
+export async function createTest(input: CreateTestInput): Promise<ABTest> {
+  if (input.variants.length < 2) {
+    throw new Error('An A/B test needs at least two variants');
+  }
+
+  const { data: test, error } = await supabase
+    .from('ab_tests')
+    .insert({
+      user_id: input.userId,
+      project_id: input.projectId || null,
+      name: input.name,
+      primary_metric: input.primaryMetric || 'ctr',
+      stopping_rule: (input.stoppingRule || {}) as Json,
+    })
+    .select()
+    .single();
+
+  if (error || !test) throw new Error(`Failed to create A/B test: ${error?.message}`);
+
+  const { data: variants, error: variantError } = await supabase
+    .from('ab_test_variants')
+    .insert(input.variants.map((variant, i) => ({
+      test_id: test.id,
+      name: variant.name,
+      variation_id: variant.variation_id || null,
+      video_url: variant.video_url || null,
+      is_control: i === 0,
+    })))
+    .select();
+
+  if (variantError || !variants) {
+    await supabase.from('ab_tests').delete().eq('id', test.id);
+    throw new Error(`Failed to create A/B test variants: ${variantError?.message}`);
+  }
+
+  const control = variants.find(v => v.is_control);
+  await supabase.from('ab_tests').update({ control_variant_id: control?.id ?? null }).eq('id', test.id);
+
+  const created = await getTest(test.id);
+  if (!created) throw new Error('A/B test disappeared after creation');
+  return created;
+}
+
+export async function setTestStatus(test: ABTest, status: ABTestStatus): Promise<void> {
+  const { error } = await supabase
+    .from('ab_tests')
+    .update({
+      status,
+      started_at: status === 'running' && !test.started_at ? new Date().toISOString() : test.started_at,
+    })
+    .eq('id', test.id);
+
+  if (error) throw new Error(`Failed to update A/B test: ${error.message}`);
+}
+
+/**
+ * Store metrics (one row per variant/day/source, re-imports replace the
+ * day) and re-evaluate the test.
+ */
+export async function ingestMetrics(testId: string, rows: MetricIngestRow[]): Promise<TestDecision | null> {
+  if (rows.length === 0) return null;
+
+  const { error } = await supabase
+    .from('ab_test_metrics')
+    .upsert(
+      rows.map(row => ({
+        test_id: testId,
+        variant_id: row.variant_id,
+        metric_date: row.metric_date,
+        source: row.source || 'manual',
+        impressions: Math.max(0, Math.round(row.impressions ?? 0)),
+        clicks: Math.max(0, Math.round(row.clicks ?? 0)),
+        conversions: Math.max(0, Math.round(row.conversions ?? 0)),
+        spend: Math.max(0, row.spend ?? 0),
+      })),
+      { onConflict: 'variant_id,metric_date,source' }
+    );
+
+  if (error) throw new Error(`Failed to store A/B test metrics: ${error.message}`);
+
+  return evaluateAndStore(testId);
+}
+
+/**
+ * Run the statistics engine on a running test and complete it when a
+ * stopping rule fires.
+ */
+export async function evaluateAndStore(testId: string): Promise<TestDecision | null> {
+  const test = await getTest(testId);
+  if (!test || test.status !== 'running' || !test.control_variant_id) return null;
+
+  const decision = evaluateTest({
+    variants: test.variants,
+    control_id: test.control_variant_id,
+    primary_metric: test.primary_metric,
+    stopping_rule: test.stopping_rule,
+    started_at: test.started_at,
+  });
+
+  const finished = decision.outcome !== 'continue';
+  const { error } = await supabase
+    .from('ab_tests')
+    .update({
+      decision: decision as unknown as Json,
+      ...(finished && {
+        status: 'completed',
+        winner_id: decision.winner_id,
+        completed_at: decision.evaluated_at,
+      }),
+    })
+    .eq('id', testId);
+
+  if (error) throw new Error(`Failed to store A/B test decision: ${error.message}`);
+  return decision;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateTest, normalCdf, normalQuantile, probabilityToBeat, sequentialBoundary } from './statistics';
+import type { ABVariant } from './types';
+
+describe('normal distribution', () => {
+  it('inverts the CDF at the usual critical values', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 3);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+    expect(normalQuantile(0)).toBe(-Infinity);
+    expect(normalQuantile(1)).toBe(Infinity);
+  });
+});
+
+describe('probabilityToBeat', () => {
+  it('is a coin flip for identical posteriors', () => {
+    expect(probabilityToBeat({ alpha: 11, beta: 91 }, { alpha: 11, beta: 91 })).toBeCloseTo(0.5, 10);
+    expect(probabilityToBeat({ alpha: 2001, beta: 18000 }, { alpha: 2001, beta: 18000 })).toBeCloseTo(0.5, 6);
+  });
+
+  it('is complementary in the exact range', () => {
+    const a = { alpha: 21, beta: 481 };
+    const b = { alpha: 41, beta: 461 };
+    expect(probabilityToBeat(a, b) + probabilityToBeat(b, a)).toBeCloseTo(1, 8);
+  });
+
+  it('agrees across the switch to the normal approximation', () => {
+    const control = { alpha: 1800, beta: 18000 };
+    const exact = probabilityToBeat(control, { alpha: 2000, beta: 18000 });
+    const approximate = probabilityToBeat(control, { alpha: 2001, beta: 17999 });
+    expect(Math.abs(exact - approximate)).toBeLessThan(0.01);
+  });
+});
+
+describe('sequentialBoundary', () => {
+  it('relaxes to the fixed-sample z at the planned size', () => {
+    expect(sequentialBoundary(0.05, 1, 1)).toBeCloseTo(1.96, 3);
+  });
+
+  it('is strict early in the test', () => {
+    expect(sequentialBoundary(0.05, 1, 0.25)).toBeCloseTo(2 * 1.96, 3);
+  });
+
+  it('splits alpha across challengers', () => {
+    expect(sequentialBoundary(0.05, 2, 1)).toBeCloseTo(normalQuantile(1 - 0.0125), 10);
+  });
+});
+
+describe('evaluateTest', () => {
+  const startedAt = '2025-12-01T00:00:00Z';
+  const weekLater = new Date('2025-12-08T00:00:00Z');
+
+  const variant = (id: string, impressions: number, clicks: number): ABVariant => ({
+    id,
+    test_id: 'test-1',
+    variation_id: null,
+    name: id,
+    video_url: null,
+    is_control: id === 'control',
+    metrics: { impressions, clicks, conversions: 0, spend: 0 },
+  });
+
+  // CTR test of one challenger against the control
+  const evaluate = (control: [number, number], challenger: [number, number], now = weekLater) =>
+    evaluateTest({
+      variants: [variant('control', ...control), variant('challenger', ...challenger)],
+      control_id: 'control',
+      primary_metric: 'ctr',
+      started_at: startedAt,
+      now,
+    });
+
+  it('waits for the minimum sample size', () => {
+    const decision = evaluate([500, 20], [500, 40]);
+    expect(decision.outcome).toBe('continue');
+    expect(decision.reason).toBe('Collecting data (500/1000 samples per variant)');
+  });
+
+  it('waits for the minimum duration', () => {
+    const decision = evaluate([20000, 800], [20000, 1000], new Date('2025-12-02T00:00:00Z'));
+    expect(decision.outcome).toBe('continue');
+    expect(decision.reason).toBe('Running at least 3 days');
+  });
+
+  it('does not stop early on probability alone', () => {
+    const decision = evaluate([5000, 200], [5000, 260]);
+    const challenger = decision.variants[1];
+    expect(challenger.prob_beat_control).toBeGreaterThan(0.95);
+    expect(challenger.z_score).toBeLessThan(decision.boundary_z!);
+    expect(decision.outcome).toBe('continue');
+  });
+
+  it('declares a winner once the boundary is crossed', () => {
+    const decision = evaluate([5000, 200], [5000, 300]);
+    expect(decision.outcome).toBe('winner');
+    expect(decision.winner_id).toBe('challenger');
+    expect(decision.information_fraction).toBe(0.25);
+  });
+
+  it('declares the control when it beats every challenger', () => {
+    const decision = evaluate([20000, 1000], [20000, 800]);
+    expect(decision.outcome).toBe('winner');
+    expect(decision.winner_id).toBe('control');
+  });
+
+  it('stops without a winner at the planned sample size', () => {
+    const decision = evaluate([20000, 800], [20000, 810]);
+    expect(decision.outcome).toBe('no_difference');
+    expect(decision.winner_id).toBeNull();
+  });
+
+  it('stops at the maximum duration', () => {
+    const decision = evaluate([500, 20], [500, 40], new Date('2026-01-05T00:00:00Z'));
+    expect(decision.outcome).toBe('max_duration');
+  });
+
+  it('needs a control and a challenger', () => {
+    const decision = evaluateTest({
+      variants: [variant('control', 20000, 800)],
+      control_id: 'control',
+      primary_metric: 'ctr',
+      started_at: startedAt,
+      now: weekLater,
+    });
+    expect(decision.outcome).toBe('continue');
+  });
+});
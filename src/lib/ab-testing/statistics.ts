@@ -0,0 +1,289 @@
+/**
+ * A/B Testing Statistics Engine
+ *
+ * Bayesian Beta-Binomial posteriors (uniform prior) give each variant's
+ * probability to beat the control. Decisions are sequential: results are
+ * looked at after every ingestion, so a winner also has to cross an
+ * O'Brien-Fleming boundary that is strict early and relaxes to the fixed
+ * sample z-value once the planned sample size is reached.
+ * Pure and deterministic - no I/O, no sampling.
+ */
+
+import type {
+  ABVariant,
+  PrimaryMetric,
+  StoppingRule,
+  TestDecision,
+  VariantStats,
+} from './types';
+import { DEFAULT_STOPPING_RULE } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Above this many successes the exact sum gets slow; the normal
+// approximation of the Beta posterior is indistinguishable there
+const EXACT_SUM_LIMIT = 2000;
+
+// ============================================
+// DISTRIBUTIONS
+// ============================================
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function lnGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => { sum += c / (z + i + 1); });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function lnBeta(a: number, b: number): number {
+  return lnGamma(a) + lnGamma(b) - lnGamma(a + b);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+function posterior(successes: number, samples: number): BetaPosterior {
+  return { alpha: successes + 1, beta: Math.max(0, samples - successes) + 1 };
+}
+
+function betaMoments({ alpha, beta }: BetaPosterior): { mean: number; variance: number } {
+  const total = alpha + beta;
+  return {
+    mean: alpha / total,
+    variance: (alpha * beta) / (total * total * (total + 1)),
+  };
+}
+
+/**
+ * P(rate_b > rate_a) for two Beta posteriors.
+ * Exact closed form for integer alpha_b, normal approximation for large counts.
+ */
+export function probabilityToBeat(a: BetaPosterior, b: BetaPosterior): number {
+  if (b.alpha > EXACT_SUM_LIMIT) {
+    const ma = betaMoments(a);
+    const mb = betaMoments(b);
+    return normalCdf((mb.mean - ma.mean) / Math.sqrt(ma.variance + mb.variance));
+  }
+
+  let total = 0;
+  for (let i = 0; i < b.alpha; i++) {
+    total += Math.exp(
+      lnBeta(a.alpha + i, a.beta + b.beta) -
+      Math.log(b.beta + i) -
+      lnBeta(1 + i, b.beta) -
+      lnBeta(a.alpha, a.beta)
+    );
+  }
+  return Math.min(1, Math.max(0, total));
+}
+
+// ============================================
+// VARIANT STATISTICS
+// ============================================
+
+function trialsFor(variant: ABVariant, metric: PrimaryMetric): { samples: number; successes: number } {
+  const { impressions, clicks, conversions } = variant.metrics;
+  return metric === 'ctr'
+    ? { samples: impressions, successes: Math.min(clicks, impressions) }
+    : { samples: clicks, successes: Math.min(conversions, clicks) };
+}
+
+/**
+ * Pooled two-proportion z-score of a variant against the control
+ */
+function twoProportionZ(
+  control: { samples: number; successes: number },
+  variant: { samples: number; successes: number }
+): number | null {
+  if (control.samples === 0 || variant.samples === 0) return null;
+  const pooled = (control.successes + variant.successes) / (control.samples + variant.samples);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / control.samples + 1 / variant.samples));
+  if (se === 0) return 0;
+  return (variant.successes / variant.samples - control.successes / control.samples) / se;
+}
+
+export function computeVariantStats(
+  variants: ABVariant[],
+  controlId: string,
+  metric: PrimaryMetric
+): VariantStats[] {
+  const control = variants.find(v => v.id === controlId);
+  const controlTrials = control ? trialsFor(control, metric) : null;
+  const controlPosterior = controlTrials ? posterior(controlTrials.successes, controlTrials.samples) : null;
+  const controlRate = controlTrials && controlTrials.samples > 0
+    ? controlTrials.successes / controlTrials.samples
+    : 0;
+
+  return variants.map(variant => {
+    const { impressions, clicks, conversions, spend } = variant.metrics;
+    const trials = trialsFor(variant, metric);
+    const post = posterior(trials.successes, trials.samples);
+    const { mean, variance } = betaMoments(post);
+    const halfWidth = 1.96 * Math.sqrt(variance);
+    const rate = trials.samples > 0 ? trials.successes / trials.samples : 0;
+    const isControl = variant.id === controlId;
+
+    return {
+      variant_id: variant.id,
+      samples: trials.samples,
+      successes: trials.successes,
+      rate,
+      credible_interval: [Math.max(0, mean - halfWidth), Math.min(1, mean + halfWidth)],
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      cvr: clicks > 0 ? conversions / clicks : 0,
+      cpa: conversions > 0 ? spend / conversions : null,
+      prob_beat_control: isControl || !controlPosterior ? null : probabilityToBeat(controlPosterior, post),
+      z_score: isControl || !controlTrials ? null : twoProportionZ(controlTrials, trials),
+      lift: isControl || controlRate === 0 ? null : (rate - controlRate) / controlRate,
+    };
+  });
+}
+
+// ============================================
+// SEQUENTIAL DECISION
+// ============================================
+
+/**
+ * O'Brien-Fleming boundary at information fraction t, with the overall
+ * alpha split across the challengers (Bonferroni).
+ */
+export function sequentialBoundary(alpha: number, challengers: number, informationFraction: number): number {
+  const perComparison = alpha / Math.max(1, challengers);
+  return normalQuantile(1 - perComparison / 2) / Math.sqrt(Math.max(informationFraction, 1e-6));
+}
+
+export interface EvaluateTestInput {
+  variants: ABVariant[];
+  control_id: string;
+  primary_metric: PrimaryMetric;
+  stopping_rule?: Partial<StoppingRule>;
+  started_at: string | null;
+  now?: Date;
+}
+
+/**
+ * Evaluate a running test at the current look
+ */
+export function evaluateTest(input: EvaluateTestInput): TestDecision {
+  const rule: StoppingRule = { ...DEFAULT_STOPPING_RULE, ...input.stopping_rule };
+  const now = input.now ?? new Date();
+  const stats = computeVariantStats(input.variants, input.control_id, input.primary_metric);
+  const challengers = stats.filter(s => s.variant_id !== input.control_id);
+
+  const decide = (
+    outcome: TestDecision['outcome'],
+    reason: string,
+    winnerId: string | null = null,
+    informationFraction = 0,
+    boundary: number | null = null
+  ): TestDecision => ({
+    outcome,
+    winner_id: winnerId,
+    reason,
+    information_fraction: informationFraction,
+    boundary_z: boundary,
+    evaluated_at: now.toISOString(),
+    variants: stats,
+  });
+
+  if (challengers.length === 0 || challengers.length === stats.length) {
+    return decide('continue', 'A test needs one control and at least one challenger');
+  }
+
+  const minSamples = Math.min(...stats.map(s => s.samples));
+  const informationFraction = Math.min(1, minSamples / rule.planned_samples_per_variant);
+  const elapsedDays = input.started_at
+    ? (now.getTime() - new Date(input.started_at).getTime()) / DAY_MS
+    : 0;
+
+  if (minSamples < rule.min_samples_per_variant) {
+    if (elapsedDays >= rule.max_duration_days) {
+      return decide('max_duration', `Stopped after ${rule.max_duration_days} days without enough data`, null, informationFraction);
+    }
+    return decide('continue', `Collecting data (${minSamples}/${rule.min_samples_per_variant} samples per variant)`, null, informationFraction);
+  }
+
+  if (elapsedDays < rule.min_duration_days) {
+    return decide('continue', `Running at least ${rule.min_duration_days} days`, null, informationFraction);
+  }
+
+  const boundary = sequentialBoundary(rule.alpha, challengers.length, informationFraction);
+  const ranked = [...challengers].sort((a, b) => (b.prob_beat_control ?? 0) - (a.prob_beat_control ?? 0));
+  const best = ranked[0];
+
+  if ((best.prob_beat_control ?? 0) >= rule.probability_threshold && (best.z_score ?? 0) >= boundary) {
+    return decide(
+      'winner',
+      `${(100 * (best.prob_beat_control ?? 0)).toFixed(1)}% probability to beat control`,
+      best.variant_id,
+      informationFraction,
+      boundary
+    );
+  }
+
+  const controlWins = challengers.every(s =>
+    (s.prob_beat_control ?? 1) <= 1 - rule.probability_threshold && (s.z_score ?? 0) <= -boundary
+  );
+  if (controlWins) {
+    return decide('winner', 'Control beats every challenger', input.control_id, informationFraction, boundary);
+  }
+
+  if (informationFraction >= 1) {
+    return decide('no_difference', 'Planned sample size reached without a significant difference', null, informationFraction, boundary);
+  }
+
+  if (elapsedDays >= rule.max_duration_days) {
+    return decide('max_duration', `Stopped after ${rule.max_duration_days} days without a significant difference`, null, informationFraction, boundary);
+  }
+
+  return decide('continue', 'No variant has crossed the stopping boundary yet', null, informationFraction, boundary);
+}
@@ -0,0 +1,116 @@
+/**
+ * A/B Testing Types
+ *
+ * Tests compare video_variations on live ad metrics. The statistics engine
+ * turns aggregated metrics into a TestDecision and, once a stopping rule
+ * fires, the test is completed with a winner_id.
+ */
+
+// ============================================
+// TEST & VARIANTS
+// ============================================
+
+export type ABTestStatus = 'draft' | 'running' | 'paused' | 'completed';
+
+// ctr = clicks / impressions, cvr = conversions / clicks
+export type PrimaryMetric = 'ctr' | 'cvr';
+
+export interface VariantMetrics {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+}
+
+export interface ABVariant {
+  id: string;
+  test_id: string;
+  variation_id: string | null;
+  name: string;
+  video_url: string | null;
+  is_control: boolean;
+  metrics: VariantMetrics;
+}
+
+export interface ABTest {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  name: string;
+  status: ABTestStatus;
+  primary_metric: PrimaryMetric;
+  stopping_rule: StoppingRule;
+  control_variant_id: string | null;
+  winner_id: string | null;
+  decision: TestDecision | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  variants: ABVariant[];
+}
+
+// ============================================
+// METRIC INGESTION
+// ============================================
+
+export interface MetricIngestRow extends Partial<VariantMetrics> {
+  variant_id: string;
+  metric_date?: string; // YYYY-MM-DD, defaults to today
+  source?: string;      // 'manual', 'meta', 'tiktok', ...
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Samples are trials of the primary metric: impressions for CTR,
+ * clicks for CVR.
+ */
+export interface StoppingRule {
+  probability_threshold: number;       // P(beat control) needed to declare a winner
+  alpha: number;                       // Overall false-positive rate
+  min_samples_per_variant: number;     // No decision before every variant has this many
+  planned_samples_per_variant: number; // Sample size the test was planned for
+  min_duration_days: number;           // Cover at least one weekly cycle
+  max_duration_days: number;
+}
+
+export interface VariantStats {
+  variant_id: string;
+  samples: number;
+  successes: number;
+  rate: number;
+  credible_interval: [number, number]; // 95%
+  ctr: number;
+  cvr: number;
+  cpa: number | null;
+  prob_beat_control: number | null;   // null for the control itself
+  z_score: number | null;
+  lift: number | null;                 // Relative to control rate
+}
+
+export type DecisionOutcome = 'continue' | 'winner' | 'no_difference' | 'max_duration';
+
+export interface TestDecision {
+  outcome: DecisionOutcome;
+  winner_id: string | null;
+  reason: string;
+  information_fraction: number; // 0-1 of planned samples reached
+  boundary_z: number | null;    // Sequential boundary at this look
+  evaluated_at: string;
+  variants: VariantStats[];
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_STOPPING_RULE: StoppingRule = {
+  probability_threshold: 0.95,
+  alpha: 0.05,
+  min_samples_per_variant: 1000,
+  planned_samples_per_variant: 20000,
+  min_duration_days: 3,
+  max_duration_days: 30,
+};
@@ -0,0 +1,118 @@
+/**
+ * Minimal RFC 4180 CSV reader for ad platform exports
+ * Handles quoted fields, escaped quotes, CRLF, a UTF-8 BOM and
+ * comma / semicolon / tab delimiters (localized Excel exports).
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+function detectDelimiter(headerLine: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text into rows of raw string cells
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLineEnd = input.search(/\r?\n/);
+  const delimiter = detectDelimiter(firstLineEnd === -1 ? input : input.slice(0, firstLineEnd));
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Parse a localized number cell: currency symbols, thousands separators,
+ * percent signs and placeholder dashes are all common in exports.
+ */
+export function parseNumber(value: string | undefined): number {
+  if (!value) return 0;
+  let cleaned = value.trim().replace(/[^\d.,-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '--') return 0;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // "1.234,56" or "12,5" - comma is the decimal separator unless it
+    // groups exactly three digits with no dot present ("1,234")
+    const decimals = cleaned.length - lastComma - 1;
+    cleaned = lastDot === -1 && decimals === 3
+      ? cleaned.replace(/,/g, '')
+      : cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Normalize a date cell to YYYY-MM-DD. Accepts ISO dates (with or without
+ * time) and slash dates, which platforms export as MM/DD/YYYY.
+ */
+export function parseDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const slash = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (slash) {
+    const [, month, day, year] = slash;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Ad Performance Importer
+ * CSV export → matched video_variations → analytics_events
+ *
+ * Re-importing an overlapping export replaces the earlier events for the
+ * same ad and reporting window instead of double counting.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { parseCsv } from './csv';
+import { normalizeExport } from './platforms';
+import { matchVariation, slugify } from './matcher';
+import {
+  type AdImportResult,
+  type AdPerformanceEventData,
+  type AdPerformanceRow,
+  type AdPlatform,
+  type ImportIssue,
+  type VariationCandidate,
+} from './types';
+
+// Events per replace_ad_performance_events call (one transaction each)
+const REPLACE_BATCH_SIZE = 500;
+
+export interface ImportAdPerformanceOptions {
+  csvText: string;
+  userId: string;
+  projectId?: string | null; // Limit matching to one project
+  platform?: AdPlatform;     // Skip header-based detection
+}
+
+async function loadCandidates(userId: string, projectId?: string | null): Promise<VariationCandidate[]> {
+  let query = supabase
+    .from('video_variations')
+    .select('id, variation_number, project_id, projects(name)')
+    .eq('user_id', userId);
+  if (projectId) query = query.eq('project_id', projectId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load variations: ${error.message}`);
+
+  return (data || []).map(v => ({
+    id: v.id,
+    variation_number: v.variation_number,
+    project_id: v.project_id,
+    project_name: v.projects?.name ?? null,
+  }));
+}
+
+function dedupeKey(row: AdPerformanceRow): string {
+  return [row.platform, row.ad_id || slugify(row.ad_name), row.date_start || '', row.date_end || ''].join(':');
+}
+
+/**
+ * Exports broken down by placement/age/etc. have several rows per ad and
+ * day: sum them into one event.
+ */
+function mergeRows(events: AdPerformanceEventData[]): AdPerformanceEventData[] {
+  const merged = new Map<string, AdPerformanceEventData>();
+  for (const event of events) {
+    const existing = merged.get(event.dedupe_key);
+    if (!existing) {
+      merged.set(event.dedupe_key, { ...event });
+      continue;
+    }
+    existing.impressions += event.impressions;
+    existing.clicks += event.clicks;
+    existing.conversions += event.conversions;
+    existing.spend += event.spend;
+    existing.video_views += event.video_views;
+  }
+
+  return [...merged.values()].map(event => ({
+    ...event,
+    spend: Math.round(event.spend * 100) / 100,
+    ctr: event.impressions > 0 ? event.clicks / event.impressions : 0,
+    cvr: event.clicks > 0 ? event.conversions / event.clicks : 0,
+  }));
+}
+
+export async function importAdPerformance(options: ImportAdPerformanceOptions): Promise<AdImportResult> {
+  const { platform, rows, skipped } = normalizeExport(parseCsv(options.csvText), options.platform);
+  const candidates = await loadCandidates(options.userId, options.projectId);
+  const importId = crypto.randomUUID();
+
+  const unmatched: ImportIssue[] = [];
+  const projectByVariation = new Map<string, string | null>();
+  const events: AdPerformanceEventData[] = [];
+
+  for (const row of rows) {
+    const match = matchVariation(row, candidates, options.projectId);
+    if ('error' in match) {
+      unmatched.push({ line: row.line, ad_name: row.ad_name, reason: match.error });
+      continue;
+    }
+
+    projectByVariation.set(match.variation_id, match.project_id);
+    events.push({
+      dedupe_key: dedupeKey(row),
+      import_id: importId,
+      platform,
+      variation_id: match.variation_id,
+      match_method: match.method,
+      ad_id: row.ad_id,
+      ad_name: row.ad_name,
+      campaign_name: row.campaign_name,
+      date_start: row.date_start,
+      date_end: row.date_end,
+      currency: row.currency,
+      impressions: row.impressions,
+      clicks: row.clicks,
+      conversions: row.conversions,
+      spend: row.spend,
+      video_views: row.video_views,
+      ctr: 0,
+      cvr: 0,
+    });
+  }
+
+  const merged = mergeRows(events);
+
+  // Each batch replaces the earlier events for its keys and inserts the new
+  // ones atomically; keys are unique after merging, so batches never overlap
+  const replacements = merged.map(event => ({
+    project_id: projectByVariation.get(event.variation_id) ?? null,
+    event_data: event,
+  }));
+
+  for (let i = 0; i < replacements.length; i += REPLACE_BATCH_SIZE) {
+    const { error } = await supabase.rpc('replace_ad_performance_events', {
+      p_events: replacements.slice(i, i + REPLACE_BATCH_SIZE) as unknown as Json,
+    });
+    if (error) throw new Error(`Failed to write performance events: ${error.message}`);
+  }
+
+  console.log(`[AdImport] ${platform}: ${rows.length} rows, ${events.length} matched, ${merged.length} events`);
+
+  return {
+    import_id: importId,
+    platform,
+    rows_parsed: rows.length,
+    rows_matched: events.length,
+    events_written: merged.length,
+    unmatched,
+    skipped,
+  };
+}
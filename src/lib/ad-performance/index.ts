@@ -0,0 +1,9 @@
+// Ad Performance Import
+// Platform CSV exports → analytics_events → Brain V2 historical context and bandit arm results
+
+export * from './types';
+export { parseCsv, parseNumber, parseDate } from './csv';
+export { detectPlatform, normalizeExport } from './platforms';
+export { buildAdName, matchVariation } from './matcher';
+export { importAdPerformance, type ImportAdPerformanceOptions } from './importer';
+export { loadArmObservations, loadHistoricalContext, type LoadOutcomesOptions } from './outcomes';
@@ -0,0 +1,90 @@
+/**
+ * Ad → Variation Matching
+ *
+ * Naming convention for ads uploaded to the platforms:
+ *   FS_<project-slug>_V<variation_number>_<first 8 chars of variation id>
+ * e.g. FS_summer-sale_V3_9f1c2ab0
+ *
+ * Matching order:
+ * 1. Embedded variation id (full UUID, or the 8-char short id)
+ * 2. Naming convention: V<number> plus the project name (the project can be
+ *    omitted when the import is scoped to one project)
+ */
+
+import type { AdPerformanceRow, VariationCandidate, VariationMatch } from './types';
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const SHORT_ID_PATTERN = /(?:^|[_\-\s|])([0-9a-f]{8})(?=$|[_\-\s|])/gi;
+const VARIATION_NUMBER_PATTERN = /(?:^|[_\-\s|])v(?:ar(?:iation)?)?[\s#_-]?(\d{1,3})(?=$|[_\-\s|])/i;
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Ad name following the naming convention, for use when uploading
+ */
+export function buildAdName(projectName: string, variationNumber: number, variationId: string): string {
+  return `FS_${slugify(projectName) || 'project'}_V${variationNumber}_${variationId.slice(0, 8)}`;
+}
+
+function matchEmbeddedId(text: string, candidates: VariationCandidate[]): VariationCandidate | null {
+  for (const uuid of text.match(UUID_PATTERN) || []) {
+    const found = candidates.find(c => c.id.toLowerCase() === uuid.toLowerCase());
+    if (found) return found;
+  }
+
+  for (const match of text.matchAll(SHORT_ID_PATTERN)) {
+    const prefix = match[1].toLowerCase();
+    const found = candidates.filter(c => c.id.toLowerCase().startsWith(prefix));
+    if (found.length === 1) return found[0];
+  }
+
+  return null;
+}
+
+function matchNamingConvention(
+  adName: string,
+  candidates: VariationCandidate[],
+  scopedProjectId?: string | null
+): VariationCandidate[] {
+  const number = adName.match(VARIATION_NUMBER_PATTERN)?.[1];
+  if (!number) return [];
+
+  const withNumber = candidates.filter(c => c.variation_number === Number(number));
+  if (scopedProjectId) {
+    return withNumber.filter(c => c.project_id === scopedProjectId);
+  }
+
+  const adSlug = slugify(adName);
+  return withNumber.filter(c => c.project_name && adSlug.includes(slugify(c.project_name)));
+}
+
+/**
+ * Match one export row to a variation, or explain why it could not be matched
+ */
+export function matchVariation(
+  row: AdPerformanceRow,
+  candidates: VariationCandidate[],
+  scopedProjectId?: string | null
+): VariationMatch | { error: string } {
+  const embedded = matchEmbeddedId([row.ad_name, row.ad_id, row.campaign_name].filter(Boolean).join(' '), candidates);
+  if (embedded) {
+    return { variation_id: embedded.id, project_id: embedded.project_id, method: 'embedded_id' };
+  }
+
+  const byName = matchNamingConvention(row.ad_name, candidates, scopedProjectId);
+  if (byName.length === 1) {
+    return { variation_id: byName[0].id, project_id: byName[0].project_id, method: 'naming_convention' };
+  }
+  if (byName.length > 1) {
+    return { error: `Ambiguous: ${byName.length} variations match "${row.ad_name}"` };
+  }
+
+  return { error: 'No variation id or V<number> + project name in ad name' };
+}
@@ -0,0 +1,173 @@
+/**
+ * Imported ad performance → Brain V2 HistoricalContext and bandit arm results
+ * One StrategyOutcome per variation that ran, newest first.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ArmObservation } from '@/lib/bandit';
+import type { FrameworkType, HistoricalContext, StrategyOutcome } from '@/lib/creative-scale/brain-v2-types';
+import { AD_PERFORMANCE_EVENT, type AdPerformanceEventData, type ArmObservations } from './types';
+
+const FRAMEWORK_TYPES: FrameworkType[] = ['AIDA', 'PAS', 'BAB', '4Ps', 'HOOK_BENEFIT_CTA'];
+
+interface VariationConfig {
+  framework?: string;
+  hookStyle?: string;
+  market?: string;
+}
+
+export interface LoadOutcomesOptions {
+  projectId?: string | null;
+  limit?: number; // Most recent events considered
+}
+
+// Summed performance of one variation across its imported rows
+interface VariationResult {
+  variation_id: string;
+  config: VariationConfig;
+  platform: string;
+  market?: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  recorded_at?: string;
+}
+
+async function loadVariationResults(
+  userId: string,
+  options: LoadOutcomesOptions
+): Promise<VariationResult[]> {
+  let query = supabase
+    .from('analytics_events')
+    .select('event_data, created_at')
+    .eq('user_id', userId)
+    .eq('event_type', AD_PERFORMANCE_EVENT)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 5000);
+  if (options.projectId) query = query.eq('project_id', options.projectId);
+
+  const { data: events, error } = await query;
+  if (error) throw new Error(`Failed to load ad performance: ${error.message}`);
+
+  const byVariation = new Map<string, AdPerformanceEventData[]>();
+  for (const event of events || []) {
+    const data = event.event_data as unknown as AdPerformanceEventData | null;
+    if (!data?.variation_id) continue;
+    const list = byVariation.get(data.variation_id) || [];
+    list.push(data);
+    byVariation.set(data.variation_id, list);
+  }
+  if (byVariation.size === 0) return [];
+
+  const { data: variations, error: variationError } = await supabase
+    .from('video_variations')
+    .select('id, variation_config, metadata')
+    .in('id', [...byVariation.keys()]);
+  if (variationError) throw new Error(`Failed to load variations: ${variationError.message}`);
+
+  return (variations || []).map(variation => {
+    const config = (variation.variation_config || {}) as VariationConfig;
+    const rows = byVariation.get(variation.id) || [];
+    const totals = rows.reduce(
+      (sum, row) => ({
+        impressions: sum.impressions + row.impressions,
+        clicks: sum.clicks + row.clicks,
+        conversions: sum.conversions + row.conversions,
+        spend: sum.spend + row.spend,
+      }),
+      { impressions: 0, clicks: 0, conversions: 0, spend: 0 }
+    );
+    const metadata = (variation.metadata || {}) as { audience?: { market?: string } };
+    const recordedAt = rows
+      .map(row => row.date_end || row.date_start)
+      .filter((d): d is string => !!d)
+      .sort()
+      .pop();
+
+    return {
+      variation_id: variation.id,
+      config,
+      platform: rows[0].platform,
+      market: config.market || metadata.audience?.market,
+      ...totals,
+      recorded_at: recordedAt,
+    };
+  });
+}
+
+export async function loadHistoricalContext(
+  userId: string,
+  options: LoadOutcomesOptions = {}
+): Promise<HistoricalContext> {
+  const results = await loadVariationResults(userId, options);
+
+  const outcomes: StrategyOutcome[] = [];
+  for (const result of results) {
+    const framework = FRAMEWORK_TYPES.find(f => f === result.config.framework);
+    if (!framework) continue; // Not produced by a Brain V2 framework
+
+    const { impressions, clicks, conversions, spend } = result;
+    outcomes.push({
+      strategy_id: result.variation_id,
+      framework,
+      was_downloaded: true,
+      was_regenerated: false,
+      platform: result.platform,
+      market: result.market,
+      hook_style: result.config.hookStyle,
+      metrics: {
+        impressions,
+        clicks,
+        conversions,
+        spend,
+        ctr: impressions > 0 ? clicks / impressions : 0,
+        cvr: clicks > 0 ? conversions / clicks : 0,
+      },
+      recorded_at: result.recorded_at,
+    });
+  }
+
+  outcomes.sort((a, b) =>
+    (b.recorded_at || '').localeCompare(a.recorded_at || '') || a.strategy_id.localeCompare(b.strategy_id)
+  );
+
+  return { past_strategies: outcomes };
+}
+
+/**
+ * Framework and hook results for the batch allocators. The reward is the
+ * variation's CTR percentile among the variations that ran on the same
+ * platform (ties count half), so platforms with different baseline CTRs
+ * are comparable. Arm ids are the ones stored in variation_config.
+ */
+export async function loadArmObservations(
+  userId: string,
+  options: LoadOutcomesOptions = {}
+): Promise<ArmObservations> {
+  const results = (await loadVariationResults(userId, options)).filter(r => r.impressions > 0);
+
+  const ctrsByPlatform = new Map<string, number[]>();
+  for (const result of results) {
+    const list = ctrsByPlatform.get(result.platform) || [];
+    list.push(result.clicks / result.impressions);
+    ctrsByPlatform.set(result.platform, list);
+  }
+
+  const observations: ArmObservations = { frameworks: [], hooks: [] };
+  for (const result of results) {
+    const ctr = result.clicks / result.impressions;
+    const others = ctrsByPlatform.get(result.platform)!.length - 1;
+    const below = ctrsByPlatform.get(result.platform)!
+      .reduce((sum, other) => sum + (other < ctr ? 1 : other === ctr ? 0.5 : 0), -0.5); // Minus itself
+    const base: Omit<ArmObservation, 'arm'> = {
+      reward: others > 0 ? below / others : 0.5,
+      market: result.market,
+      platform: result.platform,
+    };
+    if (result.config.framework) observations.frameworks.push({ ...base, arm: result.config.framework });
+    if (result.config.hookStyle) observations.hooks.push({ ...base, arm: result.config.hookStyle });
+  }
+
+  return observations;
+}
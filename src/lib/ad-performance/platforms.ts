@@ -0,0 +1,182 @@
+/**
+ * Ad Platform Export Formats
+ * Column aliases for Meta Ads Manager, TikTok Ads Manager and Snapchat Ads
+ * Manager exports, and normalization into AdPerformanceRows.
+ */
+
+import { parseDate, parseNumber } from './csv';
+import type { AdPerformanceRow, AdPlatform } from './types';
+
+type Field =
+  | 'ad_id'
+  | 'ad_name'
+  | 'campaign_name'
+  | 'date_start'
+  | 'date_end'
+  | 'impressions'
+  | 'clicks'
+  | 'conversions'
+  | 'spend'
+  | 'video_views';
+
+/**
+ * Header aliases (lower-cased, currency suffix stripped), most specific first
+ */
+const PLATFORM_COLUMNS: Record<AdPlatform, Record<Field, string[]>> = {
+  meta: {
+    ad_id: ['ad id'],
+    ad_name: ['ad name'],
+    campaign_name: ['campaign name'],
+    date_start: ['day', 'reporting starts'],
+    date_end: ['day', 'reporting ends'],
+    impressions: ['impressions'],
+    clicks: ['link clicks', 'clicks (all)', 'clicks'],
+    conversions: ['purchases', 'website purchases', 'leads', 'results'],
+    spend: ['amount spent'],
+    video_views: ['thruplays', '3-second video plays'],
+  },
+  tiktok: {
+    ad_id: ['ad id'],
+    ad_name: ['ad name'],
+    campaign_name: ['campaign name'],
+    date_start: ['by day', 'date', 'stat time day'],
+    date_end: ['by day', 'date', 'stat time day'],
+    impressions: ['impressions', 'impression'],
+    clicks: ['clicks (destination)', 'clicks', 'click'],
+    conversions: ['conversions', 'complete payment', 'result'],
+    spend: ['cost', 'total cost', 'spend'],
+    video_views: ['video views', '2-second video views', 'video play actions'],
+  },
+  snapchat: {
+    ad_id: ['ad id'],
+    ad_name: ['ad name'],
+    campaign_name: ['campaign name'],
+    date_start: ['day', 'start time', 'start date'],
+    date_end: ['day', 'end time', 'end date'],
+    impressions: ['paid impressions', 'impressions'],
+    clicks: ['swipe ups', 'swipes', 'link clicks'],
+    conversions: ['purchases', 'conversion purchases', 'sign ups', 'conversions'],
+    spend: ['amount spent', 'spend'],
+    video_views: ['video views', 'paid video views'],
+  },
+};
+
+// Headers only one platform uses
+const PLATFORM_FINGERPRINTS: Record<AdPlatform, string[]> = {
+  meta: ['amount spent', 'reporting starts', 'thruplays', 'link clicks'],
+  tiktok: ['clicks (destination)', 'by day', 'stat time day', 'cost'],
+  snapchat: ['paid impressions', 'swipe ups', 'swipes'],
+};
+
+/**
+ * "Amount spent (USD)" → { name: "amount spent", currency: "USD" }
+ */
+function normalizeHeader(header: string): { name: string; currency: string | null } {
+  const trimmed = header.trim();
+  const currency = trimmed.match(/\(([A-Z]{3})\)\s*$/)?.[1] ?? null;
+  const name = (currency ? trimmed.replace(/\([A-Z]{3}\)\s*$/, '') : trimmed)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+  return { name, currency };
+}
+
+export function detectPlatform(headers: string[]): AdPlatform | null {
+  const names = headers.map(h => normalizeHeader(h).name);
+  let best: AdPlatform | null = null;
+  let bestScore = 0;
+  for (const platform of Object.keys(PLATFORM_FINGERPRINTS) as AdPlatform[]) {
+    const score = PLATFORM_FINGERPRINTS[platform].filter(f => names.includes(f)).length;
+    if (score > bestScore) {
+      best = platform;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map each field to a column index, using the first alias present
+ */
+function resolveColumns(headers: string[], platform: AdPlatform): Partial<Record<Field, number>> {
+  const names = headers.map(h => normalizeHeader(h).name);
+  const columns: Partial<Record<Field, number>> = {};
+  for (const [field, aliases] of Object.entries(PLATFORM_COLUMNS[platform]) as [Field, string[]][]) {
+    for (const alias of aliases) {
+      const index = names.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+export interface NormalizeResult {
+  platform: AdPlatform;
+  rows: AdPerformanceRow[];
+  skipped: Array<{ line: number; ad_name: string; reason: string }>;
+}
+
+/**
+ * Turn parsed CSV rows (header first) into AdPerformanceRows
+ */
+export function normalizeExport(table: string[][], platformHint?: AdPlatform): NormalizeResult {
+  if (table.length < 2) {
+    throw new Error('The export has no data rows');
+  }
+
+  const [headers, ...body] = table;
+  const platform = platformHint ?? detectPlatform(headers);
+  if (!platform) {
+    throw new Error('Unrecognized export format: expected a Meta, TikTok or Snapchat Ads Manager export');
+  }
+
+  const columns = resolveColumns(headers, platform);
+  if (columns.ad_name === undefined && columns.ad_id === undefined) {
+    throw new Error('The export needs an "Ad name" or "Ad ID" column to match variations');
+  }
+  if (columns.impressions === undefined) {
+    throw new Error('The export has no impressions column');
+  }
+
+  const currency = headers.map(h => normalizeHeader(h).currency).find(Boolean) ?? null;
+  const cell = (row: string[], field: Field) => {
+    const index = columns[field];
+    return index === undefined ? undefined : row[index]?.trim();
+  };
+
+  const rows: AdPerformanceRow[] = [];
+  const skipped: NormalizeResult['skipped'] = [];
+
+  body.forEach((row, i) => {
+    const line = i + 2;
+    const adName = cell(row, 'ad_name') || '';
+    const adId = cell(row, 'ad_id') || null;
+
+    // Summary lines ("Total", "Results from 12 ads") have no ad
+    if (!adId && (!adName || /^(total|results from)/i.test(adName))) {
+      skipped.push({ line, ad_name: adName, reason: 'Summary row' });
+      return;
+    }
+
+    rows.push({
+      platform,
+      line,
+      ad_id: adId,
+      ad_name: adName,
+      campaign_name: cell(row, 'campaign_name') || null,
+      date_start: parseDate(cell(row, 'date_start')),
+      date_end: parseDate(cell(row, 'date_end')),
+      currency,
+      impressions: Math.round(parseNumber(cell(row, 'impressions'))),
+      clicks: Math.round(parseNumber(cell(row, 'clicks'))),
+      conversions: Math.round(parseNumber(cell(row, 'conversions'))),
+      spend: parseNumber(cell(row, 'spend')),
+      video_views: Math.round(parseNumber(cell(row, 'video_views'))),
+    });
+  });
+
+  return { platform, rows, skipped };
+}
@@ -0,0 +1,108 @@
+/**
+ * Ad Performance Import Types
+ *
+ * Performance exports from ad platforms are parsed into AdPerformanceRows,
+ * matched to video_variations and stored as analytics_events so that
+ * Brain V2 can learn from real outcomes.
+ */
+
+import type { ArmObservation } from '@/lib/bandit';
+
+export type AdPlatform = 'meta' | 'tiktok' | 'snapchat';
+
+// analytics_events.event_type for imported rows
+export const AD_PERFORMANCE_EVENT = 'ad_performance';
+
+// ============================================
+// NORMALIZED ROWS
+// ============================================
+
+export interface AdMetrics {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  video_views: number;
+}
+
+export interface AdPerformanceRow extends AdMetrics {
+  platform: AdPlatform;
+  line: number; // 1-based CSV line, for error reporting
+  ad_id: string | null;
+  ad_name: string;
+  campaign_name: string | null;
+  date_start: string | null; // YYYY-MM-DD
+  date_end: string | null;
+  currency: string | null;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+export type MatchMethod = 'embedded_id' | 'naming_convention';
+
+export interface VariationCandidate {
+  id: string;
+  variation_number: number;
+  project_id: string | null;
+  project_name: string | null;
+}
+
+export interface VariationMatch {
+  variation_id: string;
+  project_id: string | null;
+  method: MatchMethod;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Stored as analytics_events.event_data
+ */
+export interface AdPerformanceEventData extends AdMetrics {
+  dedupe_key: string;
+  import_id: string;
+  platform: AdPlatform;
+  variation_id: string;
+  match_method: MatchMethod;
+  ad_id: string | null;
+  ad_name: string;
+  campaign_name: string | null;
+  date_start: string | null;
+  date_end: string | null;
+  currency: string | null;
+  ctr: number;
+  cvr: number;
+}
+
+export interface ImportIssue {
+  line: number;
+  ad_name: string;
+  reason: string;
+}
+
+export interface AdImportResult {
+  import_id: string;
+  platform: AdPlatform;
+  rows_parsed: number;
+  rows_matched: number;
+  events_written: number;
+  unmatched: ImportIssue[];
+  skipped: ImportIssue[];
+}
+
+// ============================================
+// OUTCOMES
+// ============================================
+
+/**
+ * Per-variation results for the batch allocators, arm ids as stored in
+ * video_variations.variation_config (framework / hookStyle)
+ */
+export interface ArmObservations {
+  frameworks: ArmObservation[];
+  hooks: ArmObservation[];
+}
@@ -22,6 +22,14 @@ import {
 } from './types';
 import { PROVIDER_REGISTRY, getProviderTier, PROVIDER_TIERS } from './provider-registry';
 import { GlobalCostOptimizer, getGlobalCostOptimizer } from './cost-optimizer';
+import {
+  allocateBatch,
+  buildBanditStats,
+  matchArms,
+  type AllocationConfig,
+  type BanditStats,
+} from '@/lib/bandit';
+import type { ArmObservations } from '@/lib/ad-performance/types';
 
 // ============= DEFAULT SCORING WEIGHTS =============
 
@@ -139,11 +147,49 @@ export const PLATFORM_PREFERENCES: Record<string, {
   },
 };
 
+// ============= ALLOCATION ARMS =============
+
+export const ALL_FRAMEWORKS: MarketingFramework[] = [
+  'PAS', 'AIDA', 'social-proof', 'before-after',
+  'curiosity', 'offer-driven', 'story-driven', 'ugc-style',
+];
+
+export const ALL_HOOKS: HookType[] = [
+  'question', 'shock', 'emotional', 'story',
+  'problem-solution', 'statistic', 'humor', 'curiosity',
+];
+
+export interface AllocationStats {
+  frameworks?: BanditStats; // Arms are MarketingFramework ids
+  hooks?: BanditStats;      // Arms are HookType ids
+}
+
+/**
+ * Imported ad results → allocation stats over the arms this scorer knows
+ */
+export function allocationStatsFromObservations(observations: ArmObservations): AllocationStats {
+  return {
+    frameworks: buildBanditStats(matchArms(observations.frameworks, ALL_FRAMEWORKS)),
+    hooks: buildBanditStats(matchArms(observations.hooks, ALL_HOOKS)),
+  };
+}
+
+const hasResults = (stats?: BanditStats) => !!stats && Object.keys(stats).length > 0;
+
+interface BatchPlan {
+  key: string;
+  frameworks: MarketingFramework[];
+  hooks: HookType[];
+}
+
 // ============= DECISION SCORER CLASS =============
 
 export class GlobalDecisionScorer {
   private weights: ScoringWeights;
   private costOptimizer: GlobalCostOptimizer;
+  private allocationStats: AllocationStats = {};
+  private allocationConfig: Partial<AllocationConfig> = {};
+  private batchPlan: BatchPlan | null = null;
 
   constructor(
     configuredAPIKeys: string[],
@@ -208,12 +254,50 @@ export class GlobalDecisionScorer {
     };
   }
 
+  /**
+   * Provide past results so batches are split by Thompson sampling
+   */
+  setAllocationStats(stats: AllocationStats, config: Partial<AllocationConfig> = {}): void {
+    this.allocationStats = stats;
+    this.allocationConfig = config;
+    this.batchPlan = null;
+  }
+
+  /**
+   * Framework and hook for every slot of the batch. Without past results the
+   * market preferences are rotated; with them the batch is split by Thompson
+   * sampling, market preferences start one pseudo-win ahead and the
+   * exploration floor keeps the other arms in play.
+   */
+  private getBatchPlan(context: DecisionContext): BatchPlan {
+    const count = Math.max(1, context.outputCount);
+    const key = `${context.market}|${context.platform}|${count}`;
+    if (this.batchPlan?.key === key) return this.batchPlan;
+
+    const marketPrefs = MARKET_PREFERENCES[context.market] || MARKET_PREFERENCES['usa'];
+    const allocationContext = { market: context.market, platform: context.platform };
+    const plan = <T extends string>(arms: T[], preferred: T[], stats?: BanditStats): T[] => {
+      if (!hasResults(stats)) return preferred;
+      return allocateBatch(arms, count, stats!, {
+        context: allocationContext,
+        priors: Object.fromEntries(preferred.map(arm => [arm, { alpha: 1, beta: 0 }])),
+        config: this.allocationConfig,
+      }).sequence as T[];
+    };
+
+    this.batchPlan = {
+      key,
+      frameworks: plan(ALL_FRAMEWORKS, marketPrefs.frameworks, this.allocationStats.frameworks),
+      hooks: plan(ALL_HOOKS, marketPrefs.hooks, this.allocationStats.hooks),
+    };
+    return this.batchPlan;
+  }
+
   /**
    * Select best marketing framework for context
    */
   selectFramework(context: DecisionContext, variationIndex: number): MarketingFramework {
-    const marketPrefs = MARKET_PREFERENCES[context.market] || MARKET_PREFERENCES['usa'];
-    const frameworks = marketPrefs.frameworks;
+    const { frameworks } = this.getBatchPlan(context);
     return frameworks[variationIndex % frameworks.length];
   }
 
@@ -230,8 +314,7 @@ export class GlobalDecisionScorer {
    * Select best hook type for context
    */
   selectHook(context: DecisionContext, variationIndex: number): HookType {
-    const marketPrefs = MARKET_PREFERENCES[context.market] || MARKET_PREFERENCES['usa'];
-    const hooks = marketPrefs.hooks;
+    const { hooks } = this.getBatchPlan(context);
     return hooks[variationIndex % hooks.length];
   }
 
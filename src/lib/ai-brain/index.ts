@@ -30,7 +30,8 @@ import {
   APIProvider,
 } from './types';
 import { GlobalCostOptimizer, getGlobalCostOptimizer, DEFAULT_COST_CONFIG } from './cost-optimizer';
-import { GlobalDecisionScorer, getGlobalDecisionScorer, DEFAULT_WEIGHTS } from './decision-scorer';
+import { GlobalDecisionScorer, getGlobalDecisionScorer, DEFAULT_WEIGHTS, type AllocationStats } from './decision-scorer';
+import type { AllocationConfig } from '@/lib/bandit';
 import { getAvailableProviders, PROVIDER_REGISTRY } from './provider-registry';
 
 // ============= GLOBAL AI BRAIN CLASS =============
@@ -72,6 +73,14 @@ export class GlobalAIBrain {
     this.costOptimizer.updateAvailableProviders(configuredAPIKeys);
   }
 
+  /**
+   * Past framework/hook results per market and platform, used to split
+   * batches across frameworks and hooks
+   */
+  setAllocationStats(stats: AllocationStats, config?: Partial<AllocationConfig>): void {
+    this.decisionScorer.setAllocationStats(stats, config);
+  }
+
   /**
    * Process a brain request and generate decisions
    */
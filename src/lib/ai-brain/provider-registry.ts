@@ -1,12 +1,23 @@
 /**
  * Global Provider Registry
  * 
- * Centralized registry of all AI providers, their costs, capabilities,
- * and quality scores. Used by the Cost Optimizer to make decisions.
+ * Centralized registry of all AI providers, their capabilities and
+ * quality scores. Costs are read from the pricing catalog (src/lib/pricing).
+ * Used by the Cost Optimizer to make decisions.
  */
 
+import { estimateOperationCost, findPrice } from '@/lib/pricing';
 import { APIProvider, CostTier } from './types';
 
+// Costs come from the pricing catalog; costPerSecond only for engines billed by the second
+function catalogCost(providerId: string): Pick<APIProvider, 'costPerUnit' | 'costPerSecond'> {
+  const price = findPrice(providerId);
+  return {
+    costPerUnit: estimateOperationCost(providerId),
+    ...(price?.unit === 'second' ? { costPerSecond: price.usd_per_unit } : {}),
+  };
+}
+
 // ============= PROVIDER DEFINITIONS =============
 
 export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
@@ -15,8 +26,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'ffmpeg-local',
     name: 'Local FFmpeg',
     type: 'video',
-    costPerUnit: 0,
-    costPerSecond: 0,
+    ...catalogCost('ffmpeg-local'),
     qualityScore: 60,
     speedScore: 95,
     isAvailable: true,
@@ -26,8 +36,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'ffmpeg-edge',
     name: 'Edge FFmpeg',
     type: 'video',
-    costPerUnit: 0,
-    costPerSecond: 0,
+    ...catalogCost('ffmpeg-edge'),
     qualityScore: 60,
     speedScore: 85,
     isAvailable: true,
@@ -37,8 +46,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'ffmpeg-motion',
     name: 'FFMPEG Motion Effects',
     type: 'video',
-    costPerUnit: 0,
-    costPerSecond: 0,
+    ...catalogCost('ffmpeg-motion'),
     qualityScore: 65,
     speedScore: 90,
     isAvailable: true,
@@ -50,8 +58,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'kling',
     name: 'Kling 2.5',
     type: 'video',
-    costPerUnit: 0.05,
-    costPerSecond: 0.004,
+    ...catalogCost('kling'),
     qualityScore: 72,
     speedScore: 70,
     isAvailable: false,
@@ -62,8 +69,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'minimax',
     name: 'MiniMax',
     type: 'video',
-    costPerUnit: 0.05,
-    costPerSecond: 0.003,
+    ...catalogCost('minimax'),
     qualityScore: 70,
     speedScore: 75,
     isAvailable: false,
@@ -73,8 +79,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'wan',
     name: 'Wan 2.5',
     type: 'video',
-    costPerUnit: 0.05,
-    costPerSecond: 0.0035,
+    ...catalogCost('wan'),
     qualityScore: 71,
     speedScore: 72,
     isAvailable: false,
@@ -84,8 +89,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'hailuo',
     name: 'Hailuo',
     type: 'video',
-    costPerUnit: 0.03,
-    costPerSecond: 0.003,
+    ...catalogCost('hailuo'),
     qualityScore: 68,
     speedScore: 80,
     isAvailable: false,
@@ -97,8 +101,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'runway',
     name: 'Runway Gen-3',
     type: 'video',
-    costPerUnit: 0.25,
-    costPerSecond: 0.015,
+    ...catalogCost('runway'),
     qualityScore: 85,
     speedScore: 60,
     isAvailable: false,
@@ -109,8 +112,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'luma',
     name: 'Luma Dream Machine',
     type: 'video',
-    costPerUnit: 0.20,
-    costPerSecond: 0.012,
+    ...catalogCost('luma'),
     qualityScore: 82,
     speedScore: 65,
     isAvailable: false,
@@ -120,8 +122,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'veo',
     name: 'Google Veo 3.1',
     type: 'video',
-    costPerUnit: 0.30,
-    costPerSecond: 0.018,
+    ...catalogCost('veo'),
     qualityScore: 88,
     speedScore: 55,
     isAvailable: false,
@@ -133,8 +134,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'sora',
     name: 'Sora 2',
     type: 'video',
-    costPerUnit: 0.80,
-    costPerSecond: 0.08,
+    ...catalogCost('sora'),
     qualityScore: 95,
     speedScore: 40,
     isAvailable: false,
@@ -144,8 +144,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'sora-pro',
     name: 'Sora 2 Pro',
     type: 'video',
-    costPerUnit: 1.00,
-    costPerSecond: 0.10,
+    ...catalogCost('sora-pro'),
     qualityScore: 98,
     speedScore: 35,
     isAvailable: false,
@@ -157,7 +156,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'nano-banana',
     name: 'Nano Banana (Gemini)',
     type: 'image',
-    costPerUnit: 0.02,
+    ...catalogCost('nano-banana'),
     qualityScore: 75,
     speedScore: 90,
     isAvailable: true,
@@ -167,7 +166,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'flux',
     name: 'Flux',
     type: 'image',
-    costPerUnit: 0.05,
+    ...catalogCost('flux'),
     qualityScore: 85,
     speedScore: 70,
     isAvailable: false,
@@ -177,7 +176,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'leonardo',
     name: 'Leonardo AI',
     type: 'image',
-    costPerUnit: 0.04,
+    ...catalogCost('leonardo'),
     qualityScore: 82,
     speedScore: 75,
     isAvailable: false,
@@ -187,7 +186,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'dalle',
     name: 'DALL-E 3',
     type: 'image',
-    costPerUnit: 0.04,
+    ...catalogCost('dalle'),
     qualityScore: 88,
     speedScore: 65,
     isAvailable: false,
@@ -199,7 +198,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'gemini-flash',
     name: 'Gemini 2.5 Flash',
     type: 'text',
-    costPerUnit: 0.001,
+    ...catalogCost('gemini-flash'),
     qualityScore: 85,
     speedScore: 95,
     isAvailable: true, // Default available via Lovable AI
@@ -209,7 +208,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'gemini-pro',
     name: 'Gemini 2.5 Pro',
     type: 'text',
-    costPerUnit: 0.005,
+    ...catalogCost('gemini-pro'),
     qualityScore: 92,
     speedScore: 75,
     isAvailable: true,
@@ -219,7 +218,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'gpt-5',
     name: 'GPT-5',
     type: 'text',
-    costPerUnit: 0.01,
+    ...catalogCost('gpt-5'),
     qualityScore: 95,
     speedScore: 70,
     isAvailable: false,
@@ -231,8 +230,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'elevenlabs',
     name: 'ElevenLabs',
     type: 'audio',
-    costPerUnit: 0.05,
-    costPerSecond: 0.002,
+    ...catalogCost('elevenlabs'),
     qualityScore: 95,
     speedScore: 80,
     isAvailable: false,
@@ -243,8 +241,7 @@ export const PROVIDER_REGISTRY: Record<string, APIProvider> = {
     id: 'openai-tts',
     name: 'OpenAI TTS',
     type: 'audio',
-    costPerUnit: 0.03,
-    costPerSecond: 0.0015,
+    ...catalogCost('openai-tts'),
     qualityScore: 85,
     speedScore: 90,
     isAvailable: false,
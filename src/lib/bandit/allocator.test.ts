@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { allocateBatch, buildBanditStats, contextKey, matchArms } from './allocator';
+import { createRng, sampleBeta } from './random';
+import type { ArmObservation } from './types';
+
+// `wins` rewards of 1 followed by `losses` rewards of 0
+function observations(arm: string, wins: number, losses: number, market?: string, platform?: string): ArmObservation[] {
+  return [
+    ...Array.from({ length: wins }, () => ({ arm, reward: 1, market, platform })),
+    ...Array.from({ length: losses }, () => ({ arm, reward: 0, market, platform })),
+  ];
+}
+
+describe('seeded sampling', () => {
+  it('replays the same sequence for the same seed', () => {
+    const a = createRng('seed');
+    const b = createRng('seed');
+    const c = createRng('other');
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+  });
+
+  it('draws Beta samples around the mean', () => {
+    const rng = createRng('beta');
+    let sum = 0;
+    for (let i = 0; i < 5000; i++) {
+      const draw = sampleBeta(2, 8, rng);
+      expect(draw).toBeGreaterThan(0);
+      expect(draw).toBeLessThan(1);
+      sum += draw;
+    }
+    expect(sum / 5000).toBeCloseTo(0.2, 2);
+  });
+
+  it('handles shapes below one', () => {
+    const rng = createRng('small');
+    for (let i = 0; i < 100; i++) {
+      const draw = sampleBeta(0.5, 0.5, rng);
+      expect(draw).toBeGreaterThanOrEqual(0);
+      expect(draw).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('contextKey', () => {
+  it('lowercases and falls back to any', () => {
+    expect(contextKey('SA', 'TikTok')).toBe('sa|tiktok');
+    expect(contextKey('SA')).toBe('sa|*');
+    expect(contextKey(undefined, 'meta')).toBe('*|meta');
+    expect(contextKey()).toBe('*|*');
+  });
+});
+
+describe('buildBanditStats', () => {
+  it('counts each observation under every context it belongs to', () => {
+    const stats = buildBanditStats([{ arm: 'hook', reward: 1, market: 'SA', platform: 'TikTok' }]);
+    expect(Object.keys(stats).sort()).toEqual(['*|*', '*|tiktok', 'sa|*', 'sa|tiktok']);
+    for (const key of Object.keys(stats)) {
+      expect(stats[key].hook).toEqual({ wins: 1, trials: 1 });
+    }
+  });
+
+  it('counts context-free observations once and clamps rewards', () => {
+    const stats = buildBanditStats([
+      { arm: 'hook', reward: 1.5 },
+      { arm: 'hook', reward: -1 },
+      { arm: 'hook', reward: 0.25 },
+    ]);
+    expect(Object.keys(stats)).toEqual(['*|*']);
+    expect(stats['*|*'].hook).toEqual({ wins: 1.25, trials: 3 });
+  });
+});
+
+describe('matchArms', () => {
+  it('renames to the known arm ids and drops the rest', () => {
+    const matched = matchArms(
+      [
+        { arm: 'social-proof', reward: 1, platform: 'tiktok' },
+        { arm: 'PAS', reward: 0 },
+        { arm: 'ugc-style', reward: 1 },
+      ],
+      ['AIDA', 'PAS', 'SOCIAL_PROOF']
+    );
+    expect(matched).toEqual([
+      { arm: 'SOCIAL_PROOF', reward: 1, platform: 'tiktok' },
+      { arm: 'PAS', reward: 0 },
+    ]);
+  });
+});
+
+describe('allocateBatch', () => {
+  const countsByArm = (result: ReturnType<typeof allocateBatch>) =>
+    Object.fromEntries(result.allocations.map(a => [a.arm, a.count]));
+
+  it('fills the batch exactly', () => {
+    const stats = buildBanditStats([...observations('a', 3, 5), ...observations('b', 1, 1)]);
+    for (const count of [1, 7, 10, 23]) {
+      const result = allocateBatch(['a', 'b', 'c'], count, stats);
+      expect(result.allocations.reduce((sum, a) => sum + a.count, 0)).toBe(count);
+      expect(result.sequence).toHaveLength(count);
+    }
+  });
+
+  it('is reproducible for the same inputs', () => {
+    const stats = buildBanditStats([...observations('a', 4, 6), ...observations('b', 6, 4)]);
+    const first = allocateBatch(['a', 'b'], 10, stats, { context: { market: 'SA' } });
+    expect(allocateBatch(['a', 'b'], 10, stats, { context: { market: 'SA' } })).toEqual(first);
+    expect(first.seed).toBe('sa|*:a,b:10');
+  });
+
+  it('gives most of the batch to a clearly better arm and keeps the floor', () => {
+    const stats = buildBanditStats([
+      ...observations('strong', 90, 10),
+      ...observations('weak', 10, 90),
+      ...observations('weaker', 5, 95),
+    ]);
+    const result = allocateBatch(['weak', 'strong', 'weaker'], 10, stats);
+    expect(countsByArm(result)).toEqual({ strong: 8, weak: 1, weaker: 1 });
+    expect(result.allocations[0].arm).toBe('strong');
+    expect(result.allocations[0].probability_best).toBeGreaterThan(0.99);
+  });
+
+  it('splits evenly when the floor covers the whole batch', () => {
+    const result = allocateBatch(['a', 'b', 'c'], 12, {}, { config: { exploration_floor: 1 } });
+    expect(countsByArm(result)).toEqual({ a: 4, b: 4, c: 4 });
+  });
+
+  it('counts results from other contexts at the backoff weight', () => {
+    const stats = buildBanditStats(observations('a', 8, 0, 'AE', 'meta'));
+    const [allocation] = allocateBatch(['a'], 1, stats, { context: { market: 'SA', platform: 'tiktok' } }).allocations;
+    // α = 1 + 0.25 × 8, β = 1
+    expect(allocation.posterior_mean).toBeCloseTo(0.75);
+    expect(allocation.observed_trials).toBe(0);
+  });
+
+  it('adds priors on top of the observed data', () => {
+    const [allocation] = allocateBatch(['a'], 1, {}, { priors: { a: { alpha: 3, beta: 1 } } }).allocations;
+    expect(allocation.posterior_mean).toBeCloseTo(4 / 6);
+  });
+
+  it('spreads each arm through the sequence', () => {
+    const result = allocateBatch(['a', 'b'], 4, {}, { config: { exploration_floor: 0.5 } });
+    expect(result.sequence).toEqual(['a', 'b', 'a', 'b']);
+  });
+
+  it('needs at least one arm', () => {
+    expect(() => allocateBatch([], 5, {})).toThrow('allocateBatch needs at least one arm');
+  });
+});
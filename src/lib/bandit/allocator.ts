@@ -0,0 +1,191 @@
+/**
+ * Thompson Sampling Batch Allocator
+ *
+ * Splits a batch of N variations across arms in proportion to each arm's
+ * posterior probability of being the best, with an exploration floor so
+ * no arm is starved while data is thin.
+ *
+ * Posterior per arm (Beta):
+ *   α = 1 + prior.alpha + wins(context) + backoff × (wins(any) − wins(context))
+ *   β = 1 + prior.beta  + losses(context) + backoff × (losses(any) − losses(context))
+ * so results from the same market/platform count fully and results from
+ * elsewhere count a little.
+ */
+
+import { createRng, sampleBeta } from './random';
+import {
+  DEFAULT_ALLOCATION_CONFIG,
+  type AllocationConfig,
+  type AllocationContext,
+  type AllocationResult,
+  type ArmAllocation,
+  type ArmObservation,
+  type ArmPriors,
+  type ArmStats,
+  type BanditStats,
+} from './types';
+
+const ANY = '*';
+
+export function contextKey(market?: string, platform?: string): string {
+  return `${market?.toLowerCase() || ANY}|${platform?.toLowerCase() || ANY}`;
+}
+
+/**
+ * Aggregate observations under every context they belong to:
+ * exact market|platform, market only, platform only, and any.
+ */
+export function buildBanditStats(observations: ArmObservation[]): BanditStats {
+  const stats: BanditStats = {};
+  for (const { arm, reward, market, platform } of observations) {
+    const keys = new Set([
+      contextKey(market, platform),
+      contextKey(market),
+      contextKey(undefined, platform),
+      contextKey(),
+    ]);
+    const clamped = Math.min(1, Math.max(0, reward));
+    for (const key of keys) {
+      const arms = (stats[key] ||= {});
+      const armStats = (arms[arm] ||= { wins: 0, trials: 0 });
+      armStats.wins += clamped;
+      armStats.trials += 1;
+    }
+  }
+  return stats;
+}
+
+const normalizeArm = (arm: string) => arm.toLowerCase().replace(/-/g, '_');
+
+/**
+ * Rename observations to the caller's arm ids ("social-proof" matches
+ * "SOCIAL_PROOF") and drop the ones for arms the caller does not know.
+ */
+export function matchArms(observations: ArmObservation[], arms: readonly string[]): ArmObservation[] {
+  const byKey = new Map(arms.map(arm => [normalizeArm(arm), arm]));
+  return observations.flatMap(observation => {
+    const arm = byKey.get(normalizeArm(observation.arm));
+    return arm ? [{ ...observation, arm }] : [];
+  });
+}
+
+function posterior(
+  arm: string,
+  stats: BanditStats,
+  context: AllocationContext,
+  priors: ArmPriors,
+  backoffWeight: number
+): { alpha: number; beta: number; trials: number } {
+  const empty: ArmStats = { wins: 0, trials: 0 };
+  const exact = stats[contextKey(context.market, context.platform)]?.[arm] || empty;
+  const any = stats[contextKey()]?.[arm] || empty;
+  const prior = priors[arm] || { alpha: 0, beta: 0 };
+
+  const otherWins = Math.max(0, any.wins - exact.wins);
+  const otherLosses = Math.max(0, any.trials - any.wins - (exact.trials - exact.wins));
+
+  return {
+    alpha: 1 + prior.alpha + exact.wins + backoffWeight * otherWins,
+    beta: 1 + prior.beta + (exact.trials - exact.wins) + backoffWeight * otherLosses,
+    trials: exact.trials,
+  };
+}
+
+/**
+ * Largest remainder rounding; ties go to the larger share, then input order
+ */
+function apportion(shares: number[], count: number): number[] {
+  const exact = shares.map(s => s * count);
+  const counts = exact.map(Math.floor);
+  let remaining = count - counts.reduce((a, b) => a + b, 0);
+
+  const order = shares
+    .map((share, i) => ({ i, remainder: exact[i] - counts[i], share }))
+    .sort((a, b) => b.remainder - a.remainder || b.share - a.share || a.i - b.i);
+  for (const { i } of order) {
+    if (remaining <= 0) break;
+    counts[i]++;
+    remaining--;
+  }
+  return counts;
+}
+
+/**
+ * Smooth weighted round-robin: spreads each arm's slots through the batch
+ * instead of running them back to back.
+ */
+function interleave(arms: string[], counts: number[]): string[] {
+  const total = counts.reduce((a, b) => a + b, 0);
+  const current = counts.map(() => 0);
+  const sequence: string[] = [];
+  for (let slot = 0; slot < total; slot++) {
+    let best = -1;
+    for (let i = 0; i < arms.length; i++) {
+      if (counts[i] === 0) continue;
+      current[i] += counts[i];
+      if (best === -1 || current[i] > current[best]) best = i;
+    }
+    current[best] -= total;
+    sequence.push(arms[best]);
+  }
+  return sequence;
+}
+
+export interface AllocateBatchOptions {
+  context?: AllocationContext;
+  priors?: ArmPriors;
+  config?: Partial<AllocationConfig>;
+}
+
+export function allocateBatch(
+  arms: readonly string[],
+  count: number,
+  stats: BanditStats,
+  options: AllocateBatchOptions = {}
+): AllocationResult {
+  if (arms.length === 0) {
+    throw new Error('allocateBatch needs at least one arm');
+  }
+
+  const config = { ...DEFAULT_ALLOCATION_CONFIG, ...options.config };
+  const context = options.context || {};
+  const floor = Math.min(Math.max(0, config.exploration_floor), 1 / arms.length);
+  const seed = config.seed ?? `${contextKey(context.market, context.platform)}:${arms.join(',')}:${count}`;
+  const rng = createRng(seed);
+
+  const posteriors = arms.map(arm => posterior(arm, stats, context, options.priors || {}, config.backoff_weight));
+
+  // P(arm is best) from Thompson draws; ties go to the earlier arm
+  const bestCounts = arms.map(() => 0);
+  for (let s = 0; s < config.simulations; s++) {
+    let best = 0;
+    let bestDraw = -1;
+    posteriors.forEach((p, i) => {
+      const draw = sampleBeta(p.alpha, p.beta, rng);
+      if (draw > bestDraw) {
+        bestDraw = draw;
+        best = i;
+      }
+    });
+    bestCounts[best]++;
+  }
+  const probabilityBest = bestCounts.map(c => c / Math.max(1, config.simulations));
+
+  const shares = probabilityBest.map(p => floor + (1 - floor * arms.length) * p);
+  const counts = apportion(shares, Math.max(0, Math.floor(count)));
+
+  const allocations: ArmAllocation[] = arms.map((arm, i) => ({
+    arm,
+    count: counts[i],
+    share: shares[i],
+    posterior_mean: posteriors[i].alpha / (posteriors[i].alpha + posteriors[i].beta),
+    probability_best: probabilityBest[i],
+    observed_trials: posteriors[i].trials,
+  }));
+
+  return {
+    allocations: [...allocations].sort((a, b) => b.count - a.count || b.share - a.share),
+    sequence: interleave([...arms], counts),
+    seed,
+  };
+}
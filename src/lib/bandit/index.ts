@@ -0,0 +1,6 @@
+// Bandit Allocation
+// Thompson sampling over frameworks, hook types or any other string arms
+
+export * from './types';
+export { allocateBatch, buildBanditStats, contextKey, matchArms, type AllocateBatchOptions } from './allocator';
+export { createRng, sampleBeta } from './random';
@@ -0,0 +1,71 @@
+/**
+ * Bandit Allocation Types
+ *
+ * Arms are plain strings (framework ids, hook types, ...) so the same
+ * allocator serves Brain V2 and the global decision scorer. Rewards are 0-1
+ * and may be fractional (e.g. a percentile rank instead of win/loss).
+ */
+
+// ============================================
+// OBSERVATIONS & STATS
+// ============================================
+
+export interface ArmObservation {
+  arm: string;
+  reward: number; // 0-1
+  market?: string;
+  platform?: string;
+}
+
+export interface ArmStats {
+  wins: number;   // Sum of rewards
+  trials: number;
+}
+
+// Context key ("<market>|<platform>", "*" for any) → arm → stats
+export type BanditStats = Record<string, Record<string, ArmStats>>;
+
+export interface AllocationContext {
+  market?: string;
+  platform?: string;
+}
+
+// Beta pseudo-counts added on top of the uniform prior, e.g. to favour
+// platform-preferred arms before any data exists
+export type ArmPriors = Record<string, { alpha: number; beta: number }>;
+
+// ============================================
+// CONFIG
+// ============================================
+
+export interface AllocationConfig {
+  exploration_floor: number;  // Minimum share of the batch per arm, 0-1/arms
+  backoff_weight: number;     // How much broader contexts count, 0-1
+  simulations: number;        // Thompson draws used to estimate P(best)
+  seed?: string;              // Same seed + stats → same allocation
+}
+
+export const DEFAULT_ALLOCATION_CONFIG: AllocationConfig = {
+  exploration_floor: 0.1,
+  backoff_weight: 0.25,
+  simulations: 2000,
+};
+
+// ============================================
+// RESULT
+// ============================================
+
+export interface ArmAllocation {
+  arm: string;
+  count: number;
+  share: number;            // Planned share of the batch after the floor
+  posterior_mean: number;
+  probability_best: number; // Thompson estimate before the floor
+  observed_trials: number;
+}
+
+export interface AllocationResult {
+  allocations: ArmAllocation[];
+  sequence: string[]; // One arm per batch slot
+  seed: string;
+}
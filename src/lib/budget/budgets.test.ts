@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getBudgetLevel, toBudgetStatus } from './budgets';
+import { BudgetExceededError, isBudgetExceededError } from './reservations';
+import type { BudgetStatus } from './types';
+
+// Only the pure parts are under test; nothing here talks to Supabase
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+function status(extra: Partial<BudgetStatus> = {}): BudgetStatus {
+  return {
+    id: 'budget-1',
+    scope: 'project',
+    project_id: 'project-1',
+    soft_limit_usd: 80,
+    hard_limit_usd: 100,
+    spent_usd: 0,
+    reserved_usd: 0,
+    period_start: null,
+    ...extra,
+  };
+}
+
+describe('getBudgetLevel', () => {
+  it('counts running reservations with the spend', () => {
+    expect(getBudgetLevel(status({ spent_usd: 50, reserved_usd: 29.99 }))).toBe('ok');
+    expect(getBudgetLevel(status({ spent_usd: 50, reserved_usd: 30 }))).toBe('warning');
+    expect(getBudgetLevel(status({ spent_usd: 60, reserved_usd: 40 }))).toBe('exceeded');
+  });
+
+  it('is exceeded exactly at the hard limit', () => {
+    expect(getBudgetLevel(status({ spent_usd: 99.99 }))).toBe('warning');
+    expect(getBudgetLevel(status({ spent_usd: 100 }))).toBe('exceeded');
+  });
+
+  it('ignores limits that are not set', () => {
+    expect(getBudgetLevel(status({ soft_limit_usd: null, spent_usd: 90 }))).toBe('ok');
+    expect(getBudgetLevel(status({ hard_limit_usd: null, spent_usd: 1000 }))).toBe('warning');
+    expect(getBudgetLevel(status({ soft_limit_usd: null, hard_limit_usd: null, spent_usd: 1000 }))).toBe('ok');
+  });
+});
+
+describe('toBudgetStatus', () => {
+  it('parses the numeric strings Postgres returns', () => {
+    expect(toBudgetStatus({
+      budget_id: 'budget-1',
+      scope: 'monthly',
+      project_id: null,
+      soft_limit_usd: '40.00',
+      hard_limit_usd: '50.00',
+      spent_usd: '12.3456',
+      reserved_usd: '0',
+      period_start: '2025-12-01',
+    })).toEqual({
+      id: 'budget-1',
+      scope: 'monthly',
+      project_id: null,
+      soft_limit_usd: 40,
+      hard_limit_usd: 50,
+      spent_usd: 12.3456,
+      reserved_usd: 0,
+      period_start: '2025-12-01',
+    });
+  });
+
+  it('keeps unset limits null and takes id from plain rows', () => {
+    const parsed = toBudgetStatus({
+      id: 'budget-2',
+      scope: 'project',
+      project_id: 'project-1',
+      soft_limit_usd: null,
+      hard_limit_usd: 25,
+      spent_usd: 5,
+      reserved_usd: 1.5,
+      period_start: null,
+    });
+    expect(parsed.id).toBe('budget-2');
+    expect(parsed.soft_limit_usd).toBeNull();
+    expect(parsed.reserved_usd).toBe(1.5);
+  });
+});
+
+describe('BudgetExceededError', () => {
+  it('reports what is left under the hard limit', () => {
+    const error = new BudgetExceededError(status({ spent_usd: 90, reserved_usd: 4 }), 10);
+    expect(error.remaining_usd).toBeCloseTo(6);
+    expect(error.code).toBe('BUDGET_EXCEEDED');
+    expect(error.message).toBe('Project budget of $100.00 reached: $90.00 spent, $4.00 in progress, this needs $10.00');
+    expect(isBudgetExceededError(error)).toBe(true);
+    expect(isBudgetExceededError(new Error('other'))).toBe(false);
+  });
+
+  it('never reports a negative remainder', () => {
+    const error = new BudgetExceededError(status({ spent_usd: 95, reserved_usd: 20 }), 1);
+    expect(error.remaining_usd).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Cost Budgets
+ * Reads and edits the caller's cost_budgets rows and reports how much of
+ * each is spent or held by running operations.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { BudgetLevel, BudgetScope, BudgetStatus, CostBudget } from './types';
+
+type BudgetStatusRow = {
+  budget_id?: string;
+  id?: string;
+  scope: string;
+  project_id: string | null;
+  soft_limit_usd: number | string | null;
+  hard_limit_usd: number | string | null;
+  spent_usd: number | string;
+  reserved_usd: number | string;
+  period_start: string | null;
+};
+
+const toAmount = (value: number | string | null): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+/**
+ * get_budget_status rows (also embedded in reserve_budget replies) → BudgetStatus
+ */
+export function toBudgetStatus(row: BudgetStatusRow): BudgetStatus {
+  return {
+    id: row.budget_id ?? row.id ?? '',
+    scope: row.scope as BudgetScope,
+    project_id: row.project_id,
+    soft_limit_usd: toAmount(row.soft_limit_usd),
+    hard_limit_usd: toAmount(row.hard_limit_usd),
+    spent_usd: toAmount(row.spent_usd) ?? 0,
+    reserved_usd: toAmount(row.reserved_usd) ?? 0,
+    period_start: row.period_start,
+  };
+}
+
+/**
+ * 'exceeded' once nothing more fits under the hard limit, 'warning' from
+ * the soft limit on
+ */
+export function getBudgetLevel(status: BudgetStatus): BudgetLevel {
+  const committed = status.spent_usd + status.reserved_usd;
+  if (status.hard_limit_usd !== null && committed >= status.hard_limit_usd) return 'exceeded';
+  if (status.soft_limit_usd !== null && committed >= status.soft_limit_usd) return 'warning';
+  return 'ok';
+}
+
+/**
+ * The caller's monthly budget and the project's budget, where set
+ */
+export async function getBudgetStatus(projectId?: string): Promise<BudgetStatus[]> {
+  const { data, error } = await supabase.rpc('get_budget_status', { p_project_id: projectId });
+  if (error) throw new Error(`Failed to load budgets: ${error.message}`);
+  return (data || []).map(toBudgetStatus);
+}
+
+/**
+ * Create or replace the monthly budget (no projectId) or a project's budget
+ */
+export async function saveBudget(
+  limits: Pick<CostBudget, 'soft_limit_usd' | 'hard_limit_usd'>,
+  projectId?: string
+): Promise<CostBudget> {
+  const scope: BudgetScope = projectId ? 'project' : 'monthly';
+  if (
+    limits.soft_limit_usd !== null &&
+    limits.hard_limit_usd !== null &&
+    limits.soft_limit_usd > limits.hard_limit_usd
+  ) {
+    throw new Error('The warning limit cannot be above the hard limit');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to set budgets');
+
+  let existing = supabase.from('cost_budgets').select('id').eq('user_id', user.id).eq('scope', scope);
+  existing = projectId ? existing.eq('project_id', projectId) : existing;
+  const { data: current, error: loadError } = await existing.maybeSingle();
+  if (loadError) throw new Error(`Failed to load budget: ${loadError.message}`);
+
+  const { data, error } = current
+    ? await supabase.from('cost_budgets').update(limits).eq('id', current.id).select().single()
+    : await supabase
+        .from('cost_budgets')
+        .insert({ ...limits, scope, project_id: projectId ?? null, user_id: user.id })
+        .select()
+        .single();
+  if (error) throw new Error(`Failed to save budget: ${error.message}`);
+
+  return {
+    id: data.id,
+    scope,
+    project_id: data.project_id,
+    soft_limit_usd: data.soft_limit_usd,
+    hard_limit_usd: data.hard_limit_usd,
+  };
+}
+
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const { error } = await supabase.from('cost_budgets').delete().eq('id', budgetId);
+  if (error) throw new Error(`Failed to delete budget: ${error.message}`);
+}
@@ -0,0 +1,14 @@
+// Cost Budgets
+// Project and monthly spending limits with soft warnings and hard stops,
+// enforced by reserving each paid operation's estimate before it runs
+
+export * from './types';
+export { getBudgetStatus, getBudgetLevel, saveBudget, deleteBudget, toBudgetStatus } from './budgets';
+export {
+  BudgetExceededError,
+  isBudgetExceededError,
+  reserveBudget,
+  settleReservation,
+  releaseReservation,
+  withBudget,
+} from './reservations';
@@ -0,0 +1,121 @@
+/**
+ * Budget Reservations
+ * Holds an operation's estimated cost against every budget that applies
+ * before it runs, then settles the actual cost (or releases the hold).
+ * The reserve_budget function does the check and the hold atomically.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { formatCost } from '@/lib/costTracker';
+import { PRICING_CATALOG_VERSION } from '@/lib/pricing';
+import { toBudgetStatus } from './budgets';
+import type { BudgetReservation, BudgetReservationRequest, BudgetSettlement, BudgetStatus } from './types';
+import { BUDGET_SCOPE_LABELS } from './types';
+
+type BudgetStatusRow = Parameters<typeof toBudgetStatus>[0];
+
+interface ReserveBudgetReply {
+  ok: boolean;
+  reservation_id?: string;
+  warnings?: BudgetStatusRow[];
+  exceeded?: BudgetStatusRow;   // When ok is false
+  requested_usd?: number;
+}
+
+/**
+ * Thrown instead of running an operation that would cross a hard limit
+ */
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED';
+
+  constructor(public budget: BudgetStatus, public requested_usd: number) {
+    super(
+      `${BUDGET_SCOPE_LABELS[budget.scope]} of ${formatCost(budget.hard_limit_usd ?? 0)} reached: ` +
+      `${formatCost(budget.spent_usd)} spent, ${formatCost(budget.reserved_usd)} in progress, ` +
+      `this needs ${formatCost(requested_usd)}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+
+  get remaining_usd(): number {
+    const remaining = (this.budget.hard_limit_usd ?? 0) - this.budget.spent_usd - this.budget.reserved_usd;
+    return Math.max(0, remaining);
+  }
+}
+
+export function isBudgetExceededError(error: unknown): error is BudgetExceededError {
+  return error instanceof BudgetExceededError;
+}
+
+/**
+ * Reserve the estimate, or throw BudgetExceededError
+ */
+export async function reserveBudget(request: BudgetReservationRequest): Promise<BudgetReservation> {
+  const estimate = Math.max(0, request.estimated_cost_usd || 0);
+  const { data, error } = await supabase.rpc('reserve_budget', {
+    p_engine_name: request.engine,
+    p_operation_type: request.operation_type,
+    p_estimated_cost: estimate,
+    p_project_id: request.project_id,
+    p_pricing_version: request.pricing_version ?? PRICING_CATALOG_VERSION,
+  });
+  if (error) throw new Error(`Failed to reserve budget: ${error.message}`);
+
+  const reply = data as unknown as ReserveBudgetReply;
+  if (!reply.ok && reply.exceeded) {
+    throw new BudgetExceededError(toBudgetStatus(reply.exceeded), Number(reply.requested_usd ?? estimate));
+  }
+
+  const warnings = (reply.warnings || []).map(toBudgetStatus);
+  for (const budget of warnings) {
+    console.warn(
+      `[Budget] ${BUDGET_SCOPE_LABELS[budget.scope]} past its warning limit of ${formatCost(budget.soft_limit_usd ?? 0)}`
+    );
+  }
+
+  return { id: reply.reservation_id, estimated_cost_usd: estimate, warnings };
+}
+
+export async function settleReservation(reservationId: string, settlement: BudgetSettlement = {}): Promise<void> {
+  const { error } = await supabase.rpc('settle_budget_reservation', {
+    p_reservation_id: reservationId,
+    p_actual_cost: settlement.actual_cost_usd,
+    p_pipeline_stage: settlement.pipeline_stage,
+    p_metadata: settlement.metadata as Json | undefined,
+  });
+  if (error) throw new Error(`Failed to settle budget reservation: ${error.message}`);
+}
+
+export async function releaseReservation(reservationId: string): Promise<void> {
+  const { error } = await supabase.rpc('release_budget_reservation', { p_reservation_id: reservationId });
+  if (error) throw new Error(`Failed to release budget reservation: ${error.message}`);
+}
+
+/**
+ * Run a paid operation inside a reservation. The hold is released if the
+ * operation throws; otherwise settle(result) says what it actually cost.
+ * A failed settle only logs: the work is done and the hold expires anyway.
+ */
+export async function withBudget<T>(
+  request: BudgetReservationRequest,
+  run: () => Promise<T>,
+  settle: (result: T) => BudgetSettlement = () => ({})
+): Promise<T> {
+  const reservation = await reserveBudget(request);
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await releaseReservation(reservation.id).catch(err =>
+      console.warn('[Budget] Failed to release reservation:', err)
+    );
+    throw error;
+  }
+
+  await settleReservation(reservation.id, settle(result)).catch(err =>
+    console.warn('[Budget] Failed to settle reservation:', err)
+  );
+  return result;
+}
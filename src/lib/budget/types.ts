@@ -0,0 +1,53 @@
+/**
+ * Cost Budgets - Types
+ * Per-project and per-user monthly spending limits. Paid operations reserve
+ * their estimated cost first and settle the actual cost when they finish.
+ */
+
+export type BudgetScope = 'project' | 'monthly';
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface CostBudget {
+  id: string;
+  scope: BudgetScope;
+  project_id: string | null;
+  soft_limit_usd: number | null;  // Warn from here on
+  hard_limit_usd: number | null;  // Refuse anything that would cross it
+}
+
+/**
+ * A budget with what counts against it right now
+ */
+export interface BudgetStatus extends CostBudget {
+  spent_usd: number;      // Recorded in cost_transactions
+  reserved_usd: number;   // Held by operations still running
+  period_start: string | null;  // Start of the month for monthly budgets
+}
+
+export interface BudgetReservationRequest {
+  engine: string;
+  operation_type: string;
+  estimated_cost_usd: number;
+  project_id?: string;
+  pricing_version?: string;
+}
+
+export interface BudgetReservation {
+  id: string;
+  estimated_cost_usd: number;
+  warnings: BudgetStatus[];  // Budgets this reservation takes past their soft limit
+}
+
+export interface BudgetSettlement {
+  actual_cost_usd?: number;  // Defaults to the estimate
+  // Also record the cost in cost_transactions under this stage. Leave unset
+  // when the backend that ran the operation records its own cost.
+  pipeline_stage?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  project: 'Project budget',
+  monthly: 'Monthly budget',
+};
@@ -144,6 +144,111 @@ export interface ExecutePlanResponse {
   statusUrl: string;
 }
 
+// ============================================
+// POST /api/analysis/align-words
+// ============================================
+
+export interface AlignWordsRequest {
+  analysis: {
+    id: string;
+    segments: Array<{ id: string; start_ms: number; end_ms: number; transcript: string | null }>;
+  };
+  sourceVideoUrl?: string;
+  sourcePath?: string;
+}
+
+export interface AlignWordsResponse {
+  ok: true;
+  analysisId: string | null;
+  words: Array<{
+    segment_id: string;
+    text: string;
+    start_ms: number;
+    end_ms: number;
+    confidence: number;
+  }>;
+  stats: {
+    segments_aligned: number;
+    segments_skipped: number;
+    speech_ratio: number; // 0-1 over aligned segments
+  };
+}
+
+// ============================================
+// POST /api/analysis/signals
+// ============================================
+
+export interface SignalAnalysisRequest {
+  videoId: string;
+  sourceVideoUrl?: string;
+  sourcePath?: string;
+  language?: string;
+  analysisId?: string;
+}
+
+export interface SignalAnalysisResponse {
+  ok: true;
+  analysis: unknown; // VideoAnalysis with placeholder segment types
+  signals: {
+    scene_cuts_ms: number[];
+    silences: Array<{ start_ms: number; end_ms: number }>;
+    segments: Array<{
+      id: string;
+      cut_count: number;
+      motion: number;        // Mean scene score
+      loudness_lufs: number; // Mean momentary loudness
+      silence_ratio: number;
+    }>;
+    cuts_per_minute: number;
+    loudness_spread_lu: number;
+  };
+}
+
+// ============================================
+// POST /api/analysis/reframe
+// ============================================
+
+export interface ReframeAnalysisRequest {
+  videoId: string;
+  sourceVideoUrl?: string;
+  sourcePath?: string;
+}
+
+export interface ReframeAnalysisResponse {
+  ok: true;
+  track: unknown; // SubjectTrack (src/lib/reframe)
+}
+
+// ============================================
+// GET /api/music/tracks, POST /api/music/analyze
+// ============================================
+
+export interface MusicTrackSummary {
+  id: string; // File name in the server's music library
+  title: string;
+  url: string; // Served at /music/<file>
+  size_bytes: number;
+  analysis: unknown | null; // MusicAnalysis, null until analyzed
+}
+
+export interface MusicTracksResponse {
+  ok: true;
+  tracks: MusicTrackSummary[];
+}
+
+export interface MusicAnalyzeRequest {
+  trackId?: string;   // Library track (analysis is cached)
+  sourcePath?: string;
+  sourceUrl?: string;
+  force?: boolean;    // Ignore the cached analysis
+}
+
+export interface MusicAnalyzeResponse {
+  ok: true;
+  analysis: unknown; // MusicAnalysis
+  track?: MusicTrackSummary; // Present for library tracks
+}
+
 // ============================================
 // GET /api/jobs/:id
 // ============================================
@@ -177,6 +282,11 @@ export type UploadResult = UploadResponse | ApiErrorResponse;
 export type ExecuteResult = ExecuteResponse | ApiErrorResponse;
 export type ExecutePlanResult = ExecutePlanResponse | ApiErrorResponse;
 export type JobResult = JobStatusResponse | ApiErrorResponse;
+export type AlignWordsResult = AlignWordsResponse | ApiErrorResponse;
+export type SignalAnalysisResult = SignalAnalysisResponse | ApiErrorResponse;
+export type ReframeAnalysisResult = ReframeAnalysisResponse | ApiErrorResponse;
+export type MusicTracksResult = MusicTracksResponse | ApiErrorResponse;
+export type MusicAnalyzeResult = MusicAnalyzeResponse | ApiErrorResponse;
 
 // ============================================
 // TYPE GUARDS
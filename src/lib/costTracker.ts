@@ -5,67 +5,21 @@
  * and in edge functions. Use this module to automatically log costs for AI operations.
  */
 
-// Cost estimates per operation (in USD)
-export const COST_ESTIMATES: Record<string, number> = {
-  // Text generation (LLMs)
-  'google/gemini-2.5-flash': 0.001,
-  'google/gemini-2.5-flash-lite': 0.0005,
-  'google/gemini-2.5-pro': 0.005,
-  'google/gemini-3-pro-preview': 0.006,
-  'openai/gpt-5': 0.01,
-  'openai/gpt-5-mini': 0.002,
-  'openai/gpt-5-nano': 0.0008,
-  'gemini': 0.001,
-  'chatgpt': 0.002,
-  
-  // Audio/Voice generation
-  'elevenlabs': 0.05,
-  'openai-tts': 0.03,
-  'playht': 0.02,
-  'deepgram': 0.01,
-  
-  // Image generation
-  'nano-banana': 0.02,
-  'google/gemini-2.5-flash-image': 0.02,
-  'google/gemini-3-pro-image-preview': 0.03,
-  'flux': 0.05,
-  'leonardo': 0.04,
-  'dall-e': 0.04,
-  'seedream': 0.03,
-  
-  // Video generation
-  'runway': 0.50,
-  'runway-gen-3': 0.50,
-  'sora': 0.75,
-  'sora-2': 0.80,
-  'sora-2-pro': 1.00,
-  'veo': 0.40,
-  'veo-3': 0.45,
-  'pika': 0.25,
-  'heygen': 0.60,
-  'hailuo': 0.15,
-  'luma': 0.30,
-  'kling': 0.35,
-  'kling-2.6': 0.40,
-  'minimax': 0.20,
-  'wan': 0.18,
-  'ovi': 0.15,
-  
-  // Talking actors
-  'arcads': 0.45,
-  'omnihuman': 0.55,
-  'd-id': 0.45,
-  'synthesia': 0.70,
-  
-  // Tools
-  'video-upscale': 0.10,
-  'image-upscale': 0.02,
-  'video-captions': 0.05,
-  'skin-enhancer': 0.03,
-  
-  // Default fallback
-  'default': 0.01,
-};
+import {
+  PRICING_CATALOG,
+  estimateOperationCost,
+  normalizePricingKey,
+  priceUsage,
+} from '@/lib/pricing';
+
+// Cost per typical operation (in USD), keyed by catalog id, model and
+// every alias. Derived from the pricing catalog; edit prices there.
+export const COST_ESTIMATES: Record<string, number> = Object.fromEntries([
+  ...PRICING_CATALOG.prices.flatMap(entry =>
+    [entry.id, entry.model, ...(entry.aliases || [])].map(key => [normalizePricingKey(key), estimateOperationCost(entry.id)])
+  ),
+  ['default', PRICING_CATALOG.fallbacks.default],
+]);
 
 export type ContentCategory = 'text' | 'audio' | 'image' | 'video' | 'tool';
 
@@ -93,32 +47,7 @@ export const STAGE_TO_CATEGORY: Record<string, ContentCategory> = {
  * Get estimated cost for an engine/operation
  */
 export function getEstimatedCost(engine: string, operationType?: string): number {
-  const normalizedEngine = engine.toLowerCase().replace(/[\s_]+/g, '-');
-  
-  // Direct match
-  if (COST_ESTIMATES[normalizedEngine]) {
-    return COST_ESTIMATES[normalizedEngine];
-  }
-  
-  // Partial match
-  for (const [key, cost] of Object.entries(COST_ESTIMATES)) {
-    if (normalizedEngine.includes(key.replace(/\//g, '-')) || 
-        key.includes(normalizedEngine) ||
-        normalizedEngine.includes(key.split('/').pop() || '')) {
-      return cost;
-    }
-  }
-  
-  // Fallback based on operation type
-  if (operationType) {
-    const opLower = operationType.toLowerCase();
-    if (opLower.includes('video') || opLower.includes('scene')) return 0.30;
-    if (opLower.includes('image') || opLower.includes('thumbnail')) return 0.03;
-    if (opLower.includes('audio') || opLower.includes('voice')) return 0.04;
-    if (opLower.includes('text') || opLower.includes('script') || opLower.includes('content')) return 0.002;
-  }
-  
-  return COST_ESTIMATES.default;
+  return estimateOperationCost(engine, operationType);
 }
 
 /**
@@ -164,7 +93,12 @@ export function createCostPayload(params: {
   customCost?: number;
   metadata?: Record<string, any>;
 }) {
-  const cost = params.customCost ?? getEstimatedCost(params.engineName, params.operationType);
+  // Custom costs are kept as-is and carry no catalog version
+  const fromCatalog = params.customCost === undefined;
+  const priced = priceUsage(params.engineName, {
+    operation_type: params.operationType,
+    duration_sec: params.durationSec,
+  });
   
   return {
     user_id: params.userId,
@@ -172,9 +106,10 @@ export function createCostPayload(params: {
     pipeline_stage: params.pipelineStage,
     engine_name: params.engineName,
     operation_type: params.operationType,
-    cost_usd: cost,
+    cost_usd: fromCatalog ? priced.cost_usd : params.customCost,
+    pricing_version: fromCatalog ? priced.pricing_version : null,
     tokens_used: params.tokensUsed || null,
     duration_sec: params.durationSec || null,
-    metadata: params.metadata || {},
+    metadata: fromCatalog ? { ...(params.metadata || {}), price_id: priced.price_id } : params.metadata || {},
   };
 }
@@ -0,0 +1,168 @@
+/**
+ * Creative Scale - Beat Sync
+ * Compiler pass: snap video cuts to the music's beat grid and lay the track
+ * under the timeline on the `music` audio track.
+ * Timing only: segment order, content and transitions are left as compiled.
+ */
+
+import {
+  DEFAULT_BEAT_SYNC_OPTIONS,
+  musicStartOffset,
+  nearestBeat,
+  toTimeline,
+  type BeatSyncOptions,
+  type MusicTrack,
+} from '@/lib/music';
+import type { AudioSegment, CompilerMusicOptions, TimelineSegment } from './compiler-types';
+
+const overlapOf = (segment?: TimelineSegment): number =>
+  segment?.transition_in && segment.transition_in.type !== 'cut' ? segment.transition_in.duration_ms : 0;
+
+/**
+ * Move every cut (the point where the next segment starts, or the end of the
+ * last segment) to the nearest beat within the tolerance by lengthening or
+ * shortening the segment before it. Later segments shift with it, so
+ * transition overlaps are kept exactly. A cut is left in place when the
+ * segment would have to read past the end of its source.
+ *
+ * @param beatsMs - Beats on the output timeline, sorted
+ * @param downbeatsMs - Downbeats on the output timeline, sorted
+ * @param sourceEndOf - Latest trim_end_ms the segment's source allows; by
+ *   default segments are never lengthened past their compiled trim
+ */
+export function snapTimelineToBeats(
+  timeline: TimelineSegment[],
+  beatsMs: number[],
+  downbeatsMs: number[],
+  options: BeatSyncOptions = DEFAULT_BEAT_SYNC_OPTIONS,
+  sourceEndOf: (segment: TimelineSegment) => number = segment => segment.trim_end_ms
+): { timeline: TimelineSegment[]; snapped: number } {
+  const video = timeline
+    .filter(segment => segment.track === 'video')
+    .sort((a, b) => a.timeline_start_ms - b.timeline_start_ms);
+  if (video.length === 0 || beatsMs.length === 0) return { timeline, snapped: 0 };
+
+  const snappedVideo: TimelineSegment[] = [];
+  let snapped = 0;
+
+  video.forEach((segment, i) => {
+    const previous = snappedVideo[i - 1];
+    const next = video[i + 1];
+    const start = previous ? previous.timeline_end_ms - overlapOf(segment) : segment.timeline_start_ms;
+
+    const cut = start + segment.output_duration_ms - overlapOf(next);
+    const target =
+      (options.prefer_downbeats ? nearestBeat(downbeatsMs, cut, options.snap_tolerance_ms) : null) ??
+      nearestBeat(beatsMs, cut, options.snap_tolerance_ms);
+
+    // Transitions may take at most half of either neighbour (see applyTransitions)
+    const minDuration = Math.max(options.min_segment_ms, 2 * overlapOf(segment), 2 * overlapOf(next));
+    let delta = target === null ? 0 : target - cut;
+    if (segment.output_duration_ms + delta < minDuration) delta = 0;
+
+    const sourceDelta = Math.round(delta * segment.speed_multiplier);
+    if (segment.trim_end_ms + sourceDelta <= segment.trim_start_ms) delta = 0;
+    if (segment.trim_end_ms + sourceDelta > Math.max(segment.trim_end_ms, sourceEndOf(segment))) delta = 0;
+    if (delta !== 0) snapped++;
+
+    const outputDuration = segment.output_duration_ms + delta;
+    const appliedSourceDelta = delta === 0 ? 0 : sourceDelta;
+    snappedVideo.push({
+      ...segment,
+      trim_end_ms: segment.trim_end_ms + appliedSourceDelta,
+      source_duration_ms: segment.source_duration_ms + appliedSourceDelta,
+      timeline_start_ms: start,
+      timeline_end_ms: start + outputDuration,
+      output_duration_ms: outputDuration,
+    });
+  });
+
+  const byId = new Map(snappedVideo.map(segment => [segment.segment_id, segment]));
+  return {
+    timeline: timeline.map(segment => byId.get(segment.segment_id) ?? segment),
+    snapped,
+  };
+}
+
+/**
+ * The track as an AudioSegment on the `music` track, starting at offsetMs
+ * into the song. Under a voiceover it plays at the ducked volume.
+ */
+export function buildMusicSegment(
+  track: MusicTrack,
+  offsetMs: number,
+  timelineDurationMs: number,
+  hasVoiceover: boolean,
+  options: BeatSyncOptions = DEFAULT_BEAT_SYNC_OPTIONS
+): AudioSegment {
+  const trackDurationMs = track.analysis?.duration_ms ?? offsetMs + timelineDurationMs;
+  const lengthMs = Math.max(0, Math.min(timelineDurationMs, trackDurationMs - offsetMs));
+
+  return {
+    audio_id: 'music_0',
+    source_video_id: track.id,
+    asset_url: track.url,
+
+    trim_start_ms: offsetMs,
+    trim_end_ms: offsetMs + lengthMs,
+
+    timeline_start_ms: 0,
+    timeline_end_ms: lengthMs,
+
+    volume: hasVoiceover ? options.ducked_volume : options.music_volume,
+    fade_in_ms: Math.min(options.fade_in_ms, Math.round(lengthMs / 4)),
+    fade_out_ms: Math.min(options.fade_out_ms, Math.round(lengthMs / 4)),
+
+    track: 'music',
+  };
+}
+
+/**
+ * Full pass used by the compiler: pick the song offset, snap the cuts, then
+ * build the music segment against the snapped duration.
+ */
+export function applyBeatSync(
+  timeline: TimelineSegment[],
+  music: CompilerMusicOptions,
+  hasVoiceover: boolean,
+  sourceEndOf?: (segment: TimelineSegment) => number
+): { timeline: TimelineSegment[]; music: AudioSegment; warnings: string[] } {
+  const options: BeatSyncOptions = { ...DEFAULT_BEAT_SYNC_OPTIONS, ...music.beat_sync };
+  const { track } = music;
+  const analysis = track.analysis;
+  const warnings: string[] = [];
+
+  const durationOf = (segments: TimelineSegment[]) =>
+    segments.reduce((end, segment) => Math.max(end, segment.timeline_end_ms), 0);
+
+  const plannedDuration = durationOf(timeline);
+  const offsetMs = analysis ? musicStartOffset(analysis, plannedDuration) : 0;
+
+  let synced = timeline;
+  if (!analysis) {
+    warnings.push(`Music ${track.id} has no analysis, cuts not synced to beats`);
+  } else if (music.snap_cuts === false) {
+    // Music bed only
+  } else if (analysis.beats_ms.length === 0 || analysis.tempo_confidence < options.min_tempo_confidence) {
+    warnings.push(`Music ${track.id} has no reliable beat (confidence ${analysis.tempo_confidence}), cuts not synced`);
+  } else {
+    // Leave room for the last cut to move later
+    const horizon = plannedDuration + options.snap_tolerance_ms;
+    const result = snapTimelineToBeats(
+      timeline,
+      toTimeline(analysis.beats_ms, offsetMs, horizon),
+      toTimeline(analysis.downbeats_ms, offsetMs, horizon),
+      options,
+      sourceEndOf
+    );
+    synced = result.timeline;
+    warnings.push(`Synced ${result.snapped} cut(s) to ${analysis.bpm} BPM music ${track.id}`);
+  }
+
+  const segment = buildMusicSegment(track, offsetMs, durationOf(synced), hasVoiceover, options);
+  if (segment.timeline_end_ms < durationOf(synced)) {
+    warnings.push(`Music ${track.id} ends at ${segment.timeline_end_ms}ms, before the video`);
+  }
+
+  return { timeline: synced, music: segment, warnings };
+}
@@ -14,6 +14,16 @@
  * Failure is FORBIDDEN.
  */
 
+import {
+  allocateBatch,
+  buildBanditStats,
+  matchArms,
+  type AllocationConfig,
+  type ArmPriors,
+  type BanditStats,
+} from '@/lib/bandit';
+import type { ArmObservations } from '@/lib/ad-performance/types';
+
 // ============================================
 // APPROVED STRATEGY POOL (Fallback Safe)
 // ============================================
@@ -38,6 +48,16 @@ export type HookType =
   | 'social_proof'
   | 'controversy';
 
+export const HOOK_TYPES: HookType[] = [
+  'question',
+  'statistic',
+  'bold_claim',
+  'pain_point',
+  'curiosity',
+  'social_proof',
+  'controversy'
+];
+
 export type PacingType = 'fast' | 'medium' | 'slow';
 export type ConfidenceLevel = 'high' | 'medium' | 'fallback';
 export type PlatformType = 'tiktok' | 'meta' | 'youtube' | 'snapchat';
@@ -320,6 +340,74 @@ export function makeBrainV2DeterministicDecision(
 
 export interface BrainV2BatchInput extends BrainV2Input {
   variation_count: number;
+  /**
+   * Past results per arm (ApprovedFramework / HookType ids), keyed by
+   * market (audience.country) and platform. When set, the batch is split
+   * by Thompson sampling instead of rotating frameworks.
+   */
+  allocation?: {
+    framework_stats?: BanditStats;
+    hook_stats?: BanditStats;
+    config?: Partial<AllocationConfig>;
+  };
+}
+
+/**
+ * Imported ad results → batch allocation over the approved frameworks and
+ * hook types. Undefined when none of the results use those arms, so the
+ * batch keeps rotating frameworks until real data exists.
+ */
+export function allocationFromObservations(
+  observations: ArmObservations
+): BrainV2BatchInput['allocation'] | undefined {
+  const frameworks = matchArms(observations.frameworks, APPROVED_FRAMEWORKS);
+  const hooks = matchArms(observations.hooks, HOOK_TYPES);
+  if (frameworks.length === 0 && hooks.length === 0) return undefined;
+  return {
+    framework_stats: buildBanditStats(frameworks),
+    hook_stats: buildBanditStats(hooks),
+  };
+}
+
+// Platform-preferred arms start one pseudo-win ahead
+function preferencePriors(preferred: readonly string[]): ArmPriors {
+  return Object.fromEntries(preferred.map(arm => [arm, { alpha: 1, beta: 0 }]));
+}
+
+function generateAllocatedVariations(
+  input: Partial<BrainV2BatchInput>,
+  count: number
+): BrainV2StrategyObject[] {
+  const platform = input.platform || 'tiktok';
+  const base = makeBrainV2DeterministicDecision(input);
+  const context = { market: input.audience?.country, platform };
+  const config = input.allocation?.config;
+  // The time-based fallback pick would make the allocation non-reproducible
+  const analytical = base.confidence_level !== 'fallback';
+
+  const frameworkPlan = allocateBatch(APPROVED_FRAMEWORKS, count, input.allocation?.framework_stats || {}, {
+    context,
+    config,
+    priors: preferencePriors([...PLATFORM_FRAMEWORK_PREFERENCES[platform], ...(analytical ? [base.framework] : [])])
+  });
+  const hookPlan = allocateBatch(HOOK_TYPES, count, input.allocation?.hook_stats || {}, {
+    context,
+    config,
+    priors: preferencePriors([...PLATFORM_HOOK_PREFERENCES[platform], ...(analytical ? [base.hook_type] : [])])
+  });
+
+  const reason = analytical ? base.decision_reason : `Insufficient analytical signals for ${platform}`;
+
+  return frameworkPlan.sequence.map((framework, i) => {
+    const hook = hookPlan.sequence[i] as HookType;
+    const frameworkStats = frameworkPlan.allocations.find(a => a.arm === framework)!;
+    return {
+      ...base,
+      framework: framework as ApprovedFramework,
+      hook_type: hook,
+      decision_reason: `${reason}. Allocated ${frameworkStats.count}/${count} to ${framework} (P(best) ${Math.round(frameworkStats.probability_best * 100)}%, ${frameworkStats.observed_trials} past results), ${hook} hook`
+    };
+  });
 }
 
 /**
@@ -330,6 +418,15 @@ export function generateBrainV2Variations(
   input: Partial<BrainV2BatchInput> = {}
 ): BrainV2StrategyObject[] {
   const count = Math.max(1, Math.min(input.variation_count || 3, 10));
+
+  if (input.allocation) {
+    try {
+      return generateAllocatedVariations(input, count);
+    } catch (error) {
+      console.warn(`[Brain V2] Allocation failed, rotating frameworks: ${error}`);
+    }
+  }
+
   const strategies: BrainV2StrategyObject[] = [];
   
   // Generate variations with slight input variations
@@ -34,6 +34,8 @@ import type {
   OptimizationGoal,
   RiskTolerance,
   ScoringWeights,
+  FrameworkPrior,
+  LearnedBrainModel,
   VideoAnalysisSignals,
   ExtractedSignals,
   FrameworkDecision,
@@ -792,19 +794,49 @@ function generateActionsForFramework(
 // SCORING ENGINE
 // ============================================
 
-const GOAL_WEIGHTS: Record<OptimizationGoal, ScoringWeights> = {
+export const GOAL_WEIGHTS: Record<OptimizationGoal, ScoringWeights> = {
   retention: { impact_weight: 1.2, risk_penalty: 0.8, cost_penalty: 0.3, trust_bonus: 0.2 },
   ctr: { impact_weight: 1.0, risk_penalty: 0.6, cost_penalty: 0.4, trust_bonus: 0.3 },
   conversions: { impact_weight: 0.9, risk_penalty: 0.9, cost_penalty: 0.5, trust_bonus: 0.4 }
 };
 
+const MIN_PRIOR_SAMPLES = 3;
+
+/**
+ * Most specific learned prior with enough samples: market, then the
+ * problems this candidate solves (sample-weighted), then global.
+ */
+function resolveLearnedConfidence(
+  model: LearnedBrainModel,
+  candidate: StrategyCandidate,
+  market?: string
+): number | null {
+  const marketPrior = market ? model.market_priors[market]?.[candidate.framework] : undefined;
+  if (marketPrior && marketPrior.samples >= MIN_PRIOR_SAMPLES) return marketPrior.mean;
+
+  const problemPriors = candidate.solves
+    .map(problem => model.problem_priors[problem]?.[candidate.framework])
+    .filter((prior): prior is FrameworkPrior => !!prior);
+  const problemSamples = problemPriors.reduce((sum, prior) => sum + prior.samples, 0);
+  if (problemSamples >= MIN_PRIOR_SAMPLES) {
+    return problemPriors.reduce((sum, prior) => sum + prior.mean * prior.samples, 0) / problemSamples;
+  }
+
+  const globalPrior = model.framework_priors[candidate.framework];
+  if (globalPrior && globalPrior.samples >= MIN_PRIOR_SAMPLES) return globalPrior.mean;
+
+  return null;
+}
+
 export function scoreStrategies(
   candidates: StrategyCandidate[],
   problems: DetectedProblem[],
   goal: OptimizationGoal,
-  historicalContext?: BrainInput['historical_context']
+  historicalContext?: BrainInput['historical_context'],
+  learnedModel?: LearnedBrainModel,
+  market?: string
 ): ScoredStrategy[] {
-  const weights = GOAL_WEIGHTS[goal];
+  const weights = learnedModel?.weights[goal] ?? GOAL_WEIGHTS[goal];
   const scoredStrategies: ScoredStrategy[] = [];
 
   for (const candidate of candidates) {
@@ -812,7 +844,10 @@ export function scoreStrategies(
     const impact = solvedProblems.reduce((sum, p) => sum + p.severity, 0) / Math.max(1, problems.length);
 
     let confidence = 0.5;
-    if (historicalContext?.past_strategies) {
+    const learnedConfidence = learnedModel ? resolveLearnedConfidence(learnedModel, candidate, market) : null;
+    if (learnedConfidence !== null) {
+      confidence = learnedConfidence;
+    } else if (historicalContext?.past_strategies) {
       const pastUsage = historicalContext.past_strategies.filter(
         s => s.framework === candidate.framework
       );
@@ -1083,7 +1118,9 @@ export function runBrainV2(
     candidates,
     problemOutput.problems,
     input.optimization_goal,
-    input.historical_context
+    input.historical_context,
+    input.learned_model,
+    input.audience_context?.market
   );
 
   // Layer 4: Select & Diversify
@@ -1129,7 +1166,15 @@ export function runBrainV2(
       learning_hooks: {
         framework_used: selection.selected_strategy.framework,
         problems_solved: selection.selected_strategy.solves,
-        confidence: scored.confidence_score
+        confidence: scored.confidence_score,
+        optimization_goal: input.optimization_goal,
+        market: input.audience_context?.market,
+        score_features: {
+          impact: scored.impact_score,
+          risk: scored.risk_score,
+          cost: scored.cost_score,
+          confidence: scored.confidence_score
+        }
       },
       detected_problems: problemOutput.problems,
       all_candidates: candidates,
@@ -0,0 +1,322 @@
+/**
+ * AI Brain v2 - Outcome Learner
+ *
+ * Fits per-user (or per-project) scoring weights and framework priors from
+ * recorded StrategyOutcomes. Pure and deterministic: outcomes are ordered by
+ * strategy_id before fitting, so the same history always yields the same model.
+ *
+ * Reward (0-1):
+ * - Outcomes with live metrics: percentile rank of CTR (or CVR when the goal
+ *   was conversions) among outcomes with enough impressions
+ * - Otherwise: downloaded and kept = 1, downloaded then regenerated = 0.5,
+ *   regenerated without download = 0.25, ignored = 0
+ */
+
+import { GOAL_WEIGHTS } from './brain-v2-engine';
+import type {
+  CreativeBlueprintV2,
+  FrameworkPriors,
+  FrameworkType,
+  LearnedBrainModel,
+  OptimizationGoal,
+  ProblemType,
+  ScoringWeights,
+  StrategyOutcome,
+} from './brain-v2-types';
+
+export const LEARNED_MODEL_VERSION = 1;
+
+const MIN_METRIC_IMPRESSIONS = 500; // Below this CTR/CVR is noise
+const MIN_WEIGHT_SAMPLES = 8;       // Per goal, before weights move at all
+const RIDGE_LAMBDA = 6;             // Pull toward GOAL_WEIGHTS, in samples
+const WEIGHT_RANGE: [number, number] = [0.05, 2];
+
+// ============================================
+// REWARD
+// ============================================
+
+function engagementReward(outcome: StrategyOutcome): number {
+  if (outcome.was_downloaded) return outcome.was_regenerated ? 0.5 : 1;
+  return outcome.was_regenerated ? 0.25 : 0;
+}
+
+function metricValue(outcome: StrategyOutcome): { key: 'ctr' | 'cvr'; value: number } | null {
+  const metrics = outcome.metrics;
+  if (!metrics || metrics.impressions < MIN_METRIC_IMPRESSIONS) return null;
+  if (outcome.optimization_goal === 'conversions' && metrics.clicks > 0) {
+    return { key: 'cvr', value: metrics.cvr };
+  }
+  return { key: 'ctr', value: metrics.ctr };
+}
+
+/**
+ * Percentile rank (ties share the mid rank) within each metric, so CTR and CVR
+ * outcomes land on the same 0-1 scale as engagement rewards.
+ */
+export function computeRewards(outcomes: StrategyOutcome[]): Map<string, number> {
+  const rewards = new Map<string, number>();
+  const byMetric: Record<'ctr' | 'cvr', Array<{ id: string; value: number }>> = { ctr: [], cvr: [] };
+
+  for (const outcome of outcomes) {
+    const metric = metricValue(outcome);
+    if (metric) {
+      byMetric[metric.key].push({ id: outcome.strategy_id, value: metric.value });
+    } else {
+      rewards.set(outcome.strategy_id, engagementReward(outcome));
+    }
+  }
+
+  for (const entries of Object.values(byMetric)) {
+    const n = entries.length;
+    for (const entry of entries) {
+      const below = entries.filter(e => e.value < entry.value).length;
+      const equal = entries.filter(e => e.value === entry.value).length;
+      rewards.set(entry.id, n === 1 ? 0.5 : (below + (equal - 1) / 2) / (n - 1));
+    }
+  }
+
+  return rewards;
+}
+
+// ============================================
+// FRAMEWORK PRIORS
+// ============================================
+
+/**
+ * Beta(1, 1) prior updated with fractional rewards
+ */
+function fitPriors(samples: Array<{ framework: FrameworkType; reward: number }>): FrameworkPriors {
+  const totals: Partial<Record<FrameworkType, { reward: number; n: number }>> = {};
+  for (const { framework, reward } of samples) {
+    const total = totals[framework] || { reward: 0, n: 0 };
+    total.reward += reward;
+    total.n += 1;
+    totals[framework] = total;
+  }
+
+  const priors: FrameworkPriors = {};
+  for (const framework of Object.keys(totals).sort() as FrameworkType[]) {
+    const { reward, n } = totals[framework]!;
+    priors[framework] = { mean: round((1 + reward) / (2 + n)), samples: n };
+  }
+  return priors;
+}
+
+function groupBy<K extends string>(
+  items: Array<{ key: K; framework: FrameworkType; reward: number }>
+): Partial<Record<K, FrameworkPriors>> {
+  const groups = new Map<K, Array<{ framework: FrameworkType; reward: number }>>();
+  for (const item of items) {
+    const list = groups.get(item.key) || [];
+    list.push(item);
+    groups.set(item.key, list);
+  }
+
+  const result: Partial<Record<K, FrameworkPriors>> = {};
+  for (const key of [...groups.keys()].sort()) {
+    result[key] = fitPriors(groups.get(key)!);
+  }
+  return result;
+}
+
+// ============================================
+// WEIGHTS (Ridge Regression Toward Defaults)
+// ============================================
+
+// Regression coefficients use the score's signs: +impact, -risk, -cost, +confidence
+function toCoefficients(weights: ScoringWeights): number[] {
+  return [weights.impact_weight, -weights.risk_penalty, -weights.cost_penalty, weights.trust_bonus];
+}
+
+function fromCoefficients(coefficients: number[]): ScoringWeights {
+  const clamp = (v: number) => round(Math.min(WEIGHT_RANGE[1], Math.max(WEIGHT_RANGE[0], v)));
+  return {
+    impact_weight: clamp(coefficients[0]),
+    risk_penalty: clamp(-coefficients[1]),
+    cost_penalty: clamp(-coefficients[2]),
+    trust_bonus: clamp(coefficients[3]),
+  };
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Minimize |Xw - y|² + λ|w - w0|² on centered features and rewards. Few
+ * samples keep the defaults; consistent evidence moves them.
+ */
+function fitWeights(
+  samples: Array<{ features: number[]; reward: number }>,
+  defaults: ScoringWeights
+): ScoringWeights | null {
+  if (samples.length < MIN_WEIGHT_SAMPLES) return null;
+
+  const dims = 4;
+  const n = samples.length;
+  const featureMeans = Array.from({ length: dims }, (_, j) => samples.reduce((s, x) => s + x.features[j], 0) / n);
+  const rewardMean = samples.reduce((s, x) => s + x.reward, 0) / n;
+  const prior = toCoefficients(defaults);
+
+  // Rewards are 0-1 while default weights are ~1: scale rewards to the
+  // spread of default scores so λ trades off like for like
+  const defaultScores = samples.map(x => x.features.reduce((s, f, j) => s + f * prior[j], 0));
+  const scoreMean = defaultScores.reduce((s, v) => s + v, 0) / n;
+  const scoreSpread = Math.sqrt(defaultScores.reduce((s, v) => s + (v - scoreMean) ** 2, 0) / n);
+  const rewardSpread = Math.sqrt(samples.reduce((s, x) => s + (x.reward - rewardMean) ** 2, 0) / n);
+  if (scoreSpread < 1e-9 || rewardSpread < 1e-9) return null;
+  const scale = scoreSpread / rewardSpread;
+
+  const xtx = Array.from({ length: dims }, () => new Array(dims).fill(0));
+  const xty = new Array(dims).fill(0);
+  for (const sample of samples) {
+    const x = sample.features.map((f, j) => f - featureMeans[j]);
+    const y = (sample.reward - rewardMean) * scale;
+    for (let i = 0; i < dims; i++) {
+      xty[i] += x[i] * y;
+      for (let j = 0; j < dims; j++) xtx[i][j] += x[i] * x[j];
+    }
+  }
+  for (let i = 0; i < dims; i++) {
+    xtx[i][i] += RIDGE_LAMBDA;
+    xty[i] += RIDGE_LAMBDA * prior[i];
+  }
+
+  const coefficients = solveLinear(xtx, xty);
+  return coefficients ? fromCoefficients(coefficients) : null;
+}
+
+// ============================================
+// TRAINING
+// ============================================
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * FNV-1a over the fields the model depends on
+ */
+export function hashHistory(outcomes: StrategyOutcome[]): string {
+  const text = JSON.stringify(
+    [...outcomes]
+      .sort((a, b) => a.strategy_id.localeCompare(b.strategy_id))
+      .map(o => [
+        o.strategy_id,
+        o.framework,
+        o.was_downloaded,
+        o.was_regenerated,
+        o.market ?? null,
+        o.optimization_goal ?? null,
+        o.problems_solved ?? null,
+        o.score_features ?? null,
+        o.metrics ? [o.metrics.impressions, o.metrics.clicks, o.metrics.conversions] : null,
+      ])
+  );
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * First record per strategy (callers pass newest first), ordered by id
+ */
+export function latestOutcomes(outcomes: StrategyOutcome[]): StrategyOutcome[] {
+  const unique = new Map<string, StrategyOutcome>();
+  for (const outcome of outcomes) {
+    if (!unique.has(outcome.strategy_id)) unique.set(outcome.strategy_id, outcome);
+  }
+  return [...unique.values()].sort((a, b) => a.strategy_id.localeCompare(b.strategy_id));
+}
+
+export function trainBrainModel(
+  outcomes: StrategyOutcome[],
+  scope: LearnedBrainModel['scope']
+): LearnedBrainModel {
+  const ordered = latestOutcomes(outcomes);
+  const rewards = computeRewards(ordered);
+  const rewardOf = (o: StrategyOutcome) => rewards.get(o.strategy_id) ?? 0;
+
+  const weights: LearnedBrainModel['weights'] = {};
+  for (const goal of Object.keys(GOAL_WEIGHTS).sort() as OptimizationGoal[]) {
+    const samples = ordered
+      .filter(o => o.optimization_goal === goal && o.score_features)
+      .map(o => {
+        const f = o.score_features!;
+        return { features: [f.impact, f.risk, f.cost, f.confidence], reward: rewardOf(o) };
+      });
+    const fitted = fitWeights(samples, GOAL_WEIGHTS[goal]);
+    if (fitted) weights[goal] = fitted;
+  }
+
+  const marketSamples = ordered
+    .filter(o => o.market)
+    .map(o => ({ key: o.market!, framework: o.framework, reward: rewardOf(o) }));
+  const problemSamples = ordered.flatMap(o =>
+    (o.problems_solved || []).map(problem => ({ key: problem, framework: o.framework, reward: rewardOf(o) }))
+  );
+
+  return {
+    version: LEARNED_MODEL_VERSION,
+    scope,
+    sample_count: ordered.length,
+    history_hash: hashHistory(ordered),
+    weights,
+    framework_priors: fitPriors(ordered.map(o => ({ framework: o.framework, reward: rewardOf(o) }))),
+    market_priors: groupBy(marketSamples) as Record<string, FrameworkPriors>,
+    problem_priors: groupBy<ProblemType>(problemSamples),
+  };
+}
+
+// ============================================
+// BLUEPRINT → OUTCOME
+// ============================================
+
+/**
+ * Turn a blueprint's learning_hooks plus what the user did with it into an
+ * outcome the learner can consume.
+ */
+export function outcomeFromBlueprint(
+  blueprint: CreativeBlueprintV2,
+  result: Pick<StrategyOutcome, 'was_downloaded' | 'was_regenerated' | 'metrics' | 'recorded_at'>
+): StrategyOutcome {
+  const hooks = blueprint.learning_hooks;
+  return {
+    strategy_id: blueprint.variation_id,
+    framework: hooks.framework_used,
+    market: hooks.market,
+    optimization_goal: hooks.optimization_goal,
+    problems_solved: hooks.problems_solved,
+    score_features: hooks.score_features,
+    ...result,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * AI Brain v2 - Learned Model Persistence
+ *
+ * Outcomes come from two places: blueprint results recorded here
+ * (learning_hooks + download/regenerate) and imported ad performance.
+ * The fitted model is stored in ai_learnings, one row per user/project scope,
+ * and is only retrained when the outcome history changes.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { loadHistoricalContext } from '@/lib/ad-performance/outcomes';
+import {
+  LEARNED_MODEL_VERSION,
+  hashHistory,
+  latestOutcomes,
+  outcomeFromBlueprint,
+  trainBrainModel,
+} from './brain-v2-learner';
+import type { BrainInput, CreativeBlueprintV2, LearnedBrainModel, StrategyOutcome } from './brain-v2-types';
+
+export const BRAIN_MODEL_LEARNING_TYPE = 'brain_v2_model';
+export const BRAIN_OUTCOME_EVENT = 'brain_v2_outcome';
+
+const HISTORY_LIMIT = 2000;
+
+export interface LearningScope {
+  userId: string;
+  projectId?: string | null;
+}
+
+/**
+ * Record what the user did with a blueprint so the learner can use it
+ */
+export async function recordBlueprintOutcome(
+  scope: LearningScope,
+  blueprint: CreativeBlueprintV2,
+  result: Pick<StrategyOutcome, 'was_downloaded' | 'was_regenerated'>
+): Promise<void> {
+  const outcome = outcomeFromBlueprint(blueprint, { ...result, recorded_at: new Date().toISOString() });
+
+  const { error } = await supabase.from('analytics_events').insert({
+    user_id: scope.userId,
+    project_id: scope.projectId ?? null,
+    event_type: BRAIN_OUTCOME_EVENT,
+    event_data: outcome as unknown as Json,
+  });
+  if (error) throw new Error(`Failed to record blueprint outcome: ${error.message}`);
+}
+
+async function loadBlueprintOutcomes(scope: LearningScope): Promise<StrategyOutcome[]> {
+  let query = supabase
+    .from('analytics_events')
+    .select('event_data')
+    .eq('user_id', scope.userId)
+    .eq('event_type', BRAIN_OUTCOME_EVENT)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (scope.projectId) query = query.eq('project_id', scope.projectId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load blueprint outcomes: ${error.message}`);
+
+  return (data || [])
+    .map(event => event.event_data as unknown as StrategyOutcome | null)
+    .filter((outcome): outcome is StrategyOutcome => !!outcome?.strategy_id && !!outcome.framework);
+}
+
+/**
+ * All outcomes for the scope, newest first. The latest record per strategy wins.
+ */
+export async function loadStrategyOutcomes(scope: LearningScope): Promise<StrategyOutcome[]> {
+  const [blueprintOutcomes, performance] = await Promise.all([
+    loadBlueprintOutcomes(scope),
+    loadHistoricalContext(scope.userId, { projectId: scope.projectId, limit: HISTORY_LIMIT }),
+  ]);
+
+  return [...performance.past_strategies, ...blueprintOutcomes].sort((a, b) =>
+    (b.recorded_at || '').localeCompare(a.recorded_at || '') || a.strategy_id.localeCompare(b.strategy_id)
+  );
+}
+
+async function findModelRow(scope: LearningScope) {
+  const { data, error } = await supabase
+    .from('ai_learnings')
+    .select('id, insight, usage_count')
+    .eq('user_id', scope.userId)
+    .eq('learning_type', BRAIN_MODEL_LEARNING_TYPE)
+    .contains('context', { project_id: scope.projectId ?? null })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load learned model: ${error.message}`);
+  return data;
+}
+
+export async function saveLearnedModel(model: LearnedBrainModel): Promise<void> {
+  const scope = { userId: model.scope.user_id, projectId: model.scope.project_id };
+  const existing = await findModelRow(scope);
+  // More samples → more trust in the model
+  const confidence = Math.min(0.95, model.sample_count / (model.sample_count + 20));
+
+  const { error } = existing
+    ? await supabase
+        .from('ai_learnings')
+        .update({ insight: model as unknown as Json, confidence_score: confidence })
+        .eq('id', existing.id)
+    : await supabase.from('ai_learnings').insert({
+        user_id: model.scope.user_id,
+        learning_type: BRAIN_MODEL_LEARNING_TYPE,
+        context: { project_id: model.scope.project_id },
+        insight: model as unknown as Json,
+        confidence_score: confidence,
+      });
+  if (error) throw new Error(`Failed to save learned model: ${error.message}`);
+}
+
+/**
+ * Stored model for the scope, retrained and saved when the history changed.
+ * Returns null when there is no history yet.
+ */
+export async function refreshLearnedModel(scope: LearningScope): Promise<LearnedBrainModel | null> {
+  const outcomes = await loadStrategyOutcomes(scope);
+  if (outcomes.length === 0) return null;
+
+  const existing = await findModelRow(scope);
+  const stored = existing?.insight as unknown as LearnedBrainModel | null;
+  if (stored?.version === LEARNED_MODEL_VERSION && stored.history_hash === hashHistory(latestOutcomes(outcomes))) {
+    await supabase
+      .from('ai_learnings')
+      .update({ usage_count: (existing?.usage_count || 0) + 1, last_used_at: new Date().toISOString() })
+      .eq('id', existing!.id);
+    return stored;
+  }
+
+  const model = trainBrainModel(outcomes, { user_id: scope.userId, project_id: scope.projectId ?? null });
+  await saveLearnedModel(model);
+  return model;
+}
+
+/**
+ * Brain V2 input with the scope's learned model attached, for runBrainV2
+ */
+export async function withLearnedModel(input: BrainInput, scope: LearningScope): Promise<BrainInput> {
+  const model = await refreshLearnedModel(scope);
+  if (!model) return input;
+  return { ...input, learned_model: model };
+}
@@ -23,11 +23,30 @@ export interface UserConstraints {
   forbidden_actions?: ActionType[];
 }
 
+export interface OutcomeMetrics {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  ctr: number; // clicks / impressions
+  cvr: number; // conversions / clicks
+}
+
 export interface StrategyOutcome {
   strategy_id: string;
   framework: FrameworkType;
   was_downloaded: boolean;
   was_regenerated: boolean;
+  // Live results, present when ad platform performance was imported
+  platform?: string;
+  market?: string;
+  hook_style?: string;
+  metrics?: OutcomeMetrics;
+  recorded_at?: string; // Last reporting day
+  // Decision context, present when the outcome came from a blueprint's learning_hooks
+  optimization_goal?: OptimizationGoal;
+  problems_solved?: ProblemType[];
+  score_features?: ScoreFeatures;
 }
 
 export interface HistoricalContext {
@@ -48,6 +67,7 @@ export interface BrainInput {
   audience_context?: AudienceContext;
   user_constraints?: UserConstraints;
   historical_context?: HistoricalContext;
+  learned_model?: LearnedBrainModel;
 }
 
 // ============================================
@@ -209,6 +229,14 @@ export interface ScoringWeights {
   trust_bonus: number;
 }
 
+// Raw scoring inputs of a strategy, before weights are applied
+export interface ScoreFeatures {
+  impact: number;
+  risk: number;
+  cost: number;
+  confidence: number;
+}
+
 export interface ScoredStrategy {
   strategy_id: string;
   framework: FrameworkType;
@@ -256,12 +284,40 @@ export interface CreativeBlueprintV2 {
     framework_used: FrameworkType;
     problems_solved: ProblemType[];
     confidence: number;
+    optimization_goal?: OptimizationGoal;
+    market?: AudienceContext['market'];
+    score_features?: ScoreFeatures;
   };
   detected_problems: DetectedProblem[];
   all_candidates: StrategyCandidate[];
   scoring_details: ScoredStrategy[];
 }
 
+// ============================================
+// LEARNING (Fitted From Outcomes)
+// ============================================
+
+export interface FrameworkPrior {
+  mean: number; // Beta posterior mean of the outcome reward, 0-1
+  samples: number;
+}
+
+export type FrameworkPriors = Partial<Record<FrameworkType, FrameworkPrior>>;
+
+export interface LearnedBrainModel {
+  version: number;
+  scope: {
+    user_id: string;
+    project_id: string | null;
+  };
+  sample_count: number;
+  history_hash: string; // Same history → same hash → same model
+  weights: Partial<Record<OptimizationGoal, ScoringWeights>>; // Only goals with enough samples
+  framework_priors: FrameworkPriors;
+  market_priors: Record<string, FrameworkPriors>;
+  problem_priors: Partial<Record<ProblemType, FrameworkPriors>>;
+}
+
 // ============================================
 // FAILURE MODES (Valid Outputs)
 // ============================================
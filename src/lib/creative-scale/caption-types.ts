@@ -0,0 +1,106 @@
+/**
+ * Creative Scale - Caption Types
+ * Captions re-timed from VideoAnalysis transcripts onto an ExecutionPlan timeline
+ * Times are OUTPUT timeline milliseconds unless stated otherwise
+ */
+
+import type { PlatformType } from './marketing-frameworks';
+
+// ============================================
+// CAPTION TRACK
+// ============================================
+
+export type CaptionFormat = 'srt' | 'vtt' | 'ass';
+
+export interface CaptionWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface CaptionCue {
+  cue_id: string;
+  start_ms: number;
+  end_ms: number;
+  lines: string[];
+  words: CaptionWord[];
+  source_segment_id: string; // VideoSegment the words came from
+}
+
+export interface CaptionTrack {
+  track_id: string;
+  plan_id: string;
+  language: string;
+  rtl: boolean;
+  cues: CaptionCue[];
+}
+
+// ============================================
+// LAYOUT & STYLE
+// ============================================
+
+export interface CaptionLayoutOptions {
+  max_chars_per_line: number;
+  max_lines: number;
+  min_cue_ms: number;
+  max_cue_ms: number;
+  max_word_gap_ms: number; // A longer pause starts a new cue
+}
+
+export type CaptionPosition = 'bottom' | 'center' | 'top';
+
+export interface CaptionStyle {
+  font_size_ratio: number; // Fraction of output height
+  color: string; // hex
+  box: boolean;
+  box_color: string; // hex
+  font_file?: string;
+  position: CaptionPosition;
+}
+
+/**
+ * Fractions of the frame covered by platform UI (buttons, captions, profile)
+ */
+export interface SafeArea {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface CaptionBurnInOptions {
+  platform: PlatformType;
+  style?: Partial<CaptionStyle>;
+  layout?: Partial<CaptionLayoutOptions>;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_CAPTION_LAYOUT: CaptionLayoutOptions = {
+  max_chars_per_line: 32,
+  max_lines: 2,
+  min_cue_ms: 700,
+  max_cue_ms: 3500,
+  max_word_gap_ms: 600,
+};
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  font_size_ratio: 0.035,
+  color: '#FFFFFF',
+  box: true,
+  box_color: '#000000',
+  position: 'bottom',
+};
+
+// Vertical (9:16) UI chrome per platform
+export const PLATFORM_SAFE_AREAS: Record<PlatformType, SafeArea> = {
+  tiktok: { top: 0.10, bottom: 0.22, left: 0.05, right: 0.15 },
+  meta: { top: 0.14, bottom: 0.20, left: 0.05, right: 0.12 },
+  snapchat: { top: 0.10, bottom: 0.20, left: 0.05, right: 0.10 },
+  youtube: { top: 0.10, bottom: 0.25, left: 0.05, right: 0.15 },
+};
+
+// Landscape / square frames carry little platform chrome
+export const DEFAULT_SAFE_AREA: SafeArea = { top: 0.05, bottom: 0.08, left: 0.05, right: 0.05 };
@@ -0,0 +1,403 @@
+/**
+ * Creative Scale - Captions
+ * VideoAnalysis transcripts → CaptionTrack re-timed to an ExecutionPlan
+ * Pure functions: export to SRT / WebVTT / ASS, or burn in as TextOverlays
+ */
+
+import type { VideoAnalysis, VideoSegment } from './types';
+import type { ExecutionPlan, OutputFormat, TextOverlay, TimelineSegment } from './compiler-types';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { isRTL } from '@/lib/audience/countries';
+import {
+  CaptionWord,
+  CaptionCue,
+  CaptionTrack,
+  CaptionFormat,
+  CaptionLayoutOptions,
+  CaptionStyle,
+  CaptionBurnInOptions,
+  SafeArea,
+  DEFAULT_CAPTION_LAYOUT,
+  DEFAULT_CAPTION_STYLE,
+  DEFAULT_SAFE_AREA,
+  PLATFORM_SAFE_AREAS,
+} from './caption-types';
+
+interface SourceWord extends CaptionWord {
+  segment_id: string;
+}
+
+const SENTENCE_END = /[.!?؟。…]$/;
+
+// ============================================
+// SOURCE WORD TIMING
+// ============================================
+
+/**
+ * Spread a segment transcript across the segment's source time range,
+ * weighting each word by its length (segment-level transcripts carry no
+ * word timing).
+ */
+function estimateSegmentWords(segment: VideoSegment): SourceWord[] {
+  const tokens = (segment.transcript || '').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const durationMs = segment.end_ms - segment.start_ms;
+  const weights = tokens.map(token => token.length + 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  let cursor = segment.start_ms;
+  return tokens.map((text, i) => {
+    const length = (weights[i] / totalWeight) * durationMs;
+    const word: SourceWord = {
+      text,
+      start_ms: Math.round(cursor),
+      end_ms: Math.round(cursor + length),
+      segment_id: segment.id,
+    };
+    cursor += length;
+    return word;
+  });
+}
+
+/**
+ * Aligned word timings where the analysis has them, estimates elsewhere
+ */
+function getSourceWords(analysis: VideoAnalysis): SourceWord[] {
+  const aligned = new Map<string, SourceWord[]>();
+  for (const word of analysis.words || []) {
+    const list = aligned.get(word.segment_id) || [];
+    list.push({ text: word.text, start_ms: word.start_ms, end_ms: word.end_ms, segment_id: word.segment_id });
+    aligned.set(word.segment_id, list);
+  }
+
+  return analysis.segments.flatMap(segment => {
+    const words = aligned.get(segment.id);
+    return words ? [...words].sort((a, b) => a.start_ms - b.start_ms) : estimateSegmentWords(segment);
+  });
+}
+
+// ============================================
+// RE-TIMING
+// ============================================
+
+/**
+ * Map source words onto the output timeline through each kept segment's
+ * trim window and speed. Words whose midpoint falls outside a trim window
+ * were cut and are dropped; replaced segments contribute no words.
+ */
+function retimeWords(
+  words: SourceWord[],
+  timeline: TimelineSegment[],
+  sourceVideoId: string
+): SourceWord[] {
+  const retimed: SourceWord[] = [];
+
+  const videoSegments = timeline
+    .filter(seg => seg.track === 'video' && seg.source_video_id === sourceVideoId)
+    .sort((a, b) => a.timeline_start_ms - b.timeline_start_ms);
+
+  for (const seg of videoSegments) {
+    const speed = seg.speed_multiplier > 0 ? seg.speed_multiplier : 1;
+    const toTimeline = (sourceMs: number) =>
+      Math.round(seg.timeline_start_ms + (sourceMs - seg.trim_start_ms) / speed);
+
+    for (const word of words) {
+      if (word.segment_id !== seg.source_segment_id) continue;
+
+      const midpoint = (word.start_ms + word.end_ms) / 2;
+      if (midpoint < seg.trim_start_ms || midpoint >= seg.trim_end_ms) continue;
+
+      retimed.push({
+        text: word.text,
+        segment_id: word.segment_id,
+        start_ms: toTimeline(Math.max(word.start_ms, seg.trim_start_ms)),
+        end_ms: toTimeline(Math.min(word.end_ms, seg.trim_end_ms)),
+      });
+    }
+  }
+
+  return retimed;
+}
+
+// ============================================
+// CUE LAYOUT
+// ============================================
+
+/** Greedy word wrap; a single over-long word gets its own line */
+export function wrapCaptionLines(words: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+function buildCues(words: SourceWord[], layout: CaptionLayoutOptions): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let pending: SourceWord[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    cues.push({
+      cue_id: `cue_${cues.length}`,
+      start_ms: pending[0].start_ms,
+      end_ms: pending[pending.length - 1].end_ms,
+      lines: wrapCaptionLines(pending.map(w => w.text), layout.max_chars_per_line),
+      words: pending.map(({ text, start_ms, end_ms }) => ({ text, start_ms, end_ms })),
+      source_segment_id: pending[0].segment_id,
+    });
+    pending = [];
+  };
+
+  for (const word of words) {
+    if (pending.length > 0) {
+      const first = pending[0];
+      const last = pending[pending.length - 1];
+      const fits = wrapCaptionLines(
+        [...pending, word].map(w => w.text),
+        layout.max_chars_per_line
+      ).length <= layout.max_lines;
+
+      if (
+        word.segment_id !== first.segment_id ||
+        word.start_ms - last.end_ms > layout.max_word_gap_ms ||
+        word.end_ms - first.start_ms > layout.max_cue_ms ||
+        !fits
+      ) {
+        flush();
+      }
+    }
+
+    pending.push(word);
+
+    const cueDuration = word.end_ms - pending[0].start_ms;
+    if (SENTENCE_END.test(word.text) && cueDuration >= layout.min_cue_ms) {
+      flush();
+    }
+  }
+  flush();
+
+  // Never overlap the next cue; stretch short cues into free time
+  for (let i = 0; i < cues.length; i++) {
+    const nextStart = cues[i + 1]?.start_ms ?? Infinity;
+    const minEnd = cues[i].start_ms + layout.min_cue_ms;
+    cues[i].end_ms = Math.min(Math.max(cues[i].end_ms, minEnd), nextStart);
+  }
+
+  return cues;
+}
+
+function normalizeLanguage(language: string | undefined): string {
+  return (language || 'en').toLowerCase().split(/[-_]/)[0];
+}
+
+// ============================================
+// MAIN BUILDER
+// ============================================
+
+/**
+ * Build the caption track for a compiled plan from its source analysis.
+ */
+export function buildCaptionTrack(
+  plan: ExecutionPlan,
+  analysis: VideoAnalysis,
+  layout: Partial<CaptionLayoutOptions> = {}
+): CaptionTrack {
+  const options = { ...DEFAULT_CAPTION_LAYOUT, ...layout };
+  const language = normalizeLanguage(analysis.detected_language);
+
+  const words = retimeWords(getSourceWords(analysis), plan.timeline, analysis.source_video_id);
+  const totalMs = plan.validation.total_duration_ms;
+  const cues = buildCues(words, options)
+    .filter(cue => cue.start_ms < totalMs)
+    .map(cue => ({ ...cue, end_ms: Math.min(cue.end_ms, totalMs) }));
+
+  return {
+    track_id: `cap_${plan.plan_id}`,
+    plan_id: plan.plan_id,
+    language,
+    rtl: isRTL(language),
+    cues,
+  };
+}
+
+// ============================================
+// EXPORTERS
+// ============================================
+
+function pad(value: number | string, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function splitTime(ms: number) {
+  const total = Math.max(0, Math.round(ms));
+  return {
+    h: Math.floor(total / 3600000),
+    m: Math.floor((total % 3600000) / 60000),
+    s: Math.floor((total % 60000) / 1000),
+    ms: total % 1000,
+  };
+}
+
+function srtTime(ms: number): string {
+  const t = splitTime(ms);
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)},${pad(t.ms, 3)}`;
+}
+
+function vttTime(ms: number): string {
+  const t = splitTime(ms);
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)}.${pad(t.ms, 3)}`;
+}
+
+function assTime(ms: number): string {
+  const t = splitTime(ms);
+  return `${t.h}:${pad(t.m)}:${pad(t.s)}.${pad(Math.floor(t.ms / 10))}`;
+}
+
+/** #RRGGBB → &HAABBGGRR */
+function assColor(hex: string, alpha = 0): string {
+  const clean = hex.replace('#', '').padEnd(6, '0');
+  const [r, g, b] = [clean.slice(0, 2), clean.slice(2, 4), clean.slice(4, 6)];
+  return `&H${pad(alpha.toString(16), 2)}${b}${g}${r}`.toUpperCase();
+}
+
+export function resolveSafeArea(format: OutputFormat, platform?: CaptionBurnInOptions['platform']): SafeArea {
+  const vertical = format.height > format.width;
+  return vertical && platform ? PLATFORM_SAFE_AREAS[platform] : DEFAULT_SAFE_AREA;
+}
+
+export function toSRT(track: CaptionTrack): string {
+  return track.cues
+    .map((cue, i) => `${i + 1}\n${srtTime(cue.start_ms)} --> ${srtTime(cue.end_ms)}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+export function toWebVTT(track: CaptionTrack, safeArea: SafeArea = DEFAULT_SAFE_AREA): string {
+  const line = `line:${Math.round((1 - safeArea.bottom) * 100)}%`;
+  const settings = `${line} position:50% align:center`;
+  const cues = track.cues
+    .map(cue => `${cue.cue_id}\n${vttTime(cue.start_ms)} --> ${vttTime(cue.end_ms)} ${settings}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\nLanguage: ${track.language}\n\n${cues}`;
+}
+
+export function toASS(
+  track: CaptionTrack,
+  format: OutputFormat,
+  style: CaptionStyle = DEFAULT_CAPTION_STYLE,
+  safeArea: SafeArea = DEFAULT_SAFE_AREA
+): string {
+  const fontSize = Math.round(format.height * style.font_size_ratio);
+  const alignment = style.position === 'top' ? 8 : style.position === 'center' ? 5 : 2;
+  const marginV = Math.round(format.height * (style.position === 'top' ? safeArea.top : safeArea.bottom));
+  const marginL = Math.round(format.width * safeArea.left);
+  const marginR = Math.round(format.width * safeArea.right);
+  const borderStyle = style.box ? 3 : 1;
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${format.width}`,
+    `PlayResY: ${format.height}`,
+    'WrapStyle: 2',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,Arial,${fontSize},${assColor(style.color)},${assColor(style.color)},${assColor('#000000')},${assColor(style.box_color, 0x80)},1,0,0,0,100,100,0,0,${borderStyle},2,0,${alignment},${marginL},${marginR},${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = track.cues.map(cue =>
+    `Dialogue: 0,${assTime(cue.start_ms)},${assTime(cue.end_ms)},Default,,0,0,0,,${cue.lines.join('\\N')}`
+  );
+
+  return [...header, ...events, ''].join('\n');
+}
+
+export function exportCaptions(
+  track: CaptionTrack,
+  formatType: CaptionFormat,
+  output: OutputFormat,
+  options?: CaptionBurnInOptions
+): string {
+  const safeArea = resolveSafeArea(output, options?.platform);
+  switch (formatType) {
+    case 'srt':
+      return toSRT(track);
+    case 'vtt':
+      return toWebVTT(track, safeArea);
+    case 'ass':
+      return toASS(track, output, { ...DEFAULT_CAPTION_STYLE, ...options?.style }, safeArea);
+  }
+}
+
+// ============================================
+// BURN-IN
+// ============================================
+
+/**
+ * One TextOverlay per cue, kept inside the platform safe area.
+ */
+export function captionsToTextOverlays(
+  track: CaptionTrack,
+  format: OutputFormat,
+  options: CaptionBurnInOptions
+): TextOverlay[] {
+  const style = { ...DEFAULT_CAPTION_STYLE, ...options.style };
+  const safeArea = resolveSafeArea(format, options.platform);
+
+  const left = Math.round(format.width * safeArea.left);
+  const usableWidth = format.width - left - Math.round(format.width * safeArea.right);
+  const x = `${left}+(${usableWidth}-text_w)/2`;
+  const y = style.position === 'top'
+    ? String(Math.round(format.height * safeArea.top))
+    : style.position === 'center'
+      ? '(h-text_h)/2'
+      : `h-text_h-${Math.round(format.height * safeArea.bottom)}`;
+
+  return track.cues.map(cue => ({
+    text_id: `${track.track_id}_${cue.cue_id}`,
+    content: cue.lines.join('\n'),
+    timeline_start_ms: cue.start_ms,
+    timeline_end_ms: cue.end_ms,
+    font_size: Math.round(format.height * style.font_size_ratio),
+    color: style.color,
+    x,
+    y,
+    box: style.box,
+    box_color: style.box_color,
+    font_file: style.font_file,
+  }));
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/** Rows for the `subtitles` table */
+export function toSubtitleRows(
+  track: CaptionTrack,
+  sceneId: string | null,
+  style: CaptionStyle = DEFAULT_CAPTION_STYLE
+): TablesInsert<'subtitles'>[] {
+  return track.cues.map(cue => ({
+    scene_id: sceneId,
+    start_time_ms: cue.start_ms,
+    end_time_ms: cue.end_ms,
+    text: cue.lines.join('\n'),
+    style: { ...style, language: track.language, rtl: track.rtl },
+  }));
+}
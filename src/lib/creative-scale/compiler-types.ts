@@ -4,6 +4,11 @@
  * NO creative decisions, NO engine hints
  */
 
+import type { CaptionBurnInOptions, CaptionTrack } from './caption-types';
+import type { BeatSyncOptions, MusicTrack } from '@/lib/music';
+import type { AspectRatio, CropPath, ReframeOptions, SubjectTrack } from '@/lib/reframe';
+import type { PlatformType } from './marketing-frameworks';
+
 // ============================================
 // EXECUTION PLAN OUTPUT TYPES
 // ============================================
@@ -20,6 +25,24 @@ export interface OutputFormat {
   codec_hint: 'h264' | 'h265' | 'vp9' | 'av1';
 }
 
+export type TransitionType =
+  | 'cut'
+  | 'fade'
+  | 'dissolve'
+  | 'wipe-left'
+  | 'wipe-right'
+  | 'zoom'
+  | 'slide-left'
+  | 'slide-right';
+
+export interface SegmentTransition {
+  type: TransitionType;
+  duration_ms: number; // Overlap with the previous segment (0 for cut)
+}
+
+// Moving crop window in source coordinates (see src/lib/reframe)
+export type SegmentCrop = Pick<CropPath, 'width' | 'height' | 'keyframes'>;
+
 export interface TimelineSegment {
   segment_id: string;
   source_video_id: string;
@@ -39,6 +62,17 @@ export interface TimelineSegment {
   // Transformations (numbers only)
   speed_multiplier: number;
 
+  // Transition from the previous video segment into this one.
+  // When present, timeline_start_ms already overlaps the previous
+  // segment by duration_ms.
+  transition_in?: SegmentTransition;
+
+  // Applied before scaling to the output; keyframes cover trim_start_ms..trim_end_ms
+  crop?: SegmentCrop;
+
+  // asset_url is a still image, looped for trim_end_ms - trim_start_ms
+  still?: boolean;
+
   // Track assignment
   track: 'video' | 'overlay';
   layer: number;
@@ -81,7 +115,31 @@ export interface TextOverlay {
   y: string;
   box?: boolean;
   box_color?: string;
-  font_file?: string; // Optional custom font
+  font_file?: string; // Optional; RenderFlow only accepts its bundled fonts
+}
+
+// ============================================
+// AUDIO MIX (loudness + ducking)
+// ============================================
+
+export interface LoudnessTarget {
+  integrated_lufs: number;   // EBU R128 integrated loudness (I)
+  true_peak_dbtp: number;    // Max true peak (TP)
+  loudness_range_lu: number; // Loudness range (LRA)
+}
+
+// Sidechain compression of the music track, keyed by the voiceover track
+export interface DuckingSettings {
+  threshold: number; // 0-1, voiceover level that starts ducking
+  ratio: number;     // 1-20
+  attack_ms: number;
+  release_ms: number;
+}
+
+export interface AudioMixSettings {
+  platform?: PlatformType;          // Where the loudness target came from
+  loudness: LoudnessTarget | null;  // Two-pass normalization of the final mix, null = off
+  ducking: DuckingSettings | null;  // null = music keeps its static volume
 }
 
 export interface ValidationResult {
@@ -90,6 +148,8 @@ export interface ValidationResult {
   audio_track_count: number;
   has_gaps: boolean;
   has_overlaps: boolean;
+  transition_count?: number;
+  transition_overlap_ms?: number; // Time absorbed by transitions
   warnings: string[];
 }
 
@@ -108,6 +168,8 @@ export interface ExecutionPlan {
   timeline: TimelineSegment[];
   audio_tracks: AudioSegment[];
   text_overlays?: TextOverlay[]; // Optional for backward capability
+  captions?: CaptionTrack; // Re-timed transcript captions
+  audio_mix?: AudioMixSettings; // Absent = plain mix, no normalization
 
   validation: ValidationResult;
 }
@@ -116,11 +178,54 @@ export interface ExecutionPlan {
 // COMPILER INPUT TYPES
 // ============================================
 
+export type ReplacementAssetSource =
+  | 'project_broll'      // Uploaded b-roll in the project library
+  | 'analyzed_segment'   // Segment of another analyzed video
+  | 'generated_clip';    // AI-generated clip
+
+export interface ReplacementAsset {
+  asset_id: string;
+  asset_url: string;
+  source: ReplacementAssetSource;
+  source_video_id: string;
+
+  // Matching metadata
+  segment_type: import('./types').SegmentType | null; // null = untyped b-roll
+  visual_tags: import('./types').VisualTag[];
+  attention_score?: number; // 0-1, if the asset was analyzed
+
+  // Usable range inside the asset
+  start_ms: number;
+  end_ms: number;
+}
+
 export interface CompilerInput {
   analysis: import('./types').VideoAnalysis;
   blueprint: import('./types').CreativeBlueprint;
   variation_index: number;
   asset_base_url?: string;
+  replacement_assets?: ReplacementAsset[]; // Pool for replace_segment
+  captions?: CompilerCaptionOptions;
+  music?: CompilerMusicOptions;
+  reframe?: CompilerReframeOptions;
+  platform?: PlatformType; // Loudness target and text safe area of the render
+  ducking?: Partial<DuckingSettings> | false; // Music under voiceover; false = static ducked volume
+}
+
+export interface CompilerCaptionOptions extends CaptionBurnInOptions {
+  burn_in: boolean; // Also emit the cues as text_overlays
+}
+
+export interface CompilerMusicOptions {
+  track: MusicTrack;  // analysis drives the beat grid; url goes on the music AudioSegment
+  snap_cuts?: boolean; // Default true; false only adds the music bed
+  beat_sync?: Partial<BeatSyncOptions>;
+}
+
+export interface CompilerReframeOptions {
+  aspect_ratio: AspectRatio;   // Output format of the plan
+  track?: SubjectTrack | null; // Subject of the source video; null = centre crop
+  options?: Partial<ReframeOptions>;
 }
 
 export interface CompilerOutput {
@@ -133,6 +238,16 @@ export interface CompilerOutput {
 // ACTION RESOLUTION MAPPING
 // ============================================
 
+export interface AssetMatch {
+  asset_id: string;
+  asset_url: string;
+  source_video_id: string;
+  trim_start_ms: number;
+  trim_end_ms: number;
+  speed_multiplier: number; // < 1 stretches a slightly short asset
+  score: number;
+}
+
 export interface ResolvedAction {
   action_id: string;
   source_action: import('./types').AbstractAction;
@@ -143,6 +258,7 @@ export interface ResolvedAction {
     trim_percent_end?: number;
     timeline_offset_ms?: number;
     remove?: boolean;
+    replacements?: Record<string, AssetMatch>; // target segment ID → chosen asset
   };
   resolved: boolean;
   resolution_error?: string;
@@ -4,7 +4,7 @@
  * NO creative decisions, NO engine hints, NO ambiguity
  */
 
-import type { VideoAnalysis, CreativeBlueprint, VariationIdea, VideoSegment } from './types';
+import type { VideoAnalysis, CreativeBlueprint, VariationIdea, VideoSegment, MarketingFramework, AlignedWord } from './types';
 import type { 
   ExecutionPlan, 
   TimelineSegment, 
@@ -13,8 +13,20 @@ import type {
   ValidationResult,
   ResolvedAction,
   CompilerInput,
-  CompilerOutput
+  CompilerOutput,
+  ReplacementAsset,
+  AssetMatch,
+  SegmentTransition,
+  CompilerCaptionOptions,
+  CompilerMusicOptions,
+  AudioMixSettings,
+  DuckingSettings
 } from './compiler-types';
+import { PLATFORM_LOUDNESS_TARGETS, type PlatformType } from './marketing-frameworks';
+import { buildCaptionTrack, captionsToTextOverlays, resolveSafeArea } from './captions';
+import { applyBeatSync } from './beat-sync';
+import { applyReframe } from './reframing';
+import { ASPECT_RATIO_DIMENSIONS } from '@/lib/reframe';
 
 // ============================================
 // SAFE DEFAULTS
@@ -30,13 +42,131 @@ const DEFAULT_OUTPUT_FORMAT: OutputFormat = {
   codec_hint: 'h264'
 };
 
+// Music under voiceover: about -30 dBFS of speech starts ducking by ~12 dB
+const DEFAULT_DUCKING: DuckingSettings = {
+  threshold: 0.03,
+  ratio: 8,
+  attack_ms: 20,
+  release_ms: 400
+};
+
+// Slowest stretch allowed to make a short asset fill its slot
+const MIN_REPLACEMENT_SPEED = 0.8;
+
+type Pacing = 'slow' | 'medium' | 'fast' | 'very_fast';
+
+// Blueprint framework → editing pace
+const FRAMEWORK_PACING: Record<MarketingFramework, Pacing> = {
+  AIDA: 'medium',
+  PAS: 'medium',
+  BAB: 'medium',
+  FAB: 'medium',
+  ACCA: 'slow',
+  QUEST: 'slow',
+  STAR: 'medium',
+  UGC: 'fast',
+  OFFER_STACK: 'very_fast'
+};
+
+// Editing pace → transition between adjacent segments
+const PACING_TRANSITIONS: Record<Pacing, SegmentTransition> = {
+  very_fast: { type: 'cut', duration_ms: 0 },
+  fast: { type: 'fade', duration_ms: 200 },
+  medium: { type: 'fade', duration_ms: 300 },
+  slow: { type: 'dissolve', duration_ms: 500 }
+};
+
+// ============================================
+// REPLACEMENT ASSET MATCHING
+// ============================================
+
+function scoreAsset(
+  asset: ReplacementAsset,
+  segment: VideoSegment,
+  sourceVideoId: string
+): AssetMatch | null {
+  // Typed assets must match the segment role; untyped b-roll fits anywhere
+  if (asset.segment_type && asset.segment_type !== segment.type) return null;
+
+  // Never "replace" a segment with itself
+  if (
+    asset.source_video_id === sourceVideoId &&
+    asset.start_ms < segment.end_ms &&
+    asset.end_ms > segment.start_ms
+  ) {
+    return null;
+  }
+
+  const slotMs = segment.end_ms - segment.start_ms;
+  const availableMs = asset.end_ms - asset.start_ms;
+  if (slotMs <= 0 || availableMs <= 0) return null;
+
+  const speed = availableMs >= slotMs ? 1.0 : availableMs / slotMs;
+  if (speed < MIN_REPLACEMENT_SPEED) return null;
+
+  const usedMs = Math.round(slotMs * speed);
+
+  const sharedTags = asset.visual_tags.filter(tag => segment.visual_tags.includes(tag)).length;
+  const tagUnion = new Set([...asset.visual_tags, ...segment.visual_tags]).size;
+  const tagScore = tagUnion > 0 ? sharedTags / tagUnion : 0;
+
+  const score =
+    (asset.segment_type === segment.type ? 3 : 0) +
+    tagScore * 2 +
+    speed + // 1.0 for a clean fit, less when stretched
+    (asset.attention_score ?? 0) * 0.5;
+
+  return {
+    asset_id: asset.asset_id,
+    asset_url: asset.asset_url,
+    source_video_id: asset.source_video_id,
+    trim_start_ms: asset.start_ms,
+    trim_end_ms: asset.start_ms + usedMs,
+    speed_multiplier: Math.round(speed * 1000) / 1000,
+    score: Math.round(score * 1000) / 1000
+  };
+}
+
+/**
+ * Pick one asset per target segment. Each asset is used at most once;
+ * ties break on asset_id so the result is deterministic.
+ */
+function matchReplacementAssets(
+  targets: VideoSegment[],
+  assets: ReplacementAsset[],
+  sourceVideoId: string
+): { replacements: Record<string, AssetMatch>; unmatched: VideoSegment[] } {
+  const replacements: Record<string, AssetMatch> = {};
+  const unmatched: VideoSegment[] = [];
+  const used = new Set<string>();
+
+  for (const segment of targets) {
+    const best = assets
+      .filter(asset => !used.has(asset.asset_id))
+      .map(asset => scoreAsset(asset, segment, sourceVideoId))
+      .filter((match): match is AssetMatch => match !== null)
+      .sort((a, b) => b.score - a.score || a.asset_id.localeCompare(b.asset_id))[0];
+
+    if (best) {
+      replacements[segment.id] = best;
+      used.add(best.asset_id);
+    } else {
+      unmatched.push(segment);
+    }
+  }
+
+  return { replacements, unmatched };
+}
+
 // ============================================
 // ACTION RESOLUTION
 // ============================================
 
 function resolveAction(
   idea: VariationIdea,
-  segments: VideoSegment[]
+  segments: VideoSegment[],
+  replacementAssets: ReplacementAsset[] = [],
+  sourceVideoId = ''
 ): ResolvedAction {
   const targetSegments = segments.filter(s => s.type === idea.target_segment_type);
   
@@ -99,16 +229,46 @@ function resolveAction(
         resolved: true
       };
 
-    case 'replace_segment':
-      // Cannot resolve without external asset - mark for manual resolution
+    case 'replace_segment': {
+      if (replacementAssets.length === 0) {
+        return {
+          action_id: idea.id,
+          source_action: idea.action,
+          target_segments: segmentIds,
+          transformation: {},
+          resolved: false,
+          resolution_error: 'replace_segment requires replacement_assets'
+        };
+      }
+
+      const { replacements, unmatched } = matchReplacementAssets(
+        targetSegments,
+        replacementAssets,
+        sourceVideoId
+      );
+
+      if (unmatched.length > 0) {
+        const missing = unmatched
+          .map(s => `${s.id} (${s.type}, ${s.end_ms - s.start_ms}ms)`)
+          .join(', ');
+        return {
+          action_id: idea.id,
+          source_action: idea.action,
+          target_segments: segmentIds,
+          transformation: {},
+          resolved: false,
+          resolution_error: `No replacement asset matches segment ${missing}`
+        };
+      }
+
       return {
         action_id: idea.id,
         source_action: idea.action,
         target_segments: segmentIds,
-        transformation: {},
-        resolved: false,
-        resolution_error: 'replace_segment requires external asset reference'
+        transformation: { replacements },
+        resolved: true
       };
+    }
 
     case 'split_segment':
       return {
@@ -144,6 +304,38 @@ function resolveAction(
   }
 }
 
+// ============================================
+// WORD-AWARE TRIMMING
+// ============================================
+
+/**
+ * Move percentage-based trim points out of the middle of a word, to the
+ * nearer edge of that word. Only used when the analysis has aligned words.
+ */
+function snapTrimToWords(
+  segment: VideoSegment,
+  trimStartMs: number,
+  trimEndMs: number,
+  words: AlignedWord[]
+): { trimStartMs: number; trimEndMs: number } {
+  const segmentWords = words.filter(w => w.segment_id === segment.id);
+  if (segmentWords.length === 0) return { trimStartMs, trimEndMs };
+
+  const snap = (cutMs: number): number => {
+    const word = segmentWords.find(w => cutMs > w.start_ms && cutMs < w.end_ms);
+    if (!word) return cutMs;
+    return cutMs - word.start_ms <= word.end_ms - cutMs ? word.start_ms : word.end_ms;
+  };
+
+  const start = trimStartMs > 0 ? snap(segment.start_ms + trimStartMs) : segment.start_ms;
+  const end = trimEndMs > 0 ? snap(segment.end_ms - trimEndMs) : segment.end_ms;
+
+  // Never let snapping swallow the segment
+  if (end <= start) return { trimStartMs, trimEndMs };
+
+  return { trimStartMs: start - segment.start_ms, trimEndMs: segment.end_ms - end };
+}
+
 // ============================================
 // TIMELINE CONSTRUCTION
 // ============================================
@@ -188,13 +380,49 @@ function buildTimeline(
     }
 
     const action = transformMap.get(segment.id);
+    const replacement = action?.transformation.replacements?.[segment.id];
+
+    if (replacement) {
+      const replacedDuration = replacement.trim_end_ms - replacement.trim_start_ms;
+      const outputDuration = Math.round(replacedDuration / replacement.speed_multiplier);
+
+      timeline.push({
+        segment_id: `ts_${segmentIndex}`,
+        source_video_id: replacement.source_video_id,
+        source_segment_id: replacement.asset_id,
+        asset_url: replacement.asset_url,
+
+        trim_start_ms: replacement.trim_start_ms,
+        trim_end_ms: replacement.trim_end_ms,
+        source_duration_ms: replacedDuration,
+
+        timeline_start_ms: currentTimelineMs,
+        timeline_end_ms: currentTimelineMs + outputDuration,
+        output_duration_ms: outputDuration,
+
+        speed_multiplier: replacement.speed_multiplier,
+
+        track: 'video',
+        layer: 0
+      });
+
+      warnings.push(`Segment ${segment.id} (${segment.type}) replaced by asset ${replacement.asset_id}`);
+      currentTimelineMs += outputDuration;
+      segmentIndex++;
+      continue;
+    }
+
     const speedMultiplier = action?.transformation.speed_multiplier ?? 1.0;
     const trimStartPercent = action?.transformation.trim_percent_start ?? 0;
     const trimEndPercent = action?.transformation.trim_percent_end ?? 0;
 
     const sourceDuration = segment.end_ms - segment.start_ms;
-    const trimStartMs = Math.round(sourceDuration * trimStartPercent);
-    const trimEndMs = Math.round(sourceDuration * trimEndPercent);
+    const { trimStartMs, trimEndMs } = snapTrimToWords(
+      segment,
+      Math.round(sourceDuration * trimStartPercent),
+      Math.round(sourceDuration * trimEndPercent),
+      analysis.words || []
+    );
     
     const trimmedDuration = sourceDuration - trimStartMs - trimEndMs;
     const outputDuration = Math.round(trimmedDuration / speedMultiplier);
@@ -228,6 +456,57 @@ function buildTimeline(
   return { timeline, warnings };
 }
 
+// ============================================
+// TRANSITIONS
+// ============================================
+
+/**
+ * Add a transition_in to every video segment after the first and pull
+ * the timeline back by its overlap. A transition never takes more than
+ * half of either neighbour; segments too short for it get a cut.
+ */
+function applyTransitions(
+  timeline: TimelineSegment[],
+  framework: MarketingFramework
+): { timeline: TimelineSegment[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const transition = PACING_TRANSITIONS[FRAMEWORK_PACING[framework] ?? 'medium'];
+
+  if (transition.type === 'cut' || transition.duration_ms <= 0 || timeline.length < 2) {
+    return { timeline, warnings };
+  }
+
+  const result: TimelineSegment[] = [];
+  let shiftMs = 0;
+
+  timeline.forEach((segment, i) => {
+    if (i === 0) {
+      result.push(segment);
+      return;
+    }
+
+    const previous = result[i - 1];
+    const maxOverlap = Math.floor(Math.min(previous.output_duration_ms, segment.output_duration_ms) / 2);
+    const overlap = Math.min(transition.duration_ms, maxOverlap);
+
+    if (overlap < transition.duration_ms) {
+      warnings.push(`Segment ${segment.segment_id} too short for ${transition.type} ${transition.duration_ms}ms, using cut`);
+    }
+
+    const useTransition = overlap === transition.duration_ms;
+    if (useTransition) shiftMs += overlap;
+
+    result.push({
+      ...segment,
+      timeline_start_ms: segment.timeline_start_ms - shiftMs,
+      timeline_end_ms: segment.timeline_end_ms - shiftMs,
+      transition_in: useTransition ? { ...transition } : { type: 'cut', duration_ms: 0 }
+    });
+  });
+
+  return { timeline: result, warnings };
+}
+
 // ============================================
 // AUDIO TRACK CONSTRUCTION
 // ============================================
@@ -291,11 +570,15 @@ function validateTimeline(
     ? timeline[timeline.length - 1].timeline_end_ms 
     : 0;
 
+  // Planned transition overlaps are expected and not counted as overlaps
+  const expectedOverlap = (segment: TimelineSegment): number =>
+    segment.transition_in && segment.transition_in.type !== 'cut' ? segment.transition_in.duration_ms : 0;
+
   // Check for gaps
   let hasGaps = false;
   for (let i = 1; i < timeline.length; i++) {
     const prevEnd = timeline[i - 1].timeline_end_ms;
-    const currStart = timeline[i].timeline_start_ms;
+    const currStart = timeline[i].timeline_start_ms + expectedOverlap(timeline[i]);
     if (currStart > prevEnd) {
       hasGaps = true;
       warnings.push(`Gap detected: ${prevEnd}ms to ${currStart}ms (${currStart - prevEnd}ms)`);
@@ -306,13 +589,16 @@ function validateTimeline(
   let hasOverlaps = false;
   for (let i = 1; i < timeline.length; i++) {
     const prevEnd = timeline[i - 1].timeline_end_ms;
-    const currStart = timeline[i].timeline_start_ms;
+    const currStart = timeline[i].timeline_start_ms + expectedOverlap(timeline[i]);
     if (currStart < prevEnd) {
       hasOverlaps = true;
-      warnings.push(`Overlap detected: segment ${i} starts at ${currStart}ms but previous ends at ${prevEnd}ms`);
+      warnings.push(`Overlap detected: segment ${i} starts at ${timeline[i].timeline_start_ms}ms but previous ends at ${prevEnd}ms`);
     }
   }
 
+  const transitions = timeline.filter(segment => expectedOverlap(segment) > 0);
+  const transitionOverlapMs = transitions.reduce((sum, segment) => sum + expectedOverlap(segment), 0);
+
   // Duration sanity check
   if (totalDuration < 1000) {
     warnings.push(`Very short output: ${totalDuration}ms`);
@@ -327,16 +613,52 @@ function validateTimeline(
     audio_track_count: audioTracks.length,
     has_gaps: hasGaps,
     has_overlaps: hasOverlaps,
+    transition_count: transitions.length,
+    transition_overlap_ms: transitionOverlapMs,
     warnings
   };
 }
 
+// ============================================
+// AUDIO MIX
+// ============================================
+
+/**
+ * Loudness target from the platform, sidechain ducking when music plays
+ * under a voiceover. Undefined when there is nothing to do.
+ */
+function buildAudioMix(
+  audioTracks: AudioSegment[],
+  platform?: PlatformType,
+  ducking?: Partial<DuckingSettings> | false
+): AudioMixSettings | undefined {
+  if (audioTracks.length === 0) return undefined;
+
+  const loudness = platform ? PLATFORM_LOUDNESS_TARGETS[platform] : null;
+  const canDuck = audioTracks.some(a => a.track === 'voiceover') && audioTracks.some(a => a.track === 'music');
+  const duckingSettings = canDuck && ducking !== false ? { ...DEFAULT_DUCKING, ...ducking } : null;
+
+  if (!loudness && !duckingSettings) return undefined;
+  return { platform, loudness, ducking: duckingSettings };
+}
+
 // ============================================
 // MAIN COMPILER FUNCTION
 // ============================================
 
 export function compile(input: CompilerInput): CompilerOutput {
-  const { analysis, blueprint, variation_index, asset_base_url: sourceVideoUrl } = input;
+  const {
+    analysis,
+    blueprint,
+    variation_index,
+    asset_base_url: sourceVideoUrl,
+    replacement_assets: replacementAssets = [],
+    captions: captionOptions,
+    music,
+    reframe,
+    platform,
+    ducking
+  } = input;
 
   // Validate inputs
   if (!analysis || !analysis.segments || analysis.segments.length === 0) {
@@ -363,7 +685,12 @@ export function compile(input: CompilerInput): CompilerOutput {
   }
 
   // Resolve the action for this variation
-  const resolvedAction = resolveAction(variationIdea, analysis.segments);
+  const resolvedAction = resolveAction(
+    variationIdea,
+    analysis.segments,
+    replacementAssets,
+    analysis.source_video_id
+  );
   
   if (!resolvedAction.resolved) {
     const plan: ExecutionPlan = {
@@ -391,27 +718,64 @@ export function compile(input: CompilerInput): CompilerOutput {
   }
 
   // Build timeline with source video URL directly
-  const { timeline, warnings: timelineWarnings } = buildTimeline(
+  const { timeline: cutTimeline, warnings: timelineWarnings } = buildTimeline(
     analysis, 
     [resolvedAction], 
     sourceVideoUrl
   );
 
-  // Build audio tracks
-  const audioTracks = buildAudioTracks(analysis, timeline, sourceVideoUrl);
-
-  // Validate
-  const validation = validateTimeline(timeline, audioTracks);
-  validation.warnings.push(...timelineWarnings);
+  // Transitions from the blueprint's pacing
+  const { timeline: transitionTimeline, warnings: transitionWarnings } = applyTransitions(cutTimeline, blueprint.framework);
 
-  // Determine output format based on source
+  // Cuts on the music's beats, music bed under the voiceover
+  // (static ducked volume only when sidechain ducking is turned off)
+  // Snaps may lengthen a source cut up to the end of its analysed segment;
+  // replacement assets keep their compiled trim
+  const sourceEnds = new Map(
+    analysis.segments.map(segment => [segment.id, Math.min(segment.end_ms, analysis.metadata.duration_ms)])
+  );
+  const sourceEndOf = (segment: TimelineSegment) =>
+    segment.source_video_id === analysis.source_video_id
+      ? sourceEnds.get(segment.source_segment_id) ?? segment.trim_end_ms
+      : segment.trim_end_ms;
+  const beatSync = music
+    ? applyBeatSync(transitionTimeline, music, analysis.audio.has_voiceover && ducking === false, sourceEndOf)
+    : null;
+  const syncedTimeline = beatSync?.timeline ?? transitionTimeline;
+
+  // Determine output format: the reframe target, otherwise the source
   const outputFormat: OutputFormat = {
     ...DEFAULT_OUTPUT_FORMAT,
     fps: analysis.metadata.fps || 30,
-    width: analysis.metadata.aspect_ratio === '16:9' ? 1920 : 1080,
-    height: analysis.metadata.aspect_ratio === '16:9' ? 1080 : 1920
+    ...(reframe
+      ? ASPECT_RATIO_DIMENSIONS[reframe.aspect_ratio]
+      : {
+          width: analysis.metadata.aspect_ratio === '16:9' ? 1920 : 1080,
+          height: analysis.metadata.aspect_ratio === '16:9' ? 1080 : 1920
+        })
   };
 
+  // Crop windows that keep the subject in frame, clear of the platform UI
+  const reframed = reframe
+    ? applyReframe(syncedTimeline, analysis, reframe, resolveSafeArea(outputFormat, platform))
+    : null;
+  const timeline = reframed?.timeline ?? syncedTimeline;
+
+  // Build audio tracks
+  const audioTracks = buildAudioTracks(analysis, timeline, sourceVideoUrl);
+  if (beatSync && beatSync.music.timeline_end_ms > 0) {
+    audioTracks.push(beatSync.music);
+  }
+
+  // Validate
+  const validation = validateTimeline(timeline, audioTracks);
+  validation.warnings.push(
+    ...timelineWarnings,
+    ...transitionWarnings,
+    ...(beatSync?.warnings ?? []),
+    ...(reframed?.warnings ?? [])
+  );
+
   const plan: ExecutionPlan = {
     plan_id: `exec_${crypto.randomUUID()}`,
     source_analysis_id: analysis.id,
@@ -423,9 +787,22 @@ export function compile(input: CompilerInput): CompilerOutput {
     output_format: outputFormat,
     timeline,
     audio_tracks: audioTracks,
+    audio_mix: buildAudioMix(audioTracks, platform, ducking),
     validation
   };
 
+  // Captions from the source transcript, re-timed to this timeline
+  if (captionOptions && plan.status === 'compilable') {
+    const captionTrack = buildCaptionTrack(plan, analysis, captionOptions.layout);
+    plan.captions = captionTrack;
+    if (captionOptions.burn_in && captionTrack.cues.length > 0) {
+      plan.text_overlays = [
+        ...(plan.text_overlays || []),
+        ...captionsToTextOverlays(captionTrack, outputFormat, captionOptions)
+      ];
+    }
+  }
+
   return { success: true, plan };
 }
 
@@ -436,7 +813,11 @@ export function compile(input: CompilerInput): CompilerOutput {
 export function compileAll(
   analysis: VideoAnalysis,
   blueprint: CreativeBlueprint,
-  sourceVideoUrl?: string
+  sourceVideoUrl?: string,
+  replacementAssets?: ReplacementAsset[],
+  captions?: CompilerCaptionOptions,
+  music?: CompilerMusicOptions,
+  platform?: PlatformType
 ): ExecutionPlan[] {
   const plans: ExecutionPlan[] = [];
 
@@ -445,7 +826,11 @@ export function compileAll(
       analysis,
       blueprint,
       variation_index: i,
-      asset_base_url: sourceVideoUrl
+      asset_base_url: sourceVideoUrl,
+      replacement_assets: replacementAssets,
+      captions,
+      music,
+      platform
     });
 
     if (result.plan) {
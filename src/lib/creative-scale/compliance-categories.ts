@@ -0,0 +1,466 @@
+/**
+ * Category Compliance Profiles
+ * Restricted claims, before/after rules, required disclaimers and
+ * funnel-stage severity for regulated product categories.
+ * Patterns match normalizeForCompliance() output in every language.
+ */
+
+import type {
+  CategoryComplianceProfile,
+  CategoryDisclaimer,
+  ComplianceCategory,
+} from './compliance-types';
+import { normalizeForCompliance } from './compliance-packs';
+
+// ============================================
+// SHARED DISCLAIMERS
+// ============================================
+
+const RESULTS_VARY: CategoryDisclaimer = {
+  id: 'results-vary',
+  whenViolations: ['before_after', 'testimonial_violation', 'guaranteed_results'],
+  placement: 'end_card',
+  text: {
+    en: 'Results may vary.',
+    ar: 'النتائج قد تختلف من شخص لآخر.',
+    es: 'Los resultados pueden variar.',
+    fr: 'Les résultats peuvent varier.',
+  },
+};
+
+const NOT_MEDICAL: CategoryDisclaimer = {
+  id: 'not-medical-advice',
+  topic: 'medical',
+  whenViolations: ['medical_disclaimer'],
+  placement: 'end_card',
+  text: {
+    en: 'This product is not intended to diagnose, treat, cure or prevent any disease.',
+    ar: 'هذا المنتج لا يهدف إلى تشخيص أي مرض أو علاجه أو الشفاء منه أو الوقاية منه.',
+    es: 'Este producto no está destinado a diagnosticar, tratar, curar ni prevenir ninguna enfermedad.',
+    fr: "Ce produit n'est pas destiné à diagnostiquer, traiter, guérir ou prévenir une maladie.",
+  },
+};
+
+// ============================================
+// PROFILES
+// ============================================
+
+const GENERAL_PROFILE: CategoryComplianceProfile = {
+  id: 'general',
+  name: 'General',
+  rules: {},
+  disclaimers: [],
+  funnelSeverity: {},
+};
+
+const HEALTH_PROFILE: CategoryComplianceProfile = {
+  id: 'health',
+  name: 'Health & Wellness',
+  rules: {
+    en: {
+      prohibited: [
+        { pattern: /(cures?|treats?|heals?|prevents?)\s+(cancer|diabetes|covid|arthritis|depression|anxiety|disease|infections?)/, type: 'medical_disclaimer' },
+        { pattern: /no\s+side\s+effects/, type: 'medical_disclaimer' },
+        { pattern: /replaces?\s+(your\s+)?(medication|medicine|doctor)/, type: 'medical_disclaimer' },
+        { pattern: /(fda|clinically)\s+(approved|proven)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /boosts?\s+(your\s+)?immun(e|ity)/, type: 'medical_disclaimer' },
+        { pattern: /detox/, type: 'prohibited_claim' },
+        { pattern: /doctor[-\s]recommended/, type: 'testimonial_violation' },
+      ],
+    },
+    ar: {
+      prohibited: [
+        { pattern: /(يعالج|يشفي\s+من|يقضي\s+علي|يمنع)\s+(السكري|الضغط|السرطان|الكوليسترول|الاكتياب|القلق|المرض|الامراض)/, type: 'medical_disclaimer' },
+        { pattern: /بدون\s+(اي\s+)?اثار\s+جانبيه/, type: 'medical_disclaimer' },
+        { pattern: /(بديل|يغنيك\s+عن)\s+(الدواء|الادويه|الطبيب)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /(يقوي|يعزز|يرفع)\s+(المناعه|جهاز\s+المناعه)/, type: 'medical_disclaimer' },
+        { pattern: /ديتوكس|تنظيف\s+السموم/, type: 'prohibited_claim' },
+        { pattern: /(ينصح\s+به|يوصي\s+به)\s+الاطباء/, type: 'testimonial_violation' },
+      ],
+    },
+    es: {
+      prohibited: [
+        { pattern: /(cura|trata|previene)\s+(el\s+|la\s+)?(cancer|diabetes|artritis|depresion|ansiedad|enfermedad)/, type: 'medical_disclaimer' },
+        { pattern: /sin\s+efectos\s+secundarios/, type: 'medical_disclaimer' },
+        { pattern: /sustituye\s+(tu\s+)?(medicacion|medicamento|al\s+medico)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /(refuerza|fortalece|aumenta)\s+(el\s+sistema\s+inmune|las\s+defensas|la\s+inmunidad)/, type: 'medical_disclaimer' },
+        { pattern: /detox/, type: 'prohibited_claim' },
+        { pattern: /recomendado\s+por\s+(los\s+)?medicos/, type: 'testimonial_violation' },
+      ],
+    },
+    fr: {
+      prohibited: [
+        { pattern: /(guerit|traite|previent)\s+(le\s+|la\s+|l')?(cancer|diabete|arthrite|depression|anxiete|maladie)/, type: 'medical_disclaimer' },
+        { pattern: /sans\s+effets?\s+secondaires?/, type: 'medical_disclaimer' },
+        { pattern: /remplace\s+(vos\s+|votre\s+)?(medicaments?|medecin)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /(renforce|booste)\s+(le\s+systeme\s+immunitaire|l'immunite|les\s+defenses)/, type: 'medical_disclaimer' },
+        { pattern: /detox/, type: 'prohibited_claim' },
+        { pattern: /recommande\s+par\s+(les\s+)?medecins/, type: 'testimonial_violation' },
+      ],
+    },
+  },
+  disclaimers: [NOT_MEDICAL, RESULTS_VARY],
+  funnelSeverity: {
+    cold: { medical_disclaimer: 'high_risk', testimonial_violation: 'high_risk', before_after: 'high_risk' },
+  },
+};
+
+const SUPPLEMENTS_PROFILE: CategoryComplianceProfile = {
+  id: 'supplements',
+  name: 'Dietary Supplements',
+  rules: {
+    en: {
+      prohibited: [
+        ...HEALTH_PROFILE.rules.en!.prohibited,
+        { pattern: /(burns?|melts?)\s+(belly\s+)?fat/, type: 'medical_disclaimer' },
+        { pattern: /appetite\s+suppress/, type: 'medical_disclaimer' },
+        { pattern: /lose\s+weight\s+(fast|quickly|without)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /(natural|herbal)\s+so\s+(it'?s\s+)?safe/, type: 'medical_disclaimer' },
+        { pattern: /boosts?\s+(your\s+)?(metabolism|immunity|immune)/, type: 'medical_disclaimer' },
+        { pattern: /results\s+in\s+\d+\s+days/, type: 'guaranteed_results' },
+      ],
+    },
+    ar: {
+      prohibited: [
+        ...HEALTH_PROFILE.rules.ar!.prohibited,
+        { pattern: /(يحرق|يذيب)\s+(ال)?دهون/, type: 'medical_disclaimer' },
+        { pattern: /(يسد|يقطع)\s+(الشهيه|النفس)/, type: 'medical_disclaimer' },
+        { pattern: /معتمد\s+من\s+(هييه\s+)?(الغذاء\s+و\s*الدواء|fda)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /طبيعي\s+(100\s*%\s+)?(يعني\s+)?(امن|بدون\s+اضرار)/, type: 'medical_disclaimer' },
+        { pattern: /(يسرع|يرفع)\s+(الحرق|الايض)/, type: 'medical_disclaimer' },
+        { pattern: /نتايج\s+(خلال|في)\s+\d+\s+(يوم|ايام)/, type: 'guaranteed_results' },
+      ],
+    },
+    es: {
+      prohibited: [
+        ...HEALTH_PROFILE.rules.es!.prohibited,
+        { pattern: /(quema|elimina|derrite)\s+(la\s+)?grasa/, type: 'medical_disclaimer' },
+        { pattern: /(quita|suprime)\s+el\s+apetito/, type: 'medical_disclaimer' },
+        { pattern: /aprobado\s+por\s+la\s+fda/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /natural\s+(y\s+)?(por\s+eso\s+)?seguro/, type: 'medical_disclaimer' },
+        { pattern: /acelera\s+(tu\s+|el\s+)?metabolismo/, type: 'medical_disclaimer' },
+        { pattern: /resultados\s+en\s+\d+\s+dias/, type: 'guaranteed_results' },
+      ],
+    },
+    fr: {
+      prohibited: [
+        ...HEALTH_PROFILE.rules.fr!.prohibited,
+        { pattern: /(brule|elimine|fait\s+fondre)\s+(les\s+)?graisses?/, type: 'medical_disclaimer' },
+        { pattern: /coupe[-\s]faim/, type: 'medical_disclaimer' },
+        { pattern: /approuve\s+par\s+la\s+fda/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /naturel\s+(donc\s+)?sans\s+danger/, type: 'medical_disclaimer' },
+        { pattern: /booste\s+(votre\s+|le\s+)?metabolisme/, type: 'medical_disclaimer' },
+        { pattern: /resultats\s+en\s+\d+\s+jours/, type: 'guaranteed_results' },
+      ],
+    },
+  },
+  // Weight and body-shape comparisons are restricted everywhere for supplements
+  beforeAfterAllowed: { tiktok: false, snapchat: false, meta: false, google: false, general: false },
+  disclaimers: [
+    {
+      id: 'supplement-not-evaluated',
+      topic: 'supplements',
+      always: true,
+      placement: 'end_card',
+      text: {
+        en: 'These statements have not been evaluated by the Food and Drug Administration. This product is not intended to diagnose, treat, cure or prevent any disease.',
+        ar: 'هذه المكملات ليست دواءً ولا تهدف إلى تشخيص أي مرض أو علاجه أو الوقاية منه. استشر طبيبك قبل الاستخدام.',
+        es: 'Este complemento no es un medicamento y no está destinado a diagnosticar, tratar, curar ni prevenir ninguna enfermedad.',
+        fr: "Ce complément alimentaire n'est pas un médicament et n'est pas destiné à diagnostiquer, traiter, guérir ou prévenir une maladie.",
+      },
+    },
+    {
+      id: 'weight-loss-lifestyle',
+      topic: 'weight_loss',
+      whenViolations: ['medical_disclaimer'],
+      placement: 'end_card',
+      text: {
+        en: 'Use as part of a balanced diet and regular exercise.',
+        ar: 'يُستخدم ضمن نظام غذائي متوازن وممارسة منتظمة للرياضة.',
+        es: 'Úsese como parte de una dieta equilibrada y ejercicio regular.',
+        fr: "À utiliser dans le cadre d'une alimentation équilibrée et d'une activité physique régulière.",
+      },
+    },
+    RESULTS_VARY,
+  ],
+  funnelSeverity: {
+    cold: {
+      medical_disclaimer: 'high_risk',
+      guaranteed_results: 'high_risk',
+      testimonial_violation: 'high_risk',
+      personal_attribute: 'high_risk',
+    },
+    warm: { medical_disclaimer: 'high_risk' },
+  },
+};
+
+const BEAUTY_PROFILE: CategoryComplianceProfile = {
+  id: 'beauty',
+  name: 'Cosmetics & Skincare',
+  rules: {
+    en: {
+      prohibited: [
+        { pattern: /(removes?|erases?|eliminates?)\s+(wrinkles|acne|scars|cellulite|stretch\s+marks)\s+(permanently|forever|completely)/, type: 'prohibited_claim' },
+        { pattern: /(heals?|cures?|treats?)\s+(acne|eczema|psoriasis|rosacea)/, type: 'medical_disclaimer' },
+        { pattern: /skin\s+(whitening|bleaching)|(whitens?|bleach(es)?)\s+(your\s+)?skin/, type: 'personal_attribute' },
+        { pattern: /botox\s+in\s+a\s+(jar|bottle)/, type: 'prohibited_claim' },
+        { pattern: /(grows?|regrows?)\s+(your\s+)?(hair|lashes)\s+(in|within)\s+\d+/, type: 'guaranteed_results' },
+      ],
+      warning: [
+        { pattern: /dermatologist[-\s](tested|approved|recommended)/, type: 'testimonial_violation' },
+        { pattern: /(instant|overnight)\s+(results|glow|transformation)/, type: 'guaranteed_results' },
+      ],
+    },
+    ar: {
+      prohibited: [
+        { pattern: /(يزيل|يخفي|يمحي)\s+(التجاعيد|حب\s+الشباب|الندبات|السيلوليت|علامات\s+التمدد)\s+(نهاييا|تماما|للابد)/, type: 'prohibited_claim' },
+        { pattern: /(يعالج|يشفي)\s+(حب\s+الشباب|الاكزيما|الصدفيه|الورديه)/, type: 'medical_disclaimer' },
+        { pattern: /تبييض\s+(البشره|الجلد|الوجه)/, type: 'personal_attribute' },
+        { pattern: /(بوتوكس|بديل\s+البوتوكس)\s+(في\s+)?(علبه|كريم)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /(مجرب|معتمد|موصي\s+به)\s+من\s+(اطباء\s+الجلديه|طبيب\s+جلديه)/, type: 'testimonial_violation' },
+        { pattern: /تفتيح\s+(البشره|الجلد)/, type: 'personal_attribute' },
+        { pattern: /نتيجه\s+(فوريه|من\s+اول\s+استخدام)|(في|خلال)\s+ليله\s+واحده/, type: 'guaranteed_results' },
+      ],
+    },
+    es: {
+      prohibited: [
+        { pattern: /elimina\s+(las\s+|el\s+)?(arrugas|acne|cicatrices|celulitis|estrias)\s+(para\s+siempre|por\s+completo|definitivamente)/, type: 'prohibited_claim' },
+        { pattern: /(cura|trata)\s+(el\s+|la\s+)?(acne|eccema|psoriasis|rosacea)/, type: 'medical_disclaimer' },
+        { pattern: /blanqueamiento\s+de\s+(la\s+)?piel|blanquea\s+(tu\s+|la\s+)?piel/, type: 'personal_attribute' },
+        { pattern: /botox\s+en\s+(un\s+)?(bote|frasco|crema)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /(testado|probado|aprobado|recomendado)\s+por\s+dermatologos/, type: 'testimonial_violation' },
+        { pattern: /resultados\s+(inmediatos|instantaneos)|en\s+una\s+noche/, type: 'guaranteed_results' },
+      ],
+    },
+    fr: {
+      prohibited: [
+        { pattern: /elimine\s+(les\s+|l')?(rides|acne|cicatrices|cellulite|vergetures)\s+(definitivement|pour\s+toujours|completement)/, type: 'prohibited_claim' },
+        { pattern: /(guerit|traite)\s+(l'acne|l'eczema|le\s+psoriasis|la\s+rosacee)/, type: 'medical_disclaimer' },
+        { pattern: /blanchiment\s+de\s+la\s+peau|blanchit\s+(votre\s+|la\s+)?peau/, type: 'personal_attribute' },
+        { pattern: /botox\s+en\s+(pot|flacon|creme)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /(teste|approuve|recommande)\s+par\s+(des\s+)?dermatologues/, type: 'testimonial_violation' },
+        { pattern: /resultats?\s+(immediats?|instantanes?)|en\s+une\s+nuit/, type: 'guaranteed_results' },
+      ],
+    },
+  },
+  disclaimers: [RESULTS_VARY],
+  funnelSeverity: {
+    cold: { before_after: 'high_risk', guaranteed_results: 'high_risk' },
+    retargeting: { misleading_urgency: 'safe' },
+  },
+};
+
+const DEVICES_PROFILE: CategoryComplianceProfile = {
+  id: 'devices',
+  name: 'Health & Beauty Devices',
+  rules: {
+    en: {
+      prohibited: [
+        { pattern: /(cures?|treats?|relieves?|eliminates?)\s+(pain|arthritis|neuropathy|sciatica|migraines?)\s+(permanently|forever|instantly)/, type: 'medical_disclaimer' },
+        { pattern: /(replaces?|better\s+than)\s+(surgery|physiotherapy|physical\s+therapy|a\s+doctor)/, type: 'comparative_claim' },
+        { pattern: /permanent\s+hair\s+removal/, type: 'prohibited_claim' },
+        { pattern: /(lose|burn)\s+(belly\s+)?fat\s+(while|without)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /(fda|ce)[-\s]?(approved|cleared|certified)/, type: 'prohibited_claim' },
+        { pattern: /clinically\s+(proven|tested)/, type: 'testimonial_violation' },
+      ],
+    },
+    ar: {
+      prohibited: [
+        { pattern: /(يعالج|يخفف|يزيل)\s+(الالم|الام|الديسك|عرق\s+النسا|الصداع|الشقيقه)\s+(نهاييا|فورا|للابد)/, type: 'medical_disclaimer' },
+        { pattern: /(بديل|افضل\s+من)\s+(العمليه|الجراحه|العلاج\s+الطبيعي|الطبيب)/, type: 'comparative_claim' },
+        { pattern: /ازاله\s+(الشعر\s+)?(نهاييه|نهاييا|دايمه)/, type: 'prohibited_claim' },
+        { pattern: /(يحرق|يذيب)\s+(ال)?دهون\s+(وانت|بدون)/, type: 'medical_disclaimer' },
+      ],
+      warning: [
+        { pattern: /معتمد\s+من\s+(fda|ce)|حاصل\s+علي\s+(شهاده\s+)?(fda|ce)/, type: 'prohibited_claim' },
+        { pattern: /(مثبت|مجرب)\s+(سريريا|طبيا)/, type: 'testimonial_violation' },
+      ],
+    },
+    es: {
+      prohibited: [
+        { pattern: /(cura|elimina|alivia)\s+(el\s+)?dolor\s+(para\s+siempre|al\s+instante|definitivamente)/, type: 'medical_disclaimer' },
+        { pattern: /(sustituye|mejor\s+que)\s+(la\s+|el\s+|al\s+)?(cirugia|fisioterapia|medico)/, type: 'comparative_claim' },
+        { pattern: /depilacion\s+(definitiva|permanente)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /(aprobado|certificado)\s+(por\s+la\s+)?(fda|ce)/, type: 'prohibited_claim' },
+        { pattern: /clinicamente\s+(probado|comprobado)/, type: 'testimonial_violation' },
+      ],
+    },
+    fr: {
+      prohibited: [
+        { pattern: /(guerit|elimine|soulage)\s+(la\s+|les\s+)?douleurs?\s+(definitivement|instantanement|pour\s+toujours)/, type: 'medical_disclaimer' },
+        { pattern: /(remplace|mieux\s+que)\s+(la\s+|le\s+)?(chirurgie|kinesitherapie|medecin)/, type: 'comparative_claim' },
+        { pattern: /epilation\s+(definitive|permanente)/, type: 'prohibited_claim' },
+      ],
+      warning: [
+        { pattern: /(approuve|certifie)\s+(par\s+la\s+)?(fda|ce)/, type: 'prohibited_claim' },
+        { pattern: /cliniquement\s+(prouve|teste)/, type: 'testimonial_violation' },
+      ],
+    },
+  },
+  disclaimers: [
+    {
+      id: 'device-instructions',
+      always: true,
+      placement: 'end_card',
+      text: {
+        en: 'Read the instructions before use. Consult a doctor if you have a medical condition.',
+        ar: 'اقرأ التعليمات قبل الاستخدام. استشر الطبيب إذا كنت تعاني من حالة صحية.',
+        es: 'Lea las instrucciones antes de usar. Consulte a un médico si tiene alguna afección.',
+        fr: "Lisez la notice avant utilisation. Consultez un médecin en cas de problème de santé.",
+      },
+    },
+    RESULTS_VARY,
+  ],
+  funnelSeverity: {
+    cold: { medical_disclaimer: 'high_risk', comparative_claim: 'high_risk' },
+  },
+};
+
+const FINANCE_PROFILE: CategoryComplianceProfile = {
+  id: 'finance',
+  name: 'Financial Products',
+  rules: {
+    en: {
+      prohibited: [
+        { pattern: /(guaranteed|risk[-\s]free)\s+(returns?|profits?|income)/, type: 'financial_disclaimer' },
+        { pattern: /(double|triple)\s+your\s+(money|investment)/, type: 'financial_disclaimer' },
+        { pattern: /get\s+rich/, type: 'financial_disclaimer' },
+        { pattern: /\d+\s*%\s+(monthly|weekly|daily)\s+(returns?|profits?)/, type: 'financial_disclaimer' },
+        { pattern: /no\s+credit\s+check/, type: 'financial_disclaimer' },
+        { pattern: /(pay\s+off|erase|wipe\s+out)\s+(all\s+)?(your\s+)?debts?\s+(fast|instantly|overnight)/, type: 'financial_disclaimer' },
+      ],
+      warning: [
+        { pattern: /passive\s+income/, type: 'financial_disclaimer' },
+        { pattern: /financial\s+freedom/, type: 'financial_disclaimer' },
+      ],
+    },
+    ar: {
+      prohibited: [
+        { pattern: /(ارباح|عوايد|عايد|دخل)\s+مضمون(ه)?/, type: 'financial_disclaimer' },
+        { pattern: /(ضاعف|اضاعف|تضاعف)\s+(فلوسك|اموالك|استثمارك|راس\s+مالك)/, type: 'financial_disclaimer' },
+        { pattern: /(ربح|عايد|عوايد|ارباح)\s+\d+\s*%\s+(شهريا|يوميا|اسبوعيا)/, type: 'financial_disclaimer' },
+        { pattern: /بدون\s+(اي\s+)?مخاطر(ه)?/, type: 'financial_disclaimer' },
+        { pattern: /ثراء\s+سريع|اغتن\s+بسرعه/, type: 'financial_disclaimer' },
+      ],
+      warning: [
+        { pattern: /دخل\s+سلبي/, type: 'financial_disclaimer' },
+        { pattern: /حريه\s+ماليه/, type: 'financial_disclaimer' },
+      ],
+    },
+    es: {
+      prohibited: [
+        { pattern: /(rentabilidad|ganancias|ingresos|beneficios)\s+garantizad[oa]s?/, type: 'financial_disclaimer' },
+        { pattern: /duplica\s+tu\s+(dinero|inversion)/, type: 'financial_disclaimer' },
+        { pattern: /sin\s+riesgo/, type: 'financial_disclaimer' },
+        { pattern: /\d+\s*%\s+(mensual|semanal|diario)/, type: 'financial_disclaimer' },
+        { pattern: /hazte\s+rico/, type: 'financial_disclaimer' },
+      ],
+      warning: [
+        { pattern: /ingresos\s+pasivos/, type: 'financial_disclaimer' },
+        { pattern: /libertad\s+financiera/, type: 'financial_disclaimer' },
+      ],
+    },
+    fr: {
+      prohibited: [
+        { pattern: /(rendements?|gains|revenus)\s+garantis?/, type: 'financial_disclaimer' },
+        { pattern: /doublez\s+votre\s+(argent|investissement|capital)/, type: 'financial_disclaimer' },
+        { pattern: /sans\s+risque/, type: 'financial_disclaimer' },
+        { pattern: /\d+\s*%\s+(par\s+(mois|semaine|jour)|mensuels?)/, type: 'financial_disclaimer' },
+        { pattern: /devenez\s+riche/, type: 'financial_disclaimer' },
+      ],
+      warning: [
+        { pattern: /revenus?\s+passifs?/, type: 'financial_disclaimer' },
+        { pattern: /liberte\s+financiere/, type: 'financial_disclaimer' },
+      ],
+    },
+  },
+  disclaimers: [
+    {
+      id: 'investment-risk',
+      topic: 'financial',
+      always: true,
+      placement: 'persistent',
+      text: {
+        en: 'Investing involves risk, including loss of capital. Past performance does not guarantee future results.',
+        ar: 'الاستثمار ينطوي على مخاطر، بما في ذلك خسارة رأس المال. الأداء السابق لا يضمن النتائج المستقبلية.',
+        es: 'Invertir implica riesgos, incluida la pérdida del capital. Las rentabilidades pasadas no garantizan rentabilidades futuras.',
+        fr: 'Investir comporte des risques, y compris de perte en capital. Les performances passées ne préjugent pas des performances futures.',
+      },
+    },
+    {
+      id: 'earnings-not-typical',
+      whenViolations: ['financial_disclaimer', 'testimonial_violation'],
+      placement: 'end_card',
+      text: {
+        en: 'Earnings shown are not typical. Individual results vary.',
+        ar: 'الأرباح المعروضة ليست نموذجية، والنتائج تختلف من شخص لآخر.',
+        es: 'Las ganancias mostradas no son típicas. Los resultados individuales varían.',
+        fr: 'Les gains présentés ne sont pas typiques. Les résultats individuels varient.',
+      },
+    },
+  ],
+  funnelSeverity: {
+    cold: { financial_disclaimer: 'high_risk', misleading_urgency: 'high_risk' },
+    warm: { financial_disclaimer: 'high_risk' },
+  },
+};
+
+export const CATEGORY_PROFILES: Record<ComplianceCategory, CategoryComplianceProfile> = {
+  general: GENERAL_PROFILE,
+  health: HEALTH_PROFILE,
+  supplements: SUPPLEMENTS_PROFILE,
+  beauty: BEAUTY_PROFILE,
+  devices: DEVICES_PROFILE,
+  finance: FINANCE_PROFILE,
+};
+
+// ============================================
+// CATEGORY RESOLUTION
+// ============================================
+
+// Most specific first: a "health" product named "vitamin gummies" is a supplement
+const CATEGORY_KEYWORDS: Array<[ComplianceCategory, RegExp]> = [
+  ['supplements', /supplement|vitamin|capsule|gummies|collagen|protein|probiotic|keto|detox|fat\s*burn|مكمل|فيتامين|كبسول|كولاجين|suplemento|vitamina|complement|gelule/i],
+  ['devices', /device|massager|\bems\b|\bipl\b|laser|hair\s*removal|epilator|tens\b|جهاز|مساج|ليزر|dispositivo|masajeador|appareil|masseur/i],
+  ['finance', /financ|invest|crypto|trading|forex|loan|credit|insurance|استثمار|تداول|قرض|تمويل|inversion|prestamo|credito|placement|pret\b/i],
+  ['beauty', /beauty|skin\s*care|skincare|cosmetic|makeup|serum|cream|hair|تجميل|بشره|مكياج|كريم|belleza|cosmetic|maquillaje|beaute|cosmetique/i],
+  ['health', /health|wellness|medical|fitness|weight|صحه|طبي|salud|bienestar|sante/i],
+];
+
+/**
+ * Compliance category from the product category we collect
+ * (UGCProductCategory, ProductData.category or free text), refined by the
+ * product name or description when given.
+ */
+export function resolveComplianceCategory(category?: string | null, productHint?: string | null): ComplianceCategory {
+  const text = normalizeForCompliance(`${category ?? ''} ${productHint ?? ''}`).text.trim();
+  if (!text) return 'general';
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'general';
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { generateComplianceResult, scanBlueprint, scanContent, scanVideoAnalysis } from './compliance-engine';
+import { LANGUAGE_RULE_PACKS, normalizeForCompliance, resolveComplianceLanguage } from './compliance-packs';
+import type { CreativeBlueprint, VariationIdea, VideoAnalysis, VideoSegment } from './types';
+
+const segment = (id: string, transcript: string | null): VideoSegment => ({
+  id,
+  type: 'hook',
+  start_ms: 0,
+  end_ms: 3000,
+  transcript,
+  visual_tags: ['face'],
+  pacing_score: 0.5,
+  clarity_score: 0.5,
+  attention_score: 0.5,
+});
+
+const analysis = (detected_language: string, segments: VideoSegment[]): VideoAnalysis => ({
+  id: 'analysis-1',
+  source_video_id: 'video-1',
+  analyzed_at: '2025-12-01T00:00:00Z',
+  metadata: { duration_ms: 15000, aspect_ratio: '9:16', resolution: '1080x1920', fps: 30 },
+  segments,
+  audio: { has_voiceover: true, has_music: false, music_energy: null, voice_tone: 'casual', silence_ratio: 0.1 },
+  overall_scores: { hook_strength: 0.5, message_clarity: 0.5, pacing_consistency: 0.5, cta_effectiveness: 0.5 },
+  detected_style: 'ugc',
+  detected_language,
+});
+
+const idea = (intent: string): VariationIdea => ({
+  id: `idea-${intent.length}`,
+  action: 'replace_segment',
+  target_segment_type: 'hook',
+  intent,
+  priority: 'high',
+  reasoning: '',
+});
+
+describe('normalizeForCompliance', () => {
+  it('folds hamza seats, ta marbuta, harakat and tatweel', () => {
+    expect(normalizeForCompliance('نتائجُ مضمونـــة').text).toBe('نتايج مضمونه');
+  });
+
+  it('folds accents and Arabic-Indic digits', () => {
+    expect(normalizeForCompliance('Últimá ١٠٠٪').text).toBe('ultima 100%');
+  });
+
+  it('maps every normalized character back to the original', () => {
+    const original = 'أَهلاً';
+    const { text, offsets } = normalizeForCompliance(original);
+    expect(text).toBe('اهلا');
+    expect(offsets).toEqual([0, 2, 3, 4]);
+  });
+});
+
+describe('resolveComplianceLanguage', () => {
+  it('reads the detected language in its common spellings', () => {
+    expect(resolveComplianceLanguage('ar-SA')).toBe('ar');
+    expect(resolveComplianceLanguage('Français')).toBe('fr');
+    expect(resolveComplianceLanguage('spa')).toBe('es');
+    expect(resolveComplianceLanguage('العربية')).toBe('ar');
+  });
+
+  it('falls back to the audience, then the market', () => {
+    expect(resolveComplianceLanguage(null, { language: 'es', market: 'sa' })).toBe('es');
+    expect(resolveComplianceLanguage(undefined, { market: 'sa' })).toBe('ar');
+    expect(resolveComplianceLanguage('unknown', { market: 'latam' })).toBe('es');
+  });
+
+  it('uses the English rules for languages without a pack', () => {
+    expect(resolveComplianceLanguage('de')).toBe('en');
+    expect(resolveComplianceLanguage(null, { language: 'de', market: 'sa' })).toBe('en');
+    expect(resolveComplianceLanguage()).toBe('en');
+  });
+});
+
+describe('scanContent', () => {
+  it('flags Arabic claims and cuts the match from the original text', () => {
+    const [violation] = scanContent('جربي الآن نتائجُ مضمونة', 'tiktok', 'ar');
+    expect(violation.type).toBe('guaranteed_results');
+    expect(violation.severity).toBe('high_risk');
+    expect(violation.originalText).toBe('نتائجُ مضمونة');
+    expect(LANGUAGE_RULE_PACKS.ar.rewrites['نتايج مضمونه']).toContain(violation.rewrittenText);
+    expect(violation.policyReference).toBe('TikTok Ads Advertising Policies (Arabic rules)');
+  });
+
+  it('only runs a pack for its own language', () => {
+    expect(scanContent('نتائج مضمونة', 'tiktok', 'en')).toEqual([]);
+    expect(scanContent('resultados garantizados', 'tiktok', 'fr')).toEqual([]);
+  });
+
+  it('keeps the English rules for mixed-language ads', () => {
+    const matches = scanContent('Guaranteed results! نتائج مضمونة', 'tiktok', 'ar').map(v => v.originalText);
+    expect(matches).toEqual(['Guaranteed results', 'نتائج مضمونة']);
+  });
+
+  it('matches Spanish and French without accents', () => {
+    expect(scanContent('Pierde 10 kilos en 2 semanas', 'tiktok', 'es')[0]).toMatchObject({
+      type: 'medical_disclaimer',
+      severity: 'high_risk',
+    });
+    expect(scanContent('Dernière chance, commandez maintenant', 'tiktok', 'fr').map(v => v.type)).toEqual([
+      'misleading_urgency',
+    ]);
+  });
+
+  it('only warns on health claims where the platform allows them', () => {
+    const [violation] = scanContent('Pierde 10 kilos en 2 semanas', 'general', 'es');
+    expect(violation.severity).toBe('warning');
+  });
+
+  it('applies platform-scoped rules only on that platform', () => {
+    expect(scanContent('هل تعاني من تساقط الشعر؟', 'meta', 'ar').map(v => v.type)).toEqual(['personal_attribute']);
+    expect(scanContent('هل تعاني من تساقط الشعر؟', 'tiktok', 'ar')).toEqual([]);
+  });
+
+  it('reports before/after once, blocking where it is not allowed', () => {
+    const blocked = scanContent('شوفي الفرق قبل وبعد', 'tiktok', 'ar');
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0]).toMatchObject({ type: 'before_after', severity: 'high_risk', rewrittenText: 'عرض المنتج' });
+
+    const allowed = scanContent('شوفي الفرق قبل وبعد', 'google', 'ar');
+    expect(allowed).toHaveLength(1);
+    expect(allowed[0]).toMatchObject({ type: 'before_after', severity: 'warning' });
+  });
+
+  it('does not double-report English and localized before/after', () => {
+    const violations = scanContent('Before and after / avant et après', 'meta', 'fr');
+    expect(violations.filter(v => v.type === 'before_after')).toHaveLength(1);
+  });
+});
+
+describe('scanVideoAnalysis', () => {
+  it('follows the language detected in the video', () => {
+    const video = analysis('arabic', [segment('s1', 'مرحبا'), segment('s2', null), segment('s3', 'نتائج مضمونة')]);
+    expect(scanVideoAnalysis(video, 'tiktok').map(v => v.type)).toEqual(['guaranteed_results']);
+  });
+
+  it('lets the caller pick the rule pack', () => {
+    const video = analysis('arabic', [segment('s1', 'نتائج مضمونة')]);
+    expect(scanVideoAnalysis(video, 'tiktok', 'en')).toEqual([]);
+  });
+});
+
+describe('scanBlueprint', () => {
+  it('scans the key message, variation intents and insights', () => {
+    const blueprint: CreativeBlueprint = {
+      id: 'blueprint-1',
+      source_analysis_id: 'analysis-1',
+      created_at: '2025-12-01T00:00:00Z',
+      framework: 'PAS',
+      framework_rationale: '',
+      objective: { primary_goal: 'sales', target_emotion: 'trust', key_message: 'Resultados garantizados' },
+      strategic_insights: ['Compra ya, quedan 3'],
+      variation_ideas: [idea('Cambia tu vida hoy')],
+      recommended_duration_range: { min_ms: 15000, max_ms: 30000 },
+      target_formats: ['9:16'],
+    };
+    const violations = scanBlueprint(blueprint, 'tiktok', 'es');
+    expect(violations.map(v => v.originalText)).toEqual([
+      'Resultados garantizados',
+      'Cambia tu vida',
+      'Compra ya',
+      'quedan 3',
+    ]);
+  });
+});
+
+describe('generateComplianceResult', () => {
+  it('renders when every high-risk claim has a rewrite', () => {
+    const violations = scanContent('نتائج مضمونة', 'tiktok', 'ar');
+    const result = generateComplianceResult('tiktok', violations, violations, 'ar');
+    expect(result.violations).toHaveLength(1);
+    expect(result.overallRisk).toBe('high_risk');
+    expect(result.canRender).toBe(true);
+    expect(result.autoFixedCount).toBe(1);
+    expect(result.language).toBe('ar');
+  });
+
+  it('blocks rendering on a high-risk claim without a rewrite', () => {
+    const result = generateComplianceResult('tiktok', scanContent('This one trick', 'tiktok'), []);
+    expect(result.canRender).toBe(false);
+    expect(result.summary).toBe('❌ Rendering blocked: Violates TikTok Ads policies');
+  });
+
+  it('is compliant without violations', () => {
+    const result = generateComplianceResult('meta', [], [], 'fr');
+    expect(result.overallRisk).toBe('safe');
+    expect(result.isCompliant).toBe(true);
+    expect(result.canRender).toBe(true);
+  });
+});
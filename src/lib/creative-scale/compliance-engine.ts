@@ -9,9 +9,17 @@ import {
   ViolationType,
   PolicyViolation,
   ComplianceResult,
+  ComplianceLanguage,
+  ComplianceCategory,
+  ComplianceDisclaimer,
+  ComplianceRule,
+  FunnelStage,
+  LanguageRulePack,
   PLATFORM_POLICIES,
   COMPLIANT_REWRITES,
 } from './compliance-types';
+import { LANGUAGE_RULE_PACKS, normalizeForCompliance, resolveComplianceLanguage } from './compliance-packs';
+import { CATEGORY_PROFILES } from './compliance-categories';
 import type { VideoAnalysis, CreativeBlueprint, VariationIdea } from './types';
 
 function generateViolationId(): string {
@@ -49,10 +57,11 @@ function getViolationType(pattern: RegExp): ViolationType {
   return 'prohibited_claim';
 }
 
-function findBestRewrite(originalText: string): string | undefined {
-  const lowerText = originalText.toLowerCase();
+function findBestRewrite(originalText: string, language: ComplianceLanguage = 'en'): string | undefined {
+  const rewrites = language === 'en' ? COMPLIANT_REWRITES : LANGUAGE_RULE_PACKS[language].rewrites;
+  const lowerText = language === 'en' ? originalText.toLowerCase() : normalizeForCompliance(originalText).text;
   
-  for (const [pattern, alternatives] of Object.entries(COMPLIANT_REWRITES)) {
+  for (const [pattern, alternatives] of Object.entries(rewrites)) {
     if (lowerText.includes(pattern.toLowerCase())) {
       // Pick a random alternative for variety
       return alternatives[Math.floor(Math.random() * alternatives.length)];
@@ -83,11 +92,152 @@ function getExplanation(type: ViolationType, platform: AdPlatform): string {
   return explanations[type] || `This content may violate ${platformName} advertising policies.`;
 }
 
+/**
+ * Matcher over normalized text. Matches are cut from the original text so
+ * rewriteForCompliance can replace them.
+ */
+function createMatcher(content: string): (pattern: RegExp) => string | null {
+  const normalized = normalizeForCompliance(content);
+  return (pattern: RegExp) => {
+    const match = normalized.text.match(pattern);
+    if (!match || match.index === undefined || match[0].length === 0) return null;
+    const start = normalized.offsets[match.index];
+    const end = normalized.offsets[match.index + match[0].length - 1] + 1;
+    return content.slice(start, end);
+  };
+}
+
+function isBeforeAfterAllowed(platform: AdPlatform, category: ComplianceCategory): boolean {
+  return CATEGORY_PROFILES[category].beforeAfterAllowed?.[platform] ?? PLATFORM_POLICIES[platform].beforeAfterAllowed;
+}
+
+/**
+ * Violations for the rules of one list. Platforms without medical/financial
+ * restrictions only warn on those claims.
+ */
+function matchRules(
+  matchOriginal: (pattern: RegExp) => string | null,
+  rules: ComplianceRule[],
+  prohibited: boolean,
+  platform: AdPlatform,
+  language: ComplianceLanguage,
+  policyReference: string
+): PolicyViolation[] {
+  const policy = PLATFORM_POLICIES[platform];
+  const violations: PolicyViolation[] = [];
+  
+  for (const rule of rules) {
+    if (rule.platforms && !rule.platforms.includes(platform)) continue;
+    const originalText = matchOriginal(rule.pattern);
+    if (!originalText) continue;
+    
+    const relaxed =
+      (rule.type === 'medical_disclaimer' && !policy.medicalRestrictions) ||
+      (rule.type === 'financial_disclaimer' && !policy.financialRestrictions);
+    const severity: RiskLevel = prohibited && !relaxed ? 'high_risk' : 'warning';
+    const rewrite = findBestRewrite(originalText, language);
+    
+    violations.push({
+      id: generateViolationId(),
+      type: rule.type,
+      severity,
+      originalText,
+      suggestion: rewrite
+        ? `Consider: "${rewrite}"`
+        : severity === 'high_risk' ? 'Rephrase to avoid policy violation' : 'Review for compliance',
+      rewrittenText: rewrite,
+      explanation: getExplanation(rule.type, platform),
+      policyReference: severity === 'high_risk' ? policyReference : undefined,
+    });
+  }
+  
+  return violations;
+}
+
+/**
+ * Rules of a non-English pack, matched on normalized text.
+ */
+function scanRulePack(
+  content: string,
+  platform: AdPlatform,
+  pack: LanguageRulePack,
+  beforeAfterAllowed: boolean
+): PolicyViolation[] {
+  const policy = PLATFORM_POLICIES[platform];
+  const matchOriginal = createMatcher(content);
+  const reference = `${policy.name} Advertising Policies (${pack.name} rules)`;
+  
+  const violations = [
+    ...matchRules(matchOriginal, pack.prohibitedRules, true, platform, pack.language, reference),
+    // Reported once below when before/after is not allowed
+    ...matchRules(
+      matchOriginal,
+      pack.warningRules.filter(r => beforeAfterAllowed || r.type !== 'before_after'),
+      false,
+      platform,
+      pack.language,
+      reference
+    ),
+  ];
+  
+  if (!beforeAfterAllowed) {
+    for (const pattern of pack.beforeAfterPatterns) {
+      const originalText = matchOriginal(pattern);
+      if (originalText && !violations.some(v => v.type === 'before_after')) {
+        violations.push({
+          id: generateViolationId(),
+          type: 'before_after',
+          severity: 'high_risk',
+          originalText,
+          suggestion: 'Show product benefits without before/after comparison',
+          rewrittenText: pack.beforeAfterRewrite,
+          explanation: `${policy.name} restricts before/after content to prevent unrealistic expectations.`,
+        });
+      }
+    }
+  }
+  
+  return violations;
+}
+
+/**
+ * Restricted claims of the product category, in the content's language
+ * and in English.
+ */
+function scanCategoryRules(
+  content: string,
+  platform: AdPlatform,
+  language: ComplianceLanguage,
+  category: ComplianceCategory
+): PolicyViolation[] {
+  const profile = CATEGORY_PROFILES[category];
+  const matchOriginal = createMatcher(content);
+  const reference = `${PLATFORM_POLICIES[platform].name} Advertising Policies (${profile.name})`;
+  const languages: ComplianceLanguage[] = language === 'en' ? ['en'] : [language, 'en'];
+  
+  return languages.flatMap(lang => {
+    const rules = profile.rules[lang];
+    if (!rules) return [];
+    return [
+      ...matchRules(matchOriginal, rules.prohibited, true, platform, lang, reference),
+      ...matchRules(matchOriginal, rules.warning, false, platform, lang, reference),
+    ];
+  });
+}
+
+/**
+ * Scan text against the platform's policy. English rules always run (ads
+ * mix languages); a non-English language adds its rule pack, and a product
+ * category adds its restricted claims and before/after rules.
+ */
 export function scanContent(
   content: string,
-  platform: AdPlatform
+  platform: AdPlatform,
+  language: ComplianceLanguage = 'en',
+  category: ComplianceCategory = 'general'
 ): PolicyViolation[] {
   const policy = PLATFORM_POLICIES[platform];
+  const beforeAfterAllowed = isBeforeAfterAllowed(platform, category);
   const violations: PolicyViolation[] = [];
   
   // Check prohibited patterns (high risk)
@@ -110,8 +260,9 @@ export function scanContent(
     }
   }
   
-  // Check warning patterns
+  // Check warning patterns (before/after is reported below when not allowed)
   for (const pattern of policy.warningPatterns) {
+    if (!beforeAfterAllowed && getViolationType(pattern) === 'before_after') continue;
     const match = content.match(pattern);
     if (match) {
       const originalText = match[0];
@@ -130,7 +281,7 @@ export function scanContent(
   }
   
   // Check before/after if not allowed
-  if (!policy.beforeAfterAllowed) {
+  if (!beforeAfterAllowed) {
     const beforeAfterPatterns = [
       /before\s+and\s+after/i,
       /before\/after/i,
@@ -153,19 +304,34 @@ export function scanContent(
     }
   }
   
+  if (language !== 'en') {
+    const packViolations = scanRulePack(content, platform, LANGUAGE_RULE_PACKS[language], beforeAfterAllowed);
+    violations.push(
+      ...packViolations.filter(v => !(v.type === 'before_after' && violations.some(x => x.type === 'before_after')))
+    );
+  }
+  
+  violations.push(...scanCategoryRules(content, platform, language, category));
+  
   return violations;
 }
 
+/**
+ * Scan the transcript. The rule pack follows the language detected in the
+ * video unless one is given.
+ */
 export function scanVideoAnalysis(
   analysis: VideoAnalysis,
-  platform: AdPlatform
+  platform: AdPlatform,
+  language: ComplianceLanguage = resolveComplianceLanguage(analysis.detected_language),
+  category: ComplianceCategory = 'general'
 ): PolicyViolation[] {
   const allViolations: PolicyViolation[] = [];
   
   // Scan each segment's transcript
   for (const segment of analysis.segments) {
     if (segment.transcript) {
-      const violations = scanContent(segment.transcript, platform);
+      const violations = scanContent(segment.transcript, platform, language, category);
       allViolations.push(...violations);
     }
   }
@@ -175,26 +341,28 @@ export function scanVideoAnalysis(
 
 export function scanBlueprint(
   blueprint: CreativeBlueprint,
-  platform: AdPlatform
+  platform: AdPlatform,
+  language: ComplianceLanguage = 'en',
+  category: ComplianceCategory = 'general'
 ): PolicyViolation[] {
   const allViolations: PolicyViolation[] = [];
   
   // Scan objective
   if (blueprint.objective) {
     const keyMessage = blueprint.objective.key_message || '';
-    allViolations.push(...scanContent(keyMessage, platform));
+    allViolations.push(...scanContent(keyMessage, platform, language, category));
   }
   
   // Scan variation ideas
   for (const idea of blueprint.variation_ideas || []) {
     if (idea.intent) {
-      allViolations.push(...scanContent(idea.intent, platform));
+      allViolations.push(...scanContent(idea.intent, platform, language, category));
     }
   }
   
   // Scan strategic insights
   for (const insight of blueprint.strategic_insights || []) {
-    allViolations.push(...scanContent(insight, platform));
+    allViolations.push(...scanContent(insight, platform, language, category));
   }
   
   return allViolations;
@@ -236,18 +404,66 @@ export function calculateOverallRisk(violations: PolicyViolation[]): RiskLevel {
   return 'safe';
 }
 
+/**
+ * Disclaimers the category requires on this platform, in the result's
+ * language.
+ */
+function resolveDisclaimers(
+  platform: AdPlatform,
+  category: ComplianceCategory,
+  language: ComplianceLanguage,
+  violations: PolicyViolation[]
+): ComplianceDisclaimer[] {
+  const policy = PLATFORM_POLICIES[platform];
+  const disclaimers: ComplianceDisclaimer[] = [];
+  
+  for (const disclaimer of CATEGORY_PROFILES[category].disclaimers) {
+    const triggered = violations.find(v => disclaimer.whenViolations?.includes(v.type));
+    let reason: string | null = null;
+    if (disclaimer.always) {
+      reason = `Required for ${CATEGORY_PROFILES[category].name} ads`;
+    } else if (disclaimer.topic && policy.requiresDisclaimer.includes(disclaimer.topic)) {
+      reason = `${policy.name} requires a ${disclaimer.topic.replace('_', ' ')} disclaimer`;
+    } else if (triggered) {
+      reason = `Covers "${triggered.originalText}"`;
+    }
+    if (!reason) continue;
+    
+    disclaimers.push({
+      id: disclaimer.id,
+      text: disclaimer.text[language],
+      language,
+      placement: disclaimer.placement,
+      reason,
+    });
+  }
+  
+  return disclaimers;
+}
+
 export function generateComplianceResult(
   platform: AdPlatform,
   analysisViolations: PolicyViolation[],
-  blueprintViolations: PolicyViolation[]
+  blueprintViolations: PolicyViolation[],
+  language?: ComplianceLanguage,
+  context: { category?: ComplianceCategory; funnelStage?: FunnelStage } = {}
 ): ComplianceResult {
+  const { category = 'general', funnelStage } = context;
   const allViolations = [...analysisViolations, ...blueprintViolations];
   
   // Deduplicate by original text
-  const uniqueViolations = allViolations.filter(
+  const dedupedViolations = allViolations.filter(
     (v, i, arr) => arr.findIndex(x => x.originalText === v.originalText) === i
   );
   
+  // Cold audiences see claims with the least context; only warnings move
+  const stageSeverity = funnelStage ? CATEGORY_PROFILES[category].funnelSeverity[funnelStage] : undefined;
+  const uniqueViolations = dedupedViolations.map(v => {
+    const severity = v.severity === 'warning' ? stageSeverity?.[v.type] : undefined;
+    return severity ? { ...v, severity } : v;
+  });
+  const requiredDisclaimers = resolveDisclaimers(platform, category, language ?? 'en', uniqueViolations);
+  
   const overallRisk = calculateOverallRisk(uniqueViolations);
   const autoFixedCount = uniqueViolations.filter(v => v.rewrittenText).length;
   
@@ -266,14 +482,21 @@ export function generateComplianceResult(
   } else {
     summary = `❌ Rendering blocked: Violates ${platformName} policies`;
   }
+  if (requiredDisclaimers.length > 0) {
+    summary += ` · ${requiredDisclaimers.length} disclaimer(s) required`;
+  }
   
   return {
     platform,
+    language,
+    category,
+    funnelStage,
     overallRisk,
-    isCompliant: uniqueViolations.length === 0,
+    isCompliant: uniqueViolations.every(v => v.severity === 'safe'),
     canRender,
     violations: uniqueViolations,
     autoFixedCount,
+    requiredDisclaimers,
     summary,
   };
 }
@@ -0,0 +1,234 @@
+/**
+ * Creative Scale - Compliance Gate
+ * Last check before a plan is rendered: re-scan what the viewer will
+ * actually see and hear, add required disclaimers as text overlays, refuse
+ * plans that cannot render, and record the decision.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { resolveSafeArea } from './captions';
+import type { PlatformType } from './marketing-frameworks';
+import type { ExecutionPlan, TextOverlay } from './compiler-types';
+import type { VideoAnalysis } from './types';
+import type {
+  AdPlatform,
+  ComplianceAuditRecord,
+  ComplianceDisclaimer,
+  ComplianceGateOptions,
+  ComplianceResult,
+  PolicyViolation,
+} from './compliance-types';
+import { generateComplianceResult, scanContent } from './compliance-engine';
+import { resolveComplianceLanguage } from './compliance-packs';
+
+const DISCLAIMER_PREFIX = 'disclaimer_';
+const END_CARD_MS = 3000;
+const DISCLAIMER_FONT_RATIO = 0.022;
+const AVERAGE_GLYPH_WIDTH = 0.55; // Of the font size
+
+const SAFE_AREA_PLATFORMS: Partial<Record<AdPlatform, PlatformType>> = {
+  tiktok: 'tiktok',
+  meta: 'meta',
+  snapchat: 'snapchat',
+  google: 'youtube',
+};
+
+export class ComplianceBlockedError extends Error {
+  constructor(public audit: ComplianceAuditRecord) {
+    super(audit.summary);
+    this.name = 'ComplianceBlockedError';
+  }
+}
+
+export interface ComplianceGateResult {
+  plan: ExecutionPlan; // With disclaimer overlays
+  result: ComplianceResult;
+  audit: ComplianceAuditRecord;
+}
+
+// ============================================
+// SCAN
+// ============================================
+
+/**
+ * Violations in the plan's text overlays, caption cues and the transcripts
+ * of the source segments it keeps. Disclaimers added by the gate are skipped.
+ */
+function scanExecutionPlan(
+  plan: ExecutionPlan,
+  analysis: VideoAnalysis,
+  options: Required<Pick<ComplianceGateOptions, 'platform' | 'language' | 'category'>>
+): { violations: PolicyViolation[]; scanned: ComplianceAuditRecord['scanned'] } {
+  const { platform, language, category } = options;
+  const scan = (text: string) => scanContent(text, platform, language, category);
+
+  const overlays = (plan.text_overlays || []).filter(o => !o.text_id.startsWith(DISCLAIMER_PREFIX));
+  const cues = plan.captions?.cues || [];
+
+  const keptIds = new Set(
+    plan.timeline
+      .filter(s => s.track === 'video' && s.source_video_id === analysis.source_video_id)
+      .map(s => s.source_segment_id)
+  );
+  const transcripts = analysis.segments.filter(s => keptIds.has(s.id) && s.transcript);
+
+  return {
+    violations: [
+      ...overlays.flatMap(o => scan(o.content)),
+      ...cues.flatMap(c => scan(c.lines.join(' '))),
+      ...transcripts.flatMap(s => scan(s.transcript as string)),
+    ],
+    scanned: {
+      text_overlays: overlays.length,
+      caption_cues: cues.length,
+      transcript_segments: transcripts.length,
+    },
+  };
+}
+
+// ============================================
+// DISCLAIMER OVERLAYS
+// ============================================
+
+function wrapText(text: string, maxChars: number): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/**
+ * Persistent disclaimers run the whole ad at the top of the safe area
+ * (captions sit at the bottom); end-card disclaimers fill the last seconds,
+ * centred. Each group stacks downwards.
+ */
+export function disclaimerOverlays(
+  disclaimers: ComplianceDisclaimer[],
+  plan: ExecutionPlan,
+  platform: AdPlatform
+): TextOverlay[] {
+  const format = plan.output_format;
+  const safeArea = resolveSafeArea(format, SAFE_AREA_PLATFORMS[platform]);
+  const durationMs = plan.validation.total_duration_ms;
+
+  const fontSize = Math.round(format.height * DISCLAIMER_FONT_RATIO);
+  const lineHeight = Math.round(fontSize * 1.3);
+  const left = Math.round(format.width * safeArea.left);
+  const usableWidth = format.width - left - Math.round(format.width * safeArea.right);
+  const maxChars = Math.max(12, Math.floor(usableWidth / (fontSize * AVERAGE_GLYPH_WIDTH)));
+  const x = `${left}+(${usableWidth}-text_w)/2`;
+
+  const overlays: TextOverlay[] = [];
+  for (const placement of ['persistent', 'end_card'] as const) {
+    let offset = placement === 'persistent'
+      ? Math.round(format.height * safeArea.top)
+      : Math.round(format.height * 0.4);
+
+    for (const disclaimer of disclaimers.filter(d => d.placement === placement)) {
+      const content = wrapText(disclaimer.text, maxChars);
+      overlays.push({
+        text_id: `${DISCLAIMER_PREFIX}${disclaimer.id}`,
+        content,
+        timeline_start_ms: placement === 'persistent' ? 0 : Math.max(0, durationMs - END_CARD_MS),
+        timeline_end_ms: durationMs,
+        font_size: fontSize,
+        color: '#FFFFFF',
+        x,
+        y: String(offset),
+        box: true,
+        box_color: '#000000',
+      });
+      offset += lineHeight * content.split('\n').length + Math.round(lineHeight / 2);
+    }
+  }
+
+  return overlays;
+}
+
+// ============================================
+// GATE
+// ============================================
+
+/**
+ * Scan the final plan, add the disclaimers it needs and decide whether it
+ * may render. Never throws; the caller refuses blocked plans.
+ */
+export function checkPlanCompliance(
+  plan: ExecutionPlan,
+  analysis: VideoAnalysis,
+  options: ComplianceGateOptions
+): ComplianceGateResult {
+  const language = options.language ?? resolveComplianceLanguage(analysis.detected_language);
+  const category = options.category ?? 'general';
+  const { platform, funnelStage } = options;
+
+  const { violations, scanned } = scanExecutionPlan(plan, analysis, { platform, language, category });
+  const result = generateComplianceResult(platform, violations, [], language, { category, funnelStage });
+  const decision = result.canRender ? 'approved' : 'blocked';
+
+  // Re-running the gate on its own output adds nothing twice
+  const existing = new Set((plan.text_overlays || []).map(o => o.text_id));
+  const injected = decision === 'approved'
+    ? disclaimerOverlays(result.requiredDisclaimers, plan, platform).filter(o => !existing.has(o.text_id))
+    : [];
+
+  const audit: ComplianceAuditRecord = {
+    audit_id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    plan_id: plan.plan_id,
+    variation_id: plan.variation_id,
+    source_analysis_id: plan.source_analysis_id,
+    checked_at: new Date().toISOString(),
+    decision,
+    platform,
+    language,
+    category,
+    funnel_stage: funnelStage ?? null,
+    overall_risk: result.overallRisk,
+    scanned,
+    violations: result.violations,
+    injected_disclaimers: injected.map(o => o.text_id.slice(DISCLAIMER_PREFIX.length)),
+    summary: result.summary,
+  };
+
+  return {
+    plan: injected.length > 0
+      ? { ...plan, text_overlays: [...(plan.text_overlays || []), ...injected] }
+      : plan,
+    result,
+    audit,
+  };
+}
+
+// ============================================
+// AUDIT LOG
+// ============================================
+
+/**
+ * Append an audit record. Records are never updated or deleted.
+ */
+export async function recordComplianceAudit(
+  audit: ComplianceAuditRecord,
+  scope: { userId: string; projectId?: string | null }
+): Promise<void> {
+  const { error } = await supabase.from('compliance_audits').insert({
+    user_id: scope.userId,
+    project_id: scope.projectId ?? null,
+    plan_id: audit.plan_id,
+    variation_id: audit.variation_id,
+    decision: audit.decision,
+    platform: audit.platform,
+    overall_risk: audit.overall_risk,
+    record: audit as unknown as Json,
+    checked_at: audit.checked_at,
+  });
+  if (error) throw new Error(`Failed to record compliance audit: ${error.message}`);
+}
@@ -0,0 +1,321 @@
+/**
+ * Compliance Rule Packs
+ * Non-English claim patterns and localized rewrites for the compliance engine.
+ * Patterns match normalized text (see normalizeForCompliance), so they are
+ * written without diacritics or hamza seats (ا, و, ي), with ي for ى and ه for ة.
+ */
+
+import type { ComplianceLanguage, LanguageRulePack } from './compliance-types';
+import type { Language, Market } from '@/lib/localization';
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+// NFD leaves these as single code points
+const CHAR_MAP: Record<string, string> = {
+  'ٱ': 'ا',
+  'ى': 'ي',
+  'ة': 'ه',
+  '٪': '%',
+  '’': "'",
+  '‘': "'",
+};
+
+const isMark = (char: string) => /\p{M}/u.test(char);
+const TATWEEL = 'ـ';
+
+function normalizeChar(char: string): string {
+  const code = char.charCodeAt(0);
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660);  // Arabic-Indic digits
+  if (code >= 0x06f0 && code <= 0x06f9) return String(code - 0x06f0);  // Extended (Persian) digits
+  if (char === TATWEEL) return '';
+  const mapped = CHAR_MAP[char] ?? char;
+  // Strips Latin accents, harakat, and the hamza/madda on alef, waw and ya
+  return [...mapped.normalize('NFD')].filter(c => !isMark(c)).join('').toLowerCase();
+}
+
+/**
+ * Text for pattern matching, plus the index in the original text of every
+ * normalized character so matches can be cut from the original.
+ */
+export function normalizeForCompliance(text: string): { text: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const out = normalizeChar(text[i]);
+    for (let j = 0; j < out.length; j++) offsets.push(i);
+    normalized += out;
+  }
+  return { text: normalized, offsets };
+}
+
+// ============================================
+// RULE PACKS
+// ============================================
+
+const ARABIC_PACK: LanguageRulePack = {
+  language: 'ar',
+  name: 'Arabic',
+  prohibitedRules: [
+    { pattern: /(نتايج|نتيجه)\s+مضمونه/, type: 'guaranteed_results' },
+    { pattern: /(مضمون|فعال|امن)(ه)?\s+100\s*%|100\s*%\s+(مضمون|فعال|امن)(ه)?/, type: 'guaranteed_results' },
+    { pattern: /(نضمن|ضمان)\s+(لك\s+)?(النتايج|النتيجه|نتايج|نتيجه)/, type: 'guaranteed_results' },
+    { pattern: /معجز(ه|ات)|(علاج|حل|خلطه|منتج|وصفه)\s+سحري(ه)?/, type: 'prohibited_claim' },
+    {
+      pattern: /(اخسر|اخسري|تخسر|تخسري|خساره|تخسيس|انزل|نزول|تخلص\s+من)\s+\d+\s*(كيلو|كجم|كغ|كلغ|رطل|باوند)(ات)?\s+(في|خلال)\s+(\d+\s*)?(يوم|ايام|اسبوع|اسبوعين|اسابيع|شهر)/,
+      type: 'medical_disclaimer',
+    },
+    { pattern: /شفاء\s+(تام|نهائي)|علاج\s+نهائي|يشفي\s+نهائيا/, type: 'medical_disclaimer' },
+    {
+      pattern: /(اربح|اربحي|اكسب|اكسبي|ربح|دخل)\s+(\$\s*)?\d[\d,.]*\s*(\$|دولار|ريال|درهم|دينار|الف)?\s*(في\s+(اليوم|الاسبوع|الشهر)|يوميا|اسبوعيا|شهريا|كل\s+(يوم|اسبوع|شهر))/,
+      type: 'financial_disclaimer',
+    },
+    { pattern: /الاطباء\s+(يكرهون|لا\s+يريدون|ما\s+يبغون)/, type: 'prohibited_claim' },
+    {
+      pattern: /هل\s+(انت|انتي)\s+(سمين|بدين|فقير|وحيد|مكتئب)(ه)?/,
+      type: 'personal_attribute',
+      platforms: ['meta'],
+    },
+    { pattern: /هل\s+تعاني(ن)?\s+من/, type: 'personal_attribute', platforms: ['meta'] },
+  ],
+  warningRules: [
+    { pattern: /قبل\s+و\s*بعد/, type: 'before_after' },
+    { pattern: /عرض\s+محدود|لفتره\s+محدوده|لوقت\s+محدود|كميه\s+محدوده/, type: 'misleading_urgency' },
+    {
+      pattern: /(اطلب|اطلبي|اشتر|اشتري)\s+(الان|الحين|هلا|دحين|فورا)|سارع(ي|وا)?|لا\s+تفوت|اخر\s+فرصه|فرصه\s+اخيره/,
+      type: 'misleading_urgency',
+    },
+    { pattern: /(متبقي|باقي|بقي|تبقي)\s+(فقط\s+)?\d+\s+(قطع|قطعه|حبات|حبه|علب|علبه)/, type: 'misleading_urgency' },
+    { pattern: /(سيغير|يغير|بيغير|راح\s+يغير)\s+حياتك/, type: 'prohibited_claim' },
+    {
+      pattern: /(الافضل|الاقوي|رقم\s+(1|واحد))\s+(في|علي)\s+(السوق|العالم)|الاكثر\s+مبيعا/,
+      type: 'superlative_claim',
+      platforms: ['google'],
+    },
+  ],
+  beforeAfterPatterns: [/قبل\s+و\s*بعد/, /قبل\s*\/\s*بعد/],
+  beforeAfterRewrite: 'عرض المنتج',
+  rewrites: {
+    'نتايج مضمونه': ['نتائج قد تختلف من شخص لآخر', 'مصمم ليساعدك'],
+    'نتيجه مضمونه': ['نتائج قد تختلف من شخص لآخر', 'مصمم ليساعدك'],
+    'مضمون': ['مصمم ليساعدك', 'قد يساعدك'],
+    'نضمن': ['نسعى لمساعدتك'],
+    'ضمان': ['نسعى لمساعدتك'],
+    'فعال': ['فعال لدى كثير من المستخدمين'],
+    'معجز': ['حل مبتكر', 'أسلوب جديد'],
+    'سحري': ['حل مبتكر', 'أسلوب جديد'],
+    'كيلو': ['يدعم رحلتك نحو وزن صحي', 'يساعدك على الوصول لأهدافك'],
+    'كجم': ['يدعم رحلتك نحو وزن صحي', 'يساعدك على الوصول لأهدافك'],
+    'شفاء': ['قد يساعد في تخفيف الأعراض'],
+    'علاج نهائي': ['قد يساعد في تخفيف الأعراض'],
+    'اربح': ['الدخل المحتمل يختلف من شخص لآخر'],
+    'اكسب': ['الدخل المحتمل يختلف من شخص لآخر'],
+    'الاطباء': ['اكتشف ما يناسبك'],
+    'هل تعاني': ['إذا كنت تبحث عن حل'],
+    'هل انت': ['في رحلتك نحو ثقة أكبر'],
+    'عرض محدود': ['متوفر الآن'],
+    'محدوده': ['متوفر الآن'],
+    'فرصه': ['متوفر الآن'],
+    'لا تفوت': ['اكتشف المزايا'],
+    'اطلب': ['اعرف المزيد اليوم'],
+    'اشتر': ['اعرف المزيد اليوم'],
+    'سارع': ['اعرف المزيد اليوم'],
+    'بقي': ['متوفر الآن'],
+    'حياتك': ['حسّن روتينك اليومي'],
+  },
+};
+
+const SPANISH_PACK: LanguageRulePack = {
+  language: 'es',
+  name: 'Spanish',
+  prohibitedRules: [
+    { pattern: /resultados?\s+garantizados?|garantia\s+de\s+resultados?|garantizamos\s+(los\s+)?resultados/, type: 'guaranteed_results' },
+    { pattern: /100\s*%\s+(efectiv[oa]|garantizad[oa]|segur[oa])/, type: 'guaranteed_results' },
+    { pattern: /(cura|solucion|producto|remedio)\s+milagros[oa]|milagro/, type: 'prohibited_claim' },
+    {
+      pattern: /(pierde|pierdes|perder|baja|bajar|adelgaza|adelgazar)\s+\d+\s*(kg|kilos?|libras?)\s+en\s+(una?\s+|\d+\s*)?(dias?|semanas?|mes)/,
+      type: 'medical_disclaimer',
+    },
+    { pattern: /cura\s+(definitiva|total|para\s+siempre)/, type: 'medical_disclaimer' },
+    {
+      pattern: /(gana|ganar|genera|generar)\s+\$?\s*\d[\d.,]*\s*(\$|dolares|euros|€|pesos)?\s*(al|por|a\s+la|cada)\s+(dia|semana|mes)/,
+      type: 'financial_disclaimer',
+    },
+    { pattern: /los\s+medicos\s+(odian|no\s+quieren)/, type: 'prohibited_claim' },
+    {
+      pattern: /(estas|eres)\s+(gord[oa]|fe[oa]|pobre|sol[oa]|deprimid[oa])/,
+      type: 'personal_attribute',
+      platforms: ['meta'],
+    },
+    { pattern: /\bsufres\s+de/, type: 'personal_attribute', platforms: ['meta'] },
+  ],
+  warningRules: [
+    { pattern: /antes\s+y\s+despues/, type: 'before_after' },
+    { pattern: /(por|solo\s+por)\s+tiempo\s+limitado|oferta\s+limitada/, type: 'misleading_urgency' },
+    {
+      pattern: /(compra|compralo|actua|pide|pidelo)\s+(ya|ahora)|ultima\s+oportunidad|no\s+te\s+lo\s+pierdas/,
+      type: 'misleading_urgency',
+    },
+    { pattern: /(solo\s+)?quedan\s+(solo\s+)?\d+/, type: 'misleading_urgency' },
+    { pattern: /cambia(ra)?\s+tu\s+vida/, type: 'prohibited_claim' },
+    {
+      pattern: /(el|la)\s+mejor\s+del\s+mercado|numero\s+1\s+en\s+ventas|el\s+mas\s+vendido/,
+      type: 'superlative_claim',
+      platforms: ['google'],
+    },
+  ],
+  beforeAfterPatterns: [/antes\s+y\s+despues/, /antes\s*\/\s*despues/],
+  beforeAfterRewrite: 'demostración del producto',
+  rewrites: {
+    'garantiza': ['beneficios potenciales', 'diseñado para ayudarte', 'puede ayudarte'],
+    'garantia': ['beneficios potenciales', 'diseñado para ayudarte'],
+    '100%': ['muy eficaz para muchos usuarios'],
+    'milagro': ['solución innovadora', 'un enfoque novedoso'],
+    'kg': ['apoya tus objetivos de control de peso'],
+    'kilo': ['apoya tus objetivos de control de peso'],
+    'libra': ['apoya tus objetivos de control de peso'],
+    'cura': ['puede ayudar a aliviar los síntomas'],
+    'gana': ['los ingresos varían según cada persona'],
+    'genera': ['los ingresos varían según cada persona'],
+    'medicos': ['descubre lo que funciona'],
+    'sufres de': ['si buscas una solución'],
+    'estas': ['en tu camino hacia el bienestar'],
+    'eres': ['en tu camino hacia el bienestar'],
+    'tiempo limitado': ['disponible ahora'],
+    'oferta limitada': ['disponible ahora'],
+    'ultima oportunidad': ['disponible ahora'],
+    'quedan': ['disponible ahora'],
+    'no te lo pierdas': ['descubre los beneficios'],
+    'compra': ['infórmate hoy'],
+    'actua': ['infórmate hoy'],
+    'pide': ['infórmate hoy'],
+    'vida': ['mejora tu rutina diaria'],
+  },
+};
+
+const FRENCH_PACK: LanguageRulePack = {
+  language: 'fr',
+  name: 'French',
+  prohibitedRules: [
+    { pattern: /resultats?\s+garantis?|garantie\s+de\s+resultats?|garantissons\s+(les\s+)?resultats?/, type: 'guaranteed_results' },
+    { pattern: /100\s*%\s+(efficace|garantie?|sure?)/, type: 'guaranteed_results' },
+    { pattern: /(remede|solution|produit|cure)\s+miracle|miracle/, type: 'prohibited_claim' },
+    {
+      pattern: /(perdez|perdre|perds|maigrir|maigrissez)\s+(jusqu'a\s+)?\d+\s*(kg|kilos?|livres?)\s+en\s+(une?\s+|\d+\s*)?(jours?|semaines?|mois)/,
+      type: 'medical_disclaimer',
+    },
+    { pattern: /guerison\s+(totale|definitive)|guerit\s+(definitivement|totalement)/, type: 'medical_disclaimer' },
+    {
+      pattern: /(gagnez|gagner|gagne)\s+\d[\d.,\s]*(€|euros?|\$|dollars?|dirhams?)\s*(par|chaque)\s+(jour|semaine|mois)/,
+      type: 'financial_disclaimer',
+    },
+    { pattern: /les\s+medecins\s+(detestent|ne\s+veulent\s+pas)/, type: 'prohibited_claim' },
+    {
+      pattern: /(etes[-\s]vous|es[-\s]tu)\s+(grosse?|laide?|pauvre|seule?|deprimee?)/,
+      type: 'personal_attribute',
+      platforms: ['meta'],
+    },
+    { pattern: /souffrez[-\s]vous\s+de|tu\s+souffres\s+de/, type: 'personal_attribute', platforms: ['meta'] },
+  ],
+  warningRules: [
+    { pattern: /avant\s*(et|\/)\s*apres/, type: 'before_after' },
+    { pattern: /offre\s+limitee|duree\s+limitee|temps\s+limite/, type: 'misleading_urgency' },
+    {
+      pattern: /(commandez|agissez|achetez)\s+(maintenant|vite|tout\s+de\s+suite)|derniere\s+chance|ne\s+(le\s+|la\s+)?ratez\s+pas/,
+      type: 'misleading_urgency',
+    },
+    { pattern: /il\s+(ne|n'en)\s+reste\s+(que|plus\s+que)\s+\d+|plus\s+que\s+\d+\s+en\s+stock/, type: 'misleading_urgency' },
+    { pattern: /chang\w*\s+(votre|ta)\s+vie/, type: 'prohibited_claim' },
+    {
+      pattern: /(le|la)\s+meilleure?\s+du\s+marche|n[°o]?\s*1\s+des\s+ventes|le\s+plus\s+vendu/,
+      type: 'superlative_claim',
+      platforms: ['google'],
+    },
+  ],
+  beforeAfterPatterns: [/avant\s*(et|\/)\s*apres/],
+  beforeAfterRewrite: 'démonstration du produit',
+  rewrites: {
+    'garanti': ['bénéfices potentiels', 'conçu pour vous aider', 'peut vous aider'],
+    '100%': ['très efficace pour de nombreux utilisateurs'],
+    'miracle': ['solution innovante', 'une approche nouvelle'],
+    'kg': ['accompagne vos objectifs de gestion du poids'],
+    'kilo': ['accompagne vos objectifs de gestion du poids'],
+    'livre': ['accompagne vos objectifs de gestion du poids'],
+    'guer': ['peut aider à soulager les symptômes'],
+    'gagn': ['les revenus varient selon chacun'],
+    'medecins': ['découvrez ce qui fonctionne'],
+    'souffr': ['si vous cherchez une solution'],
+    'etes': ['dans votre parcours bien-être'],
+    'es-tu': ['dans ton parcours bien-être'],
+    'limite': ['disponible maintenant'],
+    'derniere chance': ['disponible maintenant'],
+    'reste': ['disponible maintenant'],
+    'en stock': ['disponible maintenant'],
+    'ratez': ['découvrez les avantages'],
+    'commandez': ["renseignez-vous dès aujourd'hui"],
+    'agissez': ["renseignez-vous dès aujourd'hui"],
+    'achetez': ["renseignez-vous dès aujourd'hui"],
+    'vie': ['améliorez votre quotidien'],
+  },
+};
+
+export const LANGUAGE_RULE_PACKS: Record<Exclude<ComplianceLanguage, 'en'>, LanguageRulePack> = {
+  ar: ARABIC_PACK,
+  es: SPANISH_PACK,
+  fr: FRENCH_PACK,
+};
+
+// ============================================
+// PACK SELECTION
+// ============================================
+
+const LANGUAGE_ALIASES: Record<string, ComplianceLanguage> = {
+  ar: 'ar',
+  ara: 'ar',
+  arabic: 'ar',
+  'العربيه': 'ar',
+  es: 'es',
+  spa: 'es',
+  spanish: 'es',
+  espanol: 'es',
+  fr: 'fr',
+  fra: 'fr',
+  fre: 'fr',
+  french: 'fr',
+  francais: 'fr',
+  en: 'en',
+  eng: 'en',
+  english: 'en',
+};
+
+const MARKET_LANGUAGES: Partial<Record<Market, ComplianceLanguage>> = {
+  sa: 'ar',
+  ae: 'ar',
+  kw: 'ar',
+  ma: 'ar',
+  latam: 'es',
+};
+
+function toComplianceLanguage(value?: string | null): ComplianceLanguage | null {
+  if (!value) return null;
+  const key = normalizeForCompliance(value.trim()).text;
+  return LANGUAGE_ALIASES[key] ?? LANGUAGE_ALIASES[key.split(/[-_]/)[0]] ?? null;
+}
+
+/**
+ * Rule pack for a piece of content: the language detected in the video
+ * first, then the audience's language, then the market's main language.
+ * Languages without a pack (de, pt) use the English rules.
+ */
+export function resolveComplianceLanguage(
+  detectedLanguage?: string | null,
+  audience?: { language?: Language; market?: Market }
+): ComplianceLanguage {
+  return (
+    toComplianceLanguage(detectedLanguage) ??
+    (audience?.language ? toComplianceLanguage(audience.language) ?? 'en' : null) ??
+    (audience?.market ? MARKET_LANGUAGES[audience.market] : undefined) ??
+    'en'
+  );
+}
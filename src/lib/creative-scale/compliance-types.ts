@@ -23,6 +23,14 @@ export type ViolationType =
 
 export type FunnelStage = 'cold' | 'warm' | 'retargeting';
 
+// Languages with a rule pack (compliance-packs.ts); English uses PLATFORM_POLICIES
+export type ComplianceLanguage = 'en' | 'ar' | 'es' | 'fr';
+
+// Regulated product categories (compliance-categories.ts)
+export type ComplianceCategory = 'general' | 'health' | 'supplements' | 'beauty' | 'devices' | 'finance';
+
+export type DisclaimerPlacement = 'persistent' | 'end_card';
+
 export interface PolicyViolation {
   id: string;
   type: ViolationType;
@@ -34,13 +42,62 @@ export interface PolicyViolation {
   policyReference?: string;
 }
 
+// Disclaimer the rendered ad must carry as a text overlay
+export interface ComplianceDisclaimer {
+  id: string;
+  text: string;
+  language: ComplianceLanguage;
+  placement: DisclaimerPlacement;
+  reason: string;
+}
+
 export interface ComplianceResult {
   platform: AdPlatform;
+  language?: ComplianceLanguage;
+  category?: ComplianceCategory;
+  funnelStage?: FunnelStage;
   overallRisk: RiskLevel;
   isCompliant: boolean;
   canRender: boolean;
   violations: PolicyViolation[];
   autoFixedCount: number;
+  requiredDisclaimers: ComplianceDisclaimer[];
+  summary: string;
+}
+
+// ============================================
+// RENDER GATE
+// ============================================
+
+export interface ComplianceGateOptions {
+  platform: AdPlatform;
+  language?: ComplianceLanguage; // Defaults to the language detected in the video
+  category?: ComplianceCategory;
+  funnelStage?: FunnelStage;
+}
+
+export type ComplianceDecision = 'approved' | 'blocked';
+
+// What was checked before a plan went to the renderer
+export interface ComplianceAuditRecord {
+  audit_id: string;
+  plan_id: string;
+  variation_id: string;
+  source_analysis_id: string;
+  checked_at: string;
+  decision: ComplianceDecision;
+  platform: AdPlatform;
+  language: ComplianceLanguage;
+  category: ComplianceCategory;
+  funnel_stage: FunnelStage | null;
+  overall_risk: RiskLevel;
+  scanned: {
+    text_overlays: number;
+    caption_cues: number;
+    transcript_segments: number;
+  };
+  violations: PolicyViolation[];
+  injected_disclaimers: string[]; // ComplianceDisclaimer ids added as text overlays
   summary: string;
 }
 
@@ -57,6 +114,51 @@ export interface PlatformPolicy {
   financialRestrictions: boolean;
 }
 
+export interface ComplianceRule {
+  pattern: RegExp; // Written against normalizeForCompliance() output
+  type: ViolationType;
+  platforms?: AdPlatform[]; // Only these platforms; all when omitted
+}
+
+/**
+ * Platform-independent patterns for one language. The platform's policy
+ * still decides before/after handling and medical/financial strictness.
+ */
+export interface LanguageRulePack {
+  language: ComplianceLanguage;
+  name: string;
+  prohibitedRules: ComplianceRule[];
+  warningRules: ComplianceRule[];
+  beforeAfterPatterns: RegExp[];
+  beforeAfterRewrite: string;
+  rewrites: Record<string, string[]>; // Keys normalized, values as written
+}
+
+export interface CategoryDisclaimer {
+  id: string;
+  // Required when the platform's requiresDisclaimer lists the topic,
+  // when always is set, or when one of whenViolations was found
+  topic?: string;
+  always?: boolean;
+  whenViolations?: ViolationType[];
+  placement: DisclaimerPlacement;
+  text: Record<ComplianceLanguage, string>;
+}
+
+/**
+ * Extra rules for a regulated product category, on top of the platform
+ * policy and language pack.
+ */
+export interface CategoryComplianceProfile {
+  id: ComplianceCategory;
+  name: string;
+  rules: Partial<Record<ComplianceLanguage, { prohibited: ComplianceRule[]; warning: ComplianceRule[] }>>;
+  beforeAfterAllowed?: Partial<Record<AdPlatform, boolean>>; // Overrides the platform policy
+  disclaimers: CategoryDisclaimer[];
+  // Severity of warning-level findings per funnel stage (prohibited findings are never relaxed)
+  funnelSeverity: Partial<Record<FunnelStage, Partial<Record<ViolationType, RiskLevel>>>>;
+}
+
 export interface FrameworkContext {
   platform: AdPlatform;
   videoLengthSec: number;
@@ -8,8 +8,10 @@
 
 import { ExecutionPlan } from './compiler-types';
 import { VideoAnalysis, CreativeBlueprint } from './types';
-import { RenderFlowApi } from '@/renderflow/api';
+import { RenderFlowApi, type RenderFlowJob } from '@/renderflow/api';
 import { executionDebugLogger } from './execution-debug';
+import { checkPlanCompliance, recordComplianceAudit, ComplianceBlockedError } from './compliance-gate';
+import type { ComplianceAuditRecord, ComplianceGateOptions } from './compliance-types';
 
 // ============================================
 // EXECUTION RESULT CONTRACT
@@ -25,6 +27,7 @@ export interface ExecutionResult {
   output_video_url?: string;
   execution_plan_json: string;
   processing_time_ms: number;
+  compliance_audit?: ComplianceAuditRecord;
   // Legacy compatibility
   error?: string;
 }
@@ -35,6 +38,8 @@ export interface ExecutionContext {
   blueprint: CreativeBlueprint;
   sourceVideoUrl?: string; // Source video URL for rendering
   userId?: string;
+  projectId?: string | null;
+  compliance?: ComplianceGateOptions; // Platform-neutral rules when omitted
   variationIndex?: number;
   onProgress?: (engine: EngineId, progress: number, message: string, metadata?: any) => void;
 }
@@ -60,7 +65,7 @@ export async function executeUnifiedStrategy(ctx: ExecutionContext): Promise<Exe
   executionDebugLogger.logEngineDispatch(
     index,
     'unified_server',
-    'POST /render/submit',
+    'POST /render/jobs',
     'POST',
     {
       planSegments: ctx.plan.timeline?.length || 0,
@@ -68,15 +73,31 @@ export async function executeUnifiedStrategy(ctx: ExecutionContext): Promise<Exe
     }
   );
 
+  let audit: ComplianceAuditRecord | undefined;
+  let plan = ctx.plan;
+
   try {
+    // 0. Compliance gate (disclaimers are added to the plan that renders)
+    ctx.onProgress?.('unified_server', 5, 'Checking ad policy compliance...');
+    const gate = checkPlanCompliance(ctx.plan, ctx.analysis, ctx.compliance ?? { platform: 'general' });
+    audit = gate.audit;
+    plan = gate.plan;
+    console.log(`[UnifiedEngine] Compliance: ${audit.decision} (${audit.overall_risk}), disclaimers: ${audit.injected_disclaimers.length}`);
+
+    // No unrecorded decisions: a failed audit write stops the render
+    if (ctx.userId) {
+      await recordComplianceAudit(audit, { userId: ctx.userId, projectId: ctx.projectId });
+    }
+    if (audit.decision === 'blocked') throw new ComplianceBlockedError(audit);
+
     // 1. Submit Job
     console.log(`[UnifiedEngine] Submitting plan to VPS...`);
     ctx.onProgress?.('unified_server', 10, 'Submitting to VPS...');
-    const submitResult = await RenderFlowApi.submitPlan(ctx.plan, ctx.sourceVideoUrl);
+    const submitResult = await RenderFlowApi.submitPlan(plan, ctx.sourceVideoUrl);
     console.log(`[UnifiedEngine] Submit Result:`, submitResult);
 
     // 2. Poll for Completion
-    const result = await pollJobStatus(submitResult.ids[0], ctx);
+    const result = await pollJobStatus(submitResult.id, ctx);
     const duration = Date.now() - start;
 
     return {
@@ -84,8 +105,9 @@ export async function executeUnifiedStrategy(ctx: ExecutionContext): Promise<Exe
       engine_used: 'unified_server',
       output_type: 'video',
       output_video_url: result.outputUrl,
-      execution_plan_json: JSON.stringify(ctx.plan),
-      processing_time_ms: duration
+      execution_plan_json: JSON.stringify(plan),
+      processing_time_ms: duration,
+      compliance_audit: audit
     };
 
   } catch (err: any) {
@@ -103,8 +125,9 @@ export async function executeUnifiedStrategy(ctx: ExecutionContext): Promise<Exe
     return {
       status: 'failed',
       engine_used: 'unified_server',
-      execution_plan_json: JSON.stringify(ctx.plan),
+      execution_plan_json: JSON.stringify(plan),
       processing_time_ms: duration,
+      compliance_audit: audit,
       error: err.message
     };
   }
@@ -123,33 +146,38 @@ async function pollJobStatus(jobId: string, ctx: ExecutionContext): Promise<{ ou
     await new Promise(resolve => setTimeout(resolve, POLLING_INTERVAL));
     attempts++;
 
+    // Only the request is retried; terminal states below end the poll
+    let status: RenderFlowJob;
     try {
-      const status = await RenderFlowApi.getJobStatus(jobId);
-
-      // Update Progress
-      ctx.onProgress?.('unified_server', Math.max(10, status.progress_pct || 0), `Processing... (${status.state})`, { jobId });
-
-      if (status.state === 'done') {
-        if (status.output?.output_url) {
-          return { outputUrl: status.output.output_url };
-        } else if ((status.output as any)?.output_path) {
-          // Fallback if URL is missing for some reason
-          return { outputUrl: (status.output as any).output_path };
-        }
-
-        const warning = 'Job marked done but no video artifact found.';
-        console.warn(`[UnifiedEngine] ${warning}`, status);
-        // Keep polling? No, done is done.
-        throw new Error(warning);
-      }
+      status = await RenderFlowApi.getJobStatus(jobId);
+    } catch (pollErr) {
+      console.warn(`[UnifiedEngine] Poll error:`, pollErr);
+      if (attempts % 5 === 0) ctx.onProgress?.('unified_server', 10, 'Waiting for server response...');
+      continue;
+    }
 
-      if (status.state === 'failed') {
-        throw new Error(status.error?.message || 'Job failed on server');
+    // Update Progress
+    ctx.onProgress?.('unified_server', Math.max(10, status.progress_pct || 0), `Processing... (${status.state})`, { jobId });
+
+    if (status.state === 'done') {
+      if (status.output?.output_url) {
+        return { outputUrl: status.output.output_url };
+      } else if ((status.output as any)?.output_path) {
+        // Fallback if URL is missing for some reason
+        return { outputUrl: (status.output as any).output_path };
       }
 
-    } catch (pollErr: any) {
-      console.warn(`[UnifiedEngine] Poll error:`, pollErr);
-      if (attempts % 5 === 0) ctx.onProgress?.('unified_server', 10, 'Waiting for server response...');
+      const warning = 'Job marked done but no video artifact found.';
+      console.warn(`[UnifiedEngine] ${warning}`, status);
+      throw new Error(warning);
+    }
+
+    if (status.state === 'failed') {
+      throw new Error(status.error?.message || 'Job failed on server');
+    }
+
+    if (status.state === 'cancelled') {
+      throw new Error('Render job was cancelled');
     }
   }
 
@@ -13,6 +13,26 @@ export * from './prd-types';
 export * from './compiler-types';
 export { compile, compileAll } from './compiler';
 
+// Beat Sync
+export { snapTimelineToBeats, buildMusicSegment, applyBeatSync } from './beat-sync';
+
+// Reframing
+export { applyReframe } from './reframing';
+
+// Captions
+export * from './caption-types';
+export {
+  buildCaptionTrack,
+  wrapCaptionLines,
+  resolveSafeArea,
+  toSRT,
+  toWebVTT,
+  toASS,
+  exportCaptions,
+  captionsToTextOverlays,
+  toSubtitleRows,
+} from './captions';
+
 // Phase B Step 5: Router
 export * from './router-types';
 export * from './engine-registry';
@@ -31,6 +51,14 @@ export {
 export * from './validation';
 export * from './brain-v2-types';
 export * from './brain-v2-engine';
+export {
+  computeRewards,
+  hashHistory,
+  latestOutcomes,
+  trainBrainModel,
+  outcomeFromBlueprint,
+  LEARNED_MODEL_VERSION,
+} from './brain-v2-learner';
 
 // Prompts (for edge functions)
 export * from './prompts';
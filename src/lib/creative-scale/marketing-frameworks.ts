@@ -5,6 +5,8 @@
  * Expanded framework definitions with platform awareness
  */
 
+import type { LoudnessTarget } from './compiler-types';
+
 // ============================================
 // FRAMEWORK DEFINITIONS (MARKETING-FIRST)
 // ============================================
@@ -276,6 +278,19 @@ export const PLATFORM_PREFERENCES: Record<PlatformType, PlatformPreferences> = {
   }
 };
 
+// ============================================
+// PLATFORM LOUDNESS TARGETS
+// ============================================
+
+// EBU R128 delivery targets per platform. Feeds ExecutionPlan.audio_mix.loudness;
+// the renderer normalizes in two passes and reports what it measured.
+export const PLATFORM_LOUDNESS_TARGETS: Record<PlatformType, LoudnessTarget> = {
+  tiktok: { integrated_lufs: -14, true_peak_dbtp: -1, loudness_range_lu: 7 },
+  meta: { integrated_lufs: -14, true_peak_dbtp: -1, loudness_range_lu: 9 },
+  snapchat: { integrated_lufs: -16, true_peak_dbtp: -1, loudness_range_lu: 7 },
+  youtube: { integrated_lufs: -14, true_peak_dbtp: -1, loudness_range_lu: 11 }
+};
+
 // Available platforms for UI
 export const AVAILABLE_PLATFORMS: PlatformType[] = ['tiktok', 'meta', 'snapchat', 'youtube'];
 
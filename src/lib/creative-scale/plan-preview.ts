@@ -0,0 +1,226 @@
+/**
+ * Creative Scale - Plan Preview
+ * Client-side schedule of an ExecutionPlan for the preview player: which
+ * source moment is on screen at any output time, which overlays are
+ * visible, and how the plan differs from the original video.
+ * Pure functions; PlanPreviewPlayer does the playback.
+ */
+
+import { cropAt } from '@/lib/reframe';
+import type { AudioSegment, ExecutionPlan, TextOverlay, TimelineSegment } from './compiler-types';
+import type { SegmentType, VideoAnalysis } from './types';
+
+export interface PreviewClip {
+  segment: TimelineSegment;
+  asset_url: string | null; // null = the source video
+  start_ms: number;         // Output time
+  end_ms: number;
+  rate: number;             // Source ms per output ms
+}
+
+export interface PreviewFrame {
+  clip: PreviewClip;
+  source_ms: number;
+  crop: { x: number; y: number; width: number; height: number } | null; // Source fractions
+}
+
+// When each audio segment starts and what it plays, matching the renderer:
+// trimmed source at normal speed, delayed to timeline_start_ms
+export interface PreviewAudioCue {
+  audio: AudioSegment;
+  start_ms: number;
+  offset_ms: number;
+  duration_ms: number;
+}
+
+export interface PlanDiffBlock {
+  id: string;
+  segment_type: SegmentType | null;
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface PlanDiff {
+  original_duration_ms: number;
+  plan_duration_ms: number;
+  original: Array<PlanDiffBlock & { kept: boolean; uses: number }>;
+  plan: Array<PlanDiffBlock & { source_segment_id: string; speed: number; replaced: boolean }>;
+  removed_ms: number;
+}
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+/**
+ * Video clips in output order. Where a transition overlaps two segments
+ * the preview cuts at the start of the overlap.
+ */
+export function buildPreviewClips(plan: ExecutionPlan): PreviewClip[] {
+  const segments = plan.timeline
+    .filter(s => s.track === 'video')
+    .sort((a, b) => a.timeline_start_ms - b.timeline_start_ms);
+
+  return segments.map((segment, i) => {
+    const next = segments[i + 1];
+    const output = segment.timeline_end_ms - segment.timeline_start_ms;
+    return {
+      segment,
+      asset_url: segment.asset_url,
+      start_ms: segment.timeline_start_ms,
+      end_ms: next ? Math.min(segment.timeline_end_ms, next.timeline_start_ms) : segment.timeline_end_ms,
+      rate: output > 0 ? (segment.trim_end_ms - segment.trim_start_ms) / output : 1,
+    };
+  });
+}
+
+export function previewDuration(plan: ExecutionPlan): number {
+  return plan.validation.total_duration_ms ||
+    Math.max(0, ...plan.timeline.map(s => s.timeline_end_ms));
+}
+
+/**
+ * Source frame shown at an output time, null in gaps.
+ */
+export function frameAt(clips: PreviewClip[], tMs: number): PreviewFrame | null {
+  const clip = clips.find(c => tMs >= c.start_ms && tMs < c.end_ms) ??
+    (clips.length > 0 && tMs >= clips[clips.length - 1].end_ms ? clips[clips.length - 1] : undefined);
+  if (!clip) return null;
+
+  const { segment } = clip;
+  const sourceMs = Math.min(
+    segment.trim_end_ms,
+    segment.trim_start_ms + (Math.min(tMs, clip.end_ms) - clip.start_ms) * clip.rate
+  );
+  const crop = segment.crop
+    ? { ...cropAt(segment.crop, sourceMs), width: segment.crop.width, height: segment.crop.height }
+    : null;
+
+  return { clip, source_ms: sourceMs, crop };
+}
+
+export function overlaysAt(plan: ExecutionPlan, tMs: number): TextOverlay[] {
+  return (plan.text_overlays || []).filter(o => tMs >= o.timeline_start_ms && tMs < o.timeline_end_ms);
+}
+
+export function audioCues(plan: ExecutionPlan): PreviewAudioCue[] {
+  return plan.audio_tracks.map(audio => ({
+    audio,
+    start_ms: audio.timeline_start_ms,
+    offset_ms: audio.trim_start_ms,
+    duration_ms: Math.max(0, audio.trim_end_ms - audio.trim_start_ms),
+  }));
+}
+
+/**
+ * Gain of an audio cue at a time inside it, with the renderer's fades.
+ */
+export function audioGainAt(cue: PreviewAudioCue, elapsedMs: number): number {
+  const { volume, fade_in_ms, fade_out_ms } = cue.audio;
+  let gain = volume;
+  if (fade_in_ms > 0 && elapsedMs < fade_in_ms) gain *= elapsedMs / fade_in_ms;
+  const untilEnd = cue.duration_ms - elapsedMs;
+  if (fade_out_ms > 0 && untilEnd < fade_out_ms) gain *= Math.max(0, untilEnd) / fade_out_ms;
+  return gain;
+}
+
+// ============================================
+// OVERLAY POSITION
+// ============================================
+
+/**
+ * Evaluate a drawtext x/y expression ("(w-text_w)/2", "h-text_h-120",
+ * "54+(864-text_w)/2") for canvas drawing. Unknown syntax falls back to 0.
+ */
+export function evaluatePosition(expression: string, vars: Record<string, number>): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?|[a-z_]+|[-+*/(),]/gi) ?? [];
+  let i = 0;
+
+  const primary = (): number => {
+    const token = tokens[i++];
+    if (token === undefined) throw new Error('Unexpected end');
+    if (token === '(') {
+      const value = sum();
+      i++; // ')'
+      return value;
+    }
+    if (token === '-') return -primary();
+    if (/^\d/.test(token)) return Number(token);
+    if (token === 'min' || token === 'max') {
+      i++; // '('
+      const a = sum();
+      i++; // ','
+      const b = sum();
+      i++; // ')'
+      return token === 'min' ? Math.min(a, b) : Math.max(a, b);
+    }
+    if (token in vars) return vars[token];
+    throw new Error(`Unknown token ${token}`);
+  };
+  const product = (): number => {
+    let value = primary();
+    while (tokens[i] === '*' || tokens[i] === '/') {
+      value = tokens[i++] === '*' ? value * primary() : value / primary();
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[i] === '+' || tokens[i] === '-') {
+      value = tokens[i++] === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  try {
+    const value = sum();
+    return Number.isFinite(value) ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Original segments (kept or cut) against the plan's video timeline.
+ */
+export function diffPlanAgainstSource(plan: ExecutionPlan, analysis: VideoAnalysis): PlanDiff {
+  const clips = buildPreviewClips(plan);
+  const typeOf = new Map(analysis.segments.map(s => [s.id, s.type]));
+  const uses = new Map<string, number>();
+  for (const clip of clips) {
+    if (clip.segment.source_video_id !== analysis.source_video_id) continue;
+    uses.set(clip.segment.source_segment_id, (uses.get(clip.segment.source_segment_id) ?? 0) + 1);
+  }
+
+  const original = analysis.segments.map(segment => ({
+    id: segment.id,
+    segment_type: segment.type,
+    start_ms: segment.start_ms,
+    end_ms: segment.end_ms,
+    kept: uses.has(segment.id),
+    uses: uses.get(segment.id) ?? 0,
+  }));
+
+  return {
+    original_duration_ms: analysis.metadata.duration_ms,
+    plan_duration_ms: previewDuration(plan),
+    original,
+    plan: clips.map(clip => {
+      const replaced = clip.segment.source_video_id !== analysis.source_video_id;
+      return {
+        id: clip.segment.segment_id,
+        source_segment_id: clip.segment.source_segment_id,
+        segment_type: replaced ? null : typeOf.get(clip.segment.source_segment_id) ?? null,
+        start_ms: clip.start_ms,
+        end_ms: clip.end_ms,
+        speed: clip.segment.speed_multiplier,
+        replaced,
+      };
+    }),
+    removed_ms: original.filter(s => !s.kept).reduce((sum, s) => sum + (s.end_ms - s.start_ms), 0),
+  };
+}
@@ -76,6 +76,13 @@ Return this exact JSON structure:
   "detected_language": "<ISO code>"
 }`;
 
+// Shared with creative-scale-analyze, which labels signal-segmented videos
+export {
+  SEGMENT_LABELING_SYSTEM_PROMPT,
+  SEGMENT_LABELING_USER_PROMPT,
+  type SegmentLabelingInput,
+} from '../../../supabase/functions/_shared/segment-labeling.ts';
+
 export const CREATIVE_BLUEPRINT_SYSTEM_PROMPT = `You are a marketing strategist. Your ONLY job is to create strategic blueprints based on video analysis.
 
 OUTPUT RULES:
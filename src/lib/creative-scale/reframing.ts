@@ -0,0 +1,66 @@
+/**
+ * Creative Scale - Reframing
+ * Compiler pass: give every segment cut from the source video the crop
+ * window that keeps its subject in frame for the target aspect ratio.
+ * Framing only: timing, order and audio are left as compiled.
+ */
+
+import {
+  ASPECT_RATIO_VALUES,
+  DEFAULT_REFRAME_OPTIONS,
+  buildCropPath,
+  centerCropPath,
+  needsCrop,
+  sliceCropPath,
+  type ReframeOptions,
+} from '@/lib/reframe';
+import type { SafeArea } from './caption-types';
+import type { CompilerReframeOptions, TimelineSegment } from './compiler-types';
+import type { VideoAnalysis } from './types';
+
+export function applyReframe(
+  timeline: TimelineSegment[],
+  analysis: VideoAnalysis,
+  reframe: CompilerReframeOptions,
+  safeArea: SafeArea
+): { timeline: TimelineSegment[]; warnings: string[] } {
+  const options: ReframeOptions = { ...DEFAULT_REFRAME_OPTIONS, ...reframe.options };
+  const { aspect_ratio: aspect } = reframe;
+  const warnings: string[] = [];
+
+  let track = reframe.track ?? null;
+  if (track && track.video_id !== analysis.source_video_id) {
+    warnings.push(`Subject track is for ${track.video_id}, not ${analysis.source_video_id}; centre crop used`);
+    track = null;
+  }
+
+  const sourceAspect = track && track.height > 0
+    ? track.width / track.height
+    : ASPECT_RATIO_VALUES[analysis.metadata.aspect_ratio];
+  if (!needsCrop(sourceAspect, aspect)) return { timeline, warnings };
+
+  const path = track && track.samples.length > 0
+    ? buildCropPath(track, aspect, safeArea, options)
+    : centerCropPath(sourceAspect, aspect);
+  if (!track) {
+    warnings.push(`No subject track, ${analysis.metadata.aspect_ratio} source centre-cropped to ${aspect}`);
+  }
+
+  let cropped = 0;
+  const reframed = timeline.map(segment => {
+    // Replacement assets come with their own framing
+    if (segment.track !== 'video' || segment.source_video_id !== analysis.source_video_id) return segment;
+    cropped++;
+    return {
+      ...segment,
+      crop: {
+        width: path.width,
+        height: path.height,
+        keyframes: sliceCropPath(path, segment.trim_start_ms, segment.trim_end_ms),
+      },
+    };
+  });
+
+  if (track) warnings.push(`Reframed ${cropped} segment(s) to ${aspect} around the tracked subject`);
+  return { timeline: reframed, warnings };
+}
@@ -0,0 +1,116 @@
+/**
+ * Creative Scale - Replacement Asset Pool
+ *
+ * What replace_segment can swap a segment for: the segments of the other
+ * analyzed uploads and the project's b-roll library (video file_assets).
+ * B-roll has no stored duration, so it is probed from the file metadata.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ReplacementAsset } from './compiler-types';
+import type { VideoAnalysis } from './types';
+
+const PROBE_TIMEOUT_MS = 10000;
+const BROLL_LIMIT = 50;
+
+export interface AnalyzedUpload {
+  analysis: VideoAnalysis;
+  asset_url: string;
+}
+
+/**
+ * Every segment of an analyzed upload, typed and tagged as the analysis found it
+ */
+export function analysisToReplacementAssets({ analysis, asset_url }: AnalyzedUpload): ReplacementAsset[] {
+  return analysis.segments
+    .filter(segment => segment.end_ms > segment.start_ms)
+    .map(segment => ({
+      asset_id: `${analysis.source_video_id}:${segment.id}`,
+      asset_url,
+      source: 'analyzed_segment' as const,
+      source_video_id: analysis.source_video_id,
+      segment_type: segment.type,
+      visual_tags: segment.visual_tags,
+      attention_score: segment.attention_score,
+      start_ms: segment.start_ms,
+      end_ms: segment.end_ms,
+    }));
+}
+
+/**
+ * Duration of a video file from its metadata, null when it can't be read
+ */
+function probeDurationMs(url: string): Promise<number | null> {
+  return new Promise(resolve => {
+    const video = document.createElement('video');
+    const done = (durationMs: number | null) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      resolve(durationMs);
+    };
+    const timer = setTimeout(() => done(null), PROBE_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.onloadedmetadata = () =>
+      done(Number.isFinite(video.duration) && video.duration > 0 ? Math.round(video.duration * 1000) : null);
+    video.onerror = () => done(null);
+    video.src = url;
+  });
+}
+
+/**
+ * The project's video b-roll as untyped replacement assets
+ */
+export async function loadProjectBroll(projectId: string): Promise<ReplacementAsset[]> {
+  const { data, error } = await supabase
+    .from('file_assets')
+    .select('id, file_url')
+    .eq('project_id', projectId)
+    .eq('status', 'active')
+    .like('mime_type', 'video/%')
+    .not('file_url', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(BROLL_LIMIT);
+  if (error) throw new Error(`Failed to load project b-roll: ${error.message}`);
+
+  const assets = await Promise.all((data || []).map(async (file): Promise<ReplacementAsset | null> => {
+    const durationMs = await probeDurationMs(file.file_url);
+    if (!durationMs) return null;
+    return {
+      asset_id: `broll:${file.id}`,
+      asset_url: file.file_url,
+      source: 'project_broll',
+      source_video_id: file.id,
+      segment_type: null,
+      visual_tags: [],
+      start_ms: 0,
+      end_ms: durationMs,
+    };
+  }));
+
+  return assets.filter((asset): asset is ReplacementAsset => asset !== null);
+}
+
+/**
+ * The pool for one compile: other analyzed uploads plus project b-roll.
+ * The source video's own segments are left out, they are not new footage.
+ * If b-roll can't be loaded the pool is the analyzed uploads alone.
+ */
+export async function buildReplacementPool(
+  sourceVideoId: string,
+  uploads: AnalyzedUpload[],
+  projectId?: string | null
+): Promise<ReplacementAsset[]> {
+  const analyzed = uploads
+    .filter(upload => upload.analysis.source_video_id !== sourceVideoId)
+    .flatMap(analysisToReplacementAssets);
+
+  if (!projectId) return analyzed;
+
+  const broll = await loadProjectBroll(projectId).catch(err => {
+    console.warn('[ReplacementAssets] Project b-roll unavailable:', err);
+    return [];
+  });
+  return [...analyzed, ...broll];
+}
@@ -139,6 +139,7 @@ export function extractRequiredCapabilities(plan: ExecutionPlan): RequiredCapabi
   const hasSpeedChange = plan.timeline.some(s => s.speed_multiplier !== 1.0);
   const hasAudioTracks = plan.audio_tracks.length > 0;
   const hasOverlays = plan.timeline.some(s => s.track === 'overlay');
+  const hasTransitions = plan.timeline.some(s => s.transition_in && s.transition_in.type !== 'cut');
   
   return {
     resolution,
@@ -148,7 +149,7 @@ export function extractRequiredCapabilities(plan: ExecutionPlan): RequiredCapabi
     needs_speed_change: hasSpeedChange,
     needs_ai_generation: false,
     needs_overlays: hasOverlays,
-    needs_transitions: plan.timeline.length > 1,
+    needs_transitions: hasTransitions,
   };
 }
 
@@ -308,6 +309,23 @@ export function simplifyPlan(plan: ExecutionPlan): SimplifiedPlan {
     removedFeatures.push(`Reset ${speedChanges.length} speed change(s)`);
   }
   
+  const transitions = simplifiedPlan.timeline.filter(s => s.transition_in && s.transition_in.type !== 'cut');
+  if (transitions.length > 0) {
+    // Hard cuts: push every segment back by the overlap it no longer shares
+    let shiftMs = 0;
+    simplifiedPlan.timeline.forEach(s => {
+      if (s.transition_in && s.transition_in.type !== 'cut') {
+        shiftMs += s.transition_in.duration_ms;
+      }
+      delete s.transition_in;
+      s.timeline_start_ms += shiftMs;
+      s.timeline_end_ms += shiftMs;
+    });
+    simplifiedPlan.validation.transition_count = 0;
+    simplifiedPlan.validation.transition_overlap_ms = 0;
+    removedFeatures.push(`Replaced ${transitions.length} transition(s) with cuts`);
+  }
+  
   let resolutionDowngrade: Resolution | undefined;
   if (simplifiedPlan.output_format.width > 1280 || simplifiedPlan.output_format.height > 1280) {
     const aspectRatio = simplifiedPlan.output_format.width / simplifiedPlan.output_format.height;
@@ -43,6 +43,17 @@ export interface VideoSegment {
   attention_score: number; // 0-1: weak to strong
 }
 
+/**
+ * Word timing from forced alignment (source video time)
+ */
+export interface AlignedWord {
+  segment_id: string;
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  confidence: number; // 0-1: interpolated to bounded by pauses
+}
+
 export interface AudioAnalysis {
   has_voiceover: boolean;
   has_music: boolean;
@@ -73,6 +84,7 @@ export interface VideoAnalysis {
   };
   detected_style: 'ugc' | 'professional' | 'animated' | 'mixed';
   detected_language: string;
+  words?: AlignedWord[]; // Present once the transcript has been aligned
 }
 
 // ============================================
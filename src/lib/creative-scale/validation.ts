@@ -50,6 +50,14 @@ const VideoSegmentSchema = z.object({
 // VIDEO ANALYSIS VALIDATION
 // ============================================
 
+const AlignedWordSchema = z.object({
+  segment_id: z.string().min(1),
+  text: z.string(),
+  start_ms: z.number().int().min(0),
+  end_ms: z.number().int().min(0),
+  confidence: z.number().min(0).max(1),
+});
+
 const AudioAnalysisSchema = z.object({
   has_voiceover: z.boolean(),
   has_music: z.boolean(),
@@ -82,6 +90,7 @@ export const VideoAnalysisSchema = z.object({
   overall_scores: OverallScoresSchema,
   detected_style: z.enum(['ugc', 'professional', 'animated', 'mixed']),
   detected_language: z.string(),
+  words: z.array(AlignedWordSchema).optional(),
 });
 
 // ============================================
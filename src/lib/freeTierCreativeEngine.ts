@@ -82,10 +82,10 @@ export const FFMPEG_TRANSFORMATIONS: FFmpegTransformation[] = [
   { id: 'eq-boost', name: 'Voice EQ Boost', description: 'Enhance voice clarity', category: 'audio', command: 'equalizer=f=3000:t=q:w=1:g=3', isFree: true },
   
   // Composition
-  { id: 'portrait-to-square', name: 'Portrait to Square', description: 'Reframe 9:16 to 1:1', category: 'composition', command: 'crop=ih*9/16:ih,scale=1080:1080', isFree: true },
+  { id: 'portrait-to-square', name: 'Portrait to Square', description: 'Reframe 9:16 to 1:1', category: 'composition', command: 'crop=iw:iw,scale=1080:1080', isFree: true },
   { id: 'portrait-to-landscape', name: 'Portrait to Landscape', description: 'Reframe 9:16 to 16:9', category: 'composition', command: 'crop=iw:iw*9/16,scale=1920:1080', isFree: true },
-  { id: 'smart-crop', name: 'Smart Crop', description: 'Intelligent content-aware crop', category: 'composition', command: 'cropdetect=limit=24:round=2:reset_count=0', isFree: true },
-  { id: 'face-tracking-crop', name: 'Face Tracking Crop', description: 'Keep face centered', category: 'composition', command: 'crop=w=ih*9/16:h=ih:x=(iw-ow)/2:y=0', isFree: true },
+  { id: 'smart-crop', name: 'Smart Crop', description: 'Centre square crop', category: 'composition', command: 'crop=w=iw:h=iw:x=0:y=(ih-oh)/2', isFree: true },
+  { id: 'face-tracking-crop', name: 'Face Tracking Crop', description: 'Centre 9:16 crop', category: 'composition', command: 'crop=w=ih*9/16:h=ih:x=(iw-ow)/2:y=0', isFree: true },
   
   // Overlays
   { id: 'text-overlay', name: 'Text Overlay', description: 'Add text captions', category: 'overlay', command: 'drawtext=fontfile=/path/font.ttf:text="TEXT":x=(w-tw)/2:y=h-th-50:fontsize=48:fontcolor=white', isFree: true },
@@ -0,0 +1,75 @@
+/**
+ * Landing Page Bundle
+ * Downloads the page's images and inlines them, so the exported HTML file
+ * opens offline and can be hosted anywhere as-is.
+ */
+
+import type { LandingPageSections } from '@/lib/unified-generation/types';
+import { renderLandingPage, type LandingPageImageSources } from './renderer';
+import type { LandingPageBundle, LandingPageBundleAsset, LandingPageRenderOptions } from './types';
+import { MAX_INLINE_IMAGE_BYTES } from './types';
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+async function inlineImage(url: string): Promise<{ asset: LandingPageBundleAsset; dataUri?: string }> {
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(15000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const type = (res.headers.get('content-type') || '').split(';')[0].trim();
+    if (!type.startsWith('image/')) throw new Error(`Not an image (${type || 'unknown type'})`);
+
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes.length > MAX_INLINE_IMAGE_BYTES) {
+      return { asset: { url, inlined: false, bytes: bytes.length, error: 'Too large to inline' } };
+    }
+    return {
+      asset: { url, inlined: true, bytes: bytes.length },
+      dataUri: `data:${type};base64,${toBase64(bytes)}`,
+    };
+  } catch (error) {
+    // Kept as a link; the page still works online
+    return { asset: { url, inlined: false, bytes: 0, error: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Render the page with every reachable image inlined as a data URI.
+ */
+export async function buildLandingPageBundle(
+  sections: Partial<LandingPageSections>,
+  options: Partial<LandingPageRenderOptions> = {}
+): Promise<LandingPageBundle> {
+  const urls = Array.from(new Set(
+    [sections.hero?.imageUrl, ...(options.gallery || [])]
+      .filter((url): url is string => !!url && /^https?:\/\//i.test(url))
+  ));
+
+  const results = await Promise.all(urls.map(inlineImage));
+  const imageSources: LandingPageImageSources = {};
+  results.forEach(({ asset, dataUri }) => {
+    if (dataUri) imageSources[asset.url] = dataUri;
+  });
+
+  const name = slugify(options.title || sections.hero?.headline || '') || 'landing-page';
+  return {
+    filename: `${name}.html`,
+    html: renderLandingPage(sections, options, imageSources),
+    assets: results.map(r => r.asset),
+  };
+}
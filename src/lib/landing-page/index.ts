@@ -0,0 +1,26 @@
+// Landing Page Renderer
+// Deterministic, themeable pages from LandingPageSections, with RTL support
+// and a cash-on-delivery order form
+
+export * from './types';
+export { LANDING_PAGE_THEMES, LANDING_PAGE_LABELS, getLandingPageTheme, getLandingPageLabels } from './themes';
+export { renderLandingPage, normalizeSections, buildStylesheet, escapeHtml } from './renderer';
+export type { LandingPageImageSources } from './renderer';
+export { buildLandingPageBundle } from './bundle';
+export {
+  ORDER_FORM_COUNTRIES,
+  getOrderFormCountry,
+  normalizePhone,
+  toAsciiDigits,
+  formatOfferPrice,
+  buildOrderFormScript,
+} from './order-form';
+export {
+  LANDING_PAGE_LEADS_FUNCTION,
+  getLeadsEndpoint,
+  getProjectLandingPage,
+  saveLandingPageOrderForm,
+  countLandingPageLeads,
+  exportLandingPageLeadsCsv,
+} from './leads';
+export type { LandingPageRecord } from './leads';
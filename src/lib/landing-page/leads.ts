@@ -0,0 +1,103 @@
+/**
+ * Landing Page Leads
+ * Persists the order form config on the project's landing_pages row and
+ * reads back what the landing-page-leads function collected.
+ */
+
+import { config } from '@/config';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { LandingPageOrderForm } from './types';
+
+export const LANDING_PAGE_LEADS_FUNCTION = 'landing-page-leads';
+
+export interface LandingPageRecord {
+  id: string;
+  order_form: LandingPageOrderForm | null;
+}
+
+/**
+ * Where rendered order forms post to
+ */
+export function getLeadsEndpoint(): string {
+  return `${config.urls.edgeFunctions}/${LANDING_PAGE_LEADS_FUNCTION}`;
+}
+
+/**
+ * The project's landing_pages row (the most recent one if there are several)
+ */
+export async function getProjectLandingPage(projectId: string): Promise<LandingPageRecord | null> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select('id, order_form')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load landing page: ${error.message}`);
+  return data ? { id: data.id, order_form: data.order_form as unknown as LandingPageOrderForm | null } : null;
+}
+
+/**
+ * Store the order form on the project's landing_pages row, creating the row
+ * on first use. Returns the row id the form posts with.
+ */
+export async function saveLandingPageOrderForm(
+  projectId: string,
+  page: { title: string; language: string; market?: string },
+  orderForm: LandingPageOrderForm
+): Promise<string> {
+  const existing = await getProjectLandingPage(projectId);
+  const changes = {
+    title: page.title || 'Landing page',
+    language: page.language,
+    market: page.market,
+    order_form: orderForm as unknown as Json,
+  };
+
+  if (existing) {
+    const { error } = await supabase.from('landing_pages').update(changes).eq('id', existing.id);
+    if (error) throw new Error(`Failed to save order form: ${error.message}`);
+    return existing.id;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to collect orders');
+
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .insert({ ...changes, project_id: projectId, user_id: user.id })
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to create landing page: ${error.message}`);
+  return data.id;
+}
+
+export async function countLandingPageLeads(landingPageId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('landing_page_leads')
+    .select('id', { count: 'exact', head: true })
+    .eq('landing_page_id', landingPageId);
+
+  if (error) throw new Error(`Failed to count leads: ${error.message}`);
+  return count ?? 0;
+}
+
+/**
+ * CSV of every lead on the page, duplicates flagged
+ */
+export async function exportLandingPageLeadsCsv(landingPageId: string): Promise<Blob> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Sign in to export leads');
+
+  const url = `${getLeadsEndpoint()}?landing_page_id=${encodeURIComponent(landingPageId)}`;
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${session.access_token}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(`Failed to export leads: ${body?.message || `HTTP ${res.status}`}`);
+  }
+  return res.blob();
+}
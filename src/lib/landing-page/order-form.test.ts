@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getOrderFormCountry, normalizePhone, toAsciiDigits } from './order-form';
+
+describe('normalizePhone', () => {
+  it('accepts the ways customers type a national number', () => {
+    for (const input of ['0501234567', '501234567', '050 123 4567', '050-123-4567', '(050) 1234567']) {
+      expect(normalizePhone(input, 'SA')).toBe('+966501234567');
+    }
+  });
+
+  it('accepts the international forms', () => {
+    expect(normalizePhone('+966 50 123 4567', 'SA')).toBe('+966501234567');
+    expect(normalizePhone('00966501234567', 'SA')).toBe('+966501234567');
+    expect(normalizePhone('966501234567', 'SA')).toBe('+966501234567');
+  });
+
+  it('reads Arabic-Indic and Persian digits', () => {
+    expect(normalizePhone('٠٥٠١٢٣٤٥٦٧', 'SA')).toBe('+966501234567');
+    expect(normalizePhone('۰۵۰۱۲۳۴۵۶۷', 'SA')).toBe('+966501234567');
+  });
+
+  it('keeps national numbers that start like the dial code', () => {
+    // Kuwait numbers may begin with 965 without being prefixed
+    expect(normalizePhone('96512345', 'KW')).toBe('+96596512345');
+    expect(normalizePhone('+965 9651 2345', 'KW')).toBe('+96596512345');
+  });
+
+  it('rejects other countries, landlines and junk', () => {
+    expect(normalizePhone('+971501234567', 'SA')).toBeNull();
+    expect(normalizePhone('0112345678', 'SA')).toBeNull();
+    expect(normalizePhone('05012345', 'SA')).toBeNull();
+    expect(normalizePhone('05O1234567', 'SA')).toBeNull();
+    expect(normalizePhone('', 'SA')).toBeNull();
+    expect(normalizePhone('0501234567', 'XX')).toBeNull();
+  });
+
+  it('matches the country code case-insensitively', () => {
+    expect(normalizePhone('01012345678', 'eg')).toBe('+201012345678');
+    expect(getOrderFormCountry('ma')?.dial_code).toBe('212');
+  });
+});
+
+describe('toAsciiDigits', () => {
+  it('leaves everything but the digits alone', () => {
+    expect(toAsciiDigits('+٩٦٦ ۵۰')).toBe('+966 50');
+  });
+});
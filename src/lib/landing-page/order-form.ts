@@ -0,0 +1,88 @@
+/**
+ * Landing Page Order Form
+ * Offer prices and the small script the rendered form submits with.
+ * Markets and phone normalization are shared with the landing-page-leads
+ * function (supabase/functions/_shared/order-form-countries.ts).
+ */
+
+import { getOrderFormCountry } from '../../../supabase/functions/_shared/order-form-countries.ts';
+import type { LandingPageLabels, LandingPageOrderForm, LandingPageOrderFormTarget } from './types';
+
+export {
+  ORDER_FORM_COUNTRIES,
+  getOrderFormCountry,
+  toAsciiDigits,
+  normalizePhone,
+} from '../../../supabase/functions/_shared/order-form-countries.ts';
+
+export function formatOfferPrice(price: number, currency: string, locale: string): string {
+  try {
+    // Whole prices without ".00"; fractions keep the currency's own decimals
+    const digits = Number.isInteger(price) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, ...digits }).format(price);
+  } catch {
+    return `${price} ${currency}`;
+  }
+}
+
+/**
+ * Inline submit handler for the rendered form. Plain ES5 so exported pages
+ * run anywhere; phone handling mirrors normalizePhone.
+ */
+export function buildOrderFormScript(
+  form: LandingPageOrderForm & LandingPageOrderFormTarget,
+  labels: LandingPageLabels
+): string {
+  const rule = getOrderFormCountry(form.country);
+  const config = {
+    endpoint: form.endpoint,
+    landing_page_id: form.landing_page_id,
+    dial_code: rule?.dial_code ?? '',
+    pattern: rule?.national_pattern ?? '\\d{7,15}',
+    trunk: rule?.trunk_prefix ?? '',
+    messages: {
+      success: labels.form_success,
+      duplicate: labels.form_duplicate,
+      invalid_phone: labels.form_invalid_phone,
+      error: labels.form_error,
+    },
+  };
+  // "<" escaped so no value can close the <script> element
+  const json = JSON.stringify(config).replace(/</g, '\\u003c');
+
+  return `(function(){
+var C=${json};
+var form=document.querySelector('[data-lp-order]');
+if(!form)return;
+var status=form.querySelector('.lp-form-status');
+var field=function(n){return form.elements.namedItem(n)};
+function phone(v){
+var d=v.replace(/[\\u0660-\\u0669\\u06F0-\\u06F9]/g,function(c){return String(c.charCodeAt(0)%16)}).replace(/[\\s().-]/g,'');
+var intl=/^(\\+|00)/.test(d);d=d.replace(/^(\\+|00)/,'');
+if(!/^\\d+$/.test(d))return null;
+var p=new RegExp('^(?:'+C.pattern+')$');
+if(d.indexOf(C.dial_code)===0&&(intl||!p.test(d)))d=d.slice(C.dial_code.length);else if(intl)return null;
+if(C.trunk&&d.indexOf(C.trunk)===0&&!p.test(d))d=d.slice(C.trunk.length);
+return p.test(d)?'+'+C.dial_code+d:null;
+}
+function show(msg,kind){status.textContent=msg;status.className='lp-form-status lp-form-'+kind;}
+form.addEventListener('submit',function(e){
+e.preventDefault();
+var name=field('name'),tel=field('phone'),city=field('city'),offer=form.querySelector('[name=offer_id]:checked')||field('offer_id');
+if(!name.value.trim()){name.focus();return;}
+var number=phone(tel.value);
+if(!number){show(C.messages.invalid_phone,'error');tel.focus();return;}
+var button=form.querySelector('button[type=submit]');button.disabled=true;
+fetch(C.endpoint,{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({
+landing_page_id:C.landing_page_id,name:name.value.trim(),phone:number,city:city?city.value.trim():'',
+offer_id:offer?offer.value:null,website:field('website').value,page_url:location.href})})
+.then(function(r){return r.json()})
+.then(function(b){
+if(b&&b.ok){form.reset();show(b.duplicate?C.messages.duplicate:C.messages.success,'success');}
+else show(b&&b.error==='INVALID_PHONE'?C.messages.invalid_phone:C.messages.error,'error');
+})
+.catch(function(){show(C.messages.error,'error')})
+.then(function(){button.disabled=false});
+});
+})();`;
+}
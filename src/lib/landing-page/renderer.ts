@@ -0,0 +1,418 @@
+/**
+ * Landing Page Renderer
+ * LandingPageSections → static HTML with an inline stylesheet.
+ * Pure and deterministic: same sections and options, same page.
+ */
+
+import { isRTL } from '@/lib/audience';
+import type { LandingPageSections } from '@/lib/unified-generation/types';
+import { buildOrderFormScript, formatOfferPrice, getOrderFormCountry } from './order-form';
+import { getLandingPageLabels, getLandingPageTheme } from './themes';
+import type { LandingPageLabels, LandingPageRenderOptions, LandingPageTheme } from './types';
+import { DEFAULT_LANDING_PAGE_RENDER_OPTIONS } from './types';
+
+// Original image URL → what to put in src (a data: URI when bundled)
+export type LandingPageImageSources = Record<string, string>;
+
+interface RenderContext {
+  labels: LandingPageLabels;
+  locale: string;
+  rtl: boolean;
+  ctaHref: string;
+  image: (url: string | undefined) => string | null;
+}
+
+// ============================================
+// ESCAPING
+// ============================================
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only http(s), data:image and in-page links survive; anything else
+ * (javascript:, relative paths) is dropped.
+ */
+function safeUrl(url: string | undefined, allowAnchor = false): string | null {
+  const value = (url || '').trim();
+  if (/^https?:\/\//i.test(value) || /^data:image\/[a-z+.-]+;base64,/i.test(value)) return value;
+  if (allowAnchor && /^#[\w-]*$/.test(value)) return value;
+  return null;
+}
+
+const text = (value: unknown) => escapeHtml(typeof value === 'string' ? value.trim() : '');
+
+// ============================================
+// SECTIONS
+// ============================================
+
+/**
+ * Fill in whatever the LLM left out so every renderer can trust the shape
+ */
+export function normalizeSections(raw: Partial<LandingPageSections> | null | undefined): LandingPageSections {
+  const list = <T>(value: T[] | undefined) => (Array.isArray(value) ? value : []);
+  const strings = (value: string[] | undefined) => list(value).filter(s => typeof s === 'string' && s.trim());
+
+  return {
+    hero: {
+      headline: raw?.hero?.headline || '',
+      subheadline: raw?.hero?.subheadline || '',
+      imageUrl: raw?.hero?.imageUrl,
+    },
+    features: list(raw?.features).filter(f => f?.title || f?.description),
+    benefits: strings(raw?.benefits),
+    problemSolution: {
+      problem: raw?.problemSolution?.problem || '',
+      solution: raw?.problemSolution?.solution || '',
+    },
+    usage: strings(raw?.usage),
+    technicalDetails: strings(raw?.technicalDetails),
+    faq: list(raw?.faq).filter(f => f?.question && f?.answer),
+    reviews: list(raw?.reviews).filter(r => r?.text),
+    cta: {
+      text: raw?.cta?.text || '',
+      subtext: raw?.cta?.subtext,
+    },
+  };
+}
+
+function ctaButton(label: string, ctx: RenderContext): string {
+  const arrow = ctx.rtl ? '←' : '→';
+  return `<a class="lp-button" href="${escapeHtml(ctx.ctaHref)}">${text(label)} <span aria-hidden="true">${arrow}</span></a>`;
+}
+
+function sectionBlock(id: string, heading: string, body: string, tone: 'plain' | 'alt' = 'plain'): string {
+  return `<section id="${id}" class="lp-section${tone === 'alt' ? ' lp-section-alt' : ''}">` +
+    `<div class="lp-container"><h2>${escapeHtml(heading)}</h2>${body}</div></section>`;
+}
+
+function renderHero(sections: LandingPageSections, ctx: RenderContext): string {
+  const { hero, cta } = sections;
+  const image = ctx.image(hero.imageUrl);
+  return `<header class="lp-hero"><div class="lp-container lp-hero-grid">` +
+    `<div class="lp-hero-copy">` +
+    `<h1>${text(hero.headline)}</h1>` +
+    (hero.subheadline ? `<p class="lp-lead lp-text">${text(hero.subheadline)}</p>` : '') +
+    ctaButton(cta.text || ctx.labels.order_now, ctx) +
+    (cta.subtext ? `<p class="lp-subtext lp-text">${text(cta.subtext)}</p>` : '') +
+    `</div>` +
+    (image ? `<figure class="lp-hero-media"><img src="${escapeHtml(image)}" alt="${text(hero.headline)}"></figure>` : '') +
+    `</div></header>`;
+}
+
+function renderProblemSolution(sections: LandingPageSections, ctx: RenderContext): string {
+  const { problem, solution } = sections.problemSolution;
+  if (!problem && !solution) return '';
+  const card = (kind: 'problem' | 'solution', body: string) => body
+    ? `<div class="lp-card lp-${kind}"><h3>${escapeHtml(ctx.labels[kind])}</h3><p class="lp-text">${text(body)}</p></div>`
+    : '';
+  return `<section id="problem" class="lp-section"><div class="lp-container lp-grid-2">` +
+    card('problem', problem) + card('solution', solution) +
+    `</div></section>`;
+}
+
+function renderFeatures(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.features.length === 0) return '';
+  const items = sections.features.map(feature => {
+    // Emoji icons are kept; icon names from the LLM are not renderable
+    const icon = feature.icon && Array.from(feature.icon.trim()).length <= 2 ? feature.icon.trim() : '✦';
+    return `<div class="lp-card lp-feature"><span class="lp-icon" aria-hidden="true">${escapeHtml(icon)}</span>` +
+      `<h3>${text(feature.title)}</h3><p class="lp-text">${text(feature.description)}</p></div>`;
+  });
+  return sectionBlock('features', ctx.labels.features, `<div class="lp-grid-3">${items.join('')}</div>`, 'alt');
+}
+
+function renderBenefits(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.benefits.length === 0) return '';
+  const items = sections.benefits.map(b => `<li class="lp-text">${text(b)}</li>`).join('');
+  return sectionBlock('benefits', ctx.labels.benefits, `<ul class="lp-checklist">${items}</ul>`);
+}
+
+function renderGallery(gallery: string[], ctx: RenderContext): string {
+  const images = gallery.map(url => ctx.image(url)).filter((src): src is string => !!src);
+  if (images.length === 0) return '';
+  return `<section class="lp-section lp-gallery-section"><div class="lp-container lp-gallery">` +
+    images.map(src => `<img src="${escapeHtml(src)}" alt="" loading="lazy">`).join('') +
+    `</div></section>`;
+}
+
+function renderUsage(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.usage.length === 0) return '';
+  const steps = sections.usage.map(step => `<li class="lp-text">${text(step)}</li>`).join('');
+  return sectionBlock('usage', ctx.labels.usage, `<ol class="lp-steps">${steps}</ol>`, 'alt');
+}
+
+function renderTechnicalDetails(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.technicalDetails.length === 0) return '';
+  // "Label: value" lines become a two-column table row
+  const rows = sections.technicalDetails.map(detail => {
+    const match = detail.match(/^([^:：]{1,40})[:：]\s*(.+)$/);
+    return match
+      ? `<tr><th scope="row">${text(match[1])}</th><td class="lp-text">${text(match[2])}</td></tr>`
+      : `<tr><td colspan="2" class="lp-text">${text(detail)}</td></tr>`;
+  }).join('');
+  return sectionBlock('specs', ctx.labels.technical_details, `<table class="lp-specs"><tbody>${rows}</tbody></table>`);
+}
+
+function renderReviews(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.reviews.length === 0) return '';
+  const cards = sections.reviews.map(review => {
+    const rating = Math.max(0, Math.min(5, Math.round(Number(review.rating) || 5)));
+    const stars = '★'.repeat(rating) + '☆'.repeat(5 - rating);
+    return `<figure class="lp-card lp-review">` +
+      `<div class="lp-stars" role="img" aria-label="${rating}/5">${stars}</div>` +
+      `<blockquote class="lp-text">${text(review.text)}</blockquote>` +
+      `<figcaption><bdi>${text(review.name)}</bdi>${review.location ? ` · <bdi>${text(review.location)}</bdi>` : ''}</figcaption>` +
+      `</figure>`;
+  });
+  return sectionBlock('reviews', ctx.labels.reviews, `<div class="lp-grid-3">${cards.join('')}</div>`, 'alt');
+}
+
+function renderFaq(sections: LandingPageSections, ctx: RenderContext): string {
+  if (sections.faq.length === 0) return '';
+  const items = sections.faq.map(item =>
+    `<details class="lp-faq-item"><summary>${text(item.question)}</summary><p class="lp-text">${text(item.answer)}</p></details>`
+  ).join('');
+  return sectionBlock('faq', ctx.labels.faq, `<div class="lp-faq">${items}</div>`);
+}
+
+function renderFinalCta(sections: LandingPageSections, ctx: RenderContext): string {
+  const { cta, hero } = sections;
+  return `<section id="order" class="lp-section lp-final"><div class="lp-container lp-center">` +
+    `<h2>${text(hero.headline)}</h2>` +
+    (cta.subtext ? `<p class="lp-lead lp-text">${text(cta.subtext)}</p>` : '') +
+    ctaButton(cta.text || ctx.labels.order_now, ctx) +
+    `</div></section>`;
+}
+
+type OrderFormOptions = NonNullable<LandingPageRenderOptions['order_form']>;
+
+/**
+ * COD order form in place of the final CTA; every CTA button already
+ * points at #order
+ */
+function renderOrderForm(sections: LandingPageSections, form: OrderFormOptions, ctx: RenderContext): string {
+  const { cta, hero } = sections;
+  const { labels } = ctx;
+  const country = getOrderFormCountry(form.country);
+  const offers = form.offers.filter(o => o.id && o.quantity > 0);
+
+  const offerLabel = (offer: OrderFormOptions['offers'][number]) => offer.label.trim() || `× ${offer.quantity}`;
+  const price = (value: number) => escapeHtml(formatOfferPrice(value, form.currency, ctx.locale));
+  const offerField = offers.length > 1
+    ? `<fieldset class="lp-offers"><legend>${escapeHtml(labels.form_offer)}</legend>` +
+      offers.map((offer, i) =>
+        `<label class="lp-offer"><input type="radio" name="offer_id" value="${escapeHtml(offer.id)}"${i === 0 ? ' checked' : ''}>` +
+        `<span class="lp-offer-label">${text(offerLabel(offer))}</span>` +
+        `<span class="lp-offer-price">` +
+        (offer.compare_at_price && offer.compare_at_price > offer.price ? `<s>${price(offer.compare_at_price)}</s> ` : '') +
+        `${price(offer.price)}</span></label>`
+      ).join('') +
+      `</fieldset>`
+    : offers.length === 1
+      ? `<input type="hidden" name="offer_id" value="${escapeHtml(offers[0].id)}">` +
+        `<p class="lp-offer-single">${text(offerLabel(offers[0]))} · <strong>${price(offers[0].price)}</strong></p>`
+      : '';
+
+  const cities = (form.cities || []).map(c => c.trim()).filter(Boolean);
+  const cityInput = cities.length > 0
+    ? `<select name="city" required><option value=""></option>${cities.map(c => `<option>${escapeHtml(c)}</option>`).join('')}</select>`
+    : `<input name="city" autocomplete="address-level2" maxlength="80" required>`;
+
+  return `<section id="order" class="lp-section lp-final"><div class="lp-container">` +
+    `<h2>${text(cta.text || hero.headline || labels.order_now)}</h2>` +
+    (cta.subtext ? `<p class="lp-lead lp-text lp-center">${text(cta.subtext)}</p>` : '') +
+    `<form class="lp-order" data-lp-order novalidate>` +
+    offerField +
+    `<label class="lp-field"><span>${escapeHtml(labels.form_name)}</span>` +
+    `<input name="name" autocomplete="name" maxlength="120" required></label>` +
+    // Numbers stay LTR inside RTL pages
+    `<label class="lp-field"><span>${escapeHtml(labels.form_phone)}</span>` +
+    `<input name="phone" type="tel" inputmode="tel" autocomplete="tel" dir="ltr" placeholder="${escapeHtml(country?.example ?? '')}" required></label>` +
+    `<label class="lp-field"><span>${escapeHtml(labels.form_city)}</span>${cityInput}</label>` +
+    // Honeypot: bots fill it, people never see it
+    `<input class="lp-hp" name="website" tabindex="-1" autocomplete="off" aria-hidden="true">` +
+    `<button type="submit" class="lp-button">${escapeHtml(labels.form_submit)}</button>` +
+    `<p class="lp-cod-note">${escapeHtml(labels.form_cod_note)}</p>` +
+    `<p class="lp-form-status" role="status" aria-live="polite"></p>` +
+    `</form></div></section>`;
+}
+
+// ============================================
+// STYLESHEET
+// ============================================
+
+export function buildStylesheet(theme: LandingPageTheme, rtl: boolean): string {
+  const c = theme.colors;
+  const r = theme.radius_px;
+
+  // Arabic: its own font stack, taller lines, slightly larger text and no
+  // letter-spacing or uppercase, which break joined letterforms
+  const typography = rtl
+    ? `font-family:${theme.arabic_font};font-size:17px;line-height:1.9;letter-spacing:0;`
+    : `font-family:${theme.latin_font};font-size:16px;line-height:1.6;`;
+  const headingTracking = rtl ? 'letter-spacing:0;line-height:1.5;' : 'letter-spacing:-0.02em;line-height:1.15;';
+
+  return [
+    '*,*::before,*::after{box-sizing:border-box}',
+    `html{-webkit-text-size-adjust:100%;scroll-behavior:smooth}`,
+    `body{margin:0;background:${c.background};color:${c.text};${typography}text-align:start;padding-block-end:72px}`,
+    'img{max-width:100%;display:block}',
+    `h1,h2,h3{margin:0 0 .5em;font-weight:${theme.heading_weight};${headingTracking}text-transform:none}`,
+    'h1{font-size:clamp(1.9rem,6vw,3rem)}',
+    'h2{font-size:clamp(1.5rem,4.5vw,2.1rem);text-align:center;margin-block-end:1.2em}',
+    'h3{font-size:1.15rem}',
+    'p{margin:0 0 .75em}',
+    '.lp-text{unicode-bidi:plaintext}',
+    '.lp-container{max-width:1080px;margin-inline:auto;padding-inline:20px}',
+    '.lp-section{padding-block:56px}',
+    `.lp-section-alt{background:${c.surface}}`,
+    '.lp-center{text-align:center}',
+    `.lp-hero{background:${c.hero_background};color:${c.hero_text};padding-block:56px 40px}`,
+    '.lp-hero-grid{display:grid;gap:32px;align-items:center}',
+    '@media (min-width:860px){.lp-hero-grid{grid-template-columns:1.1fr .9fr}}',
+    `.lp-hero-media img{width:100%;border-radius:${r}px;box-shadow:0 20px 50px rgba(0,0,0,.18)}`,
+    '.lp-hero-media{margin:0}',
+    '.lp-lead{font-size:1.15em;opacity:.9}',
+    '.lp-subtext{font-size:.9em;opacity:.75;margin-block-start:.75em}',
+    `.lp-button{display:inline-flex;align-items:center;gap:.5em;background:${c.primary};color:${c.on_primary};` +
+      `text-decoration:none;font-weight:700;font-size:1.1em;padding:.85em 1.8em;border-radius:${Math.max(r, 8)}px;` +
+      `box-shadow:0 8px 24px ${c.primary}55;margin-block-start:.5em}`,
+    '.lp-button:hover{filter:brightness(1.08)}',
+    '.lp-grid-2,.lp-grid-3{display:grid;gap:20px}',
+    '@media (min-width:720px){.lp-grid-2{grid-template-columns:1fr 1fr}.lp-grid-3{grid-template-columns:repeat(3,1fr)}}',
+    `.lp-card{background:${c.surface};border:1px solid ${c.border};border-radius:${r}px;padding:24px}`,
+    `.lp-section-alt .lp-card{background:${c.background}}`,
+    `.lp-problem{border-inline-start:4px solid ${c.muted}}`,
+    `.lp-solution{border-inline-start:4px solid ${c.primary}}`,
+    '.lp-icon{display:inline-block;font-size:1.8rem;margin-block-end:.4em}',
+    '.lp-checklist{list-style:none;margin:0 auto;padding:0;max-width:720px;display:grid;gap:12px}',
+    `.lp-checklist li{position:relative;padding-inline-start:2.2em;background:${c.surface};border-radius:${r}px;padding-block:12px;padding-inline-end:16px}`,
+    `.lp-checklist li::before{content:"✓";position:absolute;inset-inline-start:.8em;color:${c.accent};font-weight:900}`,
+    '.lp-steps{counter-reset:step;list-style:none;margin:0 auto;padding:0;max-width:720px;display:grid;gap:14px}',
+    '.lp-steps li{counter-increment:step;position:relative;padding-inline-start:3.2em;min-height:2.4em}',
+    `.lp-steps li::before{content:counter(step);position:absolute;inset-inline-start:0;top:0;width:2.2em;height:2.2em;` +
+      `border-radius:50%;background:${c.primary};color:${c.on_primary};display:grid;place-items:center;font-weight:700}`,
+    '.lp-gallery{display:grid;gap:16px;grid-template-columns:repeat(auto-fit,minmax(220px,1fr))}',
+    `.lp-gallery img{width:100%;aspect-ratio:1;object-fit:cover;border-radius:${r}px}`,
+    `.lp-specs{width:100%;max-width:720px;margin-inline:auto;border-collapse:collapse;background:${c.surface};border-radius:${r}px;overflow:hidden}`,
+    `.lp-specs th,.lp-specs td{padding:12px 16px;border-block-end:1px solid ${c.border};text-align:start;vertical-align:top}`,
+    `.lp-specs th{width:40%;color:${c.muted};font-weight:600}`,
+    `.lp-stars{color:${c.accent};font-size:1.1rem;letter-spacing:2px;margin-block-end:.5em;direction:ltr;unicode-bidi:isolate}`,
+    '.lp-review{margin:0}',
+    '.lp-review blockquote{margin:0 0 1em}',
+    `.lp-review figcaption{color:${c.muted};font-size:.9em;font-weight:600}`,
+    '.lp-faq{max-width:760px;margin-inline:auto;display:grid;gap:12px}',
+    `.lp-faq-item{background:${c.surface};border:1px solid ${c.border};border-radius:${r}px;padding:16px 20px}`,
+    '.lp-faq-item summary{cursor:pointer;font-weight:700;list-style:none;position:relative;padding-inline-end:1.6em}',
+    '.lp-faq-item summary::-webkit-details-marker{display:none}',
+    `.lp-faq-item summary::after{content:"+";position:absolute;inset-inline-end:0;color:${c.primary};font-weight:900}`,
+    '.lp-faq-item[open] summary::after{content:"−"}',
+    '.lp-faq-item p{margin:.75em 0 0}',
+    `.lp-final{background:${c.hero_background};color:${c.hero_text}}`,
+    `.lp-sticky-cta{position:fixed;inset-inline:0;bottom:0;padding:10px 16px;background:${c.background}EE;` +
+      `border-block-start:1px solid ${c.border};display:flex;justify-content:center;z-index:10}`,
+    '.lp-sticky-cta .lp-button{width:100%;max-width:480px;justify-content:center;margin:0}',
+    `.lp-order{max-width:520px;margin-inline:auto;display:grid;gap:14px;background:${c.surface};color:${c.text};` +
+      `border:1px solid ${c.border};border-radius:${r}px;padding:24px;text-align:start}`,
+    '.lp-field{display:grid;gap:6px;font-weight:600}',
+    `.lp-field input,.lp-field select{font:inherit;font-weight:400;color:${c.text};background:${c.background};` +
+      `border:1px solid ${c.border};border-radius:${Math.min(r, 10)}px;padding:12px 14px;width:100%}`,
+    `.lp-field input:focus,.lp-field select:focus{outline:2px solid ${c.primary};outline-offset:1px}`,
+    '.lp-field input[type=tel]{text-align:start}',
+    '.lp-offers{border:0;margin:0;padding:0;display:grid;gap:10px}',
+    '.lp-offers legend{font-weight:700;margin-block-end:8px;padding:0}',
+    `.lp-offer{display:flex;align-items:center;gap:10px;border:2px solid ${c.border};border-radius:${r}px;padding:12px 14px;cursor:pointer}`,
+    `.lp-offer:has(input:checked){border-color:${c.primary}}`,
+    `.lp-offer input{accent-color:${c.primary}}`,
+    '.lp-offer-label{flex:1;font-weight:600}',
+    `.lp-offer-price{font-weight:800;color:${c.primary}}`,
+    `.lp-offer-price s{color:${c.muted};font-weight:400}`,
+    '.lp-offer-single{margin:0;font-size:1.1em}',
+    '.lp-order .lp-button{width:100%;justify-content:center;border:0;cursor:pointer;font-family:inherit}',
+    '.lp-order .lp-button:disabled{opacity:.6;cursor:wait}',
+    `.lp-cod-note{margin:0;font-size:.9em;color:${c.muted};text-align:center}`,
+    '.lp-hp{position:absolute;inset-inline-start:-9999px;width:1px;height:1px;opacity:0}',
+    '.lp-form-status{margin:0;font-weight:700;text-align:center}',
+    '.lp-form-status:empty{display:none}',
+    `.lp-form-success{color:${c.accent}}`,
+    '.lp-form-error{color:#DC2626}',
+    '@media (min-width:860px){.lp-sticky-cta{display:none}body{padding-block-end:0}}',
+  ].join('\n');
+}
+
+// ============================================
+// PAGE
+// ============================================
+
+/**
+ * Render a complete HTML document. imageSources swaps image URLs for
+ * inlined data (see buildLandingPageBundle); unknown URLs are linked.
+ */
+export function renderLandingPage(
+  rawSections: Partial<LandingPageSections>,
+  options: Partial<LandingPageRenderOptions> = {},
+  imageSources: LandingPageImageSources = {}
+): string {
+  const opts = { ...DEFAULT_LANDING_PAGE_RENDER_OPTIONS, ...options };
+  const sections = normalizeSections(rawSections);
+  const language = (opts.locale || 'en').toLowerCase().split(/[-_]/)[0];
+  const rtl = isRTL(language);
+  const theme = getLandingPageTheme(opts.theme);
+
+  const ctx: RenderContext = {
+    labels: getLandingPageLabels(language, opts.labels),
+    locale: opts.locale || language,
+    rtl,
+    ctaHref: safeUrl(opts.cta_href, true) ?? '#order',
+    image: url => {
+      const source = url ? imageSources[url] ?? url : undefined;
+      return safeUrl(source);
+    },
+  };
+
+  // The form needs somewhere to post; without one the page keeps its CTA
+  const orderForm = opts.order_form?.enabled && safeUrl(opts.order_form.endpoint) && opts.order_form.landing_page_id
+    ? opts.order_form
+    : null;
+
+  const title = opts.title || sections.hero.headline || 'Landing page';
+  const body = [
+    renderHero(sections, ctx),
+    '<main>',
+    renderProblemSolution(sections, ctx),
+    renderFeatures(sections, ctx),
+    renderBenefits(sections, ctx),
+    renderGallery(opts.gallery || [], ctx),
+    renderUsage(sections, ctx),
+    renderTechnicalDetails(sections, ctx),
+    renderReviews(sections, ctx),
+    renderFaq(sections, ctx),
+    orderForm ? renderOrderForm(sections, orderForm, ctx) : renderFinalCta(sections, ctx),
+    '</main>',
+    `<div class="lp-sticky-cta">${ctaButton(sections.cta.text || ctx.labels.order_now, ctx)}</div>`,
+    orderForm ? `<script>\n${buildOrderFormScript(orderForm, ctx.labels)}\n</script>` : '',
+  ].filter(Boolean).join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(language)}" dir="${rtl ? 'rtl' : 'ltr'}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${text(sections.hero.subheadline)}">`,
+    `<style>\n${buildStylesheet(theme, rtl)}\n</style>`,
+    '</head>',
+    `<body class="lp lp-theme-${theme.id}">`,
+    body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
@@ -0,0 +1,192 @@
+/**
+ * Landing Page Themes and Labels
+ * Fonts are system stacks only, so exported pages need no web fonts.
+ */
+
+import type { LandingPageLabels, LandingPageTheme, LandingPageThemeId } from './types';
+
+const LATIN_SANS = "system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+const ARABIC_SANS = "'Tajawal', 'Cairo', 'Noto Sans Arabic', 'Segoe UI', 'Geeza Pro', Tahoma, sans-serif";
+const ARABIC_NASKH = "'Noto Naskh Arabic', 'Amiri', 'Geeza Pro', 'Times New Roman', serif";
+
+export const LANDING_PAGE_THEMES: Record<LandingPageThemeId, LandingPageTheme> = {
+  modern: {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Clean white layout with a teal call to action',
+    colors: {
+      background: '#FFFFFF',
+      surface: '#F5F7FA',
+      text: '#111827',
+      muted: '#6B7280',
+      primary: '#0D9488',
+      on_primary: '#FFFFFF',
+      accent: '#F59E0B',
+      border: '#E5E7EB',
+      hero_background: 'linear-gradient(180deg, #F0FDFA 0%, #FFFFFF 100%)',
+      hero_text: '#111827',
+    },
+    radius_px: 14,
+    latin_font: LATIN_SANS,
+    arabic_font: ARABIC_SANS,
+    heading_weight: 800,
+  },
+  bold: {
+    id: 'bold',
+    name: 'Bold',
+    description: 'Dark, high-contrast page for impulse offers',
+    colors: {
+      background: '#0B0B0F',
+      surface: '#17171F',
+      text: '#F9FAFB',
+      muted: '#A1A1AA',
+      primary: '#EF4444',
+      on_primary: '#FFFFFF',
+      accent: '#FACC15',
+      border: '#27272A',
+      hero_background: 'radial-gradient(circle at top, #3F0D0D 0%, #0B0B0F 70%)',
+      hero_text: '#FFFFFF',
+    },
+    radius_px: 8,
+    latin_font: LATIN_SANS,
+    arabic_font: ARABIC_SANS,
+    heading_weight: 900,
+  },
+  soft: {
+    id: 'soft',
+    name: 'Soft',
+    description: 'Warm pastels for beauty and personal care',
+    colors: {
+      background: '#FFF9F7',
+      surface: '#FFFFFF',
+      text: '#3F2A2E',
+      muted: '#8A6F74',
+      primary: '#D9467A',
+      on_primary: '#FFFFFF',
+      accent: '#E8A33D',
+      border: '#F3DCE2',
+      hero_background: 'linear-gradient(160deg, #FDE7EF 0%, #FFF9F7 60%)',
+      hero_text: '#3F2A2E',
+    },
+    radius_px: 22,
+    latin_font: "Georgia, 'Times New Roman', serif",
+    arabic_font: ARABIC_NASKH,
+    heading_weight: 700,
+  },
+  trust: {
+    id: 'trust',
+    name: 'Trust',
+    description: 'Navy and white, for health, finance and electronics',
+    colors: {
+      background: '#F8FAFC',
+      surface: '#FFFFFF',
+      text: '#0F172A',
+      muted: '#64748B',
+      primary: '#1D4ED8',
+      on_primary: '#FFFFFF',
+      accent: '#16A34A',
+      border: '#CBD5E1',
+      hero_background: '#0F172A',
+      hero_text: '#F8FAFC',
+    },
+    radius_px: 10,
+    latin_font: LATIN_SANS,
+    arabic_font: ARABIC_SANS,
+    heading_weight: 800,
+  },
+};
+
+export const LANDING_PAGE_LABELS: Record<string, LandingPageLabels> = {
+  en: {
+    problem: 'The problem',
+    solution: 'The solution',
+    features: 'Features',
+    benefits: "Why you'll love it",
+    usage: 'How to use',
+    technical_details: 'Specifications',
+    reviews: 'What customers say',
+    faq: 'Frequently asked questions',
+    order_now: 'Order now',
+    form_name: 'Full name',
+    form_phone: 'Mobile number',
+    form_city: 'City',
+    form_offer: 'Choose your offer',
+    form_submit: 'Confirm order',
+    form_cod_note: 'Pay cash on delivery. We call you to confirm before shipping.',
+    form_success: 'Thank you! Your order is in. We will call you shortly to confirm.',
+    form_duplicate: 'We already have your order. We will call you shortly to confirm.',
+    form_invalid_phone: 'Please enter a valid mobile number.',
+    form_error: 'Something went wrong. Please try again.',
+  },
+  ar: {
+    problem: 'المشكلة',
+    solution: 'الحل',
+    features: 'المميزات',
+    benefits: 'ليش راح تحبه',
+    usage: 'طريقة الاستخدام',
+    technical_details: 'المواصفات',
+    reviews: 'آراء العملاء',
+    faq: 'الأسئلة الشائعة',
+    order_now: 'اطلب الآن',
+    form_name: 'الاسم الكامل',
+    form_phone: 'رقم الجوال',
+    form_city: 'المدينة',
+    form_offer: 'اختر العرض',
+    form_submit: 'تأكيد الطلب',
+    form_cod_note: 'الدفع عند الاستلام. نتصل بك لتأكيد الطلب قبل الشحن.',
+    form_success: 'شكراً لك! تم استلام طلبك وسنتصل بك قريباً للتأكيد.',
+    form_duplicate: 'طلبك مسجل لدينا مسبقاً، وسنتصل بك قريباً للتأكيد.',
+    form_invalid_phone: 'يرجى إدخال رقم جوال صحيح.',
+    form_error: 'حدث خطأ، يرجى المحاولة مرة أخرى.',
+  },
+  es: {
+    problem: 'El problema',
+    solution: 'La solución',
+    features: 'Características',
+    benefits: 'Por qué te encantará',
+    usage: 'Cómo se usa',
+    technical_details: 'Especificaciones',
+    reviews: 'Lo que dicen los clientes',
+    faq: 'Preguntas frecuentes',
+    order_now: 'Pide ahora',
+    form_name: 'Nombre completo',
+    form_phone: 'Número de móvil',
+    form_city: 'Ciudad',
+    form_offer: 'Elige tu oferta',
+    form_submit: 'Confirmar pedido',
+    form_cod_note: 'Pago contra reembolso. Te llamamos para confirmar antes del envío.',
+    form_success: '¡Gracias! Hemos recibido tu pedido. Te llamaremos pronto para confirmarlo.',
+    form_duplicate: 'Ya tenemos tu pedido. Te llamaremos pronto para confirmarlo.',
+    form_invalid_phone: 'Introduce un número de móvil válido.',
+    form_error: 'Algo salió mal. Inténtalo de nuevo.',
+  },
+  fr: {
+    problem: 'Le problème',
+    solution: 'La solution',
+    features: 'Caractéristiques',
+    benefits: 'Pourquoi vous allez l’adorer',
+    usage: 'Mode d’emploi',
+    technical_details: 'Caractéristiques techniques',
+    reviews: 'Avis clients',
+    faq: 'Questions fréquentes',
+    order_now: 'Commander',
+    form_name: 'Nom complet',
+    form_phone: 'Numéro de mobile',
+    form_city: 'Ville',
+    form_offer: 'Choisissez votre offre',
+    form_submit: 'Confirmer la commande',
+    form_cod_note: 'Paiement à la livraison. Nous vous appelons pour confirmer avant l’envoi.',
+    form_success: 'Merci ! Votre commande est enregistrée. Nous vous appelons bientôt pour la confirmer.',
+    form_duplicate: 'Nous avons déjà votre commande. Nous vous appelons bientôt pour la confirmer.',
+    form_invalid_phone: 'Veuillez saisir un numéro de mobile valide.',
+    form_error: 'Une erreur est survenue. Veuillez réessayer.',
+  },
+};
+
+export function getLandingPageTheme(id: LandingPageThemeId): LandingPageTheme {
+  return LANDING_PAGE_THEMES[id] ?? LANDING_PAGE_THEMES.modern;
+}
+
+export function getLandingPageLabels(language: string, overrides: Partial<LandingPageLabels> = {}): LandingPageLabels {
+  return { ...(LANDING_PAGE_LABELS[language] ?? LANDING_PAGE_LABELS.en), ...overrides };
+}
@@ -0,0 +1,152 @@
+/**
+ * Landing Page Renderer Types
+ *
+ * The renderer turns LandingPageSections (src/lib/unified-generation) into a
+ * static page. Layout comes from code and styling from a theme, so the same
+ * sections always produce the same HTML and can be restyled without
+ * regenerating them.
+ */
+
+export type LandingPageThemeId = 'modern' | 'bold' | 'soft' | 'trust';
+
+export interface LandingPageThemeColors {
+  background: string;
+  surface: string;     // Cards, FAQ items
+  text: string;
+  muted: string;
+  primary: string;     // CTA buttons, accents
+  on_primary: string;  // Text on primary
+  accent: string;      // Stars, checkmarks
+  border: string;
+  hero_background: string; // Any CSS background value
+  hero_text: string;
+}
+
+export interface LandingPageTheme {
+  id: LandingPageThemeId;
+  name: string;
+  description: string;
+  colors: LandingPageThemeColors;
+  radius_px: number;
+  latin_font: string;  // CSS font-family stack
+  arabic_font: string; // Used when the page is RTL
+  heading_weight: number;
+}
+
+/**
+ * Section headings; the sections themselves only carry content
+ */
+export interface LandingPageLabels {
+  problem: string;
+  solution: string;
+  features: string;
+  benefits: string;
+  usage: string;
+  technical_details: string;
+  reviews: string;
+  faq: string;
+  order_now: string;
+  form_name: string;
+  form_phone: string;
+  form_city: string;
+  form_offer: string;
+  form_submit: string;
+  form_cod_note: string;
+  form_success: string;
+  form_duplicate: string;
+  form_invalid_phone: string;
+  form_error: string;
+}
+
+// ============================================
+// ORDER FORM
+// ============================================
+
+// Phone and currency rules for a cash-on-delivery market, shared with the leads function
+export type { OrderFormCountry } from '../../../supabase/functions/_shared/order-form-countries.ts';
+
+/**
+ * Quantity bundle, e.g. "Buy 2, save 20%"
+ */
+export interface LandingPageOffer {
+  id: string;
+  label: string;
+  quantity: number;
+  price: number;            // Total for the bundle
+  compare_at_price?: number;
+}
+
+/**
+ * Stored on the landing_pages row; the leads endpoint prices orders and
+ * validates phones from this copy, never from what the page submits.
+ */
+export interface LandingPageOrderForm {
+  enabled: boolean;
+  country: string;          // Key of ORDER_FORM_COUNTRIES
+  currency: string;
+  offers: LandingPageOffer[];
+  cities?: string[];        // A select instead of free text when given
+}
+
+/**
+ * Where the rendered form posts to
+ */
+export interface LandingPageOrderFormTarget {
+  endpoint: string;         // landing-page-leads function URL
+  landing_page_id: string;
+}
+
+export interface LandingPageLeadResult {
+  ok: boolean;
+  lead_id?: string;
+  duplicate?: boolean;      // Same phone already ordered in this project
+  error?: string;
+}
+
+export interface LandingPageRenderOptions {
+  theme: LandingPageThemeId;
+  locale: string;         // BCP 47, e.g. "ar-SA"; decides language and direction
+  title?: string;         // <title>; defaults to the hero headline
+  cta_href?: string;      // Target of every CTA button
+  gallery?: string[];     // Extra product images after the hero
+  labels?: Partial<LandingPageLabels>;
+  order_form?: LandingPageOrderForm & LandingPageOrderFormTarget; // Replaces the final CTA
+}
+
+export interface LandingPageBundleAsset {
+  url: string;
+  inlined: boolean;
+  bytes: number;
+  error?: string;
+}
+
+/**
+ * Self-contained page: one HTML file with its CSS and images inlined
+ */
+export interface LandingPageBundle {
+  filename: string;
+  html: string;
+  assets: LandingPageBundleAsset[];
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_LANDING_PAGE_RENDER_OPTIONS: LandingPageRenderOptions = {
+  theme: 'modern',
+  locale: 'ar-SA',
+  cta_href: '#order',
+};
+
+// Images larger than this stay linked instead of inlined
+export const MAX_INLINE_IMAGE_BYTES = 2 * 1024 * 1024;
+
+export const DEFAULT_ORDER_FORM: LandingPageOrderForm = {
+  enabled: false,
+  country: 'SA',
+  currency: 'SAR',
+  offers: [
+    { id: 'single', label: '', quantity: 1, price: 199 },
+  ],
+};
@@ -0,0 +1,56 @@
+/**
+ * Beat Grid Helpers
+ * Pure functions over a MusicAnalysis; no audio processing happens here.
+ */
+
+import type { MusicAnalysis } from './types';
+
+/**
+ * Nearest beat to timeMs within toleranceMs, or null.
+ * beatsMs must be sorted.
+ */
+export function nearestBeat(beatsMs: number[], timeMs: number, toleranceMs: number): number | null {
+  let lo = 0;
+  let hi = beatsMs.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (beatsMs[mid] < timeMs) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let best: number | null = null;
+  for (const i of [lo - 1, lo]) {
+    const beat = beatsMs[i];
+    if (beat === undefined || Math.abs(beat - timeMs) > toleranceMs) continue;
+    if (best === null || Math.abs(beat - timeMs) < Math.abs(best - timeMs)) best = beat;
+  }
+  return best;
+}
+
+/**
+ * Where to start the track so a timeline of durationMs starts on a
+ * downbeat: the first downbeat of the earliest high-energy section that
+ * still has durationMs of music after it, else the first downbeat, else 0.
+ */
+export function musicStartOffset(analysis: MusicAnalysis, durationMs: number): number {
+  const fits = (startMs: number) => startMs + durationMs <= analysis.duration_ms;
+
+  for (const section of analysis.sections) {
+    if (section.level !== 'high') continue;
+    const downbeat = analysis.downbeats_ms.find(ms => ms >= section.start_ms && ms < section.end_ms);
+    if (downbeat !== undefined && fits(downbeat)) return downbeat;
+  }
+
+  const first = analysis.downbeats_ms[0] ?? analysis.beats_ms[0];
+  return first !== undefined && fits(first) ? first : 0;
+}
+
+/**
+ * Track times shifted onto the output timeline when the track starts at
+ * offsetMs, keeping only those inside [0, durationMs].
+ */
+export function toTimeline(timesMs: number[], offsetMs: number, durationMs: number): number[] {
+  return timesMs
+    .map(ms => ms - offsetMs)
+    .filter(ms => ms >= 0 && ms <= durationMs);
+}
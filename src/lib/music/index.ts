@@ -0,0 +1,5 @@
+// Music Library
+// Track analysis types (tempo, beats, downbeats, energy) and beat grid helpers
+
+export * from './types';
+export { nearestBeat, musicStartOffset, toTimeline } from './beats';
@@ -0,0 +1,63 @@
+/**
+ * Music Library Types
+ *
+ * MusicAnalysis is produced by server/music-analyzer.js (POST /api/music/analyze)
+ * and cached next to the track in the server's music library. All times are
+ * milliseconds from the start of the track.
+ */
+
+export type EnergyLevel = 'low' | 'medium' | 'high';
+
+export interface EnergySection {
+  start_ms: number;
+  end_ms: number;
+  energy: number; // 0-1, mean bar RMS relative to the loudest bar
+  level: EnergyLevel;
+}
+
+export interface MusicAnalysis {
+  track_id: string;
+  duration_ms: number;
+  bpm: number;               // 0 when no tempo was found
+  tempo_confidence: number;  // 0-1, autocorrelation strength at the chosen period
+  beats_per_bar: number;     // 4/4 assumed
+  beats_ms: number[];
+  downbeats_ms: number[];    // Subset of beats_ms, first beat of each bar
+  onsets_ms: number[];
+  sections: EnergySection[];
+  analyzed_at: string;
+}
+
+export interface MusicTrack {
+  id: string;          // File name inside the library
+  title: string;
+  url: string;         // Fetchable by the renderer
+  size_bytes?: number;
+  analysis: MusicAnalysis | null; // null until analyzed
+}
+
+// ============================================
+// BEAT SYNC OPTIONS
+// ============================================
+
+export interface BeatSyncOptions {
+  snap_tolerance_ms: number;   // Max distance a cut may move to land on a beat
+  min_segment_ms: number;      // Snapping never shortens a segment below this
+  min_tempo_confidence: number; // Below this, cuts are left where they are
+  prefer_downbeats: boolean;   // Try downbeats first, then any beat
+  music_volume: number;        // 0-1, without voiceover
+  ducked_volume: number;       // 0-1, under voiceover
+  fade_in_ms: number;
+  fade_out_ms: number;
+}
+
+export const DEFAULT_BEAT_SYNC_OPTIONS: BeatSyncOptions = {
+  snap_tolerance_ms: 150,
+  min_segment_ms: 400,
+  min_tempo_confidence: 0.2,
+  prefer_downbeats: true,
+  music_volume: 0.8,
+  ducked_volume: 0.2,
+  fade_in_ms: 300,
+  fade_out_ms: 1000,
+};
@@ -0,0 +1,5 @@
+// Pricing Catalog
+// One versioned price list for every cost estimator and the track-cost function.
+// The catalog itself lives with the edge functions so Deno can load it too.
+
+export * from '../../../supabase/functions/_shared/pricing-catalog.ts';
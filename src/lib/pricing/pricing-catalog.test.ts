@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { PRICING_CATALOG, findPrice, getPricePerSecond, priceUsage } from './index';
+
+describe('findPrice', () => {
+  it('matches ids, models and aliases exactly first', () => {
+    expect(findPrice('kling/kling-2.5')?.id).toBe('kling/kling-2.5');
+    expect(findPrice('Kling Standard')?.id).toBe('kling/kling-2.5');
+    expect(findPrice('ovi')?.id).toBe('character-ai/ovi');
+  });
+
+  it('falls back to the longest key found as whole words', () => {
+    expect(findPrice('kling-2.6-pro-turbo')?.id).toBe('kling/kling-2.6-pro');
+    expect(findPrice('veo-3.1')?.id).toBe('google/veo-3');
+    expect(findPrice('omnihuman-1.5')?.id).toBe('bytedance/omnihuman');
+  });
+
+  it('does not match keys inside other words', () => {
+    expect(findPrice('movie-maker')).toBeNull();
+    expect(findPrice('wanderlust')).toBeNull();
+  });
+
+  it('answers for the date asked', () => {
+    expect(findPrice('show-your-app', '2025-12-30')).toBeNull();
+    expect(findPrice('show-your-app', '2025-12-31')?.usd_per_unit).toBe(0.12);
+  });
+});
+
+describe('priceUsage', () => {
+  it('bills per-second engines for the duration', () => {
+    const priced = priceUsage('kling-2.5', { duration_sec: 8 });
+
+    expect(priced).toEqual({
+      cost_usd: 0.4,
+      pricing_version: PRICING_CATALOG.version,
+      price_id: 'kling/kling-2.5',
+      unit: 'second',
+      units: 8,
+    });
+  });
+
+  it('uses the category fallback for unknown engines', () => {
+    expect(priceUsage('mystery-model', { category: 'text' }).cost_usd).toBe(PRICING_CATALOG.fallbacks.text);
+    expect(priceUsage('mystery-model', { operation_type: 'video_generation' }).cost_usd).toBe(PRICING_CATALOG.fallbacks.video);
+    expect(priceUsage('mystery-model').price_id).toBeNull();
+  });
+});
+
+describe('getPricePerSecond', () => {
+  it('is 0 for engines not billed by the second', () => {
+    expect(getPricePerSecond('kling-2.5')).toBe(0.05);
+    expect(getPricePerSecond('arcads')).toBe(0);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Crop Path
+ * SubjectTrack → smoothed crop window per target aspect ratio.
+ * Pure functions; the renderer turns keyframes into a per-frame crop.
+ */
+
+import type { SafeArea } from '@/lib/creative-scale/caption-types';
+import {
+  ASPECT_RATIO_VALUES,
+  DEFAULT_REFRAME_OPTIONS,
+  type AspectRatio,
+  type CropKeyframe,
+  type CropPath,
+  type ReframeOptions,
+  type SubjectSample,
+  type SubjectTrack,
+} from './types';
+
+const NO_SAFE_AREA: SafeArea = { top: 0, bottom: 0, left: 0, right: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Largest window of the target ratio inside the source, as source fractions.
+ */
+export function cropSize(sourceAspect: number, aspect: AspectRatio): { width: number; height: number } {
+  const target = ASPECT_RATIO_VALUES[aspect];
+  return sourceAspect > target
+    ? { width: target / sourceAspect, height: 1 }
+    : { width: 1, height: sourceAspect / target };
+}
+
+/**
+ * Whether the source already has the target ratio (within 1%).
+ */
+export function needsCrop(sourceAspect: number, aspect: AspectRatio): boolean {
+  return Math.abs(Math.log(sourceAspect / ASPECT_RATIO_VALUES[aspect])) > 0.01;
+}
+
+/**
+ * Top-left of a window of the given size that puts the subject at the
+ * centre of the output's safe area, kept inside the source.
+ */
+function windowAt(
+  centerX: number,
+  centerY: number,
+  size: { width: number; height: number },
+  safeArea: SafeArea
+): { x: number; y: number } {
+  const anchorX = (safeArea.left + 1 - safeArea.right) / 2;
+  const anchorY = (safeArea.top + 1 - safeArea.bottom) / 2;
+  return {
+    x: clamp(centerX - anchorX * size.width, 0, 1 - size.width),
+    y: clamp(centerY - anchorY * size.height, 0, 1 - size.height),
+  };
+}
+
+/**
+ * Subject positions of one shot: low-weight samples take the shot's
+ * weighted mean, then a centred moving average, then a camera that holds
+ * inside the dead zone and pans no faster than max_speed.
+ */
+function followShot(samples: SubjectSample[], options: ReframeOptions): Array<{ t_ms: number; x: number; y: number }> {
+  const confident = samples.filter(s => s.weight >= options.min_weight);
+  const totalWeight = confident.reduce((sum, s) => sum + s.weight, 0);
+  const fallback = totalWeight > 0
+    ? {
+        x: confident.reduce((sum, s) => sum + s.x * s.weight, 0) / totalWeight,
+        y: confident.reduce((sum, s) => sum + s.y * s.weight, 0) / totalWeight,
+      }
+    : { x: 0.5, y: 0.5 };
+
+  const targets = samples.map(s => (s.weight >= options.min_weight ? s : { ...s, ...fallback, weight: options.min_weight }));
+
+  const half = options.smoothing_ms / 2;
+  const smoothed = targets.map(sample => {
+    const window = targets.filter(s => Math.abs(s.t_ms - sample.t_ms) <= half);
+    const weight = window.reduce((sum, s) => sum + s.weight, 0);
+    return {
+      t_ms: sample.t_ms,
+      x: window.reduce((sum, s) => sum + s.x * s.weight, 0) / weight,
+      y: window.reduce((sum, s) => sum + s.y * s.weight, 0) / weight,
+    };
+  });
+
+  const follow = (current: number, target: number, dtMs: number) => {
+    const diff = target - current;
+    if (Math.abs(diff) <= options.dead_zone) return current;
+    const step = Math.min(Math.abs(diff) - options.dead_zone, (options.max_speed * dtMs) / 1000);
+    return current + Math.sign(diff) * step;
+  };
+
+  const path: Array<{ t_ms: number; x: number; y: number }> = [];
+  smoothed.forEach((point, i) => {
+    const previous = path[i - 1];
+    path.push(previous
+      ? {
+          t_ms: point.t_ms,
+          x: follow(previous.x, point.x, point.t_ms - previous.t_ms),
+          y: follow(previous.y, point.y, point.t_ms - previous.t_ms),
+        }
+      : point);
+  });
+  return path;
+}
+
+/**
+ * Ramer-Douglas-Peucker over time: drop keyframes that linear
+ * interpolation between their neighbours reproduces within tolerance.
+ */
+function simplify(keyframes: CropKeyframe[], tolerance: number): CropKeyframe[] {
+  if (keyframes.length <= 2) return keyframes;
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  const span = last.t_ms - first.t_ms;
+
+  let worst = -1;
+  let worstError = 0;
+  for (let i = 1; i < keyframes.length - 1; i++) {
+    const k = keyframes[i];
+    const f = span > 0 ? (k.t_ms - first.t_ms) / span : 0;
+    const error = Math.max(
+      Math.abs(k.x - (first.x + (last.x - first.x) * f)),
+      Math.abs(k.y - (first.y + (last.y - first.y) * f))
+    );
+    if (error > worstError) {
+      worst = i;
+      worstError = error;
+    }
+  }
+
+  if (worstError <= tolerance) return [first, last];
+  return [
+    ...simplify(keyframes.slice(0, worst + 1), tolerance).slice(0, -1),
+    ...simplify(keyframes.slice(worst), tolerance),
+  ];
+}
+
+/**
+ * Crop path that keeps the tracked subject in frame for the target ratio.
+ * Each shot is smoothed on its own; the window jumps at cuts.
+ */
+export function buildCropPath(
+  track: SubjectTrack,
+  aspect: AspectRatio,
+  safeArea: SafeArea = NO_SAFE_AREA,
+  options: ReframeOptions = DEFAULT_REFRAME_OPTIONS
+): CropPath {
+  const size = cropSize(track.width / track.height, aspect);
+  const shots = track.shots.length > 0 ? track.shots : [{ start_ms: 0, end_ms: track.duration_ms }];
+
+  const keyframes: CropKeyframe[] = [];
+  for (const shot of shots) {
+    const samples = track.samples.filter(s => s.t_ms >= shot.start_ms && s.t_ms < shot.end_ms);
+    const path = samples.length > 0 ? followShot(samples, options) : [{ t_ms: shot.start_ms, x: 0.5, y: 0.5 }];
+
+    // Hold the first and last positions to the shot edges
+    const points = [
+      { ...path[0], t_ms: shot.start_ms },
+      ...path,
+      { ...path[path.length - 1], t_ms: shot.end_ms },
+    ].map(p => ({ t_ms: p.t_ms, ...windowAt(p.x, p.y, size, safeArea) }));
+
+    // Shots share their boundary time, which makes the jump at the cut
+    keyframes.push(...simplify(points, options.simplify_tolerance));
+  }
+
+  return {
+    aspect_ratio: aspect,
+    width: round4(size.width),
+    height: round4(size.height),
+    keyframes: keyframes.map(k => ({ t_ms: Math.round(k.t_ms), x: round4(k.x), y: round4(k.y) })),
+  };
+}
+
+/**
+ * Static centred window, used when no SubjectTrack is available.
+ */
+export function centerCropPath(sourceAspect: number, aspect: AspectRatio): CropPath {
+  const size = cropSize(sourceAspect, aspect);
+  return {
+    aspect_ratio: aspect,
+    width: round4(size.width),
+    height: round4(size.height),
+    keyframes: [{ t_ms: 0, x: round4((1 - size.width) / 2), y: round4((1 - size.height) / 2) }],
+  };
+}
+
+/**
+ * Window position at a source time. At a cut (two keyframes with the same
+ * time) the later one wins, unless side is 'before' (the end of a range).
+ */
+export function cropAt(
+  path: Pick<CropPath, 'keyframes'>,
+  tMs: number,
+  side: 'before' | 'after' = 'after'
+): { x: number; y: number } {
+  const { keyframes } = path;
+  const reached = (k: CropKeyframe) => (side === 'after' ? k.t_ms <= tMs : k.t_ms < tMs);
+  let i = -1;
+  while (i + 1 < keyframes.length && reached(keyframes[i + 1])) i++;
+  if (i === -1) return { x: keyframes[0].x, y: keyframes[0].y };
+
+  const current = keyframes[i];
+  const next = keyframes[i + 1];
+  if (!next || next.t_ms === current.t_ms) return { x: current.x, y: current.y };
+
+  const f = (tMs - current.t_ms) / (next.t_ms - current.t_ms);
+  return {
+    x: round4(current.x + (next.x - current.x) * f),
+    y: round4(current.y + (next.y - current.y) * f),
+  };
+}
+
+/**
+ * Keyframes covering [startMs, endMs] of the source, with interpolated
+ * keyframes at both ends.
+ */
+export function sliceCropPath(path: CropPath, startMs: number, endMs: number): CropKeyframe[] {
+  const inside = path.keyframes.filter(k => k.t_ms > startMs && k.t_ms < endMs);
+  return [
+    { t_ms: startMs, ...cropAt(path, startMs) },
+    ...inside,
+    { t_ms: endMs, ...cropAt(path, endMs, 'before') },
+  ];
+}
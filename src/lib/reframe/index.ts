@@ -0,0 +1,12 @@
+// Reframing
+// Subject track types and crop paths that keep the subject in frame per aspect ratio
+
+export * from './types';
+export {
+  cropSize,
+  needsCrop,
+  buildCropPath,
+  centerCropPath,
+  cropAt,
+  sliceCropPath,
+} from './crop-path';
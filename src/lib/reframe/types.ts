@@ -0,0 +1,84 @@
+/**
+ * Reframing Types
+ *
+ * SubjectTrack is produced by server/reframe-analyzer.js
+ * (POST /api/analysis/reframe). Positions are fractions of the source frame
+ * (0-1, origin top-left); times are milliseconds of the source video.
+ */
+
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+
+export const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  '9:16': 9 / 16,
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '16:9': 16 / 9,
+};
+
+// Output size per target ratio
+export const ASPECT_RATIO_DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '16:9': { width: 1920, height: 1080 },
+};
+
+// ============================================
+// SUBJECT TRACK (analysis output)
+// ============================================
+
+export interface SubjectShot {
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface SubjectSample {
+  t_ms: number;
+  x: number;      // Subject centre
+  y: number;
+  weight: number; // 0-1 saliency of the subject region; low = nothing stands out
+}
+
+export interface SubjectTrack {
+  video_id: string;
+  width: number;  // Source pixels (rotation applied)
+  height: number;
+  duration_ms: number;
+  sample_fps: number;
+  shots: SubjectShot[];
+  samples: SubjectSample[];
+  analyzed_at: string;
+}
+
+// ============================================
+// CROP PATH (what the renderer applies)
+// ============================================
+
+export interface CropKeyframe {
+  t_ms: number; // Source time
+  x: number;    // Top-left of the crop window
+  y: number;
+}
+
+export interface CropPath {
+  aspect_ratio: AspectRatio;
+  width: number;  // Crop window as a fraction of the source width
+  height: number; // ... and height
+  keyframes: CropKeyframe[]; // Linear in between; equal t_ms = hard jump at a cut
+}
+
+export interface ReframeOptions {
+  smoothing_ms: number;       // Window of the centred moving average
+  dead_zone: number;          // Subject moves smaller than this (source fraction) do not pan
+  max_speed: number;          // Pan speed limit, source fractions per second
+  min_weight: number;         // Samples below this fall back to the shot's mean
+  simplify_tolerance: number; // Keyframes dropped while the path stays within this
+}
+
+export const DEFAULT_REFRAME_OPTIONS: ReframeOptions = {
+  smoothing_ms: 800,
+  dead_zone: 0.04,
+  max_speed: 0.3,
+  min_weight: 0.08,
+  simplify_tolerance: 0.004,
+};
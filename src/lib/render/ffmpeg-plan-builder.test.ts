@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCropFilter,
+  buildFFmpegCommand,
+  buildFilterComplex,
+  buildLoudnormFilter,
+  escapeFilterValue,
+  formatFFmpegCommand,
+} from './ffmpeg-plan-builder';
+import type { RenderAudioSegment, RenderPlan, RenderTimelineSegment } from './ffmpeg-plan-builder';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const OPTIONS = { sourceUrl: 'https://cdn.example.com/source.mp4', outputPath: 'out.mp4' };
+
+function segment(id: string, startMs: number, endMs: number, extra: Partial<RenderTimelineSegment> = {}): RenderTimelineSegment {
+  return {
+    segment_id: id,
+    asset_url: null,
+    trim_start_ms: 1000,
+    trim_end_ms: 1000 + (endMs - startMs),
+    timeline_start_ms: startMs,
+    timeline_end_ms: endMs,
+    speed_multiplier: 1,
+    track: 'video',
+    layer: 0,
+    ...extra,
+  };
+}
+
+function audio(id: string, track: RenderAudioSegment['track'], extra: Partial<RenderAudioSegment> = {}): RenderAudioSegment {
+  return {
+    audio_id: id,
+    asset_url: `https://cdn.example.com/${id}.mp3`,
+    trim_start_ms: 0,
+    trim_end_ms: 6000,
+    timeline_start_ms: 0,
+    timeline_end_ms: 6000,
+    volume: 1,
+    fade_in_ms: 0,
+    fade_out_ms: 0,
+    track,
+    ...extra,
+  };
+}
+
+function plan(extra: Partial<RenderPlan> = {}): RenderPlan {
+  return {
+    plan_id: 'exec_fixture',
+    status: 'compilable',
+    output_format: {
+      container: 'mp4',
+      width: 1080,
+      height: 1920,
+      fps: 30,
+      bitrate_kbps: 4000,
+      audio_bitrate_kbps: 128,
+      codec_hint: 'h264',
+    },
+    timeline: [segment('hook', 0, 2000), segment('body', 2000, 5000), segment('cta', 5000, 6000)],
+    audio_tracks: [],
+    ...extra,
+  };
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+describe('buildFFmpegCommand', () => {
+  it('joins cut-only timelines with a single concat', () => {
+    const command = buildFFmpegCommand(plan(), OPTIONS);
+
+    expect(command.filterComplex).toContain('[v0][v1][v2]concat=n=3:v=1:a=0[vbase]');
+    expect(command.audioLabel).toBeNull();
+    expect(command.durationMs).toBe(6000);
+    expect(command.args).toMatchSnapshot();
+  });
+
+  it('folds transitions pairwise with xfade at the incoming segment offset', () => {
+    const command = buildFFmpegCommand(plan({
+      timeline: [
+        segment('hook', 0, 2000),
+        segment('body', 1500, 4500, { transition_in: { type: 'dissolve', duration_ms: 500 } }),
+        segment('cta', 4500, 6000),
+        segment('outro', 5500, 7000, { transition_in: { type: 'slide-left', duration_ms: 500 } }),
+      ],
+    }), OPTIONS);
+
+    expect(command.filterComplex).toContain('[v0]settb=AVTB,fps=30[xa1];[v1]settb=AVTB,fps=30[xb1]');
+    expect(command.filterComplex).toContain('[xa1][xb1]xfade=transition=dissolve:duration=0.500:offset=1.500[j1]');
+    expect(command.filterComplex).toContain('[j1][v2]concat=n=2:v=1:a=0[j2]');
+    expect(command.filterComplex).toContain('[j2]settb=AVTB,fps=30[xa3];[v3]settb=AVTB,fps=30[xb3]');
+    expect(command.filterComplex).toContain('[xa3][xb3]xfade=transition=slideleft:duration=0.500:offset=5.500[vbase]');
+    expect(command.filterComplex).toMatchSnapshot();
+  });
+
+  it('maps zoom to the zoomin xfade', () => {
+    const command = buildFFmpegCommand(plan({
+      timeline: [
+        segment('hook', 0, 2000),
+        segment('body', 1700, 4000, { transition_in: { type: 'zoom', duration_ms: 300 } }),
+      ],
+    }), OPTIONS);
+
+    expect(command.filterComplex).toContain('xfade=transition=zoomin:duration=0.300:offset=1.700[vbase]');
+  });
+
+  it('composites overlays, stills and text on top of the base track', () => {
+    const command = buildFFmpegCommand(plan({
+      timeline: [
+        segment('hook', 0, 3000),
+        segment('logo', 500, 2500, {
+          track: 'overlay',
+          layer: 1,
+          asset_url: 'https://cdn.example.com/logo.png',
+          still: true,
+          trim_start_ms: 0,
+          trim_end_ms: 2000,
+        }),
+      ],
+      text_overlays: [{
+        text_id: 'headline',
+        content: "Don't miss: 50% off, today only",
+        timeline_start_ms: 0,
+        timeline_end_ms: 1500,
+        font_size: 64,
+        color: '#FFCC00',
+        x: '(w-text_w)/2',
+        y: 'h*0.8',
+        box: true,
+      }],
+    }), OPTIONS);
+
+    expect(command.inputs.map(input => input.ref)).toEqual([
+      { kind: 'video', id: 'hook' },
+      { kind: 'overlay', id: 'logo' },
+    ]);
+    expect(command.args).toContain('-loop');
+    expect(command.videoLabel).toBe('vtext');
+    expect(command.args).toMatchSnapshot();
+  });
+
+  it('uses text files instead of inline text when given', () => {
+    const command = buildFFmpegCommand(plan({
+      text_overlays: [{
+        text_id: 'headline',
+        content: 'Ignored',
+        timeline_start_ms: 0,
+        timeline_end_ms: 1000,
+        font_size: 48,
+        color: '#FFFFFF',
+        x: '10',
+        y: '10',
+      }],
+    }), { ...OPTIONS, textFiles: ['/tmp/job_text_0.txt'] });
+
+    expect(command.filterComplex).toContain('textfile=/tmp/job_text_0.txt:');
+    expect(command.filterComplex).not.toContain('Ignored');
+  });
+
+  it('escapes file paths so they cannot add filter options', () => {
+    const command = buildFFmpegCommand(plan({
+      text_overlays: [{
+        text_id: 'headline',
+        content: 'Hi',
+        timeline_start_ms: 0,
+        timeline_end_ms: 1000,
+        font_size: 48,
+        color: '#FFFFFF',
+        x: '10',
+        y: '10',
+        font_file: "/fonts/a':fontcolor=red,b.ttf",
+      }],
+    }), { ...OPTIONS, textFiles: ['/tmp/a:b.txt'] });
+
+    expect(command.filterComplex).toContain('textfile=/tmp/a\\\\:b.txt:');
+    expect(command.filterComplex).toContain("fontfile=/fonts/a\\\\\\'\\\\:fontcolor=red\\,b.ttf[vtext]");
+  });
+
+  it('ducks music under the voiceover and mixes sfx on top', () => {
+    const command = buildFFmpegCommand(plan({
+      audio_tracks: [
+        audio('voice', 'voiceover', { trim_end_ms: 5000, timeline_end_ms: 5000, fade_out_ms: 200 }),
+        audio('music', 'music', { volume: 0.3, fade_in_ms: 500, timeline_start_ms: 250 }),
+        audio('whoosh', 'sfx', { trim_end_ms: 400, timeline_start_ms: 2000, timeline_end_ms: 2400 }),
+      ],
+      audio_mix: { ducking: { threshold: 0.05, ratio: 8, attack_ms: 20, release_ms: 300 } },
+    }), OPTIONS);
+
+    expect(command.filterComplex).toContain('[a0]asplit=2[avmix][avkey];[avkey]apad[avside]');
+    expect(command.filterComplex).toContain('[a1][avside]sidechaincompress=threshold=0.05:ratio=8:attack=20:release=300[aducked]');
+    expect(command.filterComplex).toContain('[avmix][aducked][a2]amix=inputs=3:duration=longest:normalize=0[amix]');
+    expect(command.audioLabel).toBe('amix');
+    expect(command.filterComplex).toMatchSnapshot();
+  });
+
+  it('skips audio that does not fit its slot', () => {
+    const command = buildFFmpegCommand(plan({
+      audio_tracks: [audio('empty', 'sfx', { trim_start_ms: 500, trim_end_ms: 500 })],
+    }), OPTIONS);
+
+    expect(command.audioLabel).toBeNull();
+    expect(command.args).toContain('-an');
+  });
+
+  it('encodes webm as vp9 + opus without a preset or faststart', () => {
+    const base = plan();
+    const command = buildFFmpegCommand(plan({
+      output_format: { ...base.output_format, container: 'webm' },
+      audio_tracks: [audio('voice', 'voiceover')],
+    }), { ...OPTIONS, preset: 'fast' });
+
+    expect(command.args).toEqual(expect.arrayContaining(['-c:v', 'libvpx-vp9', '-c:a', 'libopus']));
+    expect(command.args).not.toContain('-preset');
+    expect(command.args).not.toContain('-movflags');
+  });
+
+  it('rejects plans it cannot render', () => {
+    expect(() => buildFFmpegCommand(plan({ status: 'uncompilable', reason: 'no segments' }), OPTIONS))
+      .toThrow('is not compilable: no segments');
+    expect(() => buildFFmpegCommand(plan({ timeline: [] }), OPTIONS)).toThrow('has no video segments');
+  });
+
+  it('is deterministic', () => {
+    expect(buildFilterComplex(plan(), OPTIONS.sourceUrl)).toBe(buildFilterComplex(plan(), OPTIONS.sourceUrl));
+  });
+});
+
+// ============================================
+// FILTERS
+// ============================================
+
+describe('buildCropFilter', () => {
+  it('interpolates keyframes on the trimmed, speed-adjusted stream', () => {
+    const crop = buildCropFilter(segment('hook', 0, 2000, {
+      speed_multiplier: 2,
+      crop: {
+        width: 0.5625,
+        height: 1,
+        keyframes: [{ t_ms: 1000, x: 0.1, y: 0 }, { t_ms: 3000, x: 0.3, y: 0 }],
+      },
+    }));
+
+    expect(crop).toBe("crop=w=iw*0.5625:h=ih*1:x='(if(lt(t,1.000),0.1+0.2*(t-0.000),0.3))*iw':y='(if(lt(t,1.000),0,0))*ih'");
+  });
+
+  it('returns null without keyframes', () => {
+    expect(buildCropFilter(segment('hook', 0, 2000))).toBeNull();
+  });
+});
+
+describe('buildLoudnormFilter', () => {
+  const target = { integrated_lufs: -14, true_peak_dbtp: -1, loudness_range_lu: 11 };
+
+  it('measures without stats and applies a linear gain with them', () => {
+    expect(buildLoudnormFilter(target)).toBe('loudnorm=I=-14:TP=-1:LRA=11:print_format=json');
+    expect(buildLoudnormFilter(target, {
+      input_i: '-20.5',
+      input_tp: '-3.2',
+      input_lra: '6.1',
+      input_thresh: '-31.0',
+      target_offset: '0.4',
+    })).toBe(
+      'loudnorm=I=-14:TP=-1:LRA=11:measured_I=-20.5:measured_TP=-3.2:measured_LRA=6.1:' +
+      'measured_thresh=-31.0:offset=0.4:linear=true:print_format=json'
+    );
+  });
+});
+
+describe('escapeFilterValue', () => {
+  it('escapes for the option and the filtergraph parser', () => {
+    expect(escapeFilterValue("It's 50%: [new]; ok, go")).toBe("It\\\\\\'s 50%\\\\: \\[new\\]\\; ok\\, go");
+  });
+});
+
+describe('formatFFmpegCommand', () => {
+  it('quotes only the arguments the shell would split', () => {
+    expect(formatFFmpegCommand(['-i', 'in.mp4', '-filter_complex', '[0:v]fps=30[v]', 'out file.mp4']))
+      .toBe("ffmpeg -i in.mp4 -filter_complex '[0:v]fps=30[v]' 'out file.mp4'");
+  });
+});
@@ -0,0 +1,5 @@
+// ExecutionPlan → FFmpeg builder
+// The single builder shared with the edge functions and the RenderFlow worker.
+// It lives with the edge functions so Deno can load it; RenderFlow runs a compiled copy.
+
+export * from '../../../supabase/functions/_shared/ffmpeg-plan-builder.ts';
@@ -24,3 +24,20 @@ export {
   getDecisionScorer,
   initDecisionScorer,
 } from './decision-scorer';
+
+// ExecutionPlan → FFmpeg command (pure)
+export {
+  buildFFmpegCommand,
+  buildFilterComplex,
+  buildLoudnormFilter,
+  buildCropFilter,
+  normalizeVideoFilter,
+  escapeFilterValue,
+  msToSeconds,
+} from './ffmpeg-plan-builder';
+export type {
+  FFmpegPlanBuildOptions,
+  FFmpegInput,
+  FFmpegCommand,
+  LoudnormMeasurement,
+} from './ffmpeg-plan-builder';
@@ -1,6 +1,8 @@
 // Smart Scene Builder - Engine Registry
 // All video engines defined here with adapter pattern support
+// Per-second prices come from the pricing catalog (src/lib/pricing)
 
+import { getPricePerSecond } from '@/lib/pricing';
 import { VideoEngineSpec, EngineCapability } from './types';
 
 export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
@@ -9,7 +11,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'nanobanana',
     name: 'NanoBanana',
     tier: 'free',
-    costPerSecond: 0,
+    costPerSecond: getPricePerSecond('nanobanana'),
     maxDurationSec: 10,
     quality: 'fast',
     capabilities: ['image-to-video', 'text-to-video', 'zoom-pan'],
@@ -20,7 +22,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'ffmpeg_creative',
     name: 'Creative Engine (FFmpeg)',
     tier: 'free',
-    costPerSecond: 0,
+    costPerSecond: getPricePerSecond('ffmpeg_creative'),
     maxDurationSec: 60,
     quality: 'fast',
     capabilities: ['image-to-video', 'video-to-video', 'zoom-pan', 'transitions'],
@@ -31,7 +33,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'gemini_image',
     name: 'Gemini Image',
     tier: 'free',
-    costPerSecond: 0,
+    costPerSecond: getPricePerSecond('gemini_image'),
     maxDurationSec: 5,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -44,7 +46,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'kling_standard',
     name: 'Kling 2.5',
     tier: 'budget',
-    costPerSecond: 0.05,
+    costPerSecond: getPricePerSecond('kling_standard'),
     maxDurationSec: 10,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -55,7 +57,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'minimax',
     name: 'MiniMax',
     tier: 'budget',
-    costPerSecond: 0.04,
+    costPerSecond: getPricePerSecond('minimax'),
     maxDurationSec: 6,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -66,7 +68,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'wan_2_5',
     name: 'Wan 2.5',
     tier: 'budget',
-    costPerSecond: 0.03,
+    costPerSecond: getPricePerSecond('wan_2_5'),
     maxDurationSec: 8,
     quality: 'fast',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -77,7 +79,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'hailuo',
     name: 'Hailuo',
     tier: 'budget',
-    costPerSecond: 0.06,
+    costPerSecond: getPricePerSecond('hailuo'),
     maxDurationSec: 6,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -88,7 +90,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'haiper',
     name: 'Haiper',
     tier: 'budget',
-    costPerSecond: 0.035,
+    costPerSecond: getPricePerSecond('haiper'),
     maxDurationSec: 4,
     quality: 'fast',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -99,7 +101,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'flux_video',
     name: 'Flux Video',
     tier: 'budget',
-    costPerSecond: 0.045,
+    costPerSecond: getPricePerSecond('flux_video'),
     maxDurationSec: 5,
     quality: 'balanced',
     capabilities: ['image-to-video'],
@@ -112,7 +114,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'veo_3',
     name: 'Google Veo 3',
     tier: 'premium',
-    costPerSecond: 0.15,
+    costPerSecond: getPricePerSecond('veo_3'),
     maxDurationSec: 8,
     quality: 'cinematic',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -123,7 +125,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'runway_gen3',
     name: 'Runway Gen-3',
     tier: 'premium',
-    costPerSecond: 0.12,
+    costPerSecond: getPricePerSecond('runway_gen3'),
     maxDurationSec: 10,
     quality: 'cinematic',
     capabilities: ['text-to-video', 'image-to-video', 'video-to-video'],
@@ -134,7 +136,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'sora',
     name: 'OpenAI Sora',
     tier: 'premium',
-    costPerSecond: 0.20,
+    costPerSecond: getPricePerSecond('sora'),
     maxDurationSec: 20,
     quality: 'cinematic',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -145,7 +147,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'pika_2_1',
     name: 'Pika 2.1',
     tier: 'premium',
-    costPerSecond: 0.10,
+    costPerSecond: getPricePerSecond('pika_2_1'),
     maxDurationSec: 4,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -156,7 +158,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'luma',
     name: 'Luma Dream Machine',
     tier: 'premium',
-    costPerSecond: 0.08,
+    costPerSecond: getPricePerSecond('luma'),
     maxDurationSec: 5,
     quality: 'balanced',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -167,7 +169,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'kling_pro',
     name: 'Kling 2.6 Pro',
     tier: 'premium',
-    costPerSecond: 0.10,
+    costPerSecond: getPricePerSecond('kling_pro'),
     maxDurationSec: 10,
     quality: 'cinematic',
     capabilities: ['text-to-video', 'image-to-video'],
@@ -178,7 +180,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'stable_video',
     name: 'Stable Video',
     tier: 'premium',
-    costPerSecond: 0.09,
+    costPerSecond: getPricePerSecond('stable_video'),
     maxDurationSec: 4,
     quality: 'balanced',
     capabilities: ['image-to-video'],
@@ -191,7 +193,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'heygen',
     name: 'HeyGen',
     tier: 'premium',
-    costPerSecond: 0.25,
+    costPerSecond: getPricePerSecond('heygen'),
     maxDurationSec: 120,
     quality: 'cinematic',
     capabilities: ['avatar', 'text-to-video'],
@@ -202,7 +204,7 @@ export const SMART_ENGINE_REGISTRY: VideoEngineSpec[] = [
     engineId: 'omnihuman',
     name: 'OmniHuman',
     tier: 'premium',
-    costPerSecond: 0.18,
+    costPerSecond: getPricePerSecond('omnihuman'),
     maxDurationSec: 60,
     quality: 'cinematic',
     capabilities: ['avatar', 'image-to-video'],
@@ -1,5 +1,7 @@
 // Video Engine Registry - All engines defined here, never in UI
+// Per-second prices come from the pricing catalog (src/lib/pricing)
 
+import { getPricePerSecond } from '@/lib/pricing';
 import { VideoEngine } from './types';
 
 export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
@@ -8,7 +10,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'nanobanana',
     name: 'NanoBanana',
     type: 'video',
-    cost_per_second: 0,
+    cost_per_second: getPricePerSecond('nanobanana'),
     quality: 'fast',
     supports: ['image-to-video', 'text-to-video'],
     execution: ['agent', 'edge'],
@@ -21,7 +23,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'ffmpeg_creative',
     name: 'Creative Engine',
     type: 'video',
-    cost_per_second: 0,
+    cost_per_second: getPricePerSecond('ffmpeg_creative'),
     quality: 'fast',
     supports: ['image-to-video', 'video-to-video'],
     execution: ['agent', 'edge'],
@@ -36,7 +38,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'kling_standard',
     name: 'Kling Standard',
     type: 'video',
-    cost_per_second: 0.05,
+    cost_per_second: getPricePerSecond('kling_standard'),
     quality: 'balanced',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -49,7 +51,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'minimax',
     name: 'MiniMax',
     type: 'video',
-    cost_per_second: 0.04,
+    cost_per_second: getPricePerSecond('minimax'),
     quality: 'balanced',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -62,7 +64,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'wan_2_5',
     name: 'Wan 2.5',
     type: 'video',
-    cost_per_second: 0.03,
+    cost_per_second: getPricePerSecond('wan_2_5'),
     quality: 'fast',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -75,7 +77,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'hailuo',
     name: 'Hailuo',
     type: 'video',
-    cost_per_second: 0.06,
+    cost_per_second: getPricePerSecond('hailuo'),
     quality: 'balanced',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -90,7 +92,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'veo_3',
     name: 'Google Veo 3',
     type: 'video',
-    cost_per_second: 0.15,
+    cost_per_second: getPricePerSecond('veo_3'),
     quality: 'cinematic',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -103,7 +105,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'runway_gen3',
     name: 'Runway Gen-3',
     type: 'video',
-    cost_per_second: 0.12,
+    cost_per_second: getPricePerSecond('runway_gen3'),
     quality: 'cinematic',
     supports: ['text-to-video', 'image-to-video', 'video-to-video'],
     execution: ['agent', 'edge'],
@@ -116,7 +118,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'sora',
     name: 'OpenAI Sora',
     type: 'video',
-    cost_per_second: 0.20,
+    cost_per_second: getPricePerSecond('sora'),
     quality: 'cinematic',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -129,7 +131,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'pika',
     name: 'Pika Labs',
     type: 'video',
-    cost_per_second: 0.10,
+    cost_per_second: getPricePerSecond('pika'),
     quality: 'balanced',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -142,7 +144,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'luma',
     name: 'Luma Dream Machine',
     type: 'video',
-    cost_per_second: 0.08,
+    cost_per_second: getPricePerSecond('luma'),
     quality: 'balanced',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -155,7 +157,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'kling_pro',
     name: 'Kling Pro',
     type: 'video',
-    cost_per_second: 0.10,
+    cost_per_second: getPricePerSecond('kling_pro'),
     quality: 'cinematic',
     supports: ['text-to-video', 'image-to-video'],
     execution: ['agent', 'edge'],
@@ -170,7 +172,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'heygen',
     name: 'HeyGen',
     type: 'video',
-    cost_per_second: 0.25,
+    cost_per_second: getPricePerSecond('heygen'),
     quality: 'cinematic',
     supports: ['avatar', 'text-to-video'],
     execution: ['agent', 'edge'],
@@ -183,7 +185,7 @@ export const VIDEO_ENGINE_REGISTRY: VideoEngine[] = [
     engine_id: 'omnihuman',
     name: 'OmniHuman',
     type: 'video',
-    cost_per_second: 0.18,
+    cost_per_second: getPricePerSecond('omnihuman'),
     quality: 'cinematic',
     supports: ['avatar', 'image-to-video'],
     execution: ['agent', 'edge'],
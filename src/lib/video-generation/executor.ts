@@ -1,6 +1,7 @@
 // Video Generation Executor - Routes to Agent/n8n/Edge
 
 import { supabase } from '@/integrations/supabase/client';
+import { withBudget } from '@/lib/budget';
 import {
   VideoGenerationInput,
   VideoGenerationOutput,
@@ -23,7 +24,32 @@ export async function executeVideoGeneration(
     estimatedCost: selection.estimatedCost,
   });
 
-  // Step 2: Route to appropriate execution mode
+  // Step 2: Hold the estimate against the budgets; a hard stop throws
+  // BudgetExceededError before anything is sent to the engine
+  return withBudget(
+    {
+      engine: selection.engine.engine_id,
+      operation_type: 'video_generation',
+      estimated_cost_usd: selection.estimatedCost,
+      project_id: input.projectId,
+    },
+    () => runVideoGeneration(input, selection, startTime),
+    result => result.status === 'error'
+      ? { actual_cost_usd: 0 }
+      : {
+          actual_cost_usd: result.meta.actualCost ?? selection.estimatedCost,
+          pipeline_stage: 'video_generation',
+          metadata: { execution_mode: result.meta.executionMode, duration_sec: input.duration },
+        }
+  );
+}
+
+// Step 3: Route to appropriate execution mode
+async function runVideoGeneration(
+  input: VideoGenerationInput,
+  selection: EngineSelection,
+  startTime: number
+): Promise<VideoGenerationOutput> {
   try {
     let result: VideoGenerationOutput;
 
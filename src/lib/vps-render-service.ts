@@ -12,9 +12,21 @@ import {
   type ExecuteRequest,
   type ExecuteResponse,
   type JobStatusResponse,
+  type AlignWordsRequest,
+  type AlignWordsResponse,
+  type SignalAnalysisRequest,
+  type SignalAnalysisResponse,
+  type ReframeAnalysisRequest,
+  type ReframeAnalysisResponse,
+  type MusicTracksResponse,
+  type MusicAnalyzeRequest,
+  type MusicAnalyzeResponse,
   parseApiResponse,
   RenderGatewayError,
 } from '@/lib/contracts/renderGateway';
+import type { VideoAnalysis } from '@/lib/creative-scale/types';
+import type { MusicAnalysis, MusicTrack } from '@/lib/music';
+import type { SubjectTrack } from '@/lib/reframe';
 
 // ============================================
 // API BASE URL
@@ -311,6 +323,146 @@ export async function queuePlanJob(
   };
 }
 
+// ============================================
+// WORD ALIGNMENT
+// ============================================
+
+/**
+ * Align the analysis transcripts against the source audio on the VPS and
+ * return the analysis with word timings attached.
+ */
+export async function alignAnalysisWords(
+  analysis: VideoAnalysis,
+  sourceVideoPath: string
+): Promise<VideoAnalysis> {
+  const apiBase = getApiBaseUrl();
+
+  const body: AlignWordsRequest = {
+    analysis: {
+      id: analysis.id,
+      segments: analysis.segments.map(({ id, start_ms, end_ms, transcript }) => ({ id, start_ms, end_ms, transcript })),
+    },
+    sourceVideoUrl: sourceVideoPath,
+  };
+
+  const response = await fetch(`${apiBase}/api/analysis/align-words`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await parseApiResponse<AlignWordsResponse>(response);
+
+  return { ...analysis, words: data.words };
+}
+
+/**
+ * Build a VideoAnalysis on the VPS from scene cuts, silence and loudness.
+ * Timings are final; segment types are placeholders until labeled.
+ */
+export async function analyzeVideoSignals(
+  sourceVideoPath: string,
+  options: { videoId: string; language?: string }
+): Promise<{ analysis: VideoAnalysis; signals: SignalAnalysisResponse['signals'] }> {
+  const apiBase = getApiBaseUrl();
+
+  const body: SignalAnalysisRequest = {
+    videoId: options.videoId,
+    sourceVideoUrl: sourceVideoPath,
+    language: options.language,
+  };
+
+  const response = await fetch(`${apiBase}/api/analysis/signals`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await parseApiResponse<SignalAnalysisResponse>(response);
+
+  return { analysis: data.analysis as VideoAnalysis, signals: data.signals };
+}
+
+/**
+ * Track the subject of a video on the VPS (per shot, CPU saliency).
+ * Feed the result to compile() as reframe.track for other aspect ratios.
+ */
+export async function analyzeReframe(
+  sourceVideoPath: string,
+  options: { videoId: string }
+): Promise<SubjectTrack> {
+  const apiBase = getApiBaseUrl();
+
+  const body: ReframeAnalysisRequest = {
+    videoId: options.videoId,
+    sourceVideoUrl: sourceVideoPath,
+  };
+
+  const response = await fetch(`${apiBase}/api/analysis/reframe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await parseApiResponse<ReframeAnalysisResponse>(response);
+
+  return data.track as SubjectTrack;
+}
+
+// ============================================
+// MUSIC LIBRARY
+// ============================================
+
+/**
+ * Tracks in the VPS music library, with their cached beat analysis.
+ */
+export async function listMusicTracks(): Promise<MusicTrack[]> {
+  const apiBase = getApiBaseUrl();
+
+  const response = await fetch(`${apiBase}/api/music/tracks`, {
+    method: 'GET',
+    headers: { 'Accept': 'application/json' },
+  });
+
+  const data = await parseApiResponse<MusicTracksResponse>(response);
+
+  return data.tracks.map(track => ({
+    ...track,
+    url: `${apiBase}${track.url}`,
+    analysis: track.analysis as MusicAnalysis | null,
+  }));
+}
+
+/**
+ * Tempo, beats, downbeats and energy sections of a music track.
+ * Library tracks (trackId) are cached on the VPS; force re-analyzes.
+ */
+export async function analyzeMusicTrack(request: MusicAnalyzeRequest): Promise<MusicAnalysis> {
+  const apiBase = getApiBaseUrl();
+
+  const response = await fetch(`${apiBase}/api/music/analyze`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  const data = await parseApiResponse<MusicAnalyzeResponse>(response);
+
+  return data.analysis as MusicAnalysis;
+}
+
 // ============================================
 // GET JOB STATUS
 // ============================================
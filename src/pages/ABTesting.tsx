@@ -5,14 +5,13 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { 
-  FlaskConical, 
-  Plus, 
-  Play, 
-  Pause, 
-  BarChart3, 
-  ThumbsUp, 
-  ThumbsDown,
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  FlaskConical,
+  Plus,
+  Play,
+  Pause,
+  BarChart3,
   Trophy,
   Eye,
   Clock,
@@ -21,66 +20,37 @@ import {
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useABTests } from "@/hooks/useABTests";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { computeVariantStats, type ABTest, type PrimaryMetric, type VariantStats } from "@/lib/ab-testing";
 
-interface ABTest {
+interface VariationOption {
   id: string;
-  name: string;
-  status: "draft" | "running" | "completed";
-  variants: Variant[];
-  created_at: string;
-  total_views: number;
-  winner_id?: string;
+  variation_number: number;
+  video_url: string | null;
 }
 
-interface Variant {
-  id: string;
-  name: string;
-  video_url?: string;
-  views: number;
-  likes: number;
-  dislikes: number;
-  engagement_rate: number;
-}
+type MetricForm = Record<string, { impressions: string; clicks: string; conversions: string; spend: string }>;
 
-// Mock data for demonstration
-const MOCK_TESTS: ABTest[] = [
-  {
-    id: "1",
-    name: "Summer Sale Video Test",
-    status: "running",
-    created_at: new Date().toISOString(),
-    total_views: 1250,
-    variants: [
-      { id: "v1", name: "Variant A - Fast Paced", views: 650, likes: 89, dislikes: 12, engagement_rate: 15.5 },
-      { id: "v2", name: "Variant B - Slow Build", views: 600, likes: 72, dislikes: 8, engagement_rate: 13.3 },
-    ],
-  },
-  {
-    id: "2",
-    name: "Product Launch Hook Test",
-    status: "completed",
-    created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-    total_views: 5420,
-    winner_id: "v1",
-    variants: [
-      { id: "v1", name: "Hook: Question", views: 2800, likes: 420, dislikes: 35, engagement_rate: 16.3 },
-      { id: "v2", name: "Hook: Statement", views: 2620, likes: 310, dislikes: 45, engagement_rate: 13.5 },
-    ],
-  },
-];
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
 export default function ABTesting() {
   const { user } = useAuth();
-  const [tests, setTests] = useState<ABTest[]>(MOCK_TESTS);
-  const [loading, setLoading] = useState(false);
+  const { tests, loading, createTest, startTest, pauseTest, recordMetrics } = useABTests(user?.id);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
   const [newTestName, setNewTestName] = useState("");
   const [selectedProject, setSelectedProject] = useState("");
+  const [primaryMetric, setPrimaryMetric] = useState<PrimaryMetric>("ctr");
   const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [variations, setVariations] = useState<VariationOption[]>([]);
+  const [selectedVariations, setSelectedVariations] = useState<string[]>([]);
+  const [metricsTest, setMetricsTest] = useState<ABTest | null>(null);
+  const [metricForm, setMetricForm] = useState<MetricForm>({});
+  const [savingMetrics, setSavingMetrics] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -88,88 +58,145 @@ export default function ABTesting() {
     }
   }, [user]);
 
+  useEffect(() => {
+    setSelectedVariations([]);
+    if (selectedProject) {
+      fetchVariations(selectedProject);
+    } else {
+      setVariations([]);
+    }
+  }, [selectedProject]);
+
   const fetchProjects = async () => {
     const { data } = await supabase
       .from("projects")
       .select("id, name")
       .eq("user_id", user?.id)
       .order("created_at", { ascending: false });
-    
+
     if (data) setProjects(data);
   };
 
-  const createTest = async () => {
+  const fetchVariations = async (projectId: string) => {
+    const { data } = await supabase
+      .from("video_variations")
+      .select("id, variation_number, video_url")
+      .eq("project_id", projectId)
+      .order("variation_number", { ascending: true });
+
+    if (data) setVariations(data);
+  };
+
+  const toggleVariation = (id: string, checked: boolean) => {
+    setSelectedVariations(prev => checked ? [...prev, id] : prev.filter(v => v !== id));
+  };
+
+  const handleCreateTest = async () => {
     if (!newTestName.trim()) {
       toast.error("Please enter a test name");
       return;
     }
+    if (selectedVariations.length < 2) {
+      toast.error("Select at least two video variations");
+      return;
+    }
 
-    const newTest: ABTest = {
-      id: Date.now().toString(),
-      name: newTestName,
-      status: "draft",
-      created_at: new Date().toISOString(),
-      total_views: 0,
-      variants: [
-        { id: `v${Date.now()}-a`, name: "Variant A", views: 0, likes: 0, dislikes: 0, engagement_rate: 0 },
-        { id: `v${Date.now()}-b`, name: "Variant B", views: 0, likes: 0, dislikes: 0, engagement_rate: 0 },
-      ],
-    };
-
-    setTests([newTest, ...tests]);
-    setCreateDialogOpen(false);
-    setNewTestName("");
-    toast.success("A/B test created!");
+    setCreating(true);
+    try {
+      // Selection order decides the control (first selected)
+      await createTest({
+        name: newTestName.trim(),
+        projectId: selectedProject || null,
+        primaryMetric,
+        variants: selectedVariations.map((id, i) => {
+          const variation = variations.find(v => v.id === id);
+          return {
+            name: `${String.fromCharCode(65 + i)} - Variation #${variation?.variation_number ?? i + 1}`,
+            variation_id: id,
+            video_url: variation?.video_url ?? null,
+          };
+        }),
+      });
+      setCreateDialogOpen(false);
+      setNewTestName("");
+      setSelectedVariations([]);
+      toast.success("A/B test created!");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create test");
+    } finally {
+      setCreating(false);
+    }
   };
 
-  const startTest = (testId: string) => {
-    setTests(tests.map(t => 
-      t.id === testId ? { ...t, status: "running" as const } : t
-    ));
-    toast.success("Test started!");
+  const handleStatus = async (test: ABTest, action: "start" | "pause") => {
+    try {
+      if (action === "start") {
+        await startTest(test);
+        toast.success("Test started!");
+      } else {
+        await pauseTest(test);
+        toast.info("Test paused");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update test");
+    }
   };
 
-  const pauseTest = (testId: string) => {
-    setTests(tests.map(t => 
-      t.id === testId ? { ...t, status: "draft" as const } : t
-    ));
-    toast.info("Test paused");
+  const openMetrics = (test: ABTest) => {
+    setMetricsTest(test);
+    setMetricForm(Object.fromEntries(test.variants.map(v => [
+      v.id,
+      { impressions: "", clicks: "", conversions: "", spend: "" },
+    ])));
   };
 
-  const recordFeedback = (testId: string, variantId: string, type: "like" | "dislike") => {
-    setTests(tests.map(test => {
-      if (test.id !== testId) return test;
-      return {
-        ...test,
-        total_views: test.total_views + 1,
-        variants: test.variants.map(v => {
-          if (v.id !== variantId) return v;
-          const newLikes = type === "like" ? v.likes + 1 : v.likes;
-          const newDislikes = type === "dislike" ? v.dislikes + 1 : v.dislikes;
-          const newViews = v.views + 1;
-          return {
-            ...v,
-            views: newViews,
-            likes: newLikes,
-            dislikes: newDislikes,
-            engagement_rate: ((newLikes - newDislikes) / newViews * 100),
-          };
-        }),
-      };
-    }));
-    toast.success("Feedback recorded!");
+  const handleRecordMetrics = async () => {
+    if (!metricsTest) return;
+
+    const rows = Object.entries(metricForm)
+      .filter(([, values]) => Object.values(values).some(Boolean))
+      .map(([variantId, values]) => ({
+        variant_id: variantId,
+        impressions: Number(values.impressions) || 0,
+        clicks: Number(values.clicks) || 0,
+        conversions: Number(values.conversions) || 0,
+        spend: Number(values.spend) || 0,
+      }));
+
+    if (rows.length === 0) {
+      toast.error("Enter metrics for at least one variant");
+      return;
+    }
+
+    setSavingMetrics(true);
+    try {
+      const decision = await recordMetrics(metricsTest.id, rows);
+      setMetricsTest(null);
+      if (decision?.outcome === "winner") {
+        toast.success(`Winner declared: ${decision.reason}`);
+      } else if (decision && decision.outcome !== "continue") {
+        toast.info(`Test completed: ${decision.reason}`);
+      } else {
+        toast.success("Metrics recorded!");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to record metrics");
+    } finally {
+      setSavingMetrics(false);
+    }
   };
 
-  const getWinningVariant = (test: ABTest) => {
-    return test.variants.reduce((prev, curr) => 
-      curr.engagement_rate > prev.engagement_rate ? curr : prev
-    );
+  const getVariantStats = (test: ABTest, variantId: string): VariantStats | undefined => {
+    if (!test.control_variant_id) return undefined;
+    return computeVariantStats(test.variants, test.control_variant_id, test.primary_metric)
+      .find(s => s.variant_id === variantId);
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case "running": return "bg-green-500/20 text-green-500";
       case "completed": return "bg-primary/20 text-primary";
+      case "paused": return "bg-yellow-500/20 text-yellow-500";
       default: return "bg-muted text-muted-foreground";
     }
   };
@@ -204,7 +231,7 @@ export default function ABTesting() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Project (Optional)</Label>
+                <Label>Project</Label>
                 <Select value={selectedProject} onValueChange={setSelectedProject}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select a project" />
@@ -216,7 +243,41 @@ export default function ABTesting() {
                   </SelectContent>
                 </Select>
               </div>
-              <Button onClick={createTest} className="w-full bg-gradient-primary">
+              {selectedProject && (
+                <div className="space-y-2">
+                  <Label>Variations (first selected is the control)</Label>
+                  {variations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">This project has no video variations yet.</p>
+                  ) : (
+                    <div className="max-h-48 overflow-y-auto space-y-2">
+                      {variations.map(v => (
+                        <label key={v.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selectedVariations.includes(v.id)}
+                            onCheckedChange={(checked) => toggleVariation(v.id, checked === true)}
+                          />
+                          Variation #{v.variation_number}
+                          {selectedVariations[0] === v.id && <Badge variant="outline">control</Badge>}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Primary Metric</Label>
+                <Select value={primaryMetric} onValueChange={(value) => setPrimaryMetric(value as PrimaryMetric)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ctr">Click-through rate</SelectItem>
+                    <SelectItem value="cvr">Conversion rate</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleCreateTest} disabled={creating} className="w-full bg-gradient-primary">
+                {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                 Create Test
               </Button>
             </div>
@@ -244,12 +305,14 @@ export default function ABTesting() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
               <Eye className="w-4 h-4" />
-              Total Views
+              Total Impressions
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-foreground">
-              {tests.reduce((sum, t) => sum + t.total_views, 0).toLocaleString()}
+              {tests
+                .reduce((sum, t) => sum + t.variants.reduce((s, v) => s + v.metrics.impressions, 0), 0)
+                .toLocaleString()}
             </div>
           </CardContent>
         </Card>
@@ -269,6 +332,47 @@ export default function ABTesting() {
         </Card>
       </div>
 
+      {/* Record Metrics */}
+      <Dialog open={!!metricsTest} onOpenChange={(open) => !open && setMetricsTest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Today's Metrics</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {metricsTest?.variants.map(variant => (
+              <div key={variant.id} className="space-y-2">
+                <Label>{variant.name}</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {(["impressions", "clicks", "conversions", "spend"] as const).map(field => (
+                    <Input
+                      key={field}
+                      type="number"
+                      min={0}
+                      placeholder={field}
+                      value={metricForm[variant.id]?.[field] ?? ""}
+                      onChange={(e) => setMetricForm(prev => ({
+                        ...prev,
+                        [variant.id]: { ...prev[variant.id], [field]: e.target.value },
+                      }))}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <Button onClick={handleRecordMetrics} disabled={savingMetrics} className="w-full bg-gradient-primary">
+              {savingMetrics && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Metrics
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {loading && tests.length === 0 && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
       {/* Tests List */}
       <Tabs defaultValue="all" className="space-y-6">
         <TabsList className="bg-muted/50">
@@ -282,7 +386,8 @@ export default function ABTesting() {
             {tests
               .filter(t => tab === "all" || t.status === tab)
               .map((test) => {
-                const winner = getWinningVariant(test);
+                const winner = test.variants.find(v => v.id === test.winner_id);
+                const winnerStats = winner && getVariantStats(test, winner.id);
                 return (
                   <Card key={test.id} className="bg-gradient-card border-border shadow-card">
                     <CardHeader>
@@ -295,37 +400,46 @@ export default function ABTesting() {
                           <CardDescription className="text-muted-foreground flex items-center gap-2 mt-1">
                             <Clock className="w-3 h-3" />
                             Created {new Date(test.created_at).toLocaleDateString()}
+                            <span>· {test.primary_metric.toUpperCase()}</span>
                           </CardDescription>
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge className={getStatusColor(test.status)}>
                             {test.status}
                           </Badge>
-                          {test.status === "draft" && (
-                            <Button size="sm" onClick={() => startTest(test.id)} className="bg-green-600 hover:bg-green-700">
+                          {(test.status === "draft" || test.status === "paused") && (
+                            <Button size="sm" onClick={() => handleStatus(test, "start")} className="bg-green-600 hover:bg-green-700">
                               <Play className="w-4 h-4 mr-1" />
                               Start
                             </Button>
                           )}
                           {test.status === "running" && (
-                            <Button size="sm" variant="outline" onClick={() => pauseTest(test.id)}>
-                              <Pause className="w-4 h-4 mr-1" />
-                              Pause
-                            </Button>
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => openMetrics(test)}>
+                                <BarChart3 className="w-4 h-4 mr-1" />
+                                Record Metrics
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleStatus(test, "pause")}>
+                                <Pause className="w-4 h-4 mr-1" />
+                                Pause
+                              </Button>
+                            </>
                           )}
                         </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {test.variants.map((variant, idx) => {
-                          const isWinning = variant.id === winner.id && test.total_views > 100;
+                        {test.variants.map((variant) => {
+                          const stats = getVariantStats(test, variant.id);
+                          const isWinning = variant.id === test.winner_id;
+                          const rate = stats?.rate ?? 0;
                           return (
-                            <div 
+                            <div
                               key={variant.id}
                               className={`p-4 rounded-lg border transition-colors ${
-                                isWinning 
-                                  ? 'border-primary bg-primary/5' 
+                                isWinning
+                                  ? 'border-primary bg-primary/5'
                                   : 'border-border bg-muted/30'
                               }`}
                             >
@@ -333,70 +447,80 @@ export default function ABTesting() {
                                 <div className="flex items-center gap-2">
                                   {isWinning && <Trophy className="w-4 h-4 text-yellow-500" />}
                                   <span className="font-medium text-foreground">{variant.name}</span>
+                                  {variant.is_control && <Badge variant="outline">control</Badge>}
                                 </div>
-                                <Badge variant="outline">{variant.views} views</Badge>
+                                <Badge variant="outline">{variant.metrics.impressions.toLocaleString()} impressions</Badge>
                               </div>
 
-                              {/* Mock video preview */}
-                              <div className="aspect-video bg-muted/50 rounded-lg mb-3 flex items-center justify-center">
-                                <Video className="w-8 h-8 text-muted-foreground" />
+                              <div className="aspect-video bg-muted/50 rounded-lg mb-3 flex items-center justify-center overflow-hidden">
+                                {variant.video_url ? (
+                                  <video src={variant.video_url} className="w-full h-full object-contain" controls preload="metadata" />
+                                ) : (
+                                  <Video className="w-8 h-8 text-muted-foreground" />
+                                )}
                               </div>
 
                               <div className="space-y-2">
                                 <div className="flex items-center justify-between text-sm">
-                                  <span className="text-muted-foreground">Engagement Rate</span>
+                                  <span className="text-muted-foreground">{test.primary_metric.toUpperCase()}</span>
                                   <span className="font-medium text-foreground">
-                                    {variant.engagement_rate.toFixed(1)}%
+                                    {formatPercent(rate)}
+                                    {stats?.lift != null && (
+                                      <span className={stats.lift >= 0 ? "text-green-500 ml-2" : "text-red-500 ml-2"}>
+                                        {stats.lift >= 0 ? "+" : ""}{(stats.lift * 100).toFixed(1)}%
+                                      </span>
+                                    )}
                                   </span>
                                 </div>
-                                <Progress value={Math.min(variant.engagement_rate * 5, 100)} className="h-2" />
+                                {stats?.prob_beat_control != null && (
+                                  <>
+                                    <div className="flex items-center justify-between text-sm">
+                                      <span className="text-muted-foreground">Probability to beat control</span>
+                                      <span className="font-medium text-foreground">
+                                        {(stats.prob_beat_control * 100).toFixed(1)}%
+                                      </span>
+                                    </div>
+                                    <Progress value={stats.prob_beat_control * 100} className="h-2" />
+                                  </>
+                                )}
                               </div>
 
-                              <div className="flex items-center justify-between mt-3 pt-3 border-t border-border">
-                                <div className="flex items-center gap-4 text-sm">
-                                  <span className="flex items-center gap-1 text-green-500">
-                                    <ThumbsUp className="w-4 h-4" />
-                                    {variant.likes}
-                                  </span>
-                                  <span className="flex items-center gap-1 text-red-500">
-                                    <ThumbsDown className="w-4 h-4" />
-                                    {variant.dislikes}
-                                  </span>
+                              <div className="grid grid-cols-3 gap-2 mt-3 pt-3 border-t border-border text-sm">
+                                <div>
+                                  <div className="text-muted-foreground">Clicks</div>
+                                  <div className="font-medium text-foreground">{variant.metrics.clicks.toLocaleString()}</div>
+                                </div>
+                                <div>
+                                  <div className="text-muted-foreground">Conversions</div>
+                                  <div className="font-medium text-foreground">{variant.metrics.conversions.toLocaleString()}</div>
+                                </div>
+                                <div>
+                                  <div className="text-muted-foreground">Spend</div>
+                                  <div className="font-medium text-foreground">${variant.metrics.spend.toFixed(2)}</div>
                                 </div>
-                                {test.status === "running" && (
-                                  <div className="flex gap-2">
-                                    <Button 
-                                      size="sm" 
-                                      variant="ghost"
-                                      className="text-green-500 hover:text-green-600 hover:bg-green-500/10"
-                                      onClick={() => recordFeedback(test.id, variant.id, "like")}
-                                    >
-                                      <ThumbsUp className="w-4 h-4" />
-                                    </Button>
-                                    <Button 
-                                      size="sm" 
-                                      variant="ghost"
-                                      className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
-                                      onClick={() => recordFeedback(test.id, variant.id, "dislike")}
-                                    >
-                                      <ThumbsDown className="w-4 h-4" />
-                                    </Button>
-                                  </div>
-                                )}
                               </div>
                             </div>
                           );
                         })}
                       </div>
 
+                      {test.status === "running" && test.decision && (
+                        <p className="text-sm text-muted-foreground">
+                          {test.decision.reason} · {Math.round(test.decision.information_fraction * 100)}% of planned sample
+                        </p>
+                      )}
+
                       {test.status === "completed" && (
                         <div className="p-4 bg-primary/10 rounded-lg border border-primary/20">
                           <div className="flex items-center gap-2 text-primary">
                             <Trophy className="w-5 h-5" />
-                            <span className="font-medium">Winner: {winner.name}</span>
+                            <span className="font-medium">
+                              {winner ? `Winner: ${winner.name}` : "No winner"}
+                            </span>
                           </div>
                           <p className="text-sm text-muted-foreground mt-1">
-                            With {winner.engagement_rate.toFixed(1)}% engagement rate and {winner.likes} likes
+                            {test.decision?.reason}
+                            {winnerStats && ` · ${test.primary_metric.toUpperCase()} ${formatPercent(winnerStats.rate)}`}
                           </p>
                         </div>
                       )}
@@ -408,7 +532,7 @@ export default function ABTesting() {
         ))}
       </Tabs>
 
-      {tests.length === 0 && (
+      {!loading && tests.length === 0 && (
         <div className="text-center py-12">
           <FlaskConical className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
           <p className="text-muted-foreground">No A/B tests yet. Create your first test!</p>
@@ -24,6 +24,7 @@ import { OutputControlsPanel, ImageOutputSettings, VideoOutputSettings } from "@
 import { ExecutionHistoryPanel } from "@/components/ai-tools/ExecutionHistoryPanel";
 import { BatchQueuePanel } from "@/components/ai-tools/BatchQueuePanel";
 import { useAudience } from "@/contexts/AudienceContext";
+import { useGlobalProject } from "@/contexts/GlobalProjectContext";
 import { CountrySelector } from "@/components/audience/CountrySelector";
 import { LANGUAGES } from "@/lib/audience/countries";
 
@@ -31,6 +32,7 @@ export default function AITools() {
   // Global audience context and Authenticated Admin
   const { resolved: audience } = useAudience();
   const { user } = useAuth();
+  const { activeProject } = useGlobalProject();
 
   const {
     isExecuting, executionProgress, executeTool, getTools, getImageModels, getVideoModels,
@@ -155,6 +157,7 @@ export default function AITools() {
       inputData: inputUrl ? { imageUrl: inputUrl, videoUrl: inputUrl } : undefined,
       imageSettings: activeCategory === 'image' ? imageSettings : undefined,
       videoSettings: activeCategory === 'video' ? videoSettings : undefined,
+      projectId: activeProject?.id,
     });
   };
 
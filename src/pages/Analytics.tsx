@@ -48,6 +48,7 @@ import { format, subDays, startOfDay, endOfDay } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { SectionCard, StatCard } from "@/components/ui/section-card";
 import { LoadingState, EmptyState } from "@/components/ui/page-components";
+import AdPerformanceImport from "@/components/AdPerformanceImport";
 
 // Content type categories mapped to pipeline stages
 const CONTENT_TYPES = {
@@ -626,6 +627,10 @@ export default function Analytics() {
             <TrendingUp className="w-4 h-4" />
             Usage Trends
           </TabsTrigger>
+          <TabsTrigger value="ad-performance" className="gap-2">
+            <Target className="w-4 h-4" />
+            Ad Performance
+          </TabsTrigger>
         </TabsList>
 
         {/* Content Types Tab */}
@@ -1180,6 +1185,15 @@ export default function Analytics() {
             </div>
           </SectionCard>
         </TabsContent>
+
+        {/* Ad Performance Tab */}
+        <TabsContent value="ad-performance" className="space-y-6">
+          {user ? (
+            <AdPerformanceImport userId={user.id} />
+          ) : (
+            <EmptyState title="Sign in to import ad performance" />
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -6,7 +6,7 @@
  * Steps: 1.Upload → 2.Analyze → 3.Strategy → 4.Execute → 5.Results
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { getAuthToken } from '@/utils/auth';
@@ -14,6 +14,7 @@ import { useCreativeScale } from '@/hooks/useCreativeScale';
 import { useStreamingStrategy } from '@/hooks/useStreamingStrategy';
 import { executeUnifiedStrategy, ExecutionResult, EngineId, executionDebugLogger } from '@/lib/creative-scale/execution-engine';
 import { validateVideoFile, sanitizeFilename, LIMITS } from '@/lib/creative-scale/validation';
+import { buildReplacementPool, type AnalyzedUpload } from '@/lib/creative-scale/replacement-assets';
 import { createInitialProgressState, ExecutionProgressState } from '@/components/creative-scale/ExecutionProgressPanel';
 import { StepSidebar, StepId } from '@/components/creative-scale/StepSidebar';
 import { UploadStep } from '@/components/creative-scale/steps/UploadStep';
@@ -22,6 +23,8 @@ import { StrategyStep } from '@/components/creative-scale/steps/StrategyStep';
 import { ExecuteStep } from '@/components/creative-scale/steps/ExecuteStep';
 import { ResultsStep } from '@/components/creative-scale/steps/ResultsStep';
 import type { ExecutionPlan } from '@/lib/creative-scale/compiler-types';
+import { resolveComplianceCategory } from '@/lib/creative-scale/compliance-categories';
+import type { AdPlatform } from '@/lib/creative-scale/compliance-types';
 import type { CreativeBlueprint, VariationIdea } from '@/lib/creative-scale/types';
 // REMOVED: RenderingMode import as we are unifying engines
 import { RenderDebugPanel, RenderDebugInfo } from '@/components/replicator/RenderDebugPanel';
@@ -92,6 +95,8 @@ export default function CreativeScale() {
   // Data state
   const [uploadedVideos, setUploadedVideos] = useState<UploadedVideo[]>([]);
   const [selectedVideoIndex, setSelectedVideoIndex] = useState(0);
+  // Every analyzed upload, by video id: replace_segment can draw on the others
+  const [analyzedUploads, setAnalyzedUploads] = useState<Record<string, AnalyzedUpload>>({});
   const [executionResults, setExecutionResults] = useState<Map<string, ExecutionResult>>(new Map());
   const [variationCount, setVariationCount] = useState(3);
   const [executionProgress, setExecutionProgress] = useState<ExecutionProgressState>(createInitialProgressState(0));
@@ -121,6 +126,8 @@ export default function CreativeScale() {
     analyzeVideo,
     generateBlueprint,
     generateBrainV2Strategy,
+    planBrainV2Strategy,
+    recordBrainV2Outcome,
     compileAllVariations,
     reset: resetHook
   } = useCreativeScale();
@@ -133,6 +140,12 @@ export default function CreativeScale() {
     streamStrategy
   } = useStreamingStrategy();
 
+  // One category for the pre-render check and the render gate
+  const complianceCategory = useMemo(
+    () => resolveComplianceCategory(activeProject?.product_name, currentBlueprint?.objective?.key_message),
+    [activeProject?.product_name, currentBlueprint?.objective?.key_message]
+  );
+
   // Restore state on mount
   useEffect(() => {
     const savedUI = loadUIState();
@@ -313,6 +326,10 @@ export default function CreativeScale() {
       if (video) URL.revokeObjectURL(video.url);
       return prev.filter(v => v.id !== id);
     });
+    setAnalyzedUploads(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
   }, []);
 
   const handleUploadContinue = useCallback(() => {
@@ -341,6 +358,10 @@ export default function CreativeScale() {
 
       if (!analysis) return;
 
+      if (video.storageUrl) {
+        setAnalyzedUploads(prev => ({ ...prev, [video.id]: { analysis, asset_url: video.storageUrl } }));
+      }
+
       toast.success('Analysis complete');
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Analysis failed');
@@ -365,6 +386,17 @@ export default function CreativeScale() {
     console.log(`[CreativeScale] Starting strategy generation with ${safeVariationCount} variations`);
 
     try {
+      // A new strategy for the same analysis means the last decision was rejected
+      if (brainV2State.brainOutput) {
+        void recordBrainV2Outcome('regenerated', activeProject?.id);
+      }
+
+      // Learned Brain V2 decision runs beside the stream and never blocks it
+      void planBrainV2Strategy(currentAnalysis, {
+        variationCount: safeVariationCount,
+        projectId: activeProject?.id
+      }).catch(err => console.warn('[CreativeScale] Brain V2 decision failed:', err));
+
       // Use streaming strategy for real-time progress
       const result = await streamStrategy(currentAnalysis, {
         variationCount: safeVariationCount,
@@ -428,8 +460,14 @@ export default function CreativeScale() {
       const videoUrl = uploadedVideos[selectedVideoIndex]?.storageUrl || uploadedVideos[0]?.storageUrl;
 
       if (videoUrl) {
+        const replacementAssets = await buildReplacementPool(
+          currentAnalysis.source_video_id,
+          Object.values(analyzedUploads),
+          activeProject?.id
+        );
+
         // Call compileAllVariations with the enhanced blueprint
-        await compileAllVariations(currentAnalysis, enhancedBlueprint, videoUrl);
+        await compileAllVariations(currentAnalysis, enhancedBlueprint, videoUrl, replacementAssets);
         toast.success(`${enhancedBlueprint.variation_ideas.length} variation(s) ready`);
       } else {
         toast.error('No video URL available for compilation');
@@ -438,7 +476,7 @@ export default function CreativeScale() {
       console.error('[CreativeScale] Strategy generation error:', err);
       toast.error(err instanceof Error ? err.message : 'Strategy generation failed');
     }
-  }, [currentAnalysis, streamStrategy, brainV2State, compileAllVariations, uploadedVideos, selectedVideoIndex, variationCount]);
+  }, [currentAnalysis, streamStrategy, brainV2State, planBrainV2Strategy, recordBrainV2Outcome, compileAllVariations, uploadedVideos, selectedVideoIndex, variationCount, analyzedUploads, activeProject?.id]);
 
   const handleStopExecution = useCallback(() => {
     isCancelled.current = true;
@@ -475,6 +513,8 @@ export default function CreativeScale() {
     });
 
     const results = new Map<string, ExecutionResult>();
+    const { data: { user } } = await supabase.auth.getUser();
+    const adPlatform: AdPlatform = brainV2State.platform === 'youtube' ? 'google' : brainV2State.platform;
 
     // Reset cancellation
     isCancelled.current = false;
@@ -506,6 +546,9 @@ export default function CreativeScale() {
         analysis: currentAnalysis,
         blueprint: currentBlueprint,
         sourceVideoUrl, // Pass the source video URL
+        userId: user?.id,
+        projectId: activeProject?.id ?? null,
+        compliance: { platform: adPlatform, category: complianceCategory, funnelStage: brainV2State.funnelStage },
         variationIndex: i,
         onProgress: (engine: EngineId, progress: number, message: string, metadata?: any) => {
           setExecutionProgress(prev => ({
@@ -568,8 +611,13 @@ export default function CreativeScale() {
     // Complete debug session
     executionDebugLogger.completeSession();
 
+    const blockedCount = Array.from(results.values()).filter(r => r.compliance_audit?.decision === 'blocked').length;
+    if (blockedCount > 0) {
+      toast.error(`${blockedCount} variation(s) blocked by ad policy compliance`);
+    }
+
     toast.success(`${successCount} of ${currentPlans.length} videos completed`);
-  }, [currentAnalysis, currentBlueprint, currentPlans]);
+  }, [currentAnalysis, currentBlueprint, currentPlans, brainV2State.platform, brainV2State.funnelStage, complianceCategory, activeProject?.id]);
 
   const handleExecuteContinue = useCallback(() => {
     completeStep(4);
@@ -592,7 +640,8 @@ export default function CreativeScale() {
     a.click();
     URL.revokeObjectURL(url);
     toast.success('Plans downloaded');
-  }, [currentAnalysis, currentBlueprint, currentPlans]);
+    void recordBrainV2Outcome('downloaded', activeProject?.id);
+  }, [currentAnalysis, currentBlueprint, currentPlans, recordBrainV2Outcome, activeProject?.id]);
 
   // ============================================
   // STEP 5: RESULTS
@@ -606,7 +655,8 @@ export default function CreativeScale() {
     a.download = `execution-plan-${plan.variation_id}.json`;
     a.click();
     URL.revokeObjectURL(url);
-  }, []);
+    void recordBrainV2Outcome('downloaded', activeProject?.id);
+  }, [recordBrainV2Outcome, activeProject?.id]);
 
   // ============================================
   // RESET
@@ -618,6 +668,7 @@ export default function CreativeScale() {
     setCurrentStep(1);
     setCompletedSteps([]);
     setSelectedVideoIndex(0);
+    setAnalyzedUploads({});
     setExecutionResults(new Map());
     setExecutionProgress(createInitialProgressState(0));
     resetHook();
@@ -630,6 +681,10 @@ export default function CreativeScale() {
 
   const isProcessing = isAnalyzing || isGeneratingBlueprint || isCompiling || isRouting;
 
+  // Local file first: no CORS for the canvas/WebAudio preview
+  const previewVideoUrl = (uploadedVideos[selectedVideoIndex] || uploadedVideos[0])?.url ||
+    (uploadedVideos[selectedVideoIndex] || uploadedVideos[0])?.storageUrl;
+
   return (
     <div className="flex min-h-screen bg-background">
       {/* Left Sidebar - Step Navigation */}
@@ -680,6 +735,8 @@ export default function CreativeScale() {
               brainV2State={brainV2State}
               variationCount={variationCount}
               isGenerating={isGeneratingBlueprint || isCompiling || isStreaming}
+              complianceCategory={complianceCategory}
+              sourceVideoUrl={previewVideoUrl}
               streamProgress={streamProgress}
               variationProgress={variationProgress}
               onSetGoal={(goal) => setBrainV2Options({ goal })}
@@ -719,8 +776,11 @@ export default function CreativeScale() {
             <ResultsStep
               plans={currentPlans}
               results={executionResults}
+              analysis={currentAnalysis}
+              sourceVideoUrl={previewVideoUrl}
               onDownloadPlan={downloadPlan}
               onDownloadAll={downloadAllPlans}
+              onDownloadVideo={() => void recordBrainV2Outcome('downloaded', activeProject?.id)}
               onReset={handleReset}
             />
           )}
@@ -3,7 +3,7 @@
  * Upgraded to match Lovable.dev specification
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Video, Sparkles, Settings, Eye, EyeOff, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -30,11 +30,17 @@ import type {
     UGCMarket,
     UGCGender,
     UGCGeneratedAvatar,
+    UGCBatchJob,
 } from '@/types/ugc';
-import { DEFAULT_UGC_BATCH_SETTINGS, DEFAULT_UGC_SCRIPT_CONFIG } from '@/types/ugc';
+import { DEFAULT_UGC_BATCH_SETTINGS, DEFAULT_UGC_SCRIPT_CONFIG, DEFAULT_UGC_SCENES } from '@/types/ugc';
 import { generatePlaceholderAvatars } from '@/services/ugc/avatarGeneration';
-import { generateScripts } from '@/services/ugc/scriptEngine';
-import { createSimulatedVariants, simulateBatchProcessing } from '@/services/ugc/batchOrchestrator';
+import { useGlobalProject } from '@/contexts/GlobalProjectContext';
+import {
+    runBatchJob,
+    resumeBatchJob,
+    findUnfinishedBatchJob,
+    type BatchJobResult,
+} from '@/services/ugc/batchOrchestrator';
 import { saveElevenLabsApiKey, getSavedElevenLabsApiKey } from '@/services/ugc/voicePreview';
 
 // Avatar models
@@ -44,6 +50,7 @@ const AVATAR_MODELS = [
 
 export default function UGCGenerator() {
     const { toast } = useToast();
+    const { activeProject } = useGlobalProject();
 
     // UI State
     const [showAdvanced, setShowAdvanced] = useState(false);
@@ -80,6 +87,49 @@ export default function UGCGenerator() {
     const [currentStage, setCurrentStage] = useState('');
     const [variants, setVariants] = useState<UGCVideoVariant[]>([]);
 
+    const applyBatchResult = useCallback((result: BatchJobResult) => {
+        setJobStatus(result.status);
+        setProgress(result.progress);
+        setCurrentStage(result.currentStage);
+        setVariants(result.videos);
+    }, []);
+
+    const finishBatch = useCallback((result: BatchJobResult) => {
+        const done = result.videos.filter(v => v.status === 'DONE').length;
+        if (result.status === 'FAILED') {
+            toast({
+                title: 'Generation Failed',
+                description: result.error || 'No video could be rendered',
+                variant: 'destructive',
+            });
+            return;
+        }
+        toast({
+            title: 'Generation Complete! 🎉',
+            description: result.error
+                ? `Generated ${done} UGC videos (${result.error})`
+                : `Successfully generated ${done} UGC videos`,
+        });
+    }, [toast]);
+
+    // Pick up a batch that was still running when the page was left
+    useEffect(() => {
+        let cancelled = false;
+        findUnfinishedBatchJob()
+            .then(batchId => {
+                if (!batchId || cancelled) return;
+                setJobStatus('PROCESSING');
+                toast({ title: 'Resuming Batch', description: 'Continuing your unfinished UGC videos' });
+                return resumeBatchJob(batchId, result => { if (!cancelled) applyBatchResult(result); })
+                    .then(result => { if (!cancelled) finishBatch(result); });
+            })
+            .catch(error => {
+                console.error('[UGC] Could not resume batch:', error);
+                if (!cancelled) setJobStatus('FAILED');
+            });
+        return () => { cancelled = true; };
+    }, [applyBatchResult, finishBatch, toast]);
+
     // Derived state
     const aspectRatio = '9:16';
     const estimatedTime = Math.ceil(videoCount * 0.5);
@@ -164,45 +214,29 @@ export default function UGCGenerator() {
         setVariants([]);
 
         try {
-            // Generate scripts using AI
-            const scripts = await generateScripts({
-                productName: product.name,
-                productBenefit: product.benefit,
-                productCategory: product.category,
-                language,
-                videoCount,
-            });
-
-            // Create simulated variants
-            const initialVariants = createSimulatedVariants({
-                videoCount,
-                productName: product.name,
-                productBenefit: product.benefit,
-                productImages: product.imagePreviews,
-                language,
-                avatars,
-                scripts,
-                voiceId: selectedVoiceId || '',
-                elevenLabsApiKey,
-            });
-
-            setVariants(initialVariants);
-
-            // Simulate batch processing
-            await simulateBatchProcessing(
-                initialVariants,
-                (prog, stage, updated) => {
-                    setProgress(prog);
-                    setCurrentStage(stage);
-                    setVariants(updated);
-                }
-            );
-
-            setJobStatus('DONE');
-            toast({
-                title: 'Generation Complete! 🎉',
-                description: `Successfully generated ${videoCount} UGC videos`,
-            });
+            const job: UGCBatchJob = {
+                id: `ugc-batch-${Date.now()}`,
+                status: 'CREATED',
+                avatar: {
+                    type: 'auto',
+                    language,
+                    market,
+                    gender,
+                    generatedAvatars: avatars,
+                    selectedAvatarId,
+                },
+                script: { ...DEFAULT_UGC_SCRIPT_CONFIG, mode: scriptMode, voiceId: selectedVoiceId },
+                product,
+                settings: { ...DEFAULT_UGC_BATCH_SETTINGS, videoCount },
+                scenes: DEFAULT_UGC_SCENES,
+                variants: [],
+                progress: 0,
+                currentStage: '',
+                projectId: activeProject?.id,
+                createdAt: new Date(),
+            };
+
+            finishBatch(await runBatchJob(job, applyBatchResult));
         } catch (error: any) {
             setJobStatus('FAILED');
             toast({
@@ -3,6 +3,7 @@
 // Now supports Supabase storage fallback when VPS is unavailable
 
 import { supabase } from '@/integrations/supabase/client';
+import type { ExecutionPlan, LoudnessTarget } from '@/lib/creative-scale/compiler-types';
 
 const getBaseUrl = () => {
     // 1. Check for explicit environment variable override
@@ -39,7 +40,22 @@ export type RenderFlowJobState =
     | 'muxing'
     | 'finalizing'
     | 'done'
-    | 'failed';
+    | 'failed'
+    | 'cancelled';
+
+// Queue status behind the state: pending covers queued jobs and jobs waiting to retry
+export type RenderFlowJobStatus = 'pending' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+// Measured by server/renderflow/loudness.cjs on every render with audio
+export interface RenderLoudnessReport {
+    integrated_lufs: number | null;   // Delivered loudness
+    true_peak_dbtp: number | null;
+    loudness_range_lu: number | null;
+    normalization: 'linear' | 'dynamic' | 'none'; // none = measured only
+    source_integrated_lufs: number | null; // Mix before normalization
+    source_true_peak_dbtp: number | null;
+    target?: LoudnessTarget; // plan.audio_mix.loudness
+}
 
 export interface RenderFlowJob {
     id: string;
@@ -53,11 +69,18 @@ export interface RenderFlowJob {
         output_url: string;
         file_size: number;
         duration_ms: number;
+        loudness?: RenderLoudnessReport;
     };
     error?: {
-        code: string;
+        code: string;     // server/error-definitions.js code
         message: string;
     };
+    status?: RenderFlowJobStatus;
+    priority?: number;
+    attempts?: number;          // Attempts started so far, retries included
+    max_attempts?: number;
+    next_attempt_at?: number;   // Epoch ms, set while waiting to retry
+    cancel_requested?: boolean;
 }
 
 export interface UploadResponse {
@@ -69,6 +92,72 @@ export interface SubmitJobResponse {
     ids: string[];
 }
 
+// Matches PlanJob in server/renderflow/job.schema.json
+export interface SubmitPlanRequest {
+    source_url: string;
+    plan: ExecutionPlan;
+    priority?: number; // -10..10, higher runs first
+    webhook_url?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface SubmitPlanOptions {
+    priority?: number;
+    webhook_url?: string; // POSTed a signed RenderFlowWebhookEvent when the job finishes
+}
+
+export interface SubmitPlanResponse {
+    id: string;
+    status: 'pending';
+    priority: number;
+    message: string;
+}
+
+// Body of an outbound job webhook (server/renderflow/webhooks.cjs).
+// Same envelope as the engine callbacks handled by ai-engine-webhook.
+export interface RenderFlowWebhookEvent {
+    event: 'render.completed' | 'render.failed';
+    engine: 'renderflow';
+    job_id: string;
+    status: 'completed' | 'failed';
+    video_url?: string;
+    error_message?: string;
+    error_code?: string;
+    metadata: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    job_id: string;
+    event: RenderFlowWebhookEvent['event'];
+    url: string;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    max_attempts: number;
+    next_attempt_at?: number;   // Epoch ms, set while waiting to retry
+    last_status_code: number | null;
+    last_error: string | null;
+    replay_of: string | null;   // Delivery id this one replays
+    created_at: number;
+    delivered_at: number | null;
+    payload: RenderFlowWebhookEvent;
+}
+
+export interface WebhookDeliveriesResponse {
+    deliveries: WebhookDelivery[];
+}
+
+export interface QueueStatusResponse {
+    concurrency: number;
+    active: number;
+    active_job_ids: string[];
+    pending: number;
+    processing: number;
+    done: number;
+    failed: number;
+    cancelled: number;
+}
+
 export interface HistoryResponse {
     jobs: RenderFlowJob[];
 }
@@ -187,6 +276,61 @@ export const RenderFlowApi = {
         return res.json();
     },
 
+    // Cancel Job - POST /render/jobs/:id/cancel
+    // Resolves with the job: state 'cancelled' right away for queued jobs,
+    // cancel_requested while a running render is being stopped.
+    cancelJob: async (jobId: string): Promise<RenderFlowJob> => {
+        const res = await fetch(`${getBaseUrl()}/jobs/${jobId}/cancel`, {
+            method: 'POST',
+            signal: AbortSignal.timeout(10000)
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            throw new Error(`Cancel failed: ${res.status} - ${text}`);
+        }
+        return res.json();
+    },
+
+    // Webhook Delivery Log - GET /render/jobs/:id/webhooks
+    getWebhookDeliveries: async (jobId: string): Promise<WebhookDeliveriesResponse> => {
+        const res = await fetch(`${getBaseUrl()}/jobs/${jobId}/webhooks`, {
+            signal: AbortSignal.timeout(5000)
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            throw new Error(`Failed to fetch webhook deliveries: ${res.status} - ${text}`);
+        }
+        return res.json();
+    },
+
+    // Replay Webhook - POST /render/jobs/:id/webhooks/replay
+    // Re-sends deliveryId (default: the latest delivery) as a new delivery.
+    replayWebhook: async (jobId: string, deliveryId?: string): Promise<WebhookDelivery> => {
+        const res = await fetch(`${getBaseUrl()}/jobs/${jobId}/webhooks/replay`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ delivery_id: deliveryId }),
+            signal: AbortSignal.timeout(10000)
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            throw new Error(`Webhook replay failed: ${res.status} - ${text}`);
+        }
+        return res.json();
+    },
+
+    // Queue Status - GET /render/queue
+    getQueueStatus: async (): Promise<QueueStatusResponse> => {
+        const res = await fetch(`${getBaseUrl()}/queue`, {
+            signal: AbortSignal.timeout(5000)
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            throw new Error(`Queue status failed: ${res.status} - ${text}`);
+        }
+        return res.json();
+    },
+
     // List Jobs - GET /render/jobs
     getHistory: async (): Promise<HistoryResponse> => {
         const res = await fetch(`${getBaseUrl()}/jobs?limit=20`, {
@@ -200,39 +344,38 @@ export const RenderFlowApi = {
     },
 
     // Submit Execution Plan - POST /render/jobs
-    submitPlan: async (plan: any, sourceVideoUrl?: string): Promise<SubmitJobResponse> => {
-        console.log('[RenderFlowApi] ========== SUBMIT PLAN ==========');
-        console.log('[RenderFlowApi] Source Video URL:', sourceVideoUrl || 'NOT PROVIDED');
-        console.log('[RenderFlowApi] Plan ID:', plan.id);
-        console.log('[RenderFlowApi] Plan Timeline Segments:', plan.timeline?.length || 0);
-        console.log('[RenderFlowApi] Plan Audio Tracks:', plan.audio_tracks?.length || 0);
-
-        // Log timeline details
-        if (plan.timeline) {
-            plan.timeline.forEach((seg: any, i: number) => {
-                console.log(`[RenderFlowApi] Timeline[${i}]:`, {
-                    asset_url: seg.asset_url,
-                    segment_type: seg.segment_type,
-                    start_ms: seg.start_ms,
-                    end_ms: seg.end_ms,
-                    duration: seg.end_ms - seg.start_ms
-                });
-            });
+    // Segments with a null asset_url are rendered from sourceVideoUrl.
+    submitPlan: async (
+        plan: ExecutionPlan,
+        sourceVideoUrl?: string,
+        metadata?: Record<string, unknown>,
+        options: SubmitPlanOptions = {}
+    ): Promise<SubmitPlanResponse> => {
+        if (plan.status !== 'compilable') {
+            throw new Error(`Plan ${plan.plan_id} is not compilable: ${plan.reason || 'unknown reason'}`);
         }
+        if (!plan.timeline?.length) throw new Error('Plan timeline is empty');
 
-        const payload = {
-            project_id: plan.project_id || 'unified_plan',
-            variations: [{
-                id: plan.id || `var_${Date.now()}`,
-                data: {
-                    plan,
-                    sourcePath: sourceVideoUrl // Add source video URL here
-                }
-            }]
-        };
+        const sourceUrl = sourceVideoUrl || plan.timeline.find(seg => seg.asset_url)?.asset_url;
+        if (!sourceUrl) throw new Error('Source URL required');
 
-        console.log('[RenderFlowApi] Full Payload:', JSON.stringify(payload, null, 2));
-        console.log('[RenderFlowApi] Posting to:', `${getBaseUrl()}/jobs`);
+        console.log('[RenderFlowApi] ========== SUBMIT PLAN ==========');
+        console.log('[RenderFlowApi] Source Video URL:', sourceUrl);
+        console.log('[RenderFlowApi] Plan ID:', plan.plan_id);
+        console.log('[RenderFlowApi] Plan Timeline Segments:', plan.timeline.length);
+        console.log('[RenderFlowApi] Plan Audio Tracks:', plan.audio_tracks?.length || 0);
+        console.log('[RenderFlowApi] Plan Text Overlays:', plan.text_overlays?.length || 0);
+
+        const payload: SubmitPlanRequest = {
+            source_url: sourceUrl,
+            plan,
+            priority: options.priority,
+            webhook_url: options.webhook_url,
+            metadata: {
+                variation_id: plan.variation_id,
+                ...metadata
+            }
+        };
 
         try {
             const res = await fetch(`${getBaseUrl()}/jobs`, {
@@ -250,7 +393,7 @@ export const RenderFlowApi = {
                 throw new Error(`Submission failed: ${res.status} - ${text}`);
             }
 
-            const result = await res.json();
+            const result: SubmitPlanResponse = await res.json();
             console.log('[RenderFlowApi] Success Response:', result);
             return result;
         } catch (e: any) {
@@ -9,7 +9,8 @@ export const JOB_STATE_LABELS: Record<RenderFlowJobState, string> = {
     muxing: 'Finalizing',
     finalizing: 'Uploading',
     done: 'Completed',
-    failed: 'Failed'
+    failed: 'Failed',
+    cancelled: 'Cancelled'
 };
 
 export const JOB_STATE_COLORS: Record<RenderFlowJobState, string> = {
@@ -21,5 +22,6 @@ export const JOB_STATE_COLORS: Record<RenderFlowJobState, string> = {
     muxing: 'bg-purple-700',
     finalizing: 'bg-purple-800',
     done: 'bg-green-500',
-    failed: 'bg-red-500'
+    failed: 'bg-red-500',
+    cancelled: 'bg-gray-400'
 };
@@ -4,6 +4,10 @@
  */
 
 import type { UGCMarket, UGCLanguage, UGCGeneratedAvatar, UGCGender } from '@/types/ugc';
+import { withBudget } from '@/lib/budget';
+import { priceUsage } from '@/lib/pricing';
+
+const UGC_AVATAR_ENGINE = 'nano-banana'; // Priced as one generated image per avatar
 
 interface GenerateAvatarParams {
     market: UGCMarket;
@@ -44,7 +48,8 @@ export async function generateUGCAvatar(params: GenerateAvatarParams): Promise<G
 
 /**
  * Generate batch of avatars (3-5) for UGC video generation
- * When gender is 'ALL', generates both male and female avatars
+ * When gender is 'ALL', generates both male and female avatars.
+ * Throws BudgetExceededError when the batch would cross a hard budget.
  */
 export async function generateUGCAvatarBatch(options: {
     market: UGCMarket;
@@ -52,9 +57,32 @@ export async function generateUGCAvatarBatch(options: {
     gender: UGCGender;
     count?: number;
     productCategory?: string;
+    projectId?: string; // Budget to charge
 }): Promise<UGCGeneratedAvatar[]> {
     const count = options.count || 5;
+    const estimate = priceUsage(UGC_AVATAR_ENGINE, { operation_type: 'avatar_image', units: count });
+
+    return withBudget(
+        {
+            engine: UGC_AVATAR_ENGINE,
+            operation_type: 'avatar_image',
+            estimated_cost_usd: estimate.cost_usd,
+            project_id: options.projectId,
+            pricing_version: estimate.pricing_version,
+        },
+        () => runAvatarBatch(options, count),
+        avatars => ({
+            actual_cost_usd: priceUsage(UGC_AVATAR_ENGINE, { units: avatars.length }).cost_usd,
+            pipeline_stage: 'image_generation',
+            metadata: { requested: count, generated: avatars.length },
+        })
+    );
+}
 
+async function runAvatarBatch(
+    options: Parameters<typeof generateUGCAvatarBatch>[0],
+    count: number
+): Promise<UGCGeneratedAvatar[]> {
     // Determine genders to generate
     const genders: Array<'MALE' | 'FEMALE'> =
         options.gender === 'ALL'
@@ -3,8 +3,37 @@
  * Manages batch job creation, status tracking, and VPS worker coordination
  */
 
-import type { UGCJobStatus, UGCBatchJob, UGCVideoVariant, UGCGeneratedAvatar, UGCLanguage } from '@/types/ugc';
-import type { GeneratedScript } from './scriptEngine';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import type {
+    AudioSegment,
+    ExecutionPlan,
+    OutputFormat,
+    TimelineSegment,
+} from '@/lib/creative-scale/compiler-types';
+import type { CaptionCue, CaptionTrack } from '@/lib/creative-scale/caption-types';
+import { DEFAULT_CAPTION_LAYOUT } from '@/lib/creative-scale/caption-types';
+import { captionsToTextOverlays, wrapCaptionLines } from '@/lib/creative-scale/captions';
+import { PLATFORM_LOUDNESS_TARGETS } from '@/lib/creative-scale/marketing-frameworks';
+import { RenderFlowApi } from '@/renderflow/api';
+import { releaseReservation, reserveBudget, settleReservation } from '@/lib/budget';
+import { priceUsage } from '@/lib/pricing';
+import type {
+    UGCJobStatus,
+    UGCBatchJob,
+    UGCVideoVariant,
+    UGCGeneratedAvatar,
+    UGCLanguage,
+    UGCPipelineStage,
+} from '@/types/ugc';
+import { generateScripts, type GeneratedScript } from './scriptEngine';
+import { base64ToAudioBlob, estimateSpeechSeconds, generateUGCVoice, UGC_TTS_ENGINE } from './elevenLabsTTS';
+import {
+    UGC_SCENE_STRUCTURE,
+    createSceneAssignments,
+    validateSceneStructure,
+    type SceneContentAssignment,
+} from './sceneStructure';
 
 export interface BatchJobConfig {
     videoCount: number;
@@ -163,73 +192,565 @@ export async function cancelBatch(batchId: string): Promise<void> {
     }
 }
 
+
+// ============================================
+// BATCH PIPELINE
+// Script → voice → stills → ExecutionPlan → RenderFlow, one row per
+// variant in ugc_batch_variants so a refresh can resume the batch.
+// ============================================
+
+type VariantRow = Tables<'ugc_batch_variants'>;
+
 /**
- * Create video variants for local simulation (when backend unavailable)
+ * What a variant is made of, persisted with it
  */
-export function createSimulatedVariants(config: BatchJobConfig): UGCVideoVariant[] {
-    const variants: UGCVideoVariant[] = [];
+export interface UGCVariantSpec {
+    batchId: string;
+    variantId: string;
+    variantNumber: number;
+    language: UGCLanguage;
+    script: GeneratedScript;
+    avatar: { id: string; imageUrl: string }; // Rendered 9:16 still
+    productImageUrls: string[];                // Rendered 9:16 stills
+    voiceId: string;
+    projectId?: string;                        // Budget the voiceover is charged to
+}
 
-    for (let i = 0; i < config.videoCount; i++) {
-        const avatar = config.avatars[i % config.avatars.length];
-        const script = config.scripts[i];
+/**
+ * Spoken line of one scene
+ */
+export interface UGCSceneVoice {
+    sceneId: string;
+    audioUrl: string;
+    durationMs: number;
+}
 
-        variants.push({
-            id: `variant-${Date.now()}-${i}`,
-            variantNumber: i + 1,
-            status: 'PROCESSING',
-            avatarId: avatar?.id,
-            scriptId: script?.id,
-            hookText: script?.hook,
-            ctaText: script?.cta,
-            framework: script?.framework,
-            createdAt: new Date(),
-        });
+export type BatchProgressHandler = (result: BatchJobResult) => void;
+
+const UGC_OUTPUT_FORMAT: OutputFormat = {
+    container: 'mp4',
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    bitrate_kbps: 2500,
+    audio_bitrate_kbps: 128,
+    codec_hint: 'h264',
+};
+
+const UGC_PLATFORM = 'tiktok' as const;
+const VOICE_TAIL_MS = 300;        // Breath after each spoken line
+const STILL_ZOOM = 0.92;          // Crop window of the slow pan over each still
+const RENDER_POLL_MS = 3000;
+const MAX_POLL_FAILURES = 5;
+
+const CAPTION_LANGUAGES: Record<UGCLanguage, string> = {
+    ARABIC: 'ar',
+    SPANISH: 'es',
+    ENGLISH: 'en',
+    FRENCH: 'fr',
+};
+
+const isTerminal = (status: string) => status === 'DONE' || status === 'FAILED';
+
+// ============================================
+// ASSETS
+// ============================================
+
+async function getUserId(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Sign in to generate UGC videos');
+    return user.id;
+}
+
+async function uploadBatchAsset(bucket: 'audio' | 'images', path: string, body: Blob): Promise<string> {
+    const { data, error } = await supabase.storage.from(bucket).upload(path, body, { cacheControl: '3600', upsert: true });
+    if (error) throw new Error(`Failed to upload ${path}: ${error.message}`);
+    return supabase.storage.from(bucket).getPublicUrl(data.path).data.publicUrl;
+}
+
+/**
+ * Draw an image onto a frame of the output size: avatars fill the frame,
+ * product shots are fitted whole on white. The renderer then gets a plain
+ * JPEG whatever the source was (SVG avatars, blob: previews).
+ */
+async function renderStill(url: string, fit: 'cover' | 'contain'): Promise<Blob> {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = url;
+    await image.decode();
+
+    const { width, height } = UGC_OUTPUT_FORMAT;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+
+    const scale = fit === 'cover'
+        ? Math.max(width / image.naturalWidth, height / image.naturalHeight)
+        : Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error(`Could not render still from ${url}`)),
+            'image/jpeg',
+            0.92
+        );
+    });
+}
+
+async function measureAudioDuration(blob: Blob): Promise<number> {
+    const context = new AudioContext();
+    try {
+        const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+        return Math.round(buffer.duration * 1000);
+    } finally {
+        void context.close();
+    }
+}
+
+function sceneAssignments(spec: UGCVariantSpec): SceneContentAssignment[] {
+    const { script } = spec;
+    const assignments = createSceneAssignments({
+        avatarUrl: spec.avatar.imageUrl,
+        productUrls: spec.productImageUrls,
+        audioUrl: '',
+        scriptSegments: {
+            hook: script.hook,
+            context: script.context,
+            productUsage: script.productUsage,
+            benefit: script.benefit,
+            cta: script.cta,
+        },
+    });
+
+    const { valid, errors } = validateSceneStructure(assignments);
+    if (!valid) throw new Error(errors.join('; '));
+    return assignments;
+}
+
+/**
+ * One TTS line per scene, so every scene can be timed to its own voice.
+ * The variant's lines are reserved against the budgets together and the
+ * variant fails with BudgetExceededError when they would cross a hard limit.
+ */
+async function voiceScenes(spec: UGCVariantSpec, userId: string): Promise<UGCSceneVoice[]> {
+    const assignments = sceneAssignments(spec);
+    const secondsFor = (lines: SceneContentAssignment[]) =>
+        lines.reduce((total, a) => total + estimateSpeechSeconds(a.scriptSegment), 0);
+    const estimate = priceUsage(UGC_TTS_ENGINE, { operation_type: 'voiceover', units: secondsFor(assignments) });
+
+    const reservation = await reserveBudget({
+        engine: UGC_TTS_ENGINE,
+        operation_type: 'voiceover',
+        estimated_cost_usd: estimate.cost_usd,
+        project_id: spec.projectId,
+        pricing_version: estimate.pricing_version,
+    });
+
+    // Lines are voiced one by one: when a later one fails, the earlier ones are still paid for
+    const voiced: SceneContentAssignment[] = [];
+    const settle = () =>
+        settleReservation(reservation.id, {
+            actual_cost_usd: priceUsage(UGC_TTS_ENGINE, { units: secondsFor(voiced) }).cost_usd,
+            pipeline_stage: 'voiceover',
+            metadata: { ugc_batch_id: spec.batchId, variant_id: spec.variantId, lines: voiced.length },
+        }).catch(err => console.warn('[UGC] Failed to settle voiceover reservation:', err));
+
+    const voices: UGCSceneVoice[] = [];
+    try {
+        for (const assignment of assignments) {
+            const { audioContent } = await generateUGCVoice({
+                text: assignment.scriptSegment,
+                voiceId: spec.voiceId,
+                language: spec.language,
+            });
+            voiced.push(assignment);
+
+            const audio = base64ToAudioBlob(audioContent);
+            voices.push({
+                sceneId: assignment.sceneId,
+                audioUrl: await uploadBatchAsset(
+                    'audio',
+                    `${userId}/ugc/${spec.batchId}/${spec.variantId}-${assignment.sceneId}.mp3`,
+                    audio
+                ),
+                durationMs: await measureAudioDuration(audio),
+            });
+        }
+    } catch (error) {
+        if (voiced.length > 0) {
+            await settle();
+        } else {
+            await releaseReservation(reservation.id).catch(err =>
+                console.warn('[UGC] Failed to release voiceover reservation:', err)
+            );
+        }
+        throw error;
     }
 
-    return variants;
+    await settle();
+    return voices;
 }
 
+// ============================================
+// COMPOSITION
+// ============================================
+
 /**
- * Simulate batch processing for demo mode
+ * Renderable ExecutionPlan of one variant: the scenes of
+ * UGC_SCENE_STRUCTURE in order, each a still (avatar, or the product in
+ * mixed scenes) held for the scene's length or its spoken line, whichever
+ * is longer, with the line as voiceover and burned-in caption.
  */
-export async function simulateBatchProcessing(
-    variants: UGCVideoVariant[],
-    onProgress: (progress: number, stage: string, updatedVariants: UGCVideoVariant[]) => void
-): Promise<UGCVideoVariant[]> {
-    const stages = [
-        'Generating Scripts',
-        'Generating Voices',
-        'Generating Avatars',
-        'Composing Scenes',
-        'Rendering Videos',
-        'Finalizing',
-    ];
+export function composeVariantPlan(spec: UGCVariantSpec, voices: UGCSceneVoice[]): ExecutionPlan {
+    const assignments = sceneAssignments(spec);
+    const timeline: TimelineSegment[] = [];
+    const audioTracks: AudioSegment[] = [];
+    const cues: CaptionCue[] = [];
+    let cursor = 0;
 
-    const totalSteps = stages.length * variants.length;
-    let currentStep = 0;
+    UGC_SCENE_STRUCTURE.forEach((scene, i) => {
+        const assignment = assignments[i];
+        const voice = voices.find(v => v.sceneId === scene.id);
+        const durationMs = Math.max(scene.duration * 1000, voice ? voice.durationMs + VOICE_TAIL_MS : 0);
+        const showProduct = scene.contentType !== 'avatar' && !!assignment.productImageUrl;
+        const margin = 1 - STILL_ZOOM;
 
-    for (let stageIndex = 0; stageIndex < stages.length; stageIndex++) {
-        const stage = stages[stageIndex];
+        timeline.push({
+            segment_id: `${spec.variantId}_${scene.id}`,
+            source_video_id: showProduct ? 'ugc_product' : 'ugc_avatar',
+            source_segment_id: scene.id,
+            asset_url: (showProduct ? assignment.productImageUrl : assignment.avatarImageUrl) as string,
+            still: true,
+            trim_start_ms: 0,
+            trim_end_ms: durationMs,
+            source_duration_ms: durationMs,
+            timeline_start_ms: cursor,
+            timeline_end_ms: cursor + durationMs,
+            output_duration_ms: durationMs,
+            speed_multiplier: 1,
+            // Alternate the pan direction scene to scene
+            crop: {
+                width: STILL_ZOOM,
+                height: STILL_ZOOM,
+                keyframes: i % 2 === 0
+                    ? [{ t_ms: 0, x: margin / 2, y: margin / 2 }, { t_ms: durationMs, x: 0, y: 0 }]
+                    : [{ t_ms: 0, x: 0, y: margin }, { t_ms: durationMs, x: margin / 2, y: margin / 2 }],
+            },
+            track: 'video',
+            layer: 0,
+        });
+
+        if (voice) {
+            audioTracks.push({
+                audio_id: `${spec.variantId}_${scene.id}_voice`,
+                source_video_id: 'ugc_voice',
+                asset_url: voice.audioUrl,
+                trim_start_ms: 0,
+                trim_end_ms: voice.durationMs,
+                timeline_start_ms: cursor,
+                timeline_end_ms: cursor + durationMs,
+                volume: 1,
+                fade_in_ms: 0,
+                fade_out_ms: 0,
+                track: 'voiceover',
+            });
+        }
+
+        cues.push({
+            cue_id: `cue_${i}`,
+            start_ms: cursor,
+            end_ms: cursor + durationMs,
+            lines: wrapCaptionLines(assignment.scriptSegment.split(/\s+/).filter(Boolean), DEFAULT_CAPTION_LAYOUT.max_chars_per_line),
+            words: [],
+            source_segment_id: scene.id,
+        });
 
-        for (let i = 0; i < variants.length; i++) {
-            currentStep++;
-            const progress = (currentStep / totalSteps) * 100;
+        cursor += durationMs;
+    });
 
-            // Update variant status
-            if (stageIndex === stages.length - 1) {
-                variants[i] = {
-                    ...variants[i],
-                    status: 'DONE',
-                    completedAt: new Date(),
-                    thumbnailUrl: `https://picsum.photos/seed/${variants[i].id}/270/480`,
-                    outputUrl: undefined, // Would be real URL from VPS
-                };
+    const planId = `ugc_plan_${spec.variantId}`;
+    const language = CAPTION_LANGUAGES[spec.language];
+    const captions: CaptionTrack = {
+        track_id: `cap_${planId}`,
+        plan_id: planId,
+        language,
+        rtl: language === 'ar',
+        cues,
+    };
+
+    return {
+        plan_id: planId,
+        source_analysis_id: spec.batchId,
+        source_blueprint_id: spec.script.id,
+        variation_id: spec.variantId,
+        created_at: new Date().toISOString(),
+        status: 'compilable',
+        output_format: UGC_OUTPUT_FORMAT,
+        timeline,
+        audio_tracks: audioTracks,
+        text_overlays: captionsToTextOverlays(captions, UGC_OUTPUT_FORMAT, { platform: UGC_PLATFORM }),
+        captions,
+        audio_mix: { platform: UGC_PLATFORM, loudness: PLATFORM_LOUDNESS_TARGETS[UGC_PLATFORM], ducking: null },
+        validation: {
+            total_duration_ms: cursor,
+            segment_count: timeline.length,
+            audio_track_count: audioTracks.length,
+            has_gaps: false,
+            has_overlaps: false,
+            warnings: [],
+        },
+    };
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+function toVariant(row: VariantRow): UGCVideoVariant {
+    const spec = row.spec as unknown as UGCVariantSpec;
+    return {
+        id: row.variant_id,
+        variantNumber: row.variant_number,
+        status: row.status as UGCJobStatus,
+        hookText: spec.script.hook,
+        ctaText: spec.script.cta,
+        avatarId: spec.avatar.id,
+        scriptId: spec.script.id,
+        framework: spec.script.framework,
+        scriptText: spec.script.text,
+        outputUrl: row.output_url ?? undefined,
+        thumbnailUrl: spec.avatar.imageUrl,
+        createdAt: new Date(row.created_at),
+        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+}
+
+async function updateVariantRow(row: VariantRow, changes: TablesUpdate<'ugc_batch_variants'>): Promise<void> {
+    const { error } = await supabase.from('ugc_batch_variants').update(changes).eq('id', row.id);
+    if (error) throw new Error(`Failed to update UGC variant: ${error.message}`);
+    Object.assign(row, changes);
+}
+
+async function loadVariantRows(batchId: string): Promise<VariantRow[]> {
+    const { data, error } = await supabase
+        .from('ugc_batch_variants')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('variant_number');
+    if (error) throw new Error(`Failed to load UGC batch: ${error.message}`);
+    if (!data?.length) throw new Error(`UGC batch not found: ${batchId}`);
+    return data;
+}
+
+/**
+ * Batch view of the rows; renderProgress holds progress_pct of rendering jobs
+ */
+function summarizeBatch(batchId: string, rows: VariantRow[], renderProgress: Map<string, number>): BatchJobResult {
+    const share = (row: VariantRow) => {
+        if (isTerminal(row.status)) return 1;
+        if (row.render_job_id) return 0.5 + (renderProgress.get(row.render_job_id) ?? 0) / 200;
+        if (row.plan) return 0.4;
+        return row.status === 'PROCESSING' ? 0.2 : 0;
+    };
+
+    const active = rows.find(row => !isTerminal(row.status));
+    const failed = rows.filter(row => row.status === 'FAILED').length;
+    const status: UGCJobStatus = active
+        ? rows.some(row => row.status === 'RENDERING') ? 'RENDERING' : 'PROCESSING'
+        : failed === rows.length ? 'FAILED' : 'DONE';
+    const currentStage: UGCPipelineStage = !active
+        ? 'Finalizing'
+        : active.render_job_id ? 'Rendering' : active.plan ? 'Scene Planning' : 'Voice Generation';
+
+    return {
+        batchId,
+        status,
+        progress: Math.round((rows.reduce((sum, row) => sum + share(row), 0) / rows.length) * 100),
+        currentStage,
+        videos: rows.map(toVariant),
+        error: failed > 0 ? `${failed} of ${rows.length} videos failed` : undefined,
+    };
+}
+
+// ============================================
+// RUN
+// ============================================
+
+/**
+ * Take every variant from wherever it stopped to a finished render.
+ * A failing variant is marked FAILED; the others carry on.
+ */
+async function runBatch(batchId: string, rows: VariantRow[], userId: string, onProgress: BatchProgressHandler): Promise<BatchJobResult> {
+    const renderProgress = new Map<string, number>();
+    const report = () => {
+        const result = summarizeBatch(batchId, rows, renderProgress);
+        onProgress(result);
+        return result;
+    };
+    const fail = (row: VariantRow, error: unknown) => updateVariantRow(row, {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        completed_at: new Date().toISOString(),
+    });
+
+    report();
+
+    // Voice, compose and submit one variant at a time
+    for (const row of rows) {
+        if (isTerminal(row.status) || row.render_job_id) continue;
+        const spec = row.spec as unknown as UGCVariantSpec;
+
+        try {
+            if (!row.plan) {
+                await updateVariantRow(row, { status: 'PROCESSING' });
+                report();
+                const voices = await voiceScenes(spec, userId);
+                await updateVariantRow(row, { plan: composeVariantPlan(spec, voices) as unknown as Json });
+                report();
             }
 
-            onProgress(progress, stage, [...variants]);
-            await new Promise(resolve => setTimeout(resolve, 100));
+            const { id } = await RenderFlowApi.submitPlan(row.plan as unknown as ExecutionPlan, undefined, {
+                ugc_batch_id: batchId,
+                variant_number: row.variant_number,
+            });
+            await updateVariantRow(row, { status: 'RENDERING', render_job_id: id });
+        } catch (error) {
+            console.error(`[UGC] Variant ${row.variant_number} failed:`, error);
+            await fail(row, error);
         }
+        report();
     }
 
-    return variants;
+    // Follow the renders
+    const pollFailures = new Map<string, number>();
+    while (rows.some(row => row.status === 'RENDERING')) {
+        await new Promise(resolve => setTimeout(resolve, RENDER_POLL_MS));
+
+        for (const row of rows) {
+            if (row.status !== 'RENDERING' || !row.render_job_id) continue;
+
+            try {
+                const job = await RenderFlowApi.getJobStatus(row.render_job_id);
+                pollFailures.delete(row.id);
+                renderProgress.set(row.render_job_id, job.progress_pct);
+
+                if (job.state === 'done' && job.output) {
+                    await updateVariantRow(row, {
+                        status: 'DONE',
+                        output_url: job.output.output_url,
+                        completed_at: job.completed_at ?? new Date().toISOString(),
+                    });
+                } else if (job.state === 'failed' || job.state === 'cancelled') {
+                    await fail(row, job.error?.message || `Render ${job.state}`);
+                }
+            } catch (error) {
+                const failures = (pollFailures.get(row.id) ?? 0) + 1;
+                pollFailures.set(row.id, failures);
+                console.warn(`[UGC] Render poll for variant ${row.variant_number} failed (${failures}):`, error);
+                if (failures >= MAX_POLL_FAILURES) await fail(row, error);
+            }
+        }
+        report();
+    }
+
+    return report();
+}
+
+/**
+ * Start a batch: generate the scripts, render the stills once, persist one
+ * row per variant, then run it. onProgress fires on every variant change.
+ */
+export async function runBatchJob(job: UGCBatchJob, onProgress: BatchProgressHandler): Promise<BatchJobResult> {
+    const voiceId = job.script.voiceId;
+    if (!voiceId) throw new Error('Select a voice before generating');
+
+    const avatars = job.avatar.generatedAvatars || [];
+    if (avatars.length === 0) throw new Error('Generate avatars before generating');
+
+    const userId = await getUserId();
+    const language = job.avatar.language || 'ENGLISH';
+    const videoCount = job.settings.videoCount;
+
+    const scripts = await generateScripts({
+        productName: job.product.name,
+        productBenefit: job.product.benefit,
+        productCategory: job.product.category,
+        language,
+        videoCount,
+    });
+
+    // The selected avatar leads, the others rotate in after it
+    const ordered = [
+        ...avatars.filter(a => a.id === job.avatar.selectedAvatarId),
+        ...avatars.filter(a => a.id !== job.avatar.selectedAvatarId),
+    ].slice(0, videoCount);
+
+    const stillPath = (name: string) => `${userId}/ugc/${job.id}/${name}.jpg`;
+    const avatarStills = await Promise.all(ordered.map(async avatar => ({
+        id: avatar.id,
+        imageUrl: await uploadBatchAsset('images', stillPath(avatar.id), await renderStill(avatar.imageUrl, 'cover')),
+    })));
+    const productImageUrls = await Promise.all(job.product.imagePreviews.map(async (preview, i) =>
+        uploadBatchAsset('images', stillPath(`product-${i + 1}`), await renderStill(preview, 'contain'))
+    ));
+
+    const specs: UGCVariantSpec[] = scripts.map((script, i) => ({
+        batchId: job.id,
+        variantId: `${job.id}-variant-${i + 1}`,
+        variantNumber: i + 1,
+        language,
+        script,
+        avatar: avatarStills[i % avatarStills.length],
+        productImageUrls,
+        voiceId,
+        projectId: job.projectId,
+    }));
+
+    const { data, error } = await supabase
+        .from('ugc_batch_variants')
+        .insert(specs.map(spec => ({
+            user_id: userId,
+            batch_id: job.id,
+            variant_id: spec.variantId,
+            variant_number: spec.variantNumber,
+            spec: spec as unknown as Json,
+        })))
+        .select('*');
+    if (error) throw new Error(`Failed to create UGC batch: ${error.message}`);
+
+    const rows = (data || []).sort((a, b) => a.variant_number - b.variant_number);
+    return runBatch(job.id, rows, userId, onProgress);
+}
+
+/**
+ * Continue a persisted batch after a refresh
+ */
+export async function resumeBatchJob(batchId: string, onProgress: BatchProgressHandler): Promise<BatchJobResult> {
+    const userId = await getUserId();
+    return runBatch(batchId, await loadVariantRows(batchId), userId, onProgress);
+}
+
+/**
+ * Latest batch of the signed-in user that still has unfinished variants
+ */
+export async function findUnfinishedBatchJob(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+        .from('ugc_batch_variants')
+        .select('batch_id')
+        .eq('user_id', user.id)
+        .in('status', ['CREATED', 'PROCESSING', 'RENDERING'])
+        .order('created_at', { ascending: false })
+        .limit(1);
+    if (error) throw new Error(`Failed to look up UGC batches: ${error.message}`);
+    return data?.[0]?.batch_id ?? null;
 }
@@ -4,6 +4,11 @@
  */
 
 import type { UGCLanguage, UGCGender } from '@/types/ugc';
+import { withBudget } from '@/lib/budget';
+import { priceUsage } from '@/lib/pricing';
+
+export const UGC_TTS_ENGINE = 'elevenlabs';
+const SPEECH_CHARS_PER_SECOND = 15; // Rough speaking rate, for estimates only
 
 export interface UGCTTSRequest {
     text: string;
@@ -29,6 +34,7 @@ export interface UGCBatchTTSRequest {
         voiceId?: string;
     }>;
     defaultVoiceId: string;
+    projectId?: string; // Budget to charge
 }
 
 export interface UGCBatchTTSResult {
@@ -60,24 +66,55 @@ export async function generateUGCVoice(request: UGCTTSRequest): Promise<UGCTTSRe
     return response.json();
 }
 
+export function estimateSpeechSeconds(text: string): number {
+    return Math.ceil(text.length / SPEECH_CHARS_PER_SECOND);
+}
+
 /**
- * Generate multiple voice audios for a batch of scripts
+ * Generate multiple voice audios for a batch of scripts.
+ * Throws BudgetExceededError when the batch would cross a hard budget.
  */
 export async function generateUGCBatchVoices(request: UGCBatchTTSRequest): Promise<UGCBatchTTSResult> {
-    const response = await fetch('/api/ugc-batch-tts', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
+    const { projectId, ...body } = request;
+    const secondsFor = (ids?: Set<string>) => request.scripts
+        .filter(script => !ids || ids.has(script.id))
+        .reduce((total, script) => total + estimateSpeechSeconds(script.text), 0);
+    const estimate = priceUsage(UGC_TTS_ENGINE, { operation_type: 'voiceover', units: secondsFor() });
+
+    return withBudget(
+        {
+            engine: UGC_TTS_ENGINE,
+            operation_type: 'voiceover',
+            estimated_cost_usd: estimate.cost_usd,
+            project_id: projectId,
+            pricing_version: estimate.pricing_version,
         },
-        body: JSON.stringify(request),
-    });
+        async (): Promise<UGCBatchTTSResult> => {
+            const response = await fetch('/api/ugc-batch-tts', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body),
+            });
 
-    if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: 'Batch TTS request failed' }));
-        throw new Error(error.error || `Batch TTS request failed: ${response.status}`);
-    }
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({ error: 'Batch TTS request failed' }));
+                throw new Error(error.error || `Batch TTS request failed: ${response.status}`);
+            }
 
-    return response.json();
+            return response.json();
+        },
+        // Only scripts that came back with audio are charged
+        result => {
+            const voiced = new Set(result.results.filter(r => r.audioContent).map(r => r.id));
+            return {
+                actual_cost_usd: priceUsage(UGC_TTS_ENGINE, { units: secondsFor(voiced) }).cost_usd,
+                pipeline_stage: 'voiceover',
+                metadata: { scripts: request.scripts.length, voiced: voiced.size },
+            };
+        }
+    );
 }
 
 /**
@@ -91,17 +128,23 @@ export function playAudioFromBase64(base64Audio: string): HTMLAudioElement {
 }
 
 /**
- * Convert base64 audio to Blob URL for download
+ * Convert base64 audio to an MP3 Blob
  */
-export function base64ToAudioBlobUrl(base64Audio: string): string {
+export function base64ToAudioBlob(base64Audio: string): Blob {
     const byteCharacters = atob(base64Audio);
     const byteNumbers = new Array(byteCharacters.length);
     for (let i = 0; i < byteCharacters.length; i++) {
         byteNumbers[i] = byteCharacters.charCodeAt(i);
     }
     const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: 'audio/mpeg' });
-    return URL.createObjectURL(blob);
+    return new Blob([byteArray], { type: 'audio/mpeg' });
+}
+
+/**
+ * Convert base64 audio to Blob URL for download
+ */
+export function base64ToAudioBlobUrl(base64Audio: string): string {
+    return URL.createObjectURL(base64ToAudioBlob(base64Audio));
 }
 
 /**
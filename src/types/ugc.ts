@@ -127,6 +127,7 @@ export interface UGCBatchJob {
     variants: UGCVideoVariant[];
     progress: number;
     currentStage: string;
+    projectId?: string; // Budget to charge
     createdAt: Date;
     completedAt?: Date;
     error?: string;
@@ -0,0 +1,533 @@
+/**
+ * EXECUTIONPLAN → FFMPEG BUILDER
+ * Pure, deterministic translation of a compiled ExecutionPlan into an
+ * ffmpeg argument list and filter_complex string.
+ *
+ * NO I/O, NO clocks, NO randomness: the same plan and options always
+ * produce the same command.
+ *
+ * The one builder for every renderer: the app re-exports it from
+ * src/lib/render, the edge functions import it from here and the
+ * RenderFlow worker loads a compiled copy (npm run build:renderflow).
+ * No imports, so Deno, Vite and tsc can all load it as-is.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+// The plan types are the subset of src/lib/creative-scale/compiler-types.ts
+// the builder reads, so every ExecutionPlan is a RenderPlan and the edge
+// functions can type-check without the app's module graph.
+
+export type RenderTransitionType =
+  | 'cut'
+  | 'fade'
+  | 'dissolve'
+  | 'wipe-left'
+  | 'wipe-right'
+  | 'zoom'
+  | 'slide-left'
+  | 'slide-right';
+
+export interface RenderOutputFormat {
+  container: 'mp4' | 'webm' | 'mov';
+  width: number;
+  height: number;
+  fps: number;
+  bitrate_kbps: number;
+  audio_bitrate_kbps: number;
+  codec_hint: 'h264' | 'h265' | 'vp9' | 'av1';
+}
+
+export interface RenderTimelineSegment {
+  segment_id: string;
+  asset_url: string | null;
+  trim_start_ms: number;
+  trim_end_ms: number;
+  timeline_start_ms: number;
+  timeline_end_ms: number;
+  speed_multiplier: number;
+  transition_in?: { type: RenderTransitionType; duration_ms: number };
+  crop?: {
+    width: number;
+    height: number;
+    keyframes: Array<{ t_ms: number; x: number; y: number }>;
+  };
+  still?: boolean;
+  track: 'video' | 'overlay';
+  layer: number;
+}
+
+export interface RenderAudioSegment {
+  audio_id: string;
+  asset_url: string | null;
+  trim_start_ms: number;
+  trim_end_ms: number;
+  timeline_start_ms: number;
+  timeline_end_ms: number;
+  volume: number;
+  fade_in_ms: number;
+  fade_out_ms: number;
+  track: 'voiceover' | 'music' | 'sfx';
+}
+
+export interface RenderTextOverlay {
+  text_id: string;
+  content: string;
+  timeline_start_ms: number;
+  timeline_end_ms: number;
+  font_size: number;
+  color: string;
+  x: string;
+  y: string;
+  box?: boolean;
+  box_color?: string;
+  font_file?: string;
+}
+
+export interface RenderLoudnessTarget {
+  integrated_lufs: number;
+  true_peak_dbtp: number;
+  loudness_range_lu: number;
+}
+
+export interface RenderPlan {
+  plan_id: string;
+  status: 'compilable' | 'uncompilable';
+  reason?: string;
+  output_format: RenderOutputFormat;
+  timeline: RenderTimelineSegment[];
+  audio_tracks: RenderAudioSegment[];
+  text_overlays?: RenderTextOverlay[];
+  audio_mix?: {
+    ducking: { threshold: number; ratio: number; attack_ms: number; release_ms: number } | null;
+  };
+}
+
+export interface FFmpegPlanBuildOptions {
+  /** Used for every segment whose asset_url is null */
+  sourceUrl: string;
+  /** Output file path or URL handed to ffmpeg as-is */
+  outputPath: string;
+  /**
+   * Optional per-overlay text files (same order as plan.text_overlays).
+   * When omitted, overlay content is escaped inline.
+   */
+  textFiles?: string[];
+  /** x264/x265 preset, omitted for other codecs */
+  preset?: string;
+}
+
+export interface FFmpegInput {
+  url: string;
+  start_ms: number;
+  duration_ms: number;
+  /** Still image looped for duration_ms instead of seeking */
+  still?: boolean;
+  /** Which plan entry consumes this input */
+  ref: { kind: 'video' | 'overlay' | 'audio'; id: string };
+}
+
+/** loudnorm pass 1 stats, as printed with print_format=json */
+export interface LoudnormMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+export interface FFmpegCommand {
+  inputs: FFmpegInput[];
+  filterComplex: string;
+  videoLabel: string;
+  audioLabel: string | null;
+  durationMs: number;
+  args: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const VIDEO_CODECS: Record<RenderOutputFormat['codec_hint'], string> = {
+  h264: 'libx264',
+  h265: 'libx265',
+  vp9: 'libvpx-vp9',
+  av1: 'libaom-av1',
+};
+
+const PRESET_CODECS = new Set(['libx264', 'libx265']);
+
+// TransitionType → ffmpeg xfade transition
+export const XFADE_TRANSITIONS: Record<Exclude<RenderTransitionType, 'cut'>, string> = {
+  fade: 'fade',
+  dissolve: 'dissolve',
+  'wipe-left': 'wipeleft',
+  'wipe-right': 'wiperight',
+  zoom: 'zoomin',
+  'slide-left': 'slideleft',
+  'slide-right': 'slideright',
+};
+
+// Target used when a render is only measured (no platform target)
+export const EBU_R128_TARGET: RenderLoudnessTarget = { integrated_lufs: -23, true_peak_dbtp: -1, loudness_range_lu: 7 };
+
+// ============================================
+// FORMATTING HELPERS
+// ============================================
+
+/** Milliseconds → ffmpeg seconds with fixed precision (stable output) */
+export function msToSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/** Scale + letterbox to the exact output frame */
+export function normalizeVideoFilter(width: number, height: number, fps: number): string {
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps}`;
+}
+
+/**
+ * Escape a literal for a filter option inside filter_complex.
+ * Level 1: option parser (\ ' :). Level 2: filtergraph parser (\ ' [ ] , ;).
+ */
+export function escapeFilterValue(value: string): string {
+  const optionLevel = value.replace(/[\\':]/g, '\\$&');
+  return optionLevel.replace(/[\\'[\],;]/g, '\\$&');
+}
+
+/** FFmpeg expressions may contain commas; quote them so the chain isn't split */
+function quoteExpression(expr: string): string {
+  return `'${String(expr).replace(/'/g, '')}'`;
+}
+
+function toFFmpegColor(hex: string | undefined, fallback: string): string {
+  return (hex || fallback).replace('#', '0x');
+}
+
+function enableBetween(startMs: number, endMs: number): string {
+  return `enable='between(t,${msToSeconds(startMs)},${msToSeconds(endMs)})'`;
+}
+
+function speedOf(segment: RenderTimelineSegment): number {
+  return segment.speed_multiplier > 0 ? segment.speed_multiplier : 1;
+}
+
+type TransitionSegment = RenderTimelineSegment & {
+  transition_in: { type: Exclude<RenderTransitionType, 'cut'>; duration_ms: number };
+};
+
+function hasTransition(segment: RenderTimelineSegment): segment is TransitionSegment {
+  return !!segment.transition_in && segment.transition_in.type !== 'cut' && segment.transition_in.duration_ms > 0;
+}
+
+// ============================================
+// FILTER BUILDERS
+// ============================================
+
+/**
+ * Piecewise-linear expression over keyframes of { t (seconds), v }.
+ * Keyframes sharing a time make a step.
+ */
+function keyframeExpression(points: Array<{ t: number; v: number }>): string {
+  const round = (value: number) => Number(value.toFixed(4));
+  let expr = String(round(points[points.length - 1].v));
+  for (let i = points.length - 2; i >= 0; i--) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (b.t <= a.t) continue;
+    const slope = round((b.v - a.v) / (b.t - a.t));
+    const value = slope === 0 ? String(round(a.v)) : `${round(a.v)}+${slope}*(t-${a.t.toFixed(3)})`;
+    expr = `if(lt(t,${b.t.toFixed(3)}),${value},${expr})`;
+  }
+  return expr;
+}
+
+/** Moving crop window of a segment (source fractions and times) on its trimmed, speed-adjusted stream */
+export function buildCropFilter(segment: RenderTimelineSegment): string | null {
+  if (!segment.crop || segment.crop.keyframes.length === 0) return null;
+  const { width, height, keyframes } = segment.crop;
+  const speed = speedOf(segment);
+  const points = keyframes.map(k => ({
+    t: Math.max(0, (k.t_ms - segment.trim_start_ms) / speed / 1000),
+    x: k.x,
+    y: k.y,
+  }));
+  const x = keyframeExpression(points.map(p => ({ t: p.t, v: p.x })));
+  const y = keyframeExpression(points.map(p => ({ t: p.t, v: p.y })));
+  return `crop=w=iw*${width}:h=ih*${height}:x=${quoteExpression(`(${x})*iw`)}:y=${quoteExpression(`(${y})*ih`)}`;
+}
+
+function buildDrawtext(overlay: RenderTextOverlay, textFile: string | undefined): string {
+  const parts = [
+    textFile ? `textfile=${escapeFilterValue(textFile)}` : `text=${escapeFilterValue(overlay.content)}`,
+    'expansion=none',
+    `fontsize=${overlay.font_size}`,
+    `fontcolor=${toFFmpegColor(overlay.color, '#FFFFFF')}`,
+    `x=${quoteExpression(overlay.x)}`,
+    `y=${quoteExpression(overlay.y)}`,
+    enableBetween(overlay.timeline_start_ms, overlay.timeline_end_ms),
+  ];
+  if (overlay.box) {
+    parts.push('box=1', `boxcolor=${toFFmpegColor(overlay.box_color, '#000000')}@0.5`, 'boxborderw=12');
+  }
+  if (overlay.font_file) {
+    parts.push(`fontfile=${escapeFilterValue(overlay.font_file)}`);
+  }
+  return `drawtext=${parts.join(':')}`;
+}
+
+function buildAudioChain(audio: RenderAudioSegment, trimMs: number): string {
+  const chain = [
+    'aformat=sample_rates=44100:channel_layouts=stereo',
+    'asetpts=PTS-STARTPTS',
+    `volume=${audio.volume}`,
+  ];
+  if (audio.fade_in_ms > 0) {
+    chain.push(`afade=t=in:st=0:d=${msToSeconds(audio.fade_in_ms)}`);
+  }
+  if (audio.fade_out_ms > 0) {
+    const fadeStart = Math.max(0, trimMs - audio.fade_out_ms);
+    chain.push(`afade=t=out:st=${msToSeconds(fadeStart)}:d=${msToSeconds(audio.fade_out_ms)}`);
+  }
+  if (audio.timeline_start_ms > 0) {
+    chain.push(`adelay=${audio.timeline_start_ms}|${audio.timeline_start_ms}`);
+  }
+  return chain.join(',');
+}
+
+/** Sum several labels into one (no-op for a single label) */
+function mixLabels(filters: string[], labels: string[], output: string): string {
+  if (labels.length === 1) return labels[0];
+  filters.push(`${labels.map(l => `[${l}]`).join('')}amix=inputs=${labels.length}:duration=longest:normalize=0[${output}]`);
+  return output;
+}
+
+/**
+ * loudnorm filter for the two-pass normalization of a finished render.
+ * Without `measured` it is the measuring pass; with it, pass 2 applies a
+ * linear gain. RenderFlow runs both passes (server/renderflow/loudness.cjs).
+ */
+export function buildLoudnormFilter(target: RenderLoudnessTarget, measured?: LoudnormMeasurement): string {
+  const parts = [
+    `I=${target.integrated_lufs}`,
+    `TP=${target.true_peak_dbtp}`,
+    `LRA=${target.loudness_range_lu}`,
+  ];
+  if (measured) {
+    parts.push(
+      `measured_I=${measured.input_i}`,
+      `measured_TP=${measured.input_tp}`,
+      `measured_LRA=${measured.input_lra}`,
+      `measured_thresh=${measured.input_thresh}`,
+      `offset=${measured.target_offset}`,
+      'linear=true',
+    );
+  }
+  parts.push('print_format=json');
+  return `loudnorm=${parts.join(':')}`;
+}
+
+function encodingArgs(format: RenderOutputFormat, hasAudio: boolean, preset: string | undefined): string[] {
+  const args: string[] = [];
+
+  if (hasAudio) {
+    args.push('-c:a', format.container === 'webm' ? 'libopus' : 'aac', '-b:a', `${format.audio_bitrate_kbps}k`);
+  } else {
+    args.push('-an');
+  }
+
+  // webm cannot carry h264: fall back to vp9
+  const codec = format.container === 'webm' && format.codec_hint === 'h264'
+    ? VIDEO_CODECS.vp9
+    : VIDEO_CODECS[format.codec_hint] || VIDEO_CODECS.h264;
+
+  args.push('-c:v', codec);
+  if (preset && PRESET_CODECS.has(codec)) {
+    args.push('-preset', preset);
+  }
+  args.push(
+    '-b:v', `${format.bitrate_kbps}k`,
+    '-pix_fmt', 'yuv420p',
+    '-r', String(format.fps),
+  );
+  if (format.container !== 'webm') {
+    args.push('-movflags', '+faststart');
+  }
+  return args;
+}
+
+// ============================================
+// MAIN BUILDER
+// ============================================
+
+/**
+ * Build the full ffmpeg command for a compiled ExecutionPlan.
+ * Every timeline and audio segment gets its own input-seeked input,
+ * so no decoded stream is ever split inside the graph.
+ *
+ * @throws Error if the plan is uncompilable or has no video segments
+ */
+export function buildFFmpegCommand(plan: RenderPlan, options: FFmpegPlanBuildOptions): FFmpegCommand {
+  if (plan.status !== 'compilable') {
+    throw new Error(`Plan ${plan.plan_id} is not compilable: ${plan.reason || 'unknown reason'}`);
+  }
+
+  const { width, height, fps } = plan.output_format;
+  const normalize = normalizeVideoFilter(width, height, fps);
+  const inputs: FFmpegInput[] = [];
+  const filters: string[] = [];
+
+  const videoSegments = plan.timeline
+    .filter(seg => seg.track === 'video')
+    .sort((a, b) => a.timeline_start_ms - b.timeline_start_ms);
+  const overlaySegments = plan.timeline
+    .filter(seg => seg.track === 'overlay')
+    .sort((a, b) => a.layer - b.layer || a.timeline_start_ms - b.timeline_start_ms);
+
+  if (videoSegments.length === 0) {
+    throw new Error(`Plan ${plan.plan_id} has no video segments`);
+  }
+
+  const durationMs = videoSegments[videoSegments.length - 1].timeline_end_ms;
+
+  // 1. Trimmed, speed-adjusted base segments
+  const concatLabels = videoSegments.map(seg => {
+    const index = inputs.length;
+    inputs.push({
+      url: seg.asset_url || options.sourceUrl,
+      start_ms: seg.trim_start_ms,
+      duration_ms: seg.trim_end_ms - seg.trim_start_ms,
+      still: seg.still,
+      ref: { kind: 'video', id: seg.segment_id },
+    });
+    const crop = buildCropFilter(seg);
+    filters.push(`[${index}:v]setpts=(PTS-STARTPTS)/${speedOf(seg)},${crop ? `${crop},` : ''}${normalize}[v${index}]`);
+    return `[v${index}]`;
+  });
+
+  // 2. Join in timeline order: a single concat when every join is a cut,
+  //    otherwise fold pairwise (xfade for transitions, concat for cuts)
+  let videoLabel = 'vbase';
+  if (!videoSegments.some(hasTransition)) {
+    filters.push(`${concatLabels.join('')}concat=n=${concatLabels.length}:v=1:a=0[${videoLabel}]`);
+  } else {
+    let joined = concatLabels[0];
+    videoSegments.slice(1).forEach((seg, i) => {
+      const output = i === videoSegments.length - 2 ? `[${videoLabel}]` : `[j${i + 1}]`;
+      if (hasTransition(seg)) {
+        const { type, duration_ms } = seg.transition_in;
+        // xfade needs both inputs on the same timebase and frame rate; a concat output isn't
+        const timebase = `settb=AVTB,fps=${fps}`;
+        filters.push(
+          `${joined}${timebase}[xa${i + 1}]`,
+          `${concatLabels[i + 1]}${timebase}[xb${i + 1}]`,
+          `[xa${i + 1}][xb${i + 1}]xfade=transition=${XFADE_TRANSITIONS[type]}:` +
+          `duration=${msToSeconds(duration_ms)}:offset=${msToSeconds(seg.timeline_start_ms)}${output}`
+        );
+      } else {
+        filters.push(`${joined}${concatLabels[i + 1]}concat=n=2:v=1:a=0${output}`);
+      }
+      joined = output;
+    });
+  }
+
+  // 3. Overlay-track segments composited at their timeline offset
+  overlaySegments.forEach((seg, i) => {
+    const index = inputs.length;
+    inputs.push({
+      url: seg.asset_url || options.sourceUrl,
+      start_ms: seg.trim_start_ms,
+      duration_ms: seg.trim_end_ms - seg.trim_start_ms,
+      still: seg.still,
+      ref: { kind: 'overlay', id: seg.segment_id },
+    });
+    filters.push(
+      `[${index}:v]setpts=(PTS-STARTPTS)/${speedOf(seg)}+${msToSeconds(seg.timeline_start_ms)}/TB,${normalize}[ov${i}]`
+    );
+    filters.push(
+      `[${videoLabel}][ov${i}]overlay=eof_action=pass:${enableBetween(seg.timeline_start_ms, seg.timeline_end_ms)}[vov${i}]`
+    );
+    videoLabel = `vov${i}`;
+  });
+
+  // 4. Text overlays
+  const overlays = plan.text_overlays || [];
+  if (overlays.length > 0) {
+    const drawtext = overlays.map((overlay, i) => buildDrawtext(overlay, options.textFiles?.[i]));
+    filters.push(`[${videoLabel}]${drawtext.join(',')}[vtext]`);
+    videoLabel = 'vtext';
+  }
+
+  // 5. Audio tracks: trim to their slot, volume, fades, delay
+  const audioLabels: Array<{ label: string; track: RenderAudioSegment['track'] }> = [];
+  for (const audio of plan.audio_tracks || []) {
+    const slotMs = audio.timeline_end_ms - audio.timeline_start_ms;
+    const trimMs = Math.min(audio.trim_end_ms - audio.trim_start_ms, slotMs);
+    if (trimMs <= 0) continue;
+
+    const index = inputs.length;
+    inputs.push({
+      url: audio.asset_url || options.sourceUrl,
+      start_ms: audio.trim_start_ms,
+      duration_ms: trimMs,
+      ref: { kind: 'audio', id: audio.audio_id },
+    });
+    const label = `a${audioLabels.length}`;
+    filters.push(`[${index}:a]${buildAudioChain(audio, trimMs)}[${label}]`);
+    audioLabels.push({ label, track: audio.track });
+  }
+
+  // 6. Mix: music sidechain-ducked under the voiceover, then everything summed
+  const ducking = plan.audio_mix?.ducking;
+  const labelsOf = (track: RenderAudioSegment['track']) => audioLabels.filter(a => a.track === track).map(a => a.label);
+  let finalLabels = audioLabels.map(a => a.label);
+  if (ducking && labelsOf('voiceover').length > 0 && labelsOf('music').length > 0) {
+    const voice = mixLabels(filters, labelsOf('voiceover'), 'avoice');
+    const music = mixLabels(filters, labelsOf('music'), 'amusic');
+    // The key is padded so music past the end of the voiceover is not cut
+    filters.push(`[${voice}]asplit=2[avmix][avkey]`, '[avkey]apad[avside]');
+    filters.push(
+      `[${music}][avside]sidechaincompress=threshold=${ducking.threshold}:ratio=${ducking.ratio}:` +
+      `attack=${ducking.attack_ms}:release=${ducking.release_ms}[aducked]`
+    );
+    finalLabels = ['avmix', 'aducked', ...labelsOf('sfx')];
+  }
+
+  const audioLabel = finalLabels.length > 0 ? mixLabels(filters, finalLabels, 'amix') : null;
+
+  // 7. Assemble arguments
+  const filterComplex = filters.join(';');
+  const args = ['-y'];
+  for (const input of inputs) {
+    if (input.still) {
+      args.push('-loop', '1', '-framerate', String(fps), '-t', msToSeconds(input.duration_ms), '-i', input.url);
+    } else {
+      args.push('-ss', msToSeconds(input.start_ms), '-t', msToSeconds(input.duration_ms), '-i', input.url);
+    }
+  }
+  args.push('-filter_complex', filterComplex, '-map', `[${videoLabel}]`);
+  if (audioLabel) {
+    args.push('-map', `[${audioLabel}]`);
+  }
+  args.push(...encodingArgs(plan.output_format, audioLabel !== null, options.preset));
+  args.push('-t', msToSeconds(durationMs), options.outputPath);
+
+  return { inputs, filterComplex, videoLabel, audioLabel, durationMs, args };
+}
+
+/** Convenience: only the filter_complex string */
+export function buildFilterComplex(plan: RenderPlan, sourceUrl: string): string {
+  return buildFFmpegCommand(plan, { sourceUrl, outputPath: 'output' }).filterComplex;
+}
+
+/**
+ * One-line shell form of an argument list, for callers that hand the
+ * command to someone else to run
+ */
+export function formatFFmpegCommand(args: string[]): string {
+  const quote = (arg: string) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`);
+  return ['ffmpeg', ...args.map(quote)].join(' ');
+}
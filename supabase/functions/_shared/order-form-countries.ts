@@ -0,0 +1,72 @@
+/**
+ * Order Form Countries - cash-on-delivery markets and phone normalization
+ *
+ * Read by the landing-page-leads function and, through
+ * src/lib/landing-page, by the form builder and the rendered page. Pure
+ * data and functions with no imports, so Deno and Vite can both load it.
+ */
+
+/**
+ * Phone and currency rules for a cash-on-delivery market. Numbers are
+ * stored in E.164; national_pattern matches the number without the dial
+ * code or trunk prefix.
+ */
+export interface OrderFormCountry {
+  country: string;          // ISO 3166-1 alpha-2
+  name: string;
+  dial_code: string;        // Without "+", e.g. "966"
+  national_pattern: string; // RegExp source for mobile numbers
+  trunk_prefix?: string;    // Dropped when dialled nationally, e.g. "0"
+  example: string;          // Placeholder shown in the phone field
+  currency: string;         // ISO 4217
+}
+
+export const ORDER_FORM_COUNTRIES: Record<string, OrderFormCountry> = {
+  SA: { country: 'SA', name: 'Saudi Arabia', dial_code: '966', national_pattern: '5\\d{8}', trunk_prefix: '0', example: '05X XXX XXXX', currency: 'SAR' },
+  AE: { country: 'AE', name: 'United Arab Emirates', dial_code: '971', national_pattern: '5[024568]\\d{7}', trunk_prefix: '0', example: '05X XXX XXXX', currency: 'AED' },
+  KW: { country: 'KW', name: 'Kuwait', dial_code: '965', national_pattern: '[4569]\\d{7}', example: 'XXXX XXXX', currency: 'KWD' },
+  QA: { country: 'QA', name: 'Qatar', dial_code: '974', national_pattern: '[3567]\\d{7}', example: 'XXXX XXXX', currency: 'QAR' },
+  BH: { country: 'BH', name: 'Bahrain', dial_code: '973', national_pattern: '[36]\\d{7}', example: '3XXX XXXX', currency: 'BHD' },
+  OM: { country: 'OM', name: 'Oman', dial_code: '968', national_pattern: '[79]\\d{7}', example: '9XXX XXXX', currency: 'OMR' },
+  EG: { country: 'EG', name: 'Egypt', dial_code: '20', national_pattern: '1[0125]\\d{8}', trunk_prefix: '0', example: '01X XXXX XXXX', currency: 'EGP' },
+  JO: { country: 'JO', name: 'Jordan', dial_code: '962', national_pattern: '7[789]\\d{7}', trunk_prefix: '0', example: '07X XXX XXXX', currency: 'JOD' },
+  IQ: { country: 'IQ', name: 'Iraq', dial_code: '964', national_pattern: '7[3-9]\\d{8}', trunk_prefix: '0', example: '07XX XXX XXXX', currency: 'IQD' },
+  MA: { country: 'MA', name: 'Morocco', dial_code: '212', national_pattern: '[67]\\d{8}', trunk_prefix: '0', example: '06XX XXX XXX', currency: 'MAD' },
+};
+
+export function getOrderFormCountry(country: string): OrderFormCountry | null {
+  return ORDER_FORM_COUNTRIES[country.toUpperCase()] ?? null;
+}
+
+/**
+ * Arabic-Indic (٠-٩) and Persian (۰-۹) digits → ASCII
+ */
+export function toAsciiDigits(value: string): string {
+  return value.replace(/[٠-٩۰-۹]/g, d => String(d.charCodeAt(0) % 16));
+}
+
+/**
+ * Accepts what customers actually type ("05x", "5x", "+966 5x", "00966 5x",
+ * Arabic digits, spaces and dashes) and returns the E.164 number, or null
+ * when it is not a mobile number of that country.
+ */
+export function normalizePhone(input: string, country: string): string | null {
+  const rule = getOrderFormCountry(country);
+  if (!rule) return null;
+
+  let digits = toAsciiDigits(input).replace(/[\s().-]/g, '');
+  const international = /^(\+|00)/.test(digits);
+  digits = digits.replace(/^(\+|00)/, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  const pattern = new RegExp(`^(?:${rule.national_pattern})$`);
+  if (digits.startsWith(rule.dial_code) && (international || !pattern.test(digits))) {
+    digits = digits.slice(rule.dial_code.length);
+  } else if (international) {
+    return null; // Another country's number
+  }
+  if (rule.trunk_prefix && digits.startsWith(rule.trunk_prefix) && !pattern.test(digits)) {
+    digits = digits.slice(rule.trunk_prefix.length);
+  }
+  return pattern.test(digits) ? `+${rule.dial_code}${digits}` : null;
+}
@@ -0,0 +1,241 @@
+/**
+ * Pricing Catalog - the one place engine prices live
+ *
+ * Read by the track-cost function and, through src/lib/pricing, by every
+ * cost estimator in the app. Pure data and functions with no imports, so
+ * Deno and Vite can both load it.
+ *
+ * Changing a price: never edit a published entry. Close it with
+ * effective_to, add a new entry with the same id and effective_from, and
+ * bump PRICING_CATALOG.version. Cost records store the version they were
+ * priced with, and findPrice(engine, at) still answers for past dates.
+ */
+
+export type PricingUnit = 'request' | 'second' | 'image';
+export type PricingCategory = 'text' | 'audio' | 'image' | 'video' | 'tool';
+
+export interface PriceEntry {
+  id: string;               // "provider/model"
+  provider: string;
+  model: string;
+  category: PricingCategory;
+  unit: PricingUnit;
+  usd_per_unit: number;
+  typical_units?: number;   // Units in one typical operation (a 5s clip, a 25s voiceover); default 1
+  effective_from: string;   // ISO date, inclusive
+  effective_to?: string;    // ISO date, exclusive
+  aliases?: string[];       // Engine ids used by registries and cost records
+}
+
+export interface PricingCatalog {
+  version: string;
+  currency: 'USD';
+  prices: PriceEntry[];
+  // Per-operation estimate for engines the catalog does not know
+  fallbacks: Record<PricingCategory | 'default', number>;
+}
+
+export interface PricedUsage {
+  cost_usd: number;
+  pricing_version: string;
+  price_id: string | null;  // null when a fallback was used
+  unit: PricingUnit | null;
+  units: number;
+}
+
+const SINCE = '2025-01-01';
+
+export const PRICING_CATALOG: PricingCatalog = {
+  version: '2025.12.31',
+  currency: 'USD',
+  prices: [
+    // ============= TEXT =============
+    { id: 'google/gemini-2.5-flash', provider: 'google', model: 'gemini-2.5-flash', category: 'text', unit: 'request', usd_per_unit: 0.001, effective_from: SINCE, aliases: ['gemini', 'gemini-flash', 'lovable-ai'] },
+    { id: 'google/gemini-2.5-flash-lite', provider: 'google', model: 'gemini-2.5-flash-lite', category: 'text', unit: 'request', usd_per_unit: 0.0005, effective_from: SINCE },
+    { id: 'google/gemini-2.5-pro', provider: 'google', model: 'gemini-2.5-pro', category: 'text', unit: 'request', usd_per_unit: 0.005, effective_from: SINCE, aliases: ['gemini-pro'] },
+    { id: 'google/gemini-3-pro-preview', provider: 'google', model: 'gemini-3-pro-preview', category: 'text', unit: 'request', usd_per_unit: 0.006, effective_from: SINCE },
+    { id: 'openai/gpt-5', provider: 'openai', model: 'gpt-5', category: 'text', unit: 'request', usd_per_unit: 0.01, effective_from: SINCE },
+    { id: 'openai/gpt-5-mini', provider: 'openai', model: 'gpt-5-mini', category: 'text', unit: 'request', usd_per_unit: 0.002, effective_from: SINCE, aliases: ['chatgpt'] },
+    { id: 'openai/gpt-5-nano', provider: 'openai', model: 'gpt-5-nano', category: 'text', unit: 'request', usd_per_unit: 0.0008, effective_from: SINCE },
+
+    // ============= AUDIO =============
+    { id: 'elevenlabs/multilingual-v2', provider: 'elevenlabs', model: 'multilingual-v2', category: 'audio', unit: 'second', usd_per_unit: 0.002, typical_units: 25, effective_from: SINCE, aliases: ['elevenlabs'] },
+    { id: 'openai/tts-1', provider: 'openai', model: 'tts-1', category: 'audio', unit: 'second', usd_per_unit: 0.0015, typical_units: 20, effective_from: SINCE, aliases: ['openai-tts'] },
+    { id: 'playht/play-3.0', provider: 'playht', model: 'play-3.0', category: 'audio', unit: 'request', usd_per_unit: 0.02, effective_from: SINCE, aliases: ['playht'] },
+    { id: 'deepgram/aura', provider: 'deepgram', model: 'aura', category: 'audio', unit: 'request', usd_per_unit: 0.01, effective_from: SINCE, aliases: ['deepgram'] },
+
+    // ============= IMAGE =============
+    { id: 'google/gemini-2.5-flash-image', provider: 'google', model: 'gemini-2.5-flash-image', category: 'image', unit: 'image', usd_per_unit: 0.02, effective_from: SINCE, aliases: ['nano-banana', 'nanobanana', 'gemini-image'] },
+    { id: 'google/gemini-3-pro-image-preview', provider: 'google', model: 'gemini-3-pro-image-preview', category: 'image', unit: 'image', usd_per_unit: 0.03, effective_from: SINCE },
+    { id: 'bfl/flux-pro', provider: 'bfl', model: 'flux-pro', category: 'image', unit: 'image', usd_per_unit: 0.05, effective_from: SINCE, aliases: ['flux'] },
+    { id: 'leonardo/phoenix', provider: 'leonardo', model: 'phoenix', category: 'image', unit: 'image', usd_per_unit: 0.04, effective_from: SINCE, aliases: ['leonardo'] },
+    { id: 'openai/dall-e-3', provider: 'openai', model: 'dall-e-3', category: 'image', unit: 'image', usd_per_unit: 0.04, effective_from: SINCE, aliases: ['dalle', 'dall-e'] },
+    { id: 'bytedance/seedream', provider: 'bytedance', model: 'seedream', category: 'image', unit: 'image', usd_per_unit: 0.03, effective_from: SINCE, aliases: ['seedream'] },
+
+    // ============= VIDEO (per generated second, 5s clips) =============
+    { id: 'ffmpeg/local', provider: 'ffmpeg', model: 'local', category: 'video', unit: 'second', usd_per_unit: 0, effective_from: SINCE, aliases: ['ffmpeg-local', 'ffmpeg-edge', 'ffmpeg-motion', 'ffmpeg-creative', 'server-ffmpeg'] },
+    { id: 'kling/kling-2.5', provider: 'kling', model: 'kling-2.5', category: 'video', unit: 'second', usd_per_unit: 0.05, typical_units: 5, effective_from: SINCE, aliases: ['kling', 'kling-standard'] },
+    { id: 'kling/kling-2.6-pro', provider: 'kling', model: 'kling-2.6-pro', category: 'video', unit: 'second', usd_per_unit: 0.10, typical_units: 5, effective_from: SINCE, aliases: ['kling-pro', 'kling-2.6'] },
+    { id: 'minimax/video-01', provider: 'minimax', model: 'video-01', category: 'video', unit: 'second', usd_per_unit: 0.04, typical_units: 5, effective_from: SINCE, aliases: ['minimax'] },
+    { id: 'minimax/hailuo-02', provider: 'minimax', model: 'hailuo-02', category: 'video', unit: 'second', usd_per_unit: 0.06, typical_units: 5, effective_from: SINCE, aliases: ['hailuo'] },
+    { id: 'alibaba/wan-2.5', provider: 'alibaba', model: 'wan-2.5', category: 'video', unit: 'second', usd_per_unit: 0.03, typical_units: 5, effective_from: SINCE, aliases: ['wan', 'wan-2-5'] },
+    { id: 'haiper/haiper-2', provider: 'haiper', model: 'haiper-2', category: 'video', unit: 'second', usd_per_unit: 0.035, typical_units: 5, effective_from: SINCE, aliases: ['haiper'] },
+    { id: 'bfl/flux-video', provider: 'bfl', model: 'flux-video', category: 'video', unit: 'second', usd_per_unit: 0.045, typical_units: 5, effective_from: SINCE },
+    { id: 'character-ai/ovi', provider: 'character-ai', model: 'ovi', category: 'video', unit: 'second', usd_per_unit: 0.03, typical_units: 5, effective_from: SINCE, aliases: ['ovi'] },
+    { id: 'google/veo-3', provider: 'google', model: 'veo-3', category: 'video', unit: 'second', usd_per_unit: 0.15, typical_units: 5, effective_from: SINCE, aliases: ['veo'] },
+    { id: 'runway/gen-3', provider: 'runway', model: 'gen-3', category: 'video', unit: 'second', usd_per_unit: 0.12, typical_units: 5, effective_from: SINCE, aliases: ['runway', 'runway-gen3', 'runway-gen-3'] },
+    { id: 'openai/sora-2', provider: 'openai', model: 'sora-2', category: 'video', unit: 'second', usd_per_unit: 0.20, typical_units: 5, effective_from: SINCE, aliases: ['sora'] },
+    { id: 'openai/sora-2-pro', provider: 'openai', model: 'sora-2-pro', category: 'video', unit: 'second', usd_per_unit: 0.25, typical_units: 5, effective_from: SINCE, aliases: ['sora-pro'] },
+    { id: 'pika/pika-2.1', provider: 'pika', model: 'pika-2.1', category: 'video', unit: 'second', usd_per_unit: 0.10, typical_units: 5, effective_from: SINCE, aliases: ['pika', 'pika-2-1'] },
+    { id: 'luma/dream-machine', provider: 'luma', model: 'dream-machine', category: 'video', unit: 'second', usd_per_unit: 0.08, typical_units: 5, effective_from: SINCE, aliases: ['luma'] },
+    { id: 'stability/stable-video', provider: 'stability', model: 'stable-video', category: 'video', unit: 'second', usd_per_unit: 0.09, typical_units: 5, effective_from: SINCE },
+
+    // ============= TALKING ACTORS =============
+    { id: 'heygen/avatar', provider: 'heygen', model: 'avatar', category: 'video', unit: 'second', usd_per_unit: 0.25, typical_units: 5, effective_from: SINCE, aliases: ['heygen'] },
+    { id: 'bytedance/omnihuman', provider: 'bytedance', model: 'omnihuman', category: 'video', unit: 'second', usd_per_unit: 0.18, typical_units: 5, effective_from: SINCE, aliases: ['omnihuman'] },
+    { id: 'arcads/actor', provider: 'arcads', model: 'actor', category: 'video', unit: 'request', usd_per_unit: 0.45, effective_from: SINCE, aliases: ['arcads'] },
+    { id: 'd-id/talks', provider: 'd-id', model: 'talks', category: 'video', unit: 'request', usd_per_unit: 0.45, effective_from: SINCE, aliases: ['d-id'] },
+    { id: 'synthesia/avatar', provider: 'synthesia', model: 'avatar', category: 'video', unit: 'request', usd_per_unit: 0.70, effective_from: SINCE, aliases: ['synthesia'] },
+    { id: 'actors/audio-driven', provider: 'actors', model: 'audio-driven', category: 'video', unit: 'request', usd_per_unit: 0.15, effective_from: '2025-12-31', aliases: ['audio-driven'] },
+    { id: 'actors/custom-actor', provider: 'actors', model: 'custom-actor', category: 'video', unit: 'request', usd_per_unit: 0.30, effective_from: '2025-12-31', aliases: ['custom-actor'] },
+
+    // ============= TOOLS =============
+    { id: 'tools/video-upscale', provider: 'tools', model: 'video-upscale', category: 'tool', unit: 'request', usd_per_unit: 0.10, effective_from: SINCE, aliases: ['video-upscale'] },
+    { id: 'tools/image-upscale', provider: 'tools', model: 'image-upscale', category: 'tool', unit: 'request', usd_per_unit: 0.02, effective_from: SINCE, aliases: ['image-upscale'] },
+    { id: 'tools/video-captions', provider: 'tools', model: 'video-captions', category: 'tool', unit: 'request', usd_per_unit: 0.05, effective_from: SINCE, aliases: ['video-captions'] },
+    { id: 'tools/skin-enhancer', provider: 'tools', model: 'skin-enhancer', category: 'tool', unit: 'request', usd_per_unit: 0.03, effective_from: SINCE, aliases: ['skin-enhancer'] },
+    { id: 'tools/animate-actor', provider: 'tools', model: 'animate-actor', category: 'tool', unit: 'request', usd_per_unit: 0.05, effective_from: '2025-12-31', aliases: ['animate-actor'] },
+    { id: 'tools/swap-actor', provider: 'tools', model: 'swap-actor', category: 'tool', unit: 'request', usd_per_unit: 0.10, effective_from: '2025-12-31', aliases: ['swap-actor'] },
+    { id: 'tools/hook-repurposer', provider: 'tools', model: 'hook-repurposer', category: 'tool', unit: 'request', usd_per_unit: 0.08, effective_from: '2025-12-31', aliases: ['hook-repurposer'] },
+
+    // ============= PRESETS =============
+    { id: 'presets/show-your-app', provider: 'presets', model: 'show-your-app', category: 'tool', unit: 'request', usd_per_unit: 0.12, effective_from: '2025-12-31', aliases: ['show-your-app'] },
+    { id: 'presets/unboxing-pov', provider: 'presets', model: 'unboxing-pov', category: 'tool', unit: 'request', usd_per_unit: 0.15, effective_from: '2025-12-31', aliases: ['unboxing-pov'] },
+  ],
+  fallbacks: {
+    text: 0.002,
+    audio: 0.04,
+    image: 0.03,
+    video: 0.30,
+    tool: 0.05,
+    default: 0.01,
+  },
+};
+
+export const PRICING_CATALOG_VERSION = PRICING_CATALOG.version;
+
+// ============= LOOKUP =============
+
+/**
+ * "Kling_Standard", "kling standard" and "kling-standard" are the same engine
+ */
+export function normalizePricingKey(engine: string): string {
+  return engine.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+function isEffective(entry: PriceEntry, at: string): boolean {
+  return entry.effective_from <= at && (!entry.effective_to || at < entry.effective_to);
+}
+
+function keysOf(entry: PriceEntry): string[] {
+  return [entry.id, entry.model, ...(entry.aliases || [])].map(normalizePricingKey);
+}
+
+// Key appears in the name as whole words: "ovi" is in "ovi-fast", not in "movie"
+function containsKey(name: string, key: string): boolean {
+  let from = name.indexOf(key);
+  while (from !== -1) {
+    const before = name[from - 1];
+    const after = name[from + key.length];
+    if ((!before || !/[a-z0-9]/.test(before)) && (!after || !/[a-z0-9]/.test(after))) return true;
+    from = name.indexOf(key, from + 1);
+  }
+  return false;
+}
+
+/**
+ * Price in effect for an engine at a date. Exact ids, models and aliases
+ * win; otherwise the longest key contained in the name as whole words
+ * ("kling-2.6-pro-turbo" → kling-2.6-pro).
+ */
+export function findPrice(engine: string, at: Date | string = new Date()): PriceEntry | null {
+  const key = normalizePricingKey(engine);
+  if (!key) return null;
+  const day = (typeof at === 'string' ? at : at.toISOString()).slice(0, 10);
+  const candidates = PRICING_CATALOG.prices.filter(entry => isEffective(entry, day));
+
+  const exact = candidates.find(entry => keysOf(entry).includes(key));
+  if (exact) return exact;
+
+  let best: { entry: PriceEntry; length: number } | null = null;
+  for (const entry of candidates) {
+    for (const candidate of keysOf(entry)) {
+      const short = candidate.split('/').pop() || candidate;
+      if (short.length >= 3 && containsKey(key, short) && (!best || short.length > best.length)) {
+        best = { entry, length: short.length };
+      }
+    }
+  }
+  return best?.entry ?? null;
+}
+
+/**
+ * Category of an operation from its name, for engines without a price
+ */
+export function categorizeOperation(operationType?: string): PricingCategory | null {
+  const op = (operationType || '').toLowerCase();
+  if (op.includes('video') || op.includes('scene')) return 'video';
+  if (op.includes('image') || op.includes('thumbnail')) return 'image';
+  if (op.includes('audio') || op.includes('voice')) return 'audio';
+  if (op.includes('text') || op.includes('script') || op.includes('content')) return 'text';
+  return null;
+}
+
+/**
+ * Price one operation. Per-second engines bill usage.duration_sec when
+ * given, otherwise their typical units; usage.units overrides both.
+ * Engines the catalog does not know get the fallback for usage.category,
+ * or for the category guessed from the operation name.
+ */
+export function priceUsage(
+  engine: string,
+  usage: { operation_type?: string; category?: PricingCategory; duration_sec?: number | null; units?: number } = {},
+  at: Date | string = new Date()
+): PricedUsage {
+  const entry = findPrice(engine, at);
+  if (!entry) {
+    const category = usage.category ?? categorizeOperation(usage.operation_type);
+    return {
+      cost_usd: PRICING_CATALOG.fallbacks[category ?? 'default'],
+      pricing_version: PRICING_CATALOG.version,
+      price_id: null,
+      unit: null,
+      units: 1,
+    };
+  }
+
+  const units = usage.units
+    ?? (entry.unit === 'second' && usage.duration_sec ? usage.duration_sec : entry.typical_units ?? 1);
+  return {
+    cost_usd: Math.round(entry.usd_per_unit * units * 1e6) / 1e6,
+    pricing_version: PRICING_CATALOG.version,
+    price_id: entry.id,
+    unit: entry.unit,
+    units,
+  };
+}
+
+/**
+ * Cost of one typical operation (a request, an image, a 5s clip)
+ */
+export function estimateOperationCost(engine: string, operationType?: string, at: Date | string = new Date()): number {
+  return priceUsage(engine, { operation_type: operationType }, at).cost_usd;
+}
+
+/**
+ * Per-second price, or 0 for engines not billed by the second
+ */
+export function getPricePerSecond(engine: string, at: Date | string = new Date()): number {
+  const entry = findPrice(engine, at);
+  return entry?.unit === 'second' ? entry.usd_per_unit : 0;
+}
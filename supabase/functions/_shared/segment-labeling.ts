@@ -0,0 +1,69 @@
+/**
+ * Segment Labeling Prompts - labels for signal-segmented videos
+ *
+ * Used by creative-scale-analyze and, through src/lib/creative-scale/prompts,
+ * by the app. The model never sees the video: it gets the measured segment
+ * timings and, where speech was transcribed, each segment's transcript, and
+ * only returns the labels it can infer from those.
+ */
+
+export interface SegmentLabelingInput {
+  id: string;
+  start_ms: number;
+  end_ms: number;
+  transcript: string | null; // Measured by ASR, null when nothing was transcribed
+}
+
+export const SEGMENT_LABELING_SYSTEM_PROMPT = `You are a video ad analyst. The video has already been segmented from its scene cuts and pauses. Your ONLY job is to label each segment.
+
+OUTPUT RULES:
+- Return ONLY valid JSON matching the schema exactly
+- Keep every segment id, in the same order
+- NEVER output timings: start and end times are measured and final
+- NEVER output transcripts: the words spoken are measured and final
+- Base every label on the segment's position, timing and transcript only
+
+SEGMENT TYPES:
+- hook: Opening attention-grabber (first 1-5 seconds typically)
+- problem: Pain point or challenge being addressed
+- solution: Product/service being presented as answer
+- benefit: Specific advantage or outcome
+- proof: Social proof, testimonials, results
+- cta: Call to action
+- filler: Non-essential content (transitions, logos, padding)`;
+
+export const hasTranscript = (segments: SegmentLabelingInput[]) =>
+  segments.some(s => !!s.transcript?.trim());
+
+export const SEGMENT_LABELING_USER_PROMPT = (context: {
+  segments: SegmentLabelingInput[];
+  language?: string;
+}) => {
+  const spoken = hasTranscript(context.segments);
+  // Tone and CTA strength can only be judged from the words
+  const speechFields = spoken
+    ? `,
+  "voice_tone": "<casual|professional|urgent|friendly|null>",
+  "cta_effectiveness": <0-1>`
+    : '';
+
+  return `Label the segments of this video ad:
+
+${context.segments
+  .map(s => `${s.id}: ${s.start_ms}ms - ${s.end_ms}ms${s.transcript?.trim() ? ` "${s.transcript.trim()}"` : ''}`)
+  .join('\n')}
+${spoken ? 'Quoted text is the transcript of each segment.' : 'No speech was transcribed: label from position and timing only.'}
+${context.language ? `Language: ${context.language}` : ''}
+
+Return this exact JSON structure:
+{
+  "segments": [
+    {
+      "id": "<segment id from the list>",
+      "type": "<hook|problem|solution|benefit|proof|cta|filler>"
+    }
+  ]${speechFields}
+}
+
+Return ONLY the JSON, no markdown, no explanation.`;
+};
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -69,18 +70,24 @@ serve(async (req) => {
         throw new Error(`Unknown preset: ${body.action}`);
     }
 
+    // Priced from the catalog by preset
+    const priced = priceUsage(body.action, { operation_type: "content_preset", category: "video" });
+    result.cost = priced.cost_usd;
+
     // Log usage
     await supabase.from("cost_transactions").insert({
       user_id: user.id,
       operation_type: "content_preset",
       engine_name: body.model,
       pipeline_stage: "video_generation",
-      cost_usd: result.cost || 0.10,
+      cost_usd: priced.cost_usd,
+      pricing_version: priced.pricing_version,
       metadata: {
         preset: body.action,
         language: body.language,
         targetMarket: body.targetMarket,
         duration: body.presetConfig?.duration,
+        price_id: priced.price_id,
       },
     });
 
@@ -127,7 +134,6 @@ async function handleShowYourApp(body: PresetRequest, supabase: any) {
     scenes,
     totalDuration: scenes.reduce((acc, s) => acc + s.duration, 0),
     style: "app-demo",
-    cost: 0.12,
     status: "ready",
     message: `App demo preset generated with ${scenes.length} scenes`,
   };
@@ -159,7 +165,6 @@ async function handleUnboxingPOV(body: PresetRequest, supabase: any) {
     scenes,
     totalDuration: scenes.reduce((acc, s) => acc + s.duration, 0),
     style: "unboxing-pov",
-    cost: 0.15,
     status: "ready",
     message: `Unboxing POV preset generated with ${scenes.length} scenes`,
   };
@@ -2,11 +2,11 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret, x-renderflow-signature',
 }
 
 interface WebhookPayload {
-  engine: 'runway' | 'pika' | 'heygen' | 'hailuo' | 'luma' | 'kling' | 'veo'
+  engine: 'runway' | 'pika' | 'heygen' | 'hailuo' | 'luma' | 'kling' | 'veo' | 'renderflow'
   job_id: string
   status: 'completed' | 'failed' | 'processing'
   video_url?: string
@@ -15,6 +15,35 @@ interface WebhookPayload {
   metadata?: Record<string, unknown>
 }
 
+// RenderFlow signs instead of sending the secret (server/renderflow/webhooks.cjs):
+// x-renderflow-signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+async function verifySignature(header: string, body: string, secret: string): Promise<boolean> {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${parts.t}.${body}`));
+  const expected = Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+  // Constant-time comparison
+  if (expected.length !== parts.v1.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ parts.v1.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -37,8 +66,9 @@ Deno.serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Verify webhook secret - REQUIRED for security
+    // Verify webhook secret (or RenderFlow signature) - REQUIRED for security
     const webhookSecret = req.headers.get('x-webhook-secret')
+    const signature = req.headers.get('x-renderflow-signature')
     const expectedSecret = Deno.env.get('AI_ENGINE_WEBHOOK_SECRET')
     
     if (!expectedSecret) {
@@ -49,7 +79,12 @@ Deno.serve(async (req) => {
       )
     }
 
-    if (webhookSecret !== expectedSecret) {
+    const rawBody = await req.text()
+    const authorized = signature
+      ? await verifySignature(signature, rawBody, expectedSecret)
+      : webhookSecret === expectedSecret
+
+    if (!authorized) {
       console.warn('[ai-engine-webhook] Invalid webhook secret')
       return new Response(
         JSON.stringify({ success: false, error: 'Invalid webhook secret' }),
@@ -57,7 +92,7 @@ Deno.serve(async (req) => {
       )
     }
 
-    const payload: WebhookPayload = await req.json()
+    const payload: WebhookPayload = JSON.parse(rawBody)
     console.log(`[ai-engine-webhook] Received callback from ${payload.engine}:`, payload)
 
     const { engine, job_id, status, video_url, thumbnail_url, error_message, metadata } = payload
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -78,17 +79,23 @@ serve(async (req) => {
         throw new Error(`Unknown actor model: ${body.action}`);
     }
 
+    // Priced from the catalog by actor model
+    const priced = priceUsage(body.action, { operation_type: "talking_actor", category: "video", duration_sec: result.duration });
+    result.cost = priced.cost_usd;
+
     // Log usage
     await supabase.from("cost_transactions").insert({
       user_id: user.id,
       operation_type: "talking_actor",
       engine_name: body.model,
       pipeline_stage: "video_generation",
-      cost_usd: result.cost || 0.20,
+      cost_usd: priced.cost_usd,
+      pricing_version: priced.pricing_version,
       metadata: {
         actorModel: body.action,
         language: body.language,
         targetMarket: body.targetMarket,
+        price_id: priced.price_id,
       },
     });
 
@@ -121,7 +128,6 @@ async function handleArcads(body: TalkingActorRequest, supabase: any) {
     actorId: `arcads-${Date.now()}`,
     style: selectedStyle,
     duration: 30,
-    cost: 0.25,
     status: "processing",
     message: `Arcads UGC actor video queued (${selectedStyle} style)`,
   };
@@ -140,7 +146,6 @@ async function handleAudioDriven(body: TalkingActorRequest, supabase: any) {
     actorId: `audio-driven-${Date.now()}`,
     audioSync: true,
     lipSyncAccuracy: 0.95,
-    cost: 0.15,
     status: "processing",
     message: "Audio-driven lip sync video queued",
   };
@@ -159,7 +164,6 @@ async function handleOmniHuman(body: TalkingActorRequest, supabase: any) {
     bodyType: selectedBodyType,
     fullBody: true,
     gestureControl: true,
-    cost: 0.35,
     status: "processing",
     message: `OmniHuman full-body actor queued (${selectedBodyType})`,
   };
@@ -178,7 +182,6 @@ async function handleCustomActor(body: TalkingActorRequest, supabase: any) {
     actorId: `custom-${Date.now()}`,
     customFace: true,
     sourceMedia: body.inputData?.imageUrl || body.inputData?.videoUrl,
-    cost: 0.30,
     status: "processing",
     message: "Custom actor video queued",
   };
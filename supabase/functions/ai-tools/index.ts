@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -34,6 +35,9 @@ interface ProviderResult {
   };
 }
 
+// Handlers report what ran; the price comes from the pricing catalog
+type ToolOutput = Omit<ProviderResult, 'cost'>;
+
 // Provider configurations
 const PROVIDERS = {
   fal_ai: { name: 'Fal AI', baseUrl: 'https://queue.fal.run', key: 'fal_ai' },
@@ -224,7 +228,7 @@ async function executeOpenRouter(model: string, body: ToolRequest, systemPrompt:
 }
 
 // Tool-specific handlers
-async function handleAnimateActor(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleAnimateActor(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -247,7 +251,6 @@ async function handleAnimateActor(body: ToolRequest, provider: string, model: st
       success: true,
       outputUrl,
       data: result,
-      cost: 0.05,
       message: 'Actor animation completed',
       debug: {
         provider,
@@ -262,7 +265,7 @@ async function handleAnimateActor(body: ToolRequest, provider: string, model: st
   }
 }
 
-async function handleSwapActor(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleSwapActor(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -282,7 +285,6 @@ async function handleSwapActor(body: ToolRequest, provider: string, model: strin
       success: true,
       outputUrl,
       data: result,
-      cost: 0.10,
       message: 'Face swap completed',
       debug: {
         provider,
@@ -297,7 +299,7 @@ async function handleSwapActor(body: ToolRequest, provider: string, model: strin
   }
 }
 
-async function handleVideoCaptions(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleVideoCaptions(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -339,7 +341,6 @@ async function handleVideoCaptions(body: ToolRequest, provider: string, model: s
       success: true,
       outputUrl: body.inputData?.videoUrl,
       data: { captions, transcript: captions.map(c => c.text).join(' ') },
-      cost: 0.02,
       message: `Generated ${captions.length} captions`,
       debug: {
         provider,
@@ -354,7 +355,7 @@ async function handleVideoCaptions(body: ToolRequest, provider: string, model: s
   }
 }
 
-async function handleSkinEnhancer(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleSkinEnhancer(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -382,7 +383,6 @@ async function handleSkinEnhancer(body: ToolRequest, provider: string, model: st
       success: true,
       outputUrl,
       data: result,
-      cost: 0.03,
       message: 'Skin enhancement applied',
       debug: {
         provider,
@@ -397,7 +397,7 @@ async function handleSkinEnhancer(body: ToolRequest, provider: string, model: st
   }
 }
 
-async function handleHookRepurposer(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleHookRepurposer(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -439,7 +439,6 @@ async function handleHookRepurposer(body: ToolRequest, provider: string, model:
       success: true,
       outputUrl: body.inputData?.videoUrl,
       data: { hooks, count: hooks.length },
-      cost: 0.08,
       message: `Generated ${hooks.length} hook variations`,
       debug: {
         provider,
@@ -454,7 +453,7 @@ async function handleHookRepurposer(body: ToolRequest, provider: string, model:
   }
 }
 
-async function handleVideoUpscale(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleVideoUpscale(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -475,7 +474,6 @@ async function handleVideoUpscale(body: ToolRequest, provider: string, model: st
       success: true,
       outputUrl,
       data: { ...result, originalResolution: '1080p', outputResolution: '4K' },
-      cost: 0.15,
       message: 'Video upscaled to 4K',
       debug: {
         provider,
@@ -490,7 +488,7 @@ async function handleVideoUpscale(body: ToolRequest, provider: string, model: st
   }
 }
 
-async function handleImageUpscale(body: ToolRequest, provider: string, model: string): Promise<ProviderResult> {
+async function handleImageUpscale(body: ToolRequest, provider: string, model: string): Promise<ToolOutput> {
   const startTime = Date.now();
   const attemptedProviders = [provider];
 
@@ -517,7 +515,6 @@ async function handleImageUpscale(body: ToolRequest, provider: string, model: st
       success: true,
       outputUrl,
       data: { ...result, scaleFactor: 4 },
-      cost: 0.02,
       message: 'Image upscaled 4x',
       debug: {
         provider,
@@ -567,37 +564,40 @@ serve(async (req) => {
 
     console.log(`Using provider: ${providerResolution.providerId} with model: ${providerResolution.model}`);
 
-    let result: ProviderResult;
+    let output: ToolOutput;
 
     // Route to appropriate handler
     switch (body.action) {
       case "animate-actor":
-        result = await handleAnimateActor(body, providerResolution.providerId, providerResolution.model);
+        output = await handleAnimateActor(body, providerResolution.providerId, providerResolution.model);
         break;
       case "swap-actor":
-        result = await handleSwapActor(body, providerResolution.providerId, providerResolution.model);
+        output = await handleSwapActor(body, providerResolution.providerId, providerResolution.model);
         break;
       case "video-captions":
-        result = await handleVideoCaptions(body, providerResolution.providerId, providerResolution.model);
+        output = await handleVideoCaptions(body, providerResolution.providerId, providerResolution.model);
         break;
       case "skin-enhancer":
-        result = await handleSkinEnhancer(body, providerResolution.providerId, providerResolution.model);
+        output = await handleSkinEnhancer(body, providerResolution.providerId, providerResolution.model);
         break;
       case "hook-repurposer":
-        result = await handleHookRepurposer(body, providerResolution.providerId, providerResolution.model);
+        output = await handleHookRepurposer(body, providerResolution.providerId, providerResolution.model);
         break;
       case "video-upscale":
-        result = await handleVideoUpscale(body, providerResolution.providerId, providerResolution.model);
+        output = await handleVideoUpscale(body, providerResolution.providerId, providerResolution.model);
         break;
       case "image-upscale":
-        result = await handleImageUpscale(body, providerResolution.providerId, providerResolution.model);
+        output = await handleImageUpscale(body, providerResolution.providerId, providerResolution.model);
         break;
       default:
         throw new Error(`Unknown tool action: ${body.action}`);
     }
 
     // Update debug info with resolution reason
-    result.debug.reason = providerResolution.reason;
+    output.debug.reason = providerResolution.reason;
+
+    const priced = priceUsage(body.action, { operation_type: body.action, category: "tool" });
+    const result: ProviderResult = { ...output, cost: priced.cost_usd };
 
     // Log usage for cost tracking
     await supabase.from("cost_transactions").insert({
@@ -605,13 +605,15 @@ serve(async (req) => {
       operation_type: body.action,
       engine_name: `${result.debug.provider}/${result.debug.model}`,
       pipeline_stage: "ai_tools",
-      cost_usd: result.cost,
+      cost_usd: priced.cost_usd,
+      pricing_version: priced.pricing_version,
       metadata: {
         language: body.language,
         targetMarket: body.targetMarket,
         provider: result.debug.provider,
         model: result.debug.model,
         executionTimeMs: result.debug.executionTimeMs,
+        price_id: priced.price_id,
       },
     });
 
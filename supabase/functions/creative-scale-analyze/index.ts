@@ -1,27 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { callAI, isAIAvailable, AIError } from "../_shared/ai-gateway.ts";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
+import {
+  SEGMENT_LABELING_SYSTEM_PROMPT,
+  SEGMENT_LABELING_USER_PROMPT,
+  hasTranscript,
+} from "../_shared/segment-labeling.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Cost tracking helper
-async function trackCost(userId: string, pipelineStage: string, engineName: string, operationType: string, costUsd: number) {
+// Cost tracking helper: one model call, priced from the catalog by model
+async function trackCost(userId: string, pipelineStage: string, engineName: string, model: string, operationType: string) {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     if (!supabaseUrl || !supabaseKey) return;
 
+    const priced = priceUsage(model, { operation_type: operationType, category: 'text' });
     const supabase = createClient(supabaseUrl, supabaseKey);
     await supabase.from('cost_transactions').insert({
       user_id: userId,
       pipeline_stage: pipelineStage,
       engine_name: engineName,
       operation_type: operationType,
-      cost_usd: costUsd,
-      metadata: { source: 'creative-scale' }
+      cost_usd: priced.cost_usd,
+      pricing_version: priced.pricing_version,
+      metadata: { source: 'creative-scale', model, price_id: priced.price_id }
     });
   } catch (e) {
     console.warn('[cost-tracking] Failed to track cost:', e);
@@ -34,7 +42,7 @@ serve(async (req) => {
   }
 
   try {
-    const { video_url, video_id, language, market } = await req.json();
+    const { video_url, video_id, language, market, signal_analysis } = await req.json();
 
     // Get user ID from auth header for cost tracking
     let userId: string | null = null;
@@ -125,6 +133,31 @@ serve(async (req) => {
 
     console.log(`[creative-scale-analyze] Analyzing video: ${video_id}`);
 
+    // Segmented from the media on the VPS: the model only labels segments
+    if (Array.isArray(signal_analysis?.segments) && signal_analysis.segments.length > 0) {
+      const { analysis, provider, model } = await labelSignalAnalysis(signal_analysis, { language, apiKeys });
+      console.log(`[creative-scale-analyze] Labeled ${analysis.segments.length} measured segments (provider: ${provider})`);
+
+      if (userId) {
+        await trackCost(userId, 'creative_scale_analyze', provider, model, 'segment_labeling');
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          analysis,
+          meta: {
+            video_id,
+            segments_count: analysis.segments.length,
+            provider,
+            source: 'signals',
+            processed_at: new Date().toISOString()
+          }
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const systemPrompt = `You are a video ad analyst. Your ONLY job is to segment and score existing video ads.
 
 OUTPUT RULES:
@@ -339,7 +372,7 @@ Return ONLY the JSON, no markdown, no explanation.`;
 
     // Track cost for successful analysis
     if (userId) {
-      await trackCost(userId, 'creative_scale_analyze', aiResponse.provider, 'video_analysis', 0.002);
+      await trackCost(userId, 'creative_scale_analyze', aiResponse.provider, aiResponse.model, 'video_analysis');
     }
 
     return new Response(
@@ -383,6 +416,93 @@ Return ONLY the JSON, no markdown, no explanation.`;
   }
 });
 
+const SEGMENT_TYPES = ['hook', 'problem', 'solution', 'benefit', 'proof', 'cta', 'filler'];
+const VOICE_TONES = ['casual', 'professional', 'urgent', 'friendly'];
+
+interface SignalSegment {
+  id: string;
+  type: string;
+  start_ms: number;
+  end_ms: number;
+  transcript: string | null;
+  visual_tags: string[];
+}
+
+interface SignalAnalysis {
+  segments: SignalSegment[];
+  audio: Record<string, unknown>;
+  overall_scores: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+interface SegmentLabels {
+  segments?: Array<{ id?: string; type?: string }>;
+  voice_tone?: string | null;
+  cta_effectiveness?: unknown;
+}
+
+// Label a signal-based analysis. Timings, transcripts, visual tags, scores and
+// metadata are kept as measured; the model only sees timings and transcripts.
+async function labelSignalAnalysis(
+  signalAnalysis: SignalAnalysis,
+  options: { language?: string; apiKeys: Record<string, string> }
+): Promise<{ analysis: SignalAnalysis; provider: string; model: string }> {
+  const segments = signalAnalysis.segments.map(s => ({
+    id: s.id,
+    start_ms: s.start_ms,
+    end_ms: s.end_ms,
+    transcript: typeof s.transcript === 'string' ? s.transcript : null,
+  }));
+  const spoken = hasTranscript(segments);
+
+  const aiResponse = await callAI({
+    messages: [
+      { role: 'system', content: SEGMENT_LABELING_SYSTEM_PROMPT },
+      { role: 'user', content: SEGMENT_LABELING_USER_PROMPT({ segments, language: options.language }) }
+    ],
+    temperature: 0.2,
+    apiKeys: options.apiKeys,
+  });
+
+  const content = aiResponse.content || '';
+  const jsonStart = content.indexOf('{');
+  const jsonEnd = content.lastIndexOf('}');
+  let labels: SegmentLabels = {};
+  try {
+    labels = JSON.parse(content.substring(jsonStart, jsonEnd + 1));
+  } catch (e) {
+    // Placeholder types are still a valid analysis
+    console.warn('[creative-scale-analyze] Could not parse segment labels, keeping placeholders:', e);
+  }
+
+  const byId = new Map((Array.isArray(labels.segments) ? labels.segments : []).map(l => [l?.id, l]));
+  const analysis: SignalAnalysis = {
+    ...signalAnalysis,
+    segments: signalAnalysis.segments.map(segment => {
+      const label = byId.get(segment.id);
+      if (!label) return segment;
+      return {
+        ...segment,
+        type: label.type && SEGMENT_TYPES.includes(label.type) ? label.type : segment.type,
+      };
+    }),
+    audio: {
+      ...signalAnalysis.audio,
+      voice_tone: spoken && labels.voice_tone && VOICE_TONES.includes(labels.voice_tone)
+        ? labels.voice_tone
+        : signalAnalysis.audio?.voice_tone ?? null,
+    },
+    overall_scores: {
+      ...signalAnalysis.overall_scores,
+      cta_effectiveness: spoken && typeof labels.cta_effectiveness === 'number'
+        ? Math.min(1, Math.max(0, labels.cta_effectiveness))
+        : signalAnalysis.overall_scores?.cta_effectiveness,
+    },
+  };
+
+  return { analysis, provider: aiResponse.provider, model: aiResponse.model };
+}
+
 // Helper to generate user-friendly error messages
 function getUserFriendlyMessage(err: AIError): string {
   switch (err.type) {
@@ -1,82 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { buildFFmpegCommand, formatFFmpegCommand, type RenderPlan } from "../_shared/ffmpeg-plan-builder.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface TimelineSegment {
-  segment_id: string;
-  track: 'main' | 'overlay' | 'video';
-  asset_url: string;
-  source_start_ms: number;
-  source_duration_ms: number;
-  timeline_start_ms: number;
-  timeline_end_ms: number;
-  output_duration_ms: number;
-  speed_multiplier: number;
-}
-
-interface AudioTrack {
-  track_id: string;
-  source_url: string;
-  start_ms: number;
-  end_ms: number;
-  volume: number;
-  fade_in_ms: number;
-  fade_out_ms: number;
-}
-
-interface ExecutionPlan {
-  plan_id: string;
-  status: 'compilable' | 'uncompilable';
-  output_format: {
-    container: string;
-    width: number;
-    height: number;
-    bitrate_kbps: number;
-  };
-  timeline: TimelineSegment[];
-  audio_tracks: AudioTrack[];
-  validation: {
-    total_duration_ms: number;
-    segment_count: number;
-    has_gaps: boolean;
-    has_overlaps: boolean;
-    warnings: string[];
-  };
-}
-
-// Generate FFmpeg command for external execution
-function generateFFmpegCommand(plan: ExecutionPlan): string {
-  const mainSegments = plan.timeline.filter(s => s.track === 'main' || s.track === 'video');
-  if (mainSegments.length === 0) {
-    return '# No video segments found in plan';
-  }
-
-  const inputArgs: string[] = [];
-  mainSegments.forEach((segment, i) => {
-    inputArgs.push(`-i "${segment.asset_url}"`);
-  });
-
-  let filterComplex = '';
-  if (mainSegments.length > 1) {
-    for (let i = 0; i < mainSegments.length; i++) {
-      const segment = mainSegments[i];
-      const duration = segment.output_duration_ms / 1000;
-      const speed = segment.speed_multiplier || 1.0;
-      filterComplex += `[${i}:v]trim=duration=${duration},setpts=PTS/${speed}/STARTPTS,scale=${plan.output_format.width}:${plan.output_format.height}:force_original_aspect_ratio=decrease,pad=${plan.output_format.width}:${plan.output_format.height}:(ow-iw)/2:(oh-ih)/2[v${i}];`;
-    }
-    filterComplex += mainSegments.map((_, i) => `[v${i}]`).join('') + `concat=n=${mainSegments.length}:v=1:a=0[vout]`;
-  } else {
-    const speed = mainSegments[0].speed_multiplier || 1.0;
-    filterComplex = `[0:v]setpts=PTS/${speed},scale=${plan.output_format.width}:${plan.output_format.height}:force_original_aspect_ratio=decrease,pad=${plan.output_format.width}:${plan.output_format.height}:(ow-iw)/2:(oh-ih)/2[vout]`;
-  }
-
-  const totalDuration = plan.validation.total_duration_ms / 1000;
-  
-  return `ffmpeg -y ${inputArgs.join(' ')} -filter_complex "${filterComplex}" -map "[vout]" -t ${Math.min(totalDuration, 60)} -c:v libx264 -preset fast -crf 23 -pix_fmt yuv420p output.mp4`;
-}
+// Local placeholder for segments without their own asset_url when the caller sends no source_url
+const LOCAL_SOURCE = 'source.mp4';
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -84,7 +15,7 @@ serve(async (req) => {
   }
 
   try {
-    const { execution_plan, user_id, variation_index } = await req.json();
+    const { execution_plan, source_url, user_id, variation_index } = await req.json();
 
     if (!execution_plan) {
       return new Response(
@@ -93,13 +24,26 @@ serve(async (req) => {
       );
     }
 
+    if (execution_plan.status !== 'compilable') {
+      return new Response(
+        JSON.stringify({ success: false, error: `Plan is not compilable: ${execution_plan.reason || 'unknown reason'}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log('[render] Received plan:', execution_plan.plan_id);
     console.log('[render] Timeline segments:', execution_plan.timeline?.length);
     console.log('[render] User:', user_id);
 
     // Supabase Edge Runtime does not support spawning subprocesses (FFmpeg)
     // Return the execution plan with FFmpeg command for external processing
-    const ffmpegCommand = generateFFmpegCommand(execution_plan);
+    const plan = execution_plan as RenderPlan;
+    const { args } = buildFFmpegCommand(plan, {
+      sourceUrl: source_url || LOCAL_SOURCE,
+      outputPath: `output.${plan.output_format.container}`,
+      preset: 'fast',
+    });
+    const ffmpegCommand = formatFFmpegCommand(args);
     
     console.log('[render] Generated FFmpeg command for external processing');
 
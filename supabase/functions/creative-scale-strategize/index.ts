@@ -1,27 +1,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { callAI, AIError } from "../_shared/ai-gateway.ts";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Cost tracking helper
-async function trackCost(userId: string, pipelineStage: string, engineName: string, operationType: string, costUsd: number) {
+// Cost tracking helper: one model call, priced from the catalog by model
+async function trackCost(userId: string, pipelineStage: string, engineName: string, model: string, operationType: string) {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     if (!supabaseUrl || !supabaseKey) return;
 
+    const priced = priceUsage(model, { operation_type: operationType, category: 'text' });
     const supabase = createClient(supabaseUrl, supabaseKey);
     await supabase.from('cost_transactions').insert({
       user_id: userId,
       pipeline_stage: pipelineStage,
       engine_name: engineName,
       operation_type: operationType,
-      cost_usd: costUsd,
-      metadata: { source: 'creative-scale' }
+      cost_usd: priced.cost_usd,
+      pricing_version: priced.pricing_version,
+      metadata: { source: 'creative-scale', model, price_id: priced.price_id }
     });
   } catch (e) {
     console.warn('[cost-tracking] Failed to track cost:', e);
@@ -330,7 +333,7 @@ console.log(`[creative-scale-strategize] Success: ${blueprint.variation_ideas?.l
 
 // Track cost for successful strategy generation
 if (userId) {
-  await trackCost(userId, 'creative_scale_strategy', aiResponse.provider, 'strategy_generation', 0.002);
+  await trackCost(userId, 'creative_scale_strategy', aiResponse.provider, aiResponse.model, 'strategy_generation');
 }
 
 return new Response(
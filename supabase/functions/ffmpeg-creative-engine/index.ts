@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCropFilter,
+  buildFFmpegCommand,
+  type RenderOutputFormat,
+  type RenderPlan,
+  type RenderTimelineSegment,
+  type RenderTransitionType,
+} from "../_shared/ffmpeg-plan-builder.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,6 +28,14 @@ interface FFmpegTask {
   maxDuration?: number;
   removesSilence?: boolean;
   motionEffect?: 'ken-burns' | 'parallax' | 'zoom' | 'pan' | 'shake';
+  // Subject-tracking crop per ratio (CropPath from src/lib/reframe), times in the input video
+  reframePaths?: Record<string, CropPathInput>;
+}
+
+interface CropPathInput {
+  width: number;  // Fraction of the input width
+  height: number; // Fraction of the input height
+  keyframes: { t_ms: number; x: number; y: number }[]; // Top-left, fractions of the input
 }
 
 interface AssemblyConfig {
@@ -208,6 +224,55 @@ async function applySmartCut(inputPath: string, outputPath: string): Promise<FFm
   return await executeFFmpeg(args);
 }
 
+// Clips are rendered as an ExecutionPlan by the shared builder
+const CLIP_OUTPUT_FORMAT: RenderOutputFormat = {
+  container: 'mp4',
+  width: 1080,
+  height: 1920,
+  fps: 30,
+  bitrate_kbps: 4000,
+  audio_bitrate_kbps: 128,
+  codec_hint: 'h264',
+};
+
+// Task transition names → plan transitions (glitch has no xfade equivalent, dissolve is closest)
+const CLIP_TRANSITIONS: Record<string, RenderTransitionType> = {
+  'whip-pan': 'wipe-left',
+  'slide': 'slide-left',
+  'zoom': 'zoom',
+  'glitch': 'dissolve',
+};
+
+// Each clip from its start for clipDurationMs, back to back (overlapping by
+// transitionMs where there is a transition) and cut at maxDurationMs
+function clipSequencePlan(
+  planId: string,
+  inputPaths: string[],
+  clipDurationMs: number,
+  { transitions = [], transitionMs = 0, maxDurationMs = Infinity }: { transitions?: string[]; transitionMs?: number; maxDurationMs?: number } = {}
+): RenderPlan {
+  const timeline: RenderTimelineSegment[] = [];
+  let start = 0;
+  for (let i = 0; i < inputPaths.length && start < maxDurationMs; i++) {
+    const duration = Math.min(clipDurationMs, maxDurationMs - start);
+    const transition = i > 0 && transitions.length > 0 ? transitions[(i - 1) % transitions.length] : null;
+    timeline.push({
+      segment_id: `clip_${i}`,
+      asset_url: inputPaths[i],
+      trim_start_ms: 0,
+      trim_end_ms: duration,
+      timeline_start_ms: start,
+      timeline_end_ms: start + duration,
+      speed_multiplier: 1,
+      transition_in: transition ? { type: CLIP_TRANSITIONS[transition] || 'fade', duration_ms: transitionMs } : undefined,
+      track: 'video',
+      layer: 0,
+    });
+    start += duration - (transitions.length > 0 ? transitionMs : 0);
+  }
+  return { plan_id: planId, status: 'compilable', output_format: CLIP_OUTPUT_FORMAT, timeline, audio_tracks: [] };
+}
+
 // Apply transitions between clips
 async function applyTransitions(
   inputPaths: string[],
@@ -219,58 +284,53 @@ async function applyTransitions(
     return { success: false, error: 'Need at least 2 clips for transitions' };
   }
 
-  // Build complex filter for concatenation with xfade transitions
-  const inputArgs: string[] = [];
-  inputPaths.forEach(path => {
-    inputArgs.push('-i', path);
+  const plan = clipSequencePlan('transitions', inputPaths, clipDuration * 1000, {
+    transitions: transitions.length > 0 ? transitions : ['fade'],
+    transitionMs: 500,
   });
+  const { args } = buildFFmpegCommand(plan, { sourceUrl: inputPaths[0], outputPath, preset: 'fast' });
 
-  let filterComplex = '';
-  const transitionDuration = 0.5;
-
-  // Scale and prepare each input
-  for (let i = 0; i < inputPaths.length; i++) {
-    filterComplex += `[${i}:v]scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=30,trim=duration=${clipDuration},setpts=PTS-STARTPTS[v${i}];`;
-  }
-
-  // Apply xfade transitions
-  let lastOutput = 'v0';
-  for (let i = 1; i < inputPaths.length; i++) {
-    const transition = transitions[(i - 1) % transitions.length] || 'fade';
-    const xfadeTransition = transition === 'whip-pan' ? 'wipeleft' :
-                            transition === 'slide' ? 'slideleft' :
-                            transition === 'zoom' ? 'circlecrop' :
-                            transition === 'glitch' ? 'pixelize' : 'fade';
-    
-    const offset = (i * clipDuration) - (i * transitionDuration);
-    const outputLabel = i === inputPaths.length - 1 ? 'vout' : `t${i}`;
-    
-    filterComplex += `[${lastOutput}][v${i}]xfade=transition=${xfadeTransition}:duration=${transitionDuration}:offset=${offset}[${outputLabel}];`;
-    lastOutput = outputLabel;
-  }
-
-  // Remove trailing semicolon
-  filterComplex = filterComplex.slice(0, -1);
+  return await executeFFmpeg(args);
+}
 
-  const args = [
-    '-y',
-    ...inputArgs,
-    '-filter_complex', filterComplex,
-    '-map', '[vout]',
-    '-c:v', 'libx264',
-    '-preset', 'fast',
-    '-crf', '23',
-    outputPath,
-  ];
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+// Sizes and positions are fractions of the input, keyframe times finite and non-negative
+function isValidCropPath(path: CropPathInput): boolean {
+  return (
+    !!path &&
+    isFraction(path.width) && path.width > 0 &&
+    isFraction(path.height) && path.height > 0 &&
+    Array.isArray(path.keyframes) &&
+    path.keyframes.every(k =>
+      !!k && typeof k.t_ms === 'number' && Number.isFinite(k.t_ms) && k.t_ms >= 0 && isFraction(k.x) && isFraction(k.y)
+    )
+  );
+}
 
-  return await executeFFmpeg(args);
+// Crop window that follows a CropPath over the whole input, through the shared plan builder
+function cropPathFilter(path: CropPathInput): string | null {
+  return buildCropFilter({
+    segment_id: 'reframe',
+    asset_url: null,
+    trim_start_ms: 0,
+    trim_end_ms: 0,
+    timeline_start_ms: 0,
+    timeline_end_ms: 0,
+    speed_multiplier: 1,
+    crop: path,
+    track: 'video',
+    layer: 0,
+  });
 }
 
-// Apply multi-ratio export
+// Apply multi-ratio export (centre crop unless a reframe path is given for the ratio)
 async function exportMultiRatio(
   inputPath: string,
   outputDir: string,
-  ratios: string[]
+  ratios: string[],
+  reframePaths: Record<string, CropPathInput> = {}
 ): Promise<{ ratio: string; path: string; success: boolean }[]> {
   const results: { ratio: string; path: string; success: boolean }[] = [];
 
@@ -286,11 +346,13 @@ async function exportMultiRatio(
     if (!config) continue;
 
     const outputPath = `${outputDir}/output_${ratio.replace(':', 'x')}.mp4`;
+    const reframePath = reframePaths[ratio];
+    const crop = (reframePath && cropPathFilter(reframePath)) || config.crop;
     
     const args = [
       '-y',
       '-i', inputPath,
-      '-vf', `${config.crop},scale=${config.width}:${config.height}:force_original_aspect_ratio=decrease,pad=${config.width}:${config.height}:(ow-iw)/2:(oh-ih)/2`,
+      '-vf', `${crop},scale=${config.width}:${config.height}:force_original_aspect_ratio=decrease,pad=${config.width}:${config.height}:(ow-iw)/2:(oh-ih)/2`,
       '-c:v', 'libx264',
       '-preset', 'fast',
       '-crf', '23',
@@ -343,31 +405,9 @@ async function fullAssembly(
     return { success: false, error: 'Failed to download any input files' };
   }
 
-  // Build filter complex for assembly
-  const inputArgs: string[] = [];
-  localPaths.forEach(path => {
-    inputArgs.push('-i', path);
-  });
-
-  let filterComplex = '';
-  for (let i = 0; i < localPaths.length; i++) {
-    filterComplex += `[${i}:v]trim=duration=${clipDuration},setpts=PTS-STARTPTS,scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2[v${i}];`;
-  }
-  filterComplex += localPaths.map((_, i) => `[v${i}]`).join('') + `concat=n=${localPaths.length}:v=1:a=0[vout]`;
-
   const outputPath = `${workDir}/output_assembled.mp4`;
-  
-  const args = [
-    '-y',
-    ...inputArgs,
-    '-filter_complex', filterComplex,
-    '-map', '[vout]',
-    '-t', String(maxDuration),
-    '-c:v', 'libx264',
-    '-preset', 'fast',
-    '-crf', '23',
-    outputPath,
-  ];
+  const plan = clipSequencePlan('assembly', localPaths, clipDuration * 1000, { maxDurationMs: maxDuration * 1000 });
+  const { args } = buildFFmpegCommand(plan, { sourceUrl: localPaths[0], outputPath, preset: 'fast' });
 
   const result = await executeFFmpeg(args);
   
@@ -522,6 +562,38 @@ async function generateRealVideoWithFFmpeg(
             }
           }
         }
+      } else if (task.taskType === 'multi-ratio' && task.inputVideos[0]) {
+        const inputPath = `${workDir}/input.mp4`;
+        await downloadFile(task.inputVideos[0], inputPath);
+
+        const ratioResults = await exportMultiRatio(inputPath, workDir, ratios, task.reframePaths);
+
+        for (const ratioResult of ratioResults) {
+          if (!ratioResult.success) continue;
+          const videoData = await Deno.readFile(ratioResult.path);
+          const storagePath = `${userId}/reframed_${Date.now()}_${ratioResult.ratio.replace(':', 'x')}.mp4`;
+
+          const { error: uploadError } = await supabase.storage
+            .from('videos')
+            .upload(storagePath, videoData, {
+              contentType: 'video/mp4',
+              upsert: true,
+            });
+
+          if (!uploadError) {
+            const { data: urlData } = supabase.storage
+              .from('videos')
+              .getPublicUrl(storagePath);
+
+            results.push({
+              id: `reframed-${Date.now()}-${ratioResult.ratio.replace(':', 'x')}`,
+              status: 'completed',
+              ratio: ratioResult.ratio,
+              url: urlData.publicUrl,
+              reframed: !!task.reframePaths?.[ratioResult.ratio],
+            });
+          }
+        }
       } else if (task.taskType === 'smart-cut' && task.inputVideos[0]) {
         const inputPath = `${workDir}/input.mp4`;
         const outputPath = `${workDir}/output_trimmed.mp4`;
@@ -732,6 +804,24 @@ serve(async (req) => {
 
     console.log('[ffmpeg-creative-engine] Processing task:', task.taskType);
 
+    const invalidRatio = Object.entries(task.reframePaths || {}).find(([, path]) => !isValidCropPath(path));
+    if (invalidRatio) {
+      const error = createPipelineError(
+        task.taskType,
+        'validation_error',
+        `Invalid reframe path for ${invalidRatio[0]}: width, height, x and y must be fractions in [0, 1]`,
+        false
+      );
+      return new Response(JSON.stringify({
+        success: false,
+        error: error.message,
+        pipelineError: error,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Handle retry-single task type
     if (task.taskType === 'retry-single') {
       return await handleRetryTask(task, config, user.id, serviceClient);
@@ -0,0 +1,262 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizePhone } from '../_shared/order-form-countries.ts';
+
+/**
+ * Landing page leads
+ *
+ * POST (public)  - order form submission from a rendered landing page
+ * GET  (owner)   - ?landing_page_id=...  CSV export of the page's leads
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+interface OrderForm {
+  enabled: boolean;
+  country: string;
+  currency: string;
+  offers: { id: string; quantity: number; price: number }[];
+  cities?: string[];
+}
+
+interface LeadSubmission {
+  landing_page_id?: string;
+  name?: string;
+  phone?: string;
+  city?: string;
+  offer_id?: string | null;
+  website?: string;   // Honeypot
+  page_url?: string;
+}
+
+// Public POST limits: leads stored per client IP and per phone number
+const IP_LIMIT = { max: 5, window_ms: 10 * 60 * 1000 };
+const PHONE_LIMIT = { max: 3, window_ms: 60 * 60 * 1000 };
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function fail(status: number, error: string, message: string): Response {
+  return json({ ok: false, error, message }, status);
+}
+
+// Quoted, and free text that a spreadsheet would run as a formula is defused
+function csvCell(value: unknown, freeText = false): string {
+  let cell = value === null || value === undefined ? '' : String(value);
+  if (freeText && /^[=+\-@\t\r]/.test(cell)) cell = `'${cell}`;
+  return `"${cell.replace(/"/g, '""')}"`;
+}
+
+type Admin = ReturnType<typeof createClient>;
+
+function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || req.headers.get('x-real-ip') || null;
+}
+
+// Keyed so the stored hashes cannot be reversed by hashing every IPv4 address
+async function hmacSha256(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function recentLeads(
+  supabase: Admin,
+  column: 'client_ip_hash' | 'phone',
+  value: string,
+  windowMs: number
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('landing_page_leads')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+    .gte('created_at', new Date(Date.now() - windowMs).toISOString());
+  if (error) throw new Error(`Failed to check rate limit: ${error.message}`);
+  return count ?? 0;
+}
+
+async function submitLead(req: Request, supabase: Admin): Promise<Response> {
+  let body: LeadSubmission;
+  try {
+    body = await req.json();
+  } catch {
+    return fail(400, 'INVALID_REQUEST', 'Body must be JSON');
+  }
+
+  // Bots fill the hidden field; answer as if it worked and store nothing
+  if (body.website) return json({ ok: true });
+
+  const ip = clientIp(req);
+  const ipHashSecret = Deno.env.get('LEAD_IP_HASH_SECRET');
+  if (ip && !ipHashSecret) {
+    console.warn('[landing-page-leads] LEAD_IP_HASH_SECRET not configured, per-IP limit disabled');
+  }
+  const ipHash = ip && ipHashSecret ? await hmacSha256(ipHashSecret, ip) : null;
+  if (ipHash && await recentLeads(supabase, 'client_ip_hash', ipHash, IP_LIMIT.window_ms) >= IP_LIMIT.max) {
+    return fail(429, 'RATE_LIMITED', 'Too many orders from this connection, try again later');
+  }
+
+  if (!body.landing_page_id || !UUID.test(body.landing_page_id)) {
+    return fail(400, 'INVALID_REQUEST', 'landing_page_id is required');
+  }
+
+  const { data: page, error: pageError } = await supabase
+    .from('landing_pages')
+    .select('id, project_id, user_id, order_form')
+    .eq('id', body.landing_page_id)
+    .maybeSingle();
+
+  if (pageError) throw new Error(`Failed to load landing page: ${pageError.message}`);
+  const form = page?.order_form as OrderForm | null;
+  if (!page || !page.user_id || !form?.enabled) {
+    return fail(404, 'NOT_FOUND', 'This page does not take orders');
+  }
+
+  const name = (body.name || '').trim().slice(0, 120);
+  if (!name) return fail(400, 'INVALID_NAME', 'Name is required');
+
+  const phone = normalizePhone(body.phone || '', form.country);
+  if (!phone) return fail(400, 'INVALID_PHONE', `Not a valid ${form.country} mobile number`);
+  if (await recentLeads(supabase, 'phone', phone, PHONE_LIMIT.window_ms) >= PHONE_LIMIT.max) {
+    return fail(429, 'RATE_LIMITED', 'Too many orders for this number, try again later');
+  }
+
+  const city = (body.city || '').trim().slice(0, 80);
+  if (form.cities?.length) {
+    if (!form.cities.includes(city)) return fail(400, 'INVALID_CITY', 'City is not served');
+  } else if (!city) {
+    return fail(400, 'INVALID_CITY', 'City is required');
+  }
+
+  const offers = form.offers || [];
+  const offer = offers.find(o => o.id === body.offer_id) ?? (offers.length === 1 ? offers[0] : undefined);
+  if (offers.length > 0 && !offer) return fail(400, 'INVALID_OFFER', 'Unknown offer');
+
+  // Same phone anywhere in the project (or on this page when it has none)
+  let earlier = supabase
+    .from('landing_page_leads')
+    .select('id')
+    .eq('phone', phone)
+    .order('created_at', { ascending: true })
+    .limit(1);
+  earlier = page.project_id ? earlier.eq('project_id', page.project_id) : earlier.eq('landing_page_id', page.id);
+  const { data: previous, error: duplicateError } = await earlier;
+  if (duplicateError) throw new Error(`Failed to check duplicates: ${duplicateError.message}`);
+  const duplicateOf = previous?.[0]?.id ?? null;
+
+  const { data: lead, error } = await supabase
+    .from('landing_page_leads')
+    .insert({
+      landing_page_id: page.id,
+      project_id: page.project_id,
+      user_id: page.user_id,
+      name,
+      phone,
+      country: form.country,
+      city: city || null,
+      offer_id: offer?.id ?? null,
+      quantity: offer?.quantity ?? 1,
+      total_price: offer?.price ?? null,
+      currency: form.currency,
+      duplicate_of: duplicateOf,
+      page_url: (body.page_url || '').slice(0, 500) || null,
+      user_agent: (req.headers.get('user-agent') || '').slice(0, 300) || null,
+      client_ip_hash: ipHash,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to store lead: ${error.message}`);
+
+  console.log(`[landing-page-leads] Lead ${lead.id} for page ${page.id}${duplicateOf ? ' (duplicate phone)' : ''}`);
+  return json({ ok: true, lead_id: lead.id, duplicate: !!duplicateOf });
+}
+
+async function exportLeads(req: Request, supabase: Admin): Promise<Response> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return fail(401, 'UNAUTHORIZED', 'Missing authorization header');
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (authError || !user) return fail(401, 'UNAUTHORIZED', 'Invalid authorization');
+
+  const landingPageId = new URL(req.url).searchParams.get('landing_page_id') || '';
+  if (!UUID.test(landingPageId)) return fail(400, 'INVALID_REQUEST', 'landing_page_id is required');
+
+  const { data: page } = await supabase
+    .from('landing_pages')
+    .select('id, title, user_id')
+    .eq('id', landingPageId)
+    .maybeSingle();
+  if (!page || page.user_id !== user.id) return fail(404, 'NOT_FOUND', 'Landing page not found');
+
+  const { data: leads, error } = await supabase
+    .from('landing_page_leads')
+    .select('id, created_at, name, phone, country, city, offer_id, quantity, total_price, currency, status, duplicate_of, page_url')
+    .eq('landing_page_id', landingPageId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load leads: ${error.message}`);
+
+  const header = ['id', 'created_at', 'name', 'phone', 'country', 'city', 'offer_id', 'quantity', 'total_price', 'currency', 'status', 'duplicate', 'duplicate_of', 'page_url'];
+  const rows = (leads || []).map(lead => [
+    csvCell(lead.id),
+    csvCell(lead.created_at),
+    csvCell(lead.name, true),
+    csvCell(lead.phone),
+    csvCell(lead.country),
+    csvCell(lead.city, true),
+    csvCell(lead.offer_id),
+    csvCell(lead.quantity),
+    csvCell(lead.total_price),
+    csvCell(lead.currency),
+    csvCell(lead.status),
+    csvCell(lead.duplicate_of ? 'yes' : 'no'),
+    csvCell(lead.duplicate_of),
+    csvCell(lead.page_url, true),
+  ].join(','));
+
+  // BOM so spreadsheet apps read Arabic names as UTF-8
+  const csv = '﻿' + [header.join(','), ...rows].join('\r\n') + '\r\n';
+  return new Response(csv, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="leads-${landingPageId}.csv"`,
+    },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (req.method === 'POST') return await submitLead(req, supabase);
+    if (req.method === 'GET') return await exportLeads(req, supabase);
+    return fail(405, 'METHOD_NOT_ALLOWED', `${req.method} is not supported`);
+  } catch (error) {
+    console.error('[landing-page-leads] Error:', error);
+    return fail(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
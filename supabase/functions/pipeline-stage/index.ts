@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -100,6 +101,14 @@ serve(async (req) => {
           throw new Error(`Unknown stage: ${stage}`);
       }
 
+      // Stages report the engine and how many operations they ran; the price comes from the catalog
+      const priced = result.engine
+        ? priceUsage(result.engine, { operation_type: getOperationType(stage), duration_sec: result.duration_sec })
+        : null;
+      if (priced) {
+        result.cost = Math.round(priced.cost_usd * (result.operations ?? 1) * 1e6) / 1e6;
+      }
+
       // Update job as completed
       await supabase
         .from('pipeline_jobs')
@@ -112,18 +121,20 @@ serve(async (req) => {
         .eq('id', job.id);
 
       // Record cost transaction
-      if (result.cost) {
+      if (priced && result.cost) {
         await supabase
           .from('cost_transactions')
           .insert({
             user_id: user.id,
             project_id,
             pipeline_stage: stage_name || STAGE_NAMES[stage],
-            engine_name: result.engine || 'internal',
+            engine_name: result.engine,
             operation_type: getOperationType(stage),
             cost_usd: result.cost,
+            pricing_version: priced.pricing_version,
             tokens_used: result.tokens_used,
             duration_sec: result.duration_sec,
+            metadata: { price_id: priced.price_id, operations: result.operations ?? 1 },
           });
       }
 
@@ -201,15 +212,16 @@ async function processProductInput(supabase: any, userId: string, projectId: str
 }
 
 async function processProductContent(supabase: any, userId: string, projectId: string, input: any) {
-  return { success: true, content: input.content, cost: 0.01, engine: 'gemini' };
+  return { success: true, content: input.content, engine: 'gemini' };
 }
 
 async function processImageGeneration(supabase: any, userId: string, projectId: string, input: any) {
-  return { success: true, images: input.images || [], cost: 0.05, engine: input.engine || 'nanobanana' };
+  const images = input.images || [];
+  return { success: true, images, engine: input.engine || 'nanobanana', operations: images.length };
 }
 
 async function processLandingPage(supabase: any, userId: string, projectId: string, input: any) {
-  return { success: true, landing_page: input.content, cost: 0.01, engine: 'gemini' };
+  return { success: true, landing_page: input.content, engine: 'gemini' };
 }
 
 async function processVideoScript(supabase: any, userId: string, projectId: string, input: any) {
@@ -229,7 +241,7 @@ async function processVideoScript(supabase: any, userId: string, projectId: stri
     }
   }
 
-  return { success: true, scripts_count: scripts?.length || 0, cost: 0.02, engine: 'elevenlabs' };
+  return { success: true, scripts_count: scripts?.length || 0, engine: 'elevenlabs', operations: scripts?.length || 0 };
 }
 
 async function processSceneBuilder(supabase: any, userId: string, projectId: string, input: any) {
@@ -270,7 +282,7 @@ async function processVideoGeneration(supabase: any, userId: string, projectId:
       });
   }
 
-  return { success: true, queued: scene_ids?.length || 0, cost: 0.10, engine };
+  return { success: true, queued: scene_ids?.length || 0, engine, operations: scene_ids?.length || 0 };
 }
 
 async function processAssembly(supabase: any, userId: string, projectId: string, input: any) {
@@ -288,7 +300,7 @@ async function processAssembly(supabase: any, userId: string, projectId: string,
     .select()
     .single();
 
-  return { success: true, output_id: output?.id, cost: 0.05, engine: 'ffmpeg' };
+  return { success: true, output_id: output?.id, engine: 'ffmpeg-local' };
 }
 
 async function processExport(supabase: any, userId: string, projectId: string, input: any) {
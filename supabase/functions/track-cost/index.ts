@@ -1,56 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { priceUsage } from "../_shared/pricing-catalog.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Cost estimates per operation (in USD)
-const COST_ESTIMATES: Record<string, number> = {
-  // Text generation
-  'google/gemini-2.5-flash': 0.001,
-  'google/gemini-2.5-flash-lite': 0.0005,
-  'google/gemini-2.5-pro': 0.005,
-  'openai/gpt-5': 0.01,
-  'openai/gpt-5-mini': 0.002,
-  'openai/gpt-5-nano': 0.0008,
-  'lovable-ai': 0.001,
-  
-  // Audio
-  'elevenlabs': 0.05,
-  'openai-tts': 0.03,
-  
-  // Image
-  'nano-banana': 0.02,
-  'flux': 0.05,
-  'leonardo': 0.04,
-  
-  // Video
-  'runway': 0.50,
-  'sora': 0.75,
-  'veo': 0.40,
-  'pika': 0.25,
-  'heygen': 0.60,
-  'hailuo': 0.15,
-  'luma': 0.30,
-  'kling': 0.35,
-  
-  'default': 0.01,
-};
-
-function getEstimatedCost(engine: string): number {
-  const normalized = engine.toLowerCase().replace(/[\s_]+/g, '-');
-  
-  for (const [key, cost] of Object.entries(COST_ESTIMATES)) {
-    if (normalized.includes(key.replace(/\//g, '-')) || key.includes(normalized)) {
-      return cost;
-    }
-  }
-  
-  return COST_ESTIMATES.default;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -115,7 +71,10 @@ serve(async (req) => {
       );
     }
 
-    const finalCost = cost_usd ?? getEstimatedCost(engine_name);
+    // Caller-reported costs are kept as-is; everything else is priced from the catalog
+    const priced = priceUsage(engine_name, { operation_type, duration_sec });
+    const fromCatalog = cost_usd === undefined || cost_usd === null;
+    const finalCost = fromCatalog ? priced.cost_usd : cost_usd;
 
     const { data, error } = await supabase
       .from('cost_transactions')
@@ -126,9 +85,10 @@ serve(async (req) => {
         engine_name,
         operation_type,
         cost_usd: finalCost,
+        pricing_version: fromCatalog ? priced.pricing_version : null,
         tokens_used: tokens_used || null,
         duration_sec: duration_sec || null,
-        metadata: metadata || {},
+        metadata: fromCatalog ? { ...(metadata || {}), price_id: priced.price_id } : metadata || {},
       })
       .select()
       .single();
@@ -147,6 +107,7 @@ serve(async (req) => {
       JSON.stringify({ 
         success: true, 
         cost: finalCost,
+        pricing_version: data.pricing_version,
         transaction_id: data.id 
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,142 @@
+-- ==========================================
+-- FlowScale A/B Testing
+-- ==========================================
+-- Tests, variants linked to video_variations, and daily
+-- performance metrics. Winners are declared by the statistics
+-- engine in src/lib/ab-testing.
+
+-- ==========================================
+-- 1. Tests
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.ab_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- References
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'paused', 'completed')),
+
+  -- Decision
+  primary_metric TEXT NOT NULL DEFAULT 'ctr' CHECK (primary_metric IN ('ctr', 'cvr')),
+  stopping_rule JSONB NOT NULL DEFAULT '{}',  -- Overrides for DEFAULT_STOPPING_RULE
+  control_variant_id UUID,
+  winner_id UUID,
+  decision JSONB,                             -- Last TestDecision from the engine
+
+  -- Timing
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_tests_user ON public.ab_tests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ab_tests_running ON public.ab_tests(status) WHERE status = 'running';
+
+CREATE TRIGGER update_ab_tests_updated_at
+  BEFORE UPDATE ON public.ab_tests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ==========================================
+-- 2. Variants
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.ab_test_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES public.ab_tests(id) ON DELETE CASCADE,
+  variation_id UUID REFERENCES public.video_variations(id) ON DELETE SET NULL,
+
+  name TEXT NOT NULL,
+  video_url TEXT,
+  is_control BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_test_variants_test ON public.ab_test_variants(test_id);
+CREATE INDEX IF NOT EXISTS idx_ab_test_variants_variation ON public.ab_test_variants(variation_id) WHERE variation_id IS NOT NULL;
+
+-- Exactly one control per test
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ab_test_variants_control ON public.ab_test_variants(test_id) WHERE is_control;
+
+ALTER TABLE public.ab_tests
+  ADD CONSTRAINT ab_tests_control_variant_fkey
+    FOREIGN KEY (control_variant_id) REFERENCES public.ab_test_variants(id) ON DELETE SET NULL,
+  ADD CONSTRAINT ab_tests_winner_fkey
+    FOREIGN KEY (winner_id) REFERENCES public.ab_test_variants(id) ON DELETE SET NULL;
+
+-- ==========================================
+-- 3. Metrics
+-- ==========================================
+-- One row per variant, per day, per source. Ingestion upserts,
+-- so re-importing a day replaces it instead of double counting.
+
+CREATE TABLE IF NOT EXISTS public.ab_test_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES public.ab_tests(id) ON DELETE CASCADE,
+  variant_id UUID NOT NULL REFERENCES public.ab_test_variants(id) ON DELETE CASCADE,
+
+  metric_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual',  -- 'manual', 'meta', 'tiktok', 'google', 'snapchat', ...
+
+  impressions INTEGER NOT NULL DEFAULT 0 CHECK (impressions >= 0),
+  clicks INTEGER NOT NULL DEFAULT 0 CHECK (clicks >= 0),
+  conversions INTEGER NOT NULL DEFAULT 0 CHECK (conversions >= 0),
+  spend NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (spend >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT ab_test_metrics_unique UNIQUE (variant_id, metric_date, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_test_metrics_test ON public.ab_test_metrics(test_id, metric_date);
+
+-- ==========================================
+-- 4. Row Level Security
+-- ==========================================
+
+ALTER TABLE public.ab_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ab_test_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ab_test_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tests"
+  ON public.ab_tests FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage variants of their tests"
+  ON public.ab_test_variants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ab_tests
+      WHERE ab_tests.id = ab_test_variants.test_id
+      AND ab_tests.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.ab_tests
+      WHERE ab_tests.id = ab_test_variants.test_id
+      AND ab_tests.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage metrics of their tests"
+  ON public.ab_test_metrics FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ab_tests
+      WHERE ab_tests.id = ab_test_metrics.test_id
+      AND ab_tests.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.ab_tests
+      WHERE ab_tests.id = ab_test_metrics.test_id
+      AND ab_tests.user_id = auth.uid()
+    )
+  );
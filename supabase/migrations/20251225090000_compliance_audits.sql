@@ -0,0 +1,38 @@
+-- ==========================================
+-- FlowScale Compliance Audit Log
+-- ==========================================
+-- One row per compliance gate decision taken before an
+-- ExecutionPlan is rendered (src/lib/creative-scale/compliance-gate.ts).
+-- Append-only: users can read and insert their records, never change them.
+
+CREATE TABLE IF NOT EXISTS public.compliance_audits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- References
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  plan_id TEXT NOT NULL,
+  variation_id TEXT NOT NULL,
+
+  -- Decision
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'blocked')),
+  platform TEXT NOT NULL,
+  overall_risk TEXT NOT NULL CHECK (overall_risk IN ('safe', 'warning', 'high_risk', 'blocked')),
+  record JSONB NOT NULL,  -- Full ComplianceAuditRecord
+
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_audits_user ON public.compliance_audits(user_id, checked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_compliance_audits_plan ON public.compliance_audits(plan_id);
+
+ALTER TABLE public.compliance_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own compliance audits"
+  ON public.compliance_audits FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own compliance audits"
+  ON public.compliance_audits FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,51 @@
+-- ==========================================
+-- FlowScale UGC Batch Variants
+-- ==========================================
+-- One row per video of a UGC batch (src/services/ugc/batchOrchestrator.ts).
+-- Each row carries what the variant is made of, the composed
+-- ExecutionPlan and its RenderFlow job, so a batch survives a
+-- browser refresh and resumes where each variant stopped.
+
+CREATE TABLE IF NOT EXISTS public.ugc_batch_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- References
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  batch_id TEXT NOT NULL,
+  variant_id TEXT NOT NULL UNIQUE,
+  variant_number INTEGER NOT NULL,
+
+  -- Pipeline
+  status TEXT NOT NULL DEFAULT 'CREATED' CHECK (status IN ('CREATED', 'PROCESSING', 'RENDERING', 'DONE', 'FAILED')),
+  spec JSONB NOT NULL,   -- UGCVariantSpec: script, avatar, product images, voice
+  plan JSONB,            -- ExecutionPlan once composed
+  render_job_id TEXT,    -- RenderFlow job once submitted
+  output_url TEXT,
+  error TEXT,
+
+  -- Timing
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ugc_batch_variants_user ON public.ugc_batch_variants(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ugc_batch_variants_batch ON public.ugc_batch_variants(batch_id, variant_number);
+
+CREATE TRIGGER update_ugc_batch_variants_updated_at
+  BEFORE UPDATE ON public.ugc_batch_variants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ugc_batch_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own UGC variants"
+  ON public.ugc_batch_variants FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own UGC variants"
+  ON public.ugc_batch_variants FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own UGC variants"
+  ON public.ugc_batch_variants FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,75 @@
+-- ==========================================
+-- FlowScale Landing Page Leads
+-- ==========================================
+-- Cash-on-delivery orders from the order form that rendered
+-- landing pages embed (src/lib/landing-page). The public
+-- landing-page-leads function writes them with the service role;
+-- page owners read, update and export them.
+
+-- ==========================================
+-- 1. Order form config on the page
+-- ==========================================
+
+-- LandingPageOrderForm: country, currency, offers, cities.
+-- The function prices orders from this copy, never from the page.
+ALTER TABLE public.landing_pages
+  ADD COLUMN IF NOT EXISTS order_form JSONB;
+
+-- ==========================================
+-- 2. Leads
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.landing_page_leads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- References (project and owner are copied from the page)
+  landing_page_id UUID NOT NULL REFERENCES public.landing_pages(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Customer
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,        -- E.164
+  country TEXT NOT NULL,      -- ISO 3166-1 alpha-2
+  city TEXT,
+
+  -- Order
+  offer_id TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  total_price NUMERIC(12, 2),
+  currency TEXT,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'confirmed', 'shipped', 'delivered', 'returned', 'cancelled')),
+
+  -- Earliest lead with the same phone in the project
+  duplicate_of UUID REFERENCES public.landing_page_leads(id) ON DELETE SET NULL,
+
+  -- Source
+  page_url TEXT,
+  user_agent TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_landing_page_leads_page ON public.landing_page_leads(landing_page_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_landing_page_leads_project_phone ON public.landing_page_leads(project_id, phone);
+CREATE INDEX IF NOT EXISTS idx_landing_page_leads_page_phone ON public.landing_page_leads(landing_page_id, phone);
+
+CREATE TRIGGER update_landing_page_leads_updated_at
+  BEFORE UPDATE ON public.landing_page_leads
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.landing_page_leads ENABLE ROW LEVEL SECURITY;
+
+-- No INSERT policy: submissions only arrive through the function
+CREATE POLICY "Users can view leads of their own pages"
+  ON public.landing_page_leads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update leads of their own pages"
+  ON public.landing_page_leads FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete leads of their own pages"
+  ON public.landing_page_leads FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,14 @@
+-- ==========================================
+-- FlowScale Cost Pricing Version
+-- ==========================================
+-- Cost records priced from the pricing catalog
+-- (supabase/functions/_shared/pricing-catalog.ts) store the catalog
+-- version they used, so reports can tell which price list produced
+-- each amount after prices change. NULL means the cost was reported
+-- by the caller or predates the catalog.
+
+ALTER TABLE public.cost_transactions
+  ADD COLUMN IF NOT EXISTS pricing_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_cost_transactions_pricing_version
+  ON public.cost_transactions(pricing_version) WHERE pricing_version IS NOT NULL;
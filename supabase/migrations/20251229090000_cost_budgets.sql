@@ -0,0 +1,314 @@
+-- ==========================================
+-- FlowScale Cost Budgets
+-- ==========================================
+-- Spending limits per project and per user per calendar month (UTC),
+-- each with an optional soft (warning) and hard (stop) limit in USD.
+-- Paid operations reserve their estimated cost before they run and
+-- settle the actual cost afterwards (src/lib/budget). Spend is what
+-- cost_transactions holds plus open reservations, so concurrent jobs
+-- cannot both slip under a hard limit.
+
+-- ==========================================
+-- 1. Budgets
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.cost_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 'project' budgets cover the project's whole life, 'monthly' ones
+  -- everything the user spends in the current month
+  scope TEXT NOT NULL CHECK (scope IN ('project', 'monthly')),
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+
+  -- NULL = no limit of that kind
+  soft_limit_usd NUMERIC(12, 4) CHECK (soft_limit_usd >= 0),
+  hard_limit_usd NUMERIC(12, 4) CHECK (hard_limit_usd >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK ((scope = 'project') = (project_id IS NOT NULL)),
+  CHECK (soft_limit_usd IS NULL OR hard_limit_usd IS NULL OR soft_limit_usd <= hard_limit_usd)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_budgets_monthly ON public.cost_budgets(user_id) WHERE scope = 'monthly';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cost_budgets_project ON public.cost_budgets(project_id) WHERE scope = 'project';
+
+CREATE TRIGGER update_cost_budgets_updated_at
+  BEFORE UPDATE ON public.cost_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cost_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budgets"
+  ON public.cost_budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create budgets for their own projects"
+  ON public.cost_budgets FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update their own budgets"
+  ON public.cost_budgets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (project_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can delete their own budgets"
+  ON public.cost_budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ==========================================
+-- 2. Reservations
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.budget_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+
+  engine_name TEXT NOT NULL,
+  operation_type TEXT NOT NULL,
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL CHECK (estimated_cost_usd >= 0),
+  actual_cost_usd NUMERIC(12, 6),
+  pricing_version TEXT,
+
+  -- reserved -> settled (ran, actual cost known) | released (did not run)
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'settled', 'released')),
+  -- A client that never settles stops holding budget after this
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '1 hour',
+  settled_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_reservations_open_user
+  ON public.budget_reservations(user_id, expires_at) WHERE status = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_budget_reservations_open_project
+  ON public.budget_reservations(project_id, expires_at) WHERE status = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_cost_transactions_user_created
+  ON public.cost_transactions(user_id, created_at);
+
+CREATE TRIGGER update_budget_reservations_updated_at
+  BEFORE UPDATE ON public.budget_reservations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.budget_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Read-only to clients: reservations change only through the functions below
+CREATE POLICY "Users can view their own budget reservations"
+  ON public.budget_reservations FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ==========================================
+-- 3. Functions
+-- ==========================================
+
+-- The caller's monthly budget and, when p_project_id is given, that
+-- project's budget, with what is spent and reserved against each
+CREATE OR REPLACE FUNCTION public.get_budget_status(p_project_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  budget_id UUID,
+  scope TEXT,
+  project_id UUID,
+  soft_limit_usd NUMERIC,
+  hard_limit_usd NUMERIC,
+  spent_usd NUMERIC,
+  reserved_usd NUMERIC,
+  period_start TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_month TIMESTAMPTZ := date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.scope,
+    b.project_id,
+    b.soft_limit_usd,
+    b.hard_limit_usd,
+    COALESCE((
+      SELECT SUM(t.cost_usd) FROM public.cost_transactions t
+      WHERE t.user_id = v_user AND t.created_at >= v_month
+    ), 0)::NUMERIC,
+    COALESCE((
+      SELECT SUM(r.estimated_cost_usd) FROM public.budget_reservations r
+      WHERE r.user_id = v_user AND r.status = 'reserved' AND r.expires_at > NOW()
+    ), 0)::NUMERIC,
+    v_month
+  FROM public.cost_budgets b
+  WHERE b.user_id = v_user AND b.scope = 'monthly'
+
+  UNION ALL
+
+  SELECT
+    b.id,
+    b.scope,
+    b.project_id,
+    b.soft_limit_usd,
+    b.hard_limit_usd,
+    COALESCE((
+      SELECT SUM(t.cost_usd) FROM public.cost_transactions t
+      WHERE t.project_id = b.project_id
+    ), 0)::NUMERIC,
+    COALESCE((
+      SELECT SUM(r.estimated_cost_usd) FROM public.budget_reservations r
+      WHERE r.project_id = b.project_id AND r.status = 'reserved' AND r.expires_at > NOW()
+    ), 0)::NUMERIC,
+    NULL::TIMESTAMPTZ
+  FROM public.cost_budgets b
+  WHERE b.user_id = v_user AND b.scope = 'project' AND b.project_id = p_project_id;
+END;
+$$;
+
+-- Hold p_estimated_cost against every budget that applies. Returns
+-- { ok: true, reservation_id, warnings: [status...] } or, when a hard
+-- limit would be crossed, { ok: false, exceeded: status, requested_usd }
+-- and reserves nothing.
+CREATE OR REPLACE FUNCTION public.reserve_budget(
+  p_engine_name TEXT,
+  p_operation_type TEXT,
+  p_estimated_cost NUMERIC,
+  p_project_id UUID DEFAULT NULL,
+  p_pricing_version TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_budget RECORD;
+  v_projected NUMERIC;
+  v_warnings JSONB := '[]'::JSONB;
+  v_reservation_id UUID;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_estimated_cost IS NULL OR p_estimated_cost < 0 THEN
+    RAISE EXCEPTION 'Estimated cost must be zero or more';
+  END IF;
+  IF p_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.projects WHERE id = p_project_id AND user_id = v_user
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  -- One reservation at a time per user, so two jobs cannot both pass the
+  -- check on the same remaining budget
+  PERFORM pg_advisory_xact_lock(hashtext('cost_budget:' || v_user::TEXT));
+
+  FOR v_budget IN SELECT * FROM public.get_budget_status(p_project_id) LOOP
+    v_projected := v_budget.spent_usd + v_budget.reserved_usd + p_estimated_cost;
+
+    IF v_budget.hard_limit_usd IS NOT NULL AND v_projected > v_budget.hard_limit_usd THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'exceeded', to_jsonb(v_budget),
+        'requested_usd', p_estimated_cost
+      );
+    END IF;
+
+    IF v_budget.soft_limit_usd IS NOT NULL AND v_projected >= v_budget.soft_limit_usd THEN
+      v_warnings := v_warnings || jsonb_build_array(to_jsonb(v_budget));
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.budget_reservations (
+    user_id, project_id, engine_name, operation_type, estimated_cost_usd, pricing_version
+  )
+  VALUES (
+    v_user, p_project_id, p_engine_name, p_operation_type, p_estimated_cost, p_pricing_version
+  )
+  RETURNING id INTO v_reservation_id;
+
+  RETURN jsonb_build_object('ok', true, 'reservation_id', v_reservation_id, 'warnings', v_warnings);
+END;
+$$;
+
+-- Close a reservation with what the operation actually cost. When
+-- p_pipeline_stage is given the cost is also written to cost_transactions;
+-- leave it NULL for operations whose backend records its own cost.
+CREATE OR REPLACE FUNCTION public.settle_budget_reservation(
+  p_reservation_id UUID,
+  p_actual_cost NUMERIC DEFAULT NULL,
+  p_pipeline_stage TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reservation public.budget_reservations%ROWTYPE;
+BEGIN
+  UPDATE public.budget_reservations
+  SET status = 'settled',
+      actual_cost_usd = GREATEST(COALESCE(p_actual_cost, estimated_cost_usd), 0),
+      settled_at = NOW()
+  WHERE id = p_reservation_id AND user_id = auth.uid() AND status = 'reserved'
+  RETURNING * INTO v_reservation;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_pipeline_stage IS NOT NULL AND v_reservation.actual_cost_usd > 0 THEN
+    INSERT INTO public.cost_transactions (
+      user_id, project_id, pipeline_stage, engine_name, operation_type, cost_usd, pricing_version, metadata
+    )
+    VALUES (
+      v_reservation.user_id,
+      v_reservation.project_id,
+      p_pipeline_stage,
+      v_reservation.engine_name,
+      v_reservation.operation_type,
+      v_reservation.actual_cost_usd,
+      v_reservation.pricing_version,
+      COALESCE(p_metadata, '{}'::JSONB) || jsonb_build_object('reservation_id', v_reservation.id)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- The operation did not run; give the held amount back
+CREATE OR REPLACE FUNCTION public.release_budget_reservation(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE public.budget_reservations
+  SET status = 'released', settled_at = NOW()
+  WHERE id = p_reservation_id AND user_id = auth.uid() AND status = 'reserved';
+
+  RETURN FOUND;
+END;
+$$;
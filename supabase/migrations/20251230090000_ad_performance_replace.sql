@@ -0,0 +1,59 @@
+-- Ad performance imports: replace earlier events for the same ad and
+-- reporting window atomically (delete + insert in one transaction)
+
+-- ==========================================
+-- 1. Lookup by dedupe key
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_ad_dedupe
+  ON public.analytics_events (user_id, (event_data->>'dedupe_key'))
+  WHERE event_type = 'ad_performance';
+
+-- ==========================================
+-- 2. Functions
+-- ==========================================
+
+-- Replace the caller's ad_performance events that share a dedupe_key with
+-- p_events ([{ project_id, event_data }], event_data.dedupe_key required)
+-- and insert p_events. Runs as the caller, so RLS still applies; imports
+-- by the same user are serialized. Returns the number of events replaced.
+CREATE OR REPLACE FUNCTION public.replace_ad_performance_events(p_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_replaced INTEGER;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(p_events) <> 'array' THEN
+    RAISE EXCEPTION 'p_events must be an array';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_events) e
+    WHERE COALESCE(e->'event_data'->>'dedupe_key', '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every event needs event_data.dedupe_key';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('ad_performance:' || v_user::TEXT));
+
+  DELETE FROM public.analytics_events a
+  WHERE a.user_id = v_user
+    AND a.event_type = 'ad_performance'
+    AND a.event_data->>'dedupe_key' IN (
+      SELECT e->'event_data'->>'dedupe_key' FROM jsonb_array_elements(p_events) e
+    );
+  GET DIAGNOSTICS v_replaced = ROW_COUNT;
+
+  INSERT INTO public.analytics_events (user_id, project_id, event_type, event_data)
+  SELECT v_user, NULLIF(e->>'project_id', '')::UUID, 'ad_performance', e->'event_data'
+  FROM jsonb_array_elements(p_events) e;
+
+  RETURN v_replaced;
+END;
+$$;
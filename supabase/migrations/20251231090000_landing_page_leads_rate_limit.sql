@@ -0,0 +1,21 @@
+-- Landing page leads: per-IP and per-phone rate limits on the public
+-- order form. The function counts recent leads by these columns.
+
+-- ==========================================
+-- 1. Client fingerprint
+-- ==========================================
+
+-- HMAC-SHA256 of the submitting IP keyed with the function's LEAD_IP_HASH_SECRET,
+-- so it cannot be reversed by hashing every address; the IP itself is not stored
+ALTER TABLE public.landing_page_leads
+  ADD COLUMN IF NOT EXISTS client_ip_hash TEXT;
+
+-- ==========================================
+-- 2. Recent-lead lookups
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_landing_page_leads_ip_recent
+  ON public.landing_page_leads(client_ip_hash, created_at DESC)
+  WHERE client_ip_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_landing_page_leads_phone_recent
+  ON public.landing_page_leads(phone, created_at DESC);